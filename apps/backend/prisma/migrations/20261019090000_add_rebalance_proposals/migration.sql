@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "rebalance_proposals" (
+    "id" TEXT NOT NULL,
+    "portfolio_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "proposal_json" TEXT NOT NULL,
+    "inputs_json" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "rejection_reason" TEXT,
+    "rebalance_event_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rebalance_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rebalance_proposals_rebalance_event_id_key" ON "rebalance_proposals"("rebalance_event_id");
+
+-- CreateIndex
+CREATE INDEX "rebalance_proposals_portfolio_id_created_at_idx" ON "rebalance_proposals"("portfolio_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "rebalance_proposals" ADD CONSTRAINT "rebalance_proposals_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "portfolios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rebalance_proposals" ADD CONSTRAINT "rebalance_proposals_rebalance_event_id_fkey" FOREIGN KEY ("rebalance_event_id") REFERENCES "rebalance_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "rebalance_events" ADD COLUMN     "executed_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "rebalance_positions" ADD COLUMN     "executed_at" TIMESTAMP(3),
+ADD COLUMN     "executed_quantity" DOUBLE PRECISION,
+ADD COLUMN     "fee" DOUBLE PRECISION,
+ADD COLUMN     "fill_price" DOUBLE PRECISION,
+ADD COLUMN     "previous_avg_price" DOUBLE PRECISION,
+ADD COLUMN     "previous_quantity" DOUBLE PRECISION,
+ADD COLUMN     "proposed_price" DOUBLE PRECISION;
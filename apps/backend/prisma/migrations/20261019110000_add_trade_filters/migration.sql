@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "drift_tolerance_band" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "min_trade_notional" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "optimization_method" TEXT NOT NULL DEFAULT 'sharpe';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "covariance_estimator" TEXT NOT NULL DEFAULT 'sample',
+ADD COLUMN     "estimation_lookback_days" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ewma_half_life_days" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "mean_estimator" TEXT NOT NULL DEFAULT 'sample';
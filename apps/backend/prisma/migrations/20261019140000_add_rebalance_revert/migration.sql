@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "rebalance_events" ADD COLUMN     "previous_metrics_json" TEXT,
+ADD COLUMN     "reverted_at" TIMESTAMP(3);
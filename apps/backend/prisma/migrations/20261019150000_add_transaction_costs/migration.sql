@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "cost_benefit_mode" TEXT NOT NULL DEFAULT 'flag',
+ADD COLUMN     "risk_aversion" DOUBLE PRECISION NOT NULL DEFAULT 2,
+ADD COLUMN     "transaction_costs_json" TEXT;
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "lot_relief_method" TEXT NOT NULL DEFAULT 'fifo';
+
+-- CreateTable
+CREATE TABLE "tax_lots" (
+    "id" TEXT NOT NULL,
+    "portfolio_id" TEXT NOT NULL,
+    "asset_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "source_id" TEXT,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "remaining_quantity" DOUBLE PRECISION NOT NULL,
+    "cost_per_unit" DOUBLE PRECISION NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tax_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_lot_disposals" (
+    "id" TEXT NOT NULL,
+    "lot_id" TEXT NOT NULL,
+    "portfolio_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "source_id" TEXT,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "cost_per_unit" DOUBLE PRECISION NOT NULL,
+    "proceeds_per_unit" DOUBLE PRECISION NOT NULL,
+    "realized_gain" DOUBLE PRECISION NOT NULL,
+    "disposed_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_lot_disposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tax_lots_portfolio_id_asset_id_idx" ON "tax_lots"("portfolio_id", "asset_id");
+
+-- CreateIndex
+CREATE INDEX "tax_lots_source_id_idx" ON "tax_lots"("source_id");
+
+-- CreateIndex
+CREATE INDEX "tax_lot_disposals_portfolio_id_disposed_at_idx" ON "tax_lot_disposals"("portfolio_id", "disposed_at");
+
+-- CreateIndex
+CREATE INDEX "tax_lot_disposals_source_id_idx" ON "tax_lot_disposals"("source_id");
+
+-- AddForeignKey
+ALTER TABLE "tax_lots" ADD CONSTRAINT "tax_lots_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "portfolios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lots" ADD CONSTRAINT "tax_lots_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lot_disposals" ADD CONSTRAINT "tax_lot_disposals_lot_id_fkey" FOREIGN KEY ("lot_id") REFERENCES "tax_lots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lot_disposals" ADD CONSTRAINT "tax_lot_disposals_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "portfolios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
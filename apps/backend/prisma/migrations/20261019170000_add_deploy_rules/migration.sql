@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "deploy_rules_json" TEXT;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "monthly_contributions" ADD COLUMN     "last_deployed_at" TIMESTAMP(3),
+ADD COLUMN     "tranche_count" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "tranche_schedule" TEXT,
+ADD COLUMN     "tranches_deployed" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "contribution_tranches" (
+    "id" TEXT NOT NULL,
+    "contribution_id" TEXT NOT NULL,
+    "rebalance_event_id" TEXT,
+    "tranche_number" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "deployed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contribution_tranches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contribution_tranches_contribution_id_idx" ON "contribution_tranches"("contribution_id");
+
+-- CreateIndex
+CREATE INDEX "contribution_tranches_rebalance_event_id_idx" ON "contribution_tranches"("rebalance_event_id");
+
+-- AddForeignKey
+ALTER TABLE "contribution_tranches" ADD CONSTRAINT "contribution_tranches_contribution_id_fkey" FOREIGN KEY ("contribution_id") REFERENCES "monthly_contributions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contribution_tranches" ADD CONSTRAINT "contribution_tranches_rebalance_event_id_fkey" FOREIGN KEY ("rebalance_event_id") REFERENCES "rebalance_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "return_views_json" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "asset_weight_bounds_json" TEXT,
+ADD COLUMN     "group_weight_bounds_json" TEXT;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "position_snapshots" (
+    "id" TEXT NOT NULL,
+    "portfolio_id" TEXT NOT NULL,
+    "asset_id" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "avg_price" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "source_id" TEXT,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "position_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "position_snapshots_portfolio_id_recorded_at_idx" ON "position_snapshots"("portfolio_id", "recorded_at");
+
+-- CreateIndex
+CREATE INDEX "position_snapshots_portfolio_id_asset_id_recorded_at_idx" ON "position_snapshots"("portfolio_id", "asset_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "position_snapshots" ADD CONSTRAINT "position_snapshots_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "portfolios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "position_snapshots" ADD CONSTRAINT "position_snapshots_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: current positions open the history as of their last update
+INSERT INTO "position_snapshots" ("id", "portfolio_id", "asset_id", "quantity", "avg_price", "source", "source_id", "recorded_at")
+SELECT gen_random_uuid()::text, "portfolio_id", "asset_id", "quantity", "avg_price", 'opening', NULL, "updated_at"
+FROM "portfolio_positions"
+WHERE "quantity" > 0;
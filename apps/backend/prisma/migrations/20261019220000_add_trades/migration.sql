@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "trades" (
+    "id" TEXT NOT NULL,
+    "portfolio_id" TEXT NOT NULL,
+    "asset_id" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "fee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "executed_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "source_id" TEXT,
+    "reverses_trade_id" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trades_portfolio_id_asset_id_executed_at_idx" ON "trades"("portfolio_id", "asset_id", "executed_at");
+
+-- CreateIndex
+CREATE INDEX "trades_source_id_idx" ON "trades"("source_id");
+
+-- AddForeignKey
+ALTER TABLE "trades" ADD CONSTRAINT "trades_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "portfolios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trades" ADD CONSTRAINT "trades_asset_id_fkey" FOREIGN KEY ("asset_id") REFERENCES "assets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: current positions open the ledger as of their last update
+INSERT INTO "trades" ("id", "portfolio_id", "asset_id", "side", "quantity", "price", "fee", "executed_at", "source", "source_id", "reverses_trade_id", "note", "created_at")
+SELECT gen_random_uuid()::text, "portfolio_id", "asset_id", 'buy', "quantity", "avg_price", 0, "updated_at", 'opening', NULL, NULL, NULL, CURRENT_TIMESTAMP
+FROM "portfolio_positions"
+WHERE "quantity" > 0;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "assets" ADD COLUMN "quote_currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- CreateTable
+CREATE TABLE "fx_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "usd_rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'yahoo_finance',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fx_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_rates_currency_date_key" ON "fx_rates"("currency", "date");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "portfolio_positions" RENAME COLUMN "exposure_usd" TO "exposure";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rebalance_positions" ADD COLUMN "fx_rate" DOUBLE PRECISION;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "portfolios" ADD COLUMN     "asset_trading_settings_json" TEXT;
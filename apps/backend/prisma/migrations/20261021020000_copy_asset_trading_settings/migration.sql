@@ -0,0 +1,38 @@
+-- Per-asset trading settings moved from assets.metadata_json to
+-- portfolios.asset_trading_settings_json: copy them to every portfolio that
+-- holds or targets the asset (portfolio entries already set win)
+DO $$
+DECLARE
+  asset RECORD;
+  settings JSONB;
+BEGIN
+  FOR asset IN
+    SELECT "id", "symbol", "metadata_json" FROM "assets"
+    WHERE "metadata_json" IS NOT NULL
+  LOOP
+    BEGIN
+      SELECT jsonb_object_agg("key", "value") INTO settings
+      FROM jsonb_each(asset."metadata_json"::jsonb)
+      WHERE "key" IN ('lotSize', 'minTradeNotional', 'driftTolerance', 'commissionRate', 'commissionFixed', 'spreadBps', 'slippageBps')
+        AND jsonb_typeof("value") = 'number'
+        AND ("value" #>> '{}')::DOUBLE PRECISION >= 0
+        AND ("key" <> 'driftTolerance' OR ("value" #>> '{}')::DOUBLE PRECISION <= 1);
+    EXCEPTION WHEN others THEN
+      -- Not a JSON object: nothing to carry over
+      settings := NULL;
+    END;
+
+    CONTINUE WHEN settings IS NULL;
+
+    UPDATE "portfolios" AS p
+    SET "asset_trading_settings_json" = (
+      jsonb_build_object(asset."symbol", settings) ||
+      COALESCE(p."asset_trading_settings_json"::jsonb, '{}'::jsonb)
+    )::TEXT
+    WHERE EXISTS (
+        SELECT 1 FROM "portfolio_positions" AS pp
+        WHERE pp."portfolio_id" = p."id" AND pp."asset_id" = asset."id"
+      )
+      OR p."target_weights_json" LIKE '%"' || asset."symbol" || '"%';
+  END LOOP;
+END $$;
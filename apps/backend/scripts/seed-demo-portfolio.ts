@@ -1490,12 +1490,12 @@ async function seedSinglePortfolio(
           assetId: assetMap[symbol],
           quantity: pos.quantity,
           avgPrice: prices[symbol],
-          exposureUsd: pos.value,
+          exposure: pos.value,
         },
         update: {
           quantity: pos.quantity,
           avgPrice: prices[symbol],
-          exposureUsd: pos.value,
+          exposure: pos.value,
         },
       });
 
@@ -3,12 +3,16 @@ import { Module } from "@nestjs/common";
 import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
 import { AuthModule } from "./auth/auth.module";
+import { BrokerImportModule } from "./broker-import/broker-import.module";
 import { ContributionsModule } from "./contributions/contributions.module";
 import { CronModule } from "./cron/cron.module";
 import { PortfoliosModule } from "./portfolios/portfolios.module";
+import { PositionHistoryModule } from "./position-history/position-history.module";
 import { PositionsModule } from "./positions/positions.module";
 import { PrismaModule } from "./prisma/prisma.module";
 import { RebalanceModule } from "./rebalance/rebalance.module";
+import { TaxLotsModule } from "./tax-lots/tax-lots.module";
+import { TradesModule } from "./trades/trades.module";
 import { UsersModule } from "./users/users.module";
 
 @Module({
@@ -20,6 +24,10 @@ import { UsersModule } from "./users/users.module";
     PositionsModule,
     PortfoliosModule,
     RebalanceModule,
+    TaxLotsModule,
+    BrokerImportModule,
+    PositionHistoryModule,
+    TradesModule,
     CronModule,
   ],
   controllers: [AppController],
@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import {
+  BrokerImportPreview,
+  BrokerImportResult,
+  BrokerImportService,
+} from "./broker-import.service";
+import { BrokerFormat } from "./broker-parsers";
+import { ApplyBrokerImportDto, BrokerImportDto } from "./dto/broker-import.dto";
+
+/**
+ * Controller for importing broker statements (positions and cash movements)
+ */
+@Controller("portfolios/:portfolioId/import")
+@UseGuards(AuthGuard)
+export class BrokerImportController {
+  constructor(private readonly brokerImportService: BrokerImportService) {}
+
+  /**
+   * Supported broker formats
+   * GET /api/portfolios/:portfolioId/import/formats
+   */
+  @Get("formats")
+  getFormats(): Array<{ format: BrokerFormat; label: string }> {
+    return this.brokerImportService.getFormats();
+  }
+
+  /**
+   * Preview a statement against the current positions
+   * POST /api/portfolios/:portfolioId/import/preview
+   *
+   * @param portfolioId - Portfolio ID
+   * @param dto - Statement CSV, format and column mapping
+   * @returns Position diff and detected deposits/withdrawals
+   */
+  @Post("preview")
+  @HttpCode(200)
+  async preview(
+    @Param("portfolioId") portfolioId: string,
+    @Body() dto: BrokerImportDto
+  ): Promise<BrokerImportPreview> {
+    return this.brokerImportService.preview(portfolioId, dto);
+  }
+
+  /**
+   * Apply a previewed statement
+   * POST /api/portfolios/:portfolioId/import/apply
+   *
+   * @param portfolioId - Portfolio ID
+   * @param dto - The same statement plus what to apply
+   * @returns The preview it applied and the recorded contribution IDs
+   */
+  @Post("apply")
+  async apply(
+    @Param("portfolioId") portfolioId: string,
+    @Body() dto: ApplyBrokerImportDto
+  ): Promise<BrokerImportResult> {
+    return this.brokerImportService.apply(portfolioId, dto);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+
+import { AuthModule } from "../auth/auth.module";
+import { ContributionsModule } from "../contributions/contributions.module";
+import { PositionsModule } from "../positions/positions.module";
+
+import { BrokerImportController } from "./broker-import.controller";
+import { BrokerImportService } from "./broker-import.service";
+
+/**
+ * Module for importing broker statements
+ */
+@Module({
+  imports: [AuthModule, PositionsModule, ContributionsModule],
+  controllers: [BrokerImportController],
+  providers: [BrokerImportService],
+})
+export class BrokerImportModule {}
@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+
+import { ContributionsService } from "../contributions/contributions.service";
+import { PositionsService } from "../positions/positions.service";
+import { PrismaService } from "../prisma/prisma.service";
+
+import {
+  BROKER_PARSERS,
+  BrokerFormat,
+  ParsedCashMovement,
+  PositionChange,
+  applySymbolAliases,
+  diffPositions,
+  getBrokerParser,
+  getCashMovementNote,
+} from "./broker-parsers";
+import { ApplyBrokerImportDto, BrokerImportDto } from "./dto/broker-import.dto";
+
+/**
+ * A deposit or withdrawal found in the statement
+ */
+export interface ImportedCashMovement extends ParsedCashMovement {
+  index: number;
+  type: "deposit" | "withdrawal";
+  note: string; // Contribution note it is recorded with
+  alreadyRecorded: boolean; // A contribution with the same note and amount exists
+}
+
+export interface BrokerImportPreview {
+  portfolioId: string;
+  format: BrokerFormat;
+  broker: string;
+  positions: PositionChange[];
+  cashMovements: ImportedCashMovement[];
+  summary: {
+    added: number;
+    updated: number;
+    closed: number;
+    unchanged: number;
+    kept: number;
+    newDeposits: number; // Total of deposits not recorded yet
+    newWithdrawals: number; // Total of withdrawals not recorded yet (positive)
+  };
+}
+
+export interface BrokerImportResult {
+  preview: BrokerImportPreview;
+  positionsUpdated: boolean;
+  contributionIds: string[];
+}
+
+@Injectable()
+export class BrokerImportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly positionsService: PositionsService,
+    private readonly contributionsService: ContributionsService
+  ) {}
+
+  /**
+   * Broker formats that can be imported
+   */
+  getFormats(): Array<{ format: BrokerFormat; label: string }> {
+    return BROKER_PARSERS.map(({ format, label }) => ({ format, label }));
+  }
+
+  /**
+   * Parse a broker statement and diff it against the portfolio
+   * Nothing is stored
+   * @param portfolioId - Portfolio ID
+   * @param dto - Statement, format and column mapping
+   */
+  async preview(
+    portfolioId: string,
+    dto: BrokerImportDto
+  ): Promise<BrokerImportPreview> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: { positions: { include: { asset: true } } },
+    });
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+
+    const parser = getBrokerParser(dto.format);
+    let statement = parser.parse(dto.csv, dto.mapping);
+    if (statement.errors.length > 0) {
+      throw new BadRequestException(statement.errors.join("; "));
+    }
+    if (dto.symbolAliases) {
+      statement = applySymbolAliases(statement, dto.symbolAliases);
+    }
+    if (
+      statement.holdings.length === 0 &&
+      statement.cashMovements.length === 0
+    ) {
+      throw new BadRequestException(
+        "The statement has no positions, deposits or withdrawals"
+      );
+    }
+
+    const positions = diffPositions(
+      portfolio.positions.map((p) => ({
+        symbol: p.asset.symbol,
+        quantity: p.quantity,
+        avgPrice: p.avgPrice,
+      })),
+      statement.holdings,
+      dto.closeMissing ?? false
+    );
+
+    // Earlier imports are spotted by the note they left on the contribution
+    const notes = statement.cashMovements.map((movement) =>
+      getCashMovementNote(parser, movement)
+    );
+    const recorded = notes.length
+      ? await this.prisma.monthlyContribution.findMany({
+          where: { portfolioId, note: { in: notes } },
+          select: { note: true, amount: true },
+        })
+      : [];
+    const cashMovements: ImportedCashMovement[] = statement.cashMovements.map(
+      (movement, index) => ({
+        ...movement,
+        index,
+        type: movement.amount > 0 ? "deposit" : "withdrawal",
+        note: notes[index],
+        alreadyRecorded: recorded.some(
+          (c) =>
+            c.note === notes[index] &&
+            Math.abs(c.amount - movement.amount) < 0.005
+        ),
+      })
+    );
+
+    const count = (action: PositionChange["action"]) =>
+      positions.filter((p) => p.action === action).length;
+    const pending = cashMovements.filter((m) => !m.alreadyRecorded);
+
+    return {
+      portfolioId,
+      format: parser.format,
+      broker: parser.label,
+      positions,
+      cashMovements,
+      summary: {
+        added: count("add"),
+        updated: count("update"),
+        closed: count("close"),
+        unchanged: count("unchanged"),
+        kept: count("keep"),
+        newDeposits: pending
+          .filter((m) => m.amount > 0)
+          .reduce((sum, m) => sum + m.amount, 0),
+        newWithdrawals: pending
+          .filter((m) => m.amount < 0)
+          .reduce((sum, m) => sum - m.amount, 0),
+      },
+    };
+  }
+
+  /**
+   * Apply a previewed statement
+   * Positions go through PositionsService.upsert and each selected cash
+   * movement through ContributionsService.recordContribution
+   * @param portfolioId - Portfolio ID
+   * @param dto - The previewed statement and what to apply
+   */
+  async apply(
+    portfolioId: string,
+    dto: ApplyBrokerImportDto
+  ): Promise<BrokerImportResult> {
+    const preview = await this.preview(portfolioId, dto);
+
+    const selected = Array.from(
+      new Set(
+        dto.cashMovements ??
+          preview.cashMovements
+            .filter((m) => !m.alreadyRecorded)
+            .map((m) => m.index)
+      )
+    ).sort((a, b) => a - b);
+    for (const index of selected) {
+      const movement = preview.cashMovements[index];
+      if (!movement) {
+        throw new BadRequestException(
+          `Cash movement ${index} is not in the statement`
+        );
+      }
+      if (movement.alreadyRecorded) {
+        throw new BadRequestException(
+          `Cash movement ${index} (${movement.note}) is already recorded`
+        );
+      }
+    }
+
+    let positionsUpdated = false;
+    const changed = preview.positions.some((p) =>
+      ["add", "update", "close"].includes(p.action)
+    );
+    if (dto.applyPositions !== false && changed) {
+      // upsert stores `source` as the asset type, so existing types are kept
+      const assets = await this.prisma.asset.findMany({
+        where: { symbol: { in: preview.positions.map((p) => p.symbol) } },
+        select: { symbol: true, assetType: true },
+      });
+      const assetTypes = new Map(assets.map((a) => [a.symbol, a.assetType]));
+
+      await this.positionsService.upsert(
+        {
+          portfolioId,
+          positions: preview.positions.map((p) => ({
+            symbol: p.symbol,
+            quantity: p.importedQuantity,
+            // 0 lets upsert fetch the current price
+            avgPrice: p.importedAvgPrice ?? p.currentAvgPrice ?? 0,
+            source: assetTypes.get(p.symbol) || "unknown",
+          })),
+        },
+        "import"
+      );
+      positionsUpdated = true;
+    }
+
+    // Recorded in statement order so equity follows the broker's history
+    const contributionIds: string[] = [];
+    for (const index of selected) {
+      const movement = preview.cashMovements[index];
+      const contribution = await this.contributionsService.recordContribution({
+        portfolioId,
+        amount: movement.amount,
+        note: movement.note,
+      });
+      contributionIds.push(contribution.id);
+    }
+
+    console.log(
+      `[BrokerImportService] ${preview.broker} import applied to ${portfolioId}: ${
+        positionsUpdated ? "positions updated" : "positions unchanged"
+      }, ${contributionIds.length} contribution(s) recorded`
+    );
+
+    return { preview, positionsUpdated, contributionIds };
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * Broker statement parsers
+ * Each broker format turns a CSV export into holdings and cash movements;
+ * the import service diffs them against the portfolio. Add a format by
+ * writing a BrokerParser and listing it in BROKER_PARSERS. Like the strategy
+ * engine, this file must stay free of Nest and Prisma imports.
+ */
+
+/**
+ * Quantities below this are treated as zero
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+export const BROKER_FORMATS = ["generic", "interactive_brokers"] as const;
+
+export type BrokerFormat = (typeof BROKER_FORMATS)[number];
+
+/**
+ * Column names of the generic CSV format
+ * Rows with a symbol are holdings; rows without one but with an amount are
+ * cash movements (positive = deposit, negative = withdrawal)
+ */
+export interface CsvColumnMapping {
+  symbol: string;
+  quantity: string;
+  avgPrice?: string;
+  date?: string;
+  amount?: string;
+  description?: string;
+  delimiter?: string; // Default ","
+  decimalSeparator?: "." | ","; // Default "."
+}
+
+/**
+ * A position as reported by the broker
+ */
+export interface ParsedHolding {
+  symbol: string;
+  quantity: number;
+  avgPrice: number | null; // null when the statement has no cost
+}
+
+/**
+ * A deposit (amount > 0) or withdrawal (amount < 0)
+ */
+export interface ParsedCashMovement {
+  date: string | null; // YYYY-MM-DD
+  amount: number;
+  description: string;
+}
+
+export interface ParsedStatement {
+  holdings: ParsedHolding[];
+  cashMovements: ParsedCashMovement[];
+  errors: string[]; // One per unreadable row (the import is refused)
+}
+
+export interface BrokerParser {
+  format: BrokerFormat;
+  label: string;
+  parse(csv: string, mapping?: CsvColumnMapping): ParsedStatement;
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Handles quoted fields (with "" escapes and line breaks), CRLF and a BOM
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse a number as exported by brokers ("1,234.50", "(12.5)", "$ 40")
+ * @returns null for an empty or unreadable value
+ */
+export function parseAmount(
+  value: string | undefined,
+  decimalSeparator: "." | "," = "."
+): number | null {
+  if (value === undefined) return null;
+  let text = value.trim().replace(/[\s$€£]/g, "");
+  if (text === "" || text === "--") return null;
+
+  let negative = false;
+  if (text.startsWith("(") && text.endsWith(")")) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text =
+    decimalSeparator === ","
+      ? text.replace(/\./g, "").replace(",", ".")
+      : text.replace(/,/g, "");
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+
+  const number = Number(text);
+  return negative ? -number : number;
+}
+
+/**
+ * Normalize a statement date to YYYY-MM-DD
+ * Accepts ISO dates, "20260915" and day-first "15/09/2026"
+ */
+export function parseStatementDate(value: string | undefined): string | null {
+  const text = value?.trim() ?? "";
+  let match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(
+      2,
+      "0"
+    )}`;
+  }
+  return null;
+}
+
+/**
+ * Merge rows of the same symbol (brokers may export one row per lot)
+ * The average price is weighted by quantity; unknown if any row lacks it
+ */
+export function mergeHoldings(holdings: ParsedHolding[]): ParsedHolding[] {
+  const merged = new Map<string, ParsedHolding>();
+  for (const holding of holdings) {
+    const existing = merged.get(holding.symbol);
+    if (!existing) {
+      merged.set(holding.symbol, { ...holding });
+      continue;
+    }
+    const quantity = existing.quantity + holding.quantity;
+    existing.avgPrice =
+      existing.avgPrice !== null &&
+      holding.avgPrice !== null &&
+      quantity > QUANTITY_EPSILON
+        ? (existing.avgPrice * existing.quantity +
+            holding.avgPrice * holding.quantity) /
+          quantity
+        : null;
+    existing.quantity = quantity;
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Generic CSV: one header row, columns named by the mapping
+ */
+export const genericCsvParser: BrokerParser = {
+  format: "generic",
+  label: "CSV genérico",
+  parse(csv, mapping) {
+    const holdings: ParsedHolding[] = [];
+    const cashMovements: ParsedCashMovement[] = [];
+    const errors: string[] = [];
+    if (!mapping) {
+      return {
+        holdings,
+        cashMovements,
+        errors: ["mapping is required for the generic format"],
+      };
+    }
+
+    const [header, ...rows] = parseCsv(csv, mapping.delimiter || ",");
+    if (!header) {
+      return { holdings, cashMovements, errors: ["The file is empty"] };
+    }
+    const columns = header.map((name) => name.trim());
+    const columnIndex: Partial<Record<keyof CsvColumnMapping, number>> = {};
+    for (const key of [
+      "symbol",
+      "quantity",
+      "avgPrice",
+      "date",
+      "amount",
+      "description",
+    ] as const) {
+      const name = mapping[key];
+      if (!name) continue;
+      const index = columns.indexOf(name.trim());
+      if (index === -1) {
+        errors.push(`Column "${name}" (${key}) not found in the header`);
+      }
+      columnIndex[key] = index;
+    }
+    if (errors.length > 0) return { holdings, cashMovements, errors };
+
+    const get = (row: string[], key: keyof CsvColumnMapping) =>
+      columnIndex[key] !== undefined ? row[columnIndex[key]!] : undefined;
+
+    rows.forEach((row, i) => {
+      const line = i + 2;
+      const symbol = get(row, "symbol")?.trim().toUpperCase() || "";
+      if (symbol) {
+        const quantity = parseAmount(
+          get(row, "quantity"),
+          mapping.decimalSeparator
+        );
+        if (quantity === null || quantity < 0) {
+          errors.push(
+            `Row ${line}: quantity "${get(row, "quantity") ?? ""}" is not a valid number`
+          );
+          return;
+        }
+        holdings.push({
+          symbol,
+          quantity,
+          avgPrice: parseAmount(get(row, "avgPrice"), mapping.decimalSeparator),
+        });
+        return;
+      }
+
+      const amount = parseAmount(get(row, "amount"), mapping.decimalSeparator);
+      if (amount !== null && amount !== 0) {
+        cashMovements.push({
+          date: parseStatementDate(get(row, "date")),
+          amount,
+          description: get(row, "description")?.trim() || "",
+        });
+      }
+    });
+
+    return { holdings: mergeHoldings(holdings), cashMovements, errors };
+  },
+};
+
+/**
+ * Interactive Brokers activity statement (CSV export)
+ * Every line starts with its section and row kind, e.g.
+ * "Open Positions,Header,DataDiscriminator,Asset Category,Currency,Symbol,Quantity,..."
+ * Only the "Open Positions" summary rows and "Deposits & Withdrawals" are read
+ */
+export const interactiveBrokersParser: BrokerParser = {
+  format: "interactive_brokers",
+  label: "Interactive Brokers",
+  parse(csv) {
+    const holdings: ParsedHolding[] = [];
+    const cashMovements: ParsedCashMovement[] = [];
+    const errors: string[] = [];
+    const headers = new Map<string, string[]>();
+
+    parseCsv(csv).forEach((row, i) => {
+      const line = i + 1;
+      const [section, kind, ...fields] = row.map((value) => value.trim());
+      if (kind === "Header") {
+        headers.set(section, fields);
+        return;
+      }
+      if (kind !== "Data") return;
+
+      const header = headers.get(section);
+      if (!header) return;
+      const field = (name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? undefined : fields[index];
+      };
+
+      if (section === "Open Positions") {
+        // Lot rows repeat the summary; totals have no symbol
+        const discriminator = field("DataDiscriminator");
+        if (discriminator && discriminator !== "Summary") return;
+        const symbol = field("Symbol")?.toUpperCase();
+        if (!symbol || (field("Asset Category") || "").startsWith("Total")) {
+          return;
+        }
+        const quantity = parseAmount(field("Quantity"));
+        if (quantity === null || quantity < 0) {
+          errors.push(
+            `Line ${line}: quantity "${field("Quantity") ?? ""}" of ${symbol} is not a valid number`
+          );
+          return;
+        }
+        holdings.push({
+          symbol,
+          quantity,
+          avgPrice: parseAmount(field("Cost Price")),
+        });
+      } else if (section === "Deposits & Withdrawals") {
+        if ((field("Currency") || "").startsWith("Total")) return;
+        const amount = parseAmount(field("Amount"));
+        if (amount === null) {
+          errors.push(
+            `Line ${line}: amount "${field("Amount") ?? ""}" is not a valid number`
+          );
+          return;
+        }
+        if (amount !== 0) {
+          cashMovements.push({
+            date: parseStatementDate(field("Settle Date")),
+            amount,
+            description: field("Description") || "",
+          });
+        }
+      }
+    });
+
+    return { holdings: mergeHoldings(holdings), cashMovements, errors };
+  },
+};
+
+export const BROKER_PARSERS: BrokerParser[] = [
+  genericCsvParser,
+  interactiveBrokersParser,
+];
+
+export function getBrokerParser(format: BrokerFormat): BrokerParser {
+  const parser = BROKER_PARSERS.find((p) => p.format === format);
+  if (!parser) {
+    throw new Error(`Unknown broker format: ${format}`);
+  }
+  return parser;
+}
+
+/**
+ * Replace broker symbols with the app's (e.g. "BTC" → "BTC-USD")
+ */
+export function applySymbolAliases(
+  statement: ParsedStatement,
+  aliases: Record<string, string>
+): ParsedStatement {
+  const normalized = Object.fromEntries(
+    Object.entries(aliases).map(([from, to]) => [
+      from.trim().toUpperCase(),
+      to.trim().toUpperCase(),
+    ])
+  );
+  return {
+    ...statement,
+    holdings: mergeHoldings(
+      statement.holdings.map((holding) => ({
+        ...holding,
+        symbol: normalized[holding.symbol] || holding.symbol,
+      }))
+    ),
+  };
+}
+
+export type PositionChangeAction =
+  | "add" // Not held, in the statement
+  | "update" // Held, quantity differs
+  | "unchanged"
+  | "close" // Held, quantity 0 or missing from the statement (closeMissing)
+  | "keep"; // Held, missing from the statement and left as is
+
+export interface PositionChange {
+  symbol: string;
+  action: PositionChangeAction;
+  currentQuantity: number;
+  importedQuantity: number; // Quantity after the import
+  quantityChange: number;
+  currentAvgPrice: number | null;
+  importedAvgPrice: number | null;
+}
+
+/**
+ * Diff the statement holdings against the current positions
+ * @param current - Current positions (symbol, quantity, avgPrice)
+ * @param holdings - Holdings read from the statement
+ * @param closeMissing - Close held positions the statement does not list
+ */
+export function diffPositions(
+  current: Array<{ symbol: string; quantity: number; avgPrice: number }>,
+  holdings: ParsedHolding[],
+  closeMissing: boolean
+): PositionChange[] {
+  const imported = new Map(holdings.map((h) => [h.symbol, h]));
+  const changes: PositionChange[] = [];
+
+  for (const position of current) {
+    const holding = imported.get(position.symbol);
+    if (!holding) {
+      changes.push({
+        symbol: position.symbol,
+        action: closeMissing ? "close" : "keep",
+        currentQuantity: position.quantity,
+        importedQuantity: closeMissing ? 0 : position.quantity,
+        quantityChange: closeMissing ? -position.quantity : 0,
+        currentAvgPrice: position.avgPrice,
+        importedAvgPrice: closeMissing ? null : position.avgPrice,
+      });
+      continue;
+    }
+    const quantityChange = holding.quantity - position.quantity;
+    changes.push({
+      symbol: position.symbol,
+      action:
+        holding.quantity <= QUANTITY_EPSILON
+          ? "close"
+          : Math.abs(quantityChange) <= QUANTITY_EPSILON
+            ? "unchanged"
+            : "update",
+      currentQuantity: position.quantity,
+      importedQuantity: holding.quantity,
+      quantityChange,
+      currentAvgPrice: position.avgPrice,
+      importedAvgPrice: holding.avgPrice,
+    });
+  }
+
+  const held = new Set(current.map((p) => p.symbol));
+  for (const holding of holdings) {
+    if (held.has(holding.symbol) || holding.quantity <= QUANTITY_EPSILON) {
+      continue;
+    }
+    changes.push({
+      symbol: holding.symbol,
+      action: "add",
+      currentQuantity: 0,
+      importedQuantity: holding.quantity,
+      quantityChange: holding.quantity,
+      currentAvgPrice: null,
+      importedAvgPrice: holding.avgPrice,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Contribution note of an imported cash movement
+ * Also used to spot movements recorded by an earlier import
+ */
+export function getCashMovementNote(
+  parser: BrokerParser,
+  movement: ParsedCashMovement
+): string {
+  return [`Importado de ${parser.label}`, movement.date, movement.description]
+    .filter(Boolean)
+    .join(" · ");
+}
@@ -0,0 +1,100 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+  ValidateNested,
+} from "class-validator";
+
+import { BROKER_FORMATS, BrokerFormat } from "../broker-parsers";
+
+/**
+ * Header names of the generic CSV columns
+ */
+export class CsvColumnMappingDto {
+  @IsString()
+  @IsNotEmpty()
+  symbol!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  quantity!: string;
+
+  @IsOptional()
+  @IsString()
+  avgPrice?: string;
+
+  // Cash movement columns (rows without a symbol)
+  @IsOptional()
+  @IsString()
+  date?: string;
+
+  @IsOptional()
+  @IsString()
+  amount?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  delimiter?: string; // Default ","
+
+  @IsOptional()
+  @IsIn([".", ","])
+  decimalSeparator?: "." | ","; // Default "."
+}
+
+/**
+ * Broker statement to preview against the portfolio
+ */
+export class BrokerImportDto {
+  @IsIn(BROKER_FORMATS)
+  format!: BrokerFormat;
+
+  @IsString()
+  @IsNotEmpty()
+  csv!: string;
+
+  // Required for the generic format
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CsvColumnMappingDto)
+  mapping?: CsvColumnMappingDto;
+
+  // Broker symbol → app symbol, e.g. { "BTC": "BTC-USD" }
+  @IsOptional()
+  @IsObject()
+  symbolAliases?: Record<string, string>;
+
+  // Close held positions the statement does not list (default: keep them)
+  @IsOptional()
+  @IsBoolean()
+  closeMissing?: boolean;
+}
+
+/**
+ * Confirmation of a previewed import (the same statement is sent again)
+ */
+export class ApplyBrokerImportDto extends BrokerImportDto {
+  @IsOptional()
+  @IsBoolean()
+  applyPositions?: boolean; // Default true
+
+  // Indexes of the preview cash movements to record as contributions
+  // Default: all that are not already recorded
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  cashMovements?: number[];
+}
@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 
 import { AuthModule } from '../auth/auth.module';
+import { FxModule } from '../fx/fx.module';
 
 import { ContributionsController } from './contributions.controller';
 import { ContributionsService } from './contributions.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, FxModule],
   controllers: [ContributionsController],
   providers: [ContributionsService],
   exports: [ContributionsService],
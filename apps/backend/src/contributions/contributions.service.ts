@@ -1,16 +1,22 @@
 import { Injectable, NotFoundException } from "@nestjs/common";
 
+import { FxService } from "../fx/fx.service";
 import { PrismaService } from "../prisma/prisma.service";
 
 import { CreateContributionDto } from "./dto/create-contribution.dto";
 
 @Injectable()
 export class ContributionsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly fxService: FxService
+  ) {}
 
   /**
    * Record a contribution and immediately update equity
    * When you register a contribution, it goes directly to equity - no "pending" state
+   * With tranches > 1 it stays undeployed: the cash is in equity, but the
+   * rebalance only leverages each tranche once it is due (staged deployment)
    */
   async recordContribution(dto: CreateContributionDto) {
     const portfolio = await this.prisma.portfolio.findUnique({
@@ -46,30 +52,36 @@ export class ContributionsService {
     const contributedAt = new Date(); // Current timestamp with full date and time
 
     // Create contribution record - mark as deployed immediately since it goes to equity
+    // Staged contributions are deployed tranche by tranche by accepted rebalances
+    const trancheCount = dto.tranches ?? 1;
+    const staged = trancheCount > 1;
     const contribution = await this.prisma.monthlyContribution.create({
       data: {
         portfolioId: dto.portfolioId,
         amount: dto.amount,
         note: dto.note,
         contributedAt: contributedAt, // Use current timestamp (DateTime with full date and time)
-        deployed: true, // Immediately deployed - goes to equity
-        deployedAmount: dto.amount,
-        deploymentReason: "manual",
+        deployed: !staged, // Immediately deployed - goes to equity
+        deployedAmount: staged ? 0 : dto.amount,
+        deploymentReason: staged ? null : "manual",
+        trancheCount,
+        trancheSchedule: staged ? (dto.trancheSchedule ?? "weekly") : null,
       },
     });
 
-    // Calculate current exposure from positions
+    // Calculate current exposure from positions (in the base currency)
     let exposure = 0;
     const latestPrices: Record<string, number> = {};
+    const valuation = await this.fxService.getValuation(
+      portfolio.positions.map((position) => position.assetId),
+      portfolio.baseCurrency
+    );
 
     for (const position of portfolio.positions) {
-      const latestPrice = await this.prisma.assetPrice.findFirst({
-        where: { assetId: position.assetId },
-        orderBy: { date: "desc" },
-      });
-      const price = latestPrice?.close || position.avgPrice;
+      const price = valuation.prices[position.assetId] || position.avgPrice;
       latestPrices[position.assetId] = price;
-      exposure += position.quantity * price;
+      exposure +=
+        position.quantity * price * (valuation.fxRates[position.assetId] ?? 1);
     }
 
     // Current equity (before contribution)
@@ -159,7 +171,8 @@ export class ContributionsService {
     // Calculate current portfolio composition
     const composition = portfolio.positions.map((pos: any) => {
       const price = latestPrices[pos.assetId] || pos.avgPrice;
-      const value = pos.quantity * price;
+      const value =
+        pos.quantity * price * (valuation.fxRates[pos.assetId] ?? 1);
       const weight = exposure > 0 ? value / exposure : 0;
 
       return {
@@ -248,6 +261,11 @@ export class ContributionsService {
     });
 
     console.log(`[ContributionsService] Contribution recorded: $${dto.amount}`);
+    if (staged) {
+      console.log(
+        `  - Staged in ${trancheCount} ${contribution.trancheSchedule} tranches`
+      );
+    }
     console.log(`  - Previous equity: $${currentEquity.toFixed(2)}`);
     console.log(`  - New equity: $${newEquity.toFixed(2)}`);
     console.log(
@@ -1,4 +1,19 @@
-import { IsNumber, IsOptional, IsString, IsUUID, Min } from 'class-validator';
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+import {
+  MAX_TRANCHES,
+  TRANCHE_SCHEDULES,
+  TrancheSchedule,
+} from '../../strategy/staged-deployment';
 
 export class CreateContributionDto {
   @IsUUID()
@@ -15,5 +30,15 @@ export class CreateContributionDto {
   @IsOptional()
   @IsString()
   comment?: string;
-}
 
+  // Staged deployment: split into tranches (1 = deploy at once)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_TRANCHES)
+  tranches?: number;
+
+  @IsOptional()
+  @IsIn(TRANCHE_SCHEDULES)
+  trancheSchedule?: TrancheSchedule; // Default "weekly"
+}
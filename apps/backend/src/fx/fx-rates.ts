@@ -0,0 +1,187 @@
+/**
+ * FX rates
+ * Rates are stored as USD per unit of a currency, one per day, so any pair
+ * is crossed through USD. Asset prices stay in the asset's quote currency;
+ * values are converted into the portfolio's base currency with the last
+ * rate up to the valuation day. Used by the services and by the infra jobs,
+ * so this file must stay free of Nest and Prisma imports.
+ */
+
+/**
+ * Currency the rates are quoted against (never stored)
+ */
+export const FX_PIVOT_CURRENCY = "USD";
+
+export interface FxRatePoint {
+  currency: string;
+  date: Date;
+  usdRate: number; // USD per unit of currency
+}
+
+/**
+ * Rates of each currency sorted by date
+ */
+export type FxRateTable = Map<string, FxRatePoint[]>;
+
+/**
+ * Currency an asset's prices are stored in, and the factor that converts
+ * the prices Yahoo Finance reports into it
+ */
+export interface QuoteCurrency {
+  currency: string;
+  priceScale: number; // Stored price = reported price × priceScale
+}
+
+/**
+ * Minor units Yahoo Finance quotes some exchanges in (LSE in pence, JSE in
+ * cents, TASE in agorot); case-sensitive, since "GBp" upper-cased is GBP
+ */
+const MINOR_CURRENCY_UNITS: Record<string, QuoteCurrency> = {
+  GBp: { currency: "GBP", priceScale: 0.01 },
+  GBX: { currency: "GBP", priceScale: 0.01 },
+  ZAc: { currency: "ZAR", priceScale: 0.01 },
+  ZAC: { currency: "ZAR", priceScale: 0.01 },
+  ILA: { currency: "ILS", priceScale: 0.01 },
+};
+
+function getMinorUnit(code: string): QuoteCurrency | null {
+  const trimmed = code.trim();
+  return Object.prototype.hasOwnProperty.call(MINOR_CURRENCY_UNITS, trimmed)
+    ? MINOR_CURRENCY_UNITS[trimmed]
+    : null;
+}
+
+/**
+ * Upper-case a currency code, or null if it is not a 3-letter code
+ * Minor-unit codes are not currencies (see parseQuoteCurrency)
+ */
+export function normalizeCurrency(code: unknown): string | null {
+  if (typeof code !== "string" || getMinorUnit(code)) return null;
+  const normalized = code.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Currency of a price reported by Yahoo Finance (chart meta.currency)
+ * Minor units map to their major currency with a 1/100 price scale
+ * @returns null if the code is not valid
+ */
+export function parseQuoteCurrency(code: unknown): QuoteCurrency | null {
+  const minorUnit = typeof code === "string" ? getMinorUnit(code) : null;
+  if (minorUnit) return minorUnit;
+  const currency = normalizeCurrency(code);
+  return currency ? { currency, priceScale: 1 } : null;
+}
+
+/**
+ * Yahoo Finance symbol of the USD rate of a currency (e.g. EURUSD=X)
+ */
+export function getFxSymbol(currency: string): string {
+  return `${currency}${FX_PIVOT_CURRENCY}=X`;
+}
+
+/**
+ * Group rates by currency, sorted by date
+ * @param points - Rates in any order
+ */
+export function buildFxRateTable(points: FxRatePoint[]): FxRateTable {
+  const table: FxRateTable = new Map();
+  for (const point of points) {
+    if (!(point.usdRate > 0)) continue;
+    const series = table.get(point.currency) ?? [];
+    series.push(point);
+    table.set(point.currency, series);
+  }
+  for (const series of table.values()) {
+    series.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+  return table;
+}
+
+/**
+ * USD per unit of a currency at a date
+ * The last rate up to the date; before the series starts, its first rate
+ * @param date - Inclusive (default: latest rate)
+ * @returns null if the currency has no rates
+ */
+export function getUsdRate(
+  table: FxRateTable,
+  currency: string,
+  date?: Date
+): number | null {
+  if (currency === FX_PIVOT_CURRENCY) return 1;
+  const series = table.get(currency);
+  if (!series || series.length === 0) return null;
+  if (!date) return series[series.length - 1].usdRate;
+
+  // Binary search for the last point on or before the date
+  let low = 0;
+  let high = series.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (series[middle].date.getTime() <= date.getTime()) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return series[Math.max(found, 0)].usdRate;
+}
+
+/**
+ * Units of `to` per unit of `from` at a date
+ * @returns null if either currency has no rates
+ */
+export function getFxRate(
+  table: FxRateTable,
+  from: string,
+  to: string,
+  date?: Date
+): number | null {
+  if (from === to) return 1;
+  const fromUsd = getUsdRate(table, from, date);
+  const toUsd = getUsdRate(table, to, date);
+  if (fromUsd === null || toUsd === null) return null;
+  return fromUsd / toUsd;
+}
+
+/**
+ * Currencies needed to convert the quote currencies into a base currency
+ * (USD and the base currency itself need no conversion of their own)
+ */
+export function getCurrenciesToLoad(
+  quoteCurrencies: string[],
+  baseCurrency: string
+): string[] {
+  const currencies = new Set<string>();
+  for (const currency of quoteCurrencies) {
+    if (currency === baseCurrency) continue;
+    currencies.add(currency);
+    currencies.add(baseCurrency);
+  }
+  currencies.delete(FX_PIVOT_CURRENCY);
+  return Array.from(currencies).sort();
+}
+
+/**
+ * Rate of each quote currency into a base currency at a date
+ * Currencies without rates are valued 1:1 and listed in `missing`
+ * @param date - Inclusive (default: latest rates)
+ */
+export function getConversionRates(
+  table: FxRateTable,
+  quoteCurrencies: string[],
+  baseCurrency: string,
+  date?: Date
+): { rates: Record<string, number>; missing: string[] } {
+  const rates: Record<string, number> = {};
+  const missing: string[] = [];
+  for (const currency of new Set(quoteCurrencies)) {
+    const rate = getFxRate(table, currency, baseCurrency, date);
+    if (rate === null) missing.push(currency);
+    rates[currency] = rate ?? 1;
+  }
+  return { rates, missing: missing.sort() };
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+
+import { FxService } from "./fx.service";
+
+/**
+ * Module for FX rates and conversion into a portfolio's base currency
+ */
+@Module({
+  providers: [FxService],
+  exports: [FxService],
+})
+export class FxModule {}
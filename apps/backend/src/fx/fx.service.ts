@@ -0,0 +1,261 @@
+import { Injectable } from "@nestjs/common";
+
+import { PrismaService } from "../prisma/prisma.service";
+
+import {
+  FX_PIVOT_CURRENCY,
+  FxRateTable,
+  QuoteCurrency,
+  buildFxRateTable,
+  getConversionRates,
+  getCurrenciesToLoad,
+  getFxSymbol,
+  parseQuoteCurrency,
+} from "./fx-rates";
+
+/**
+ * Stored rates starting within this many days of the start count as
+ * covering it (weekends and holidays have no rate)
+ */
+const HISTORY_GAP_DAYS = 7;
+
+/**
+ * Conversion of assets into a base currency
+ */
+export interface AssetFxRates {
+  baseCurrency: string;
+  quoteCurrencies: Record<string, string>; // By assetId
+  fxRates: Record<string, number>; // Base currency per unit of the quote currency, by assetId
+  missingCurrencies: string[]; // No rate stored, valued 1:1
+}
+
+/**
+ * Latest closes and the rates that value them in a base currency
+ */
+export interface AssetValuation extends AssetFxRates {
+  prices: Record<string, number>; // Last close in the quote currency, by assetId (missing = no price)
+}
+
+@Injectable()
+export class FxService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Load the stored rates of some currencies
+   * @param currencies - Currency codes (USD needs none)
+   * @param to - Last day to load (inclusive, default all)
+   */
+  async getRateTable(currencies: string[], to?: Date): Promise<FxRateTable> {
+    if (currencies.length === 0) return new Map();
+
+    const rows = await this.prisma.fxRate.findMany({
+      where: {
+        currency: { in: currencies },
+        ...(to ? { date: { lte: to } } : {}),
+      },
+      select: { currency: true, date: true, usdRate: true },
+    });
+    return buildFxRateTable(rows);
+  }
+
+  /**
+   * Rate of each asset's quote currency into a base currency
+   * @param assetIds - Asset IDs
+   * @param baseCurrency - Portfolio base currency
+   * @param date - Valuation day (inclusive, default latest rates)
+   */
+  async getAssetRates(
+    assetIds: string[],
+    baseCurrency: string,
+    date?: Date
+  ): Promise<AssetFxRates & { table: FxRateTable }> {
+    const assets = await this.prisma.asset.findMany({
+      where: { id: { in: assetIds } },
+      select: { id: true, quoteCurrency: true },
+    });
+    const quoteCurrencies: Record<string, string> = Object.fromEntries(
+      assets.map((asset) => [asset.id, asset.quoteCurrency])
+    );
+    const table = await this.getRateTable(
+      getCurrenciesToLoad(Object.values(quoteCurrencies), baseCurrency),
+      date
+    );
+
+    const { rates, missing } = getConversionRates(
+      table,
+      Object.values(quoteCurrencies),
+      baseCurrency,
+      date
+    );
+    for (const currency of missing) {
+      console.warn(
+        `[FxService] No ${currency}/${baseCurrency} rate, valued 1:1`
+      );
+    }
+
+    return {
+      baseCurrency,
+      quoteCurrencies,
+      fxRates: Object.fromEntries(
+        assets.map((asset) => [asset.id, rates[asset.quoteCurrency]])
+      ),
+      missingCurrencies: missing,
+      table,
+    };
+  }
+
+  /**
+   * Last close of each asset and its rate into a base currency
+   * Value = quantity × price × fxRate
+   * @param assetIds - Asset IDs
+   * @param baseCurrency - Portfolio base currency
+   * @param date - Valuation day (inclusive, default latest prices and rates)
+   */
+  async getValuation(
+    assetIds: string[],
+    baseCurrency: string,
+    date?: Date
+  ): Promise<AssetValuation> {
+    const rates = await this.getAssetRates(assetIds, baseCurrency, date);
+
+    const prices: Record<string, number> = {};
+    for (const assetId of assetIds) {
+      const latest = await this.prisma.assetPrice.findFirst({
+        where: { assetId, ...(date ? { date: { lte: date } } : {}) },
+        orderBy: { date: "desc" },
+      });
+      if (latest) {
+        prices[assetId] = latest.close;
+      }
+    }
+
+    return {
+      baseCurrency,
+      quoteCurrencies: rates.quoteCurrencies,
+      fxRates: rates.fxRates,
+      missingCurrencies: rates.missingCurrencies,
+      prices,
+    };
+  }
+
+  /**
+   * Store the currency an asset is listed in
+   * @param assetId - Asset ID
+   * @param currency - Currency reported by Yahoo Finance (chart meta.currency)
+   * @returns Stored quote currency (unchanged if the code is not valid) and
+   * the scale to apply to the reported prices (1/100 for minor units)
+   */
+  async setQuoteCurrency(
+    assetId: string,
+    currency: unknown
+  ): Promise<QuoteCurrency> {
+    const quoteCurrency = parseQuoteCurrency(currency);
+    if (!quoteCurrency) {
+      const asset = await this.prisma.asset.findUnique({
+        where: { id: assetId },
+        select: { quoteCurrency: true },
+      });
+      return {
+        currency: asset?.quoteCurrency ?? FX_PIVOT_CURRENCY,
+        priceScale: 1,
+      };
+    }
+
+    await this.prisma.asset.update({
+      where: { id: assetId },
+      data: { quoteCurrency: quoteCurrency.currency },
+    });
+    return quoteCurrency;
+  }
+
+  /**
+   * Download the rates needed to value assets in a base currency, for the
+   * currencies whose stored rates do not reach back to startDate
+   * @param quoteCurrencies - Quote currencies of the assets
+   * @param baseCurrency - Portfolio base currency
+   * @param startDate - First day needed
+   * @returns Currencies that could not be downloaded
+   */
+  async ensureHistory(
+    quoteCurrencies: string[],
+    baseCurrency: string,
+    startDate: Date
+  ): Promise<string[]> {
+    const failed: string[] = [];
+    const coveredFrom = new Date(startDate);
+    coveredFrom.setUTCDate(coveredFrom.getUTCDate() + HISTORY_GAP_DAYS);
+
+    for (const currency of getCurrenciesToLoad(quoteCurrencies, baseCurrency)) {
+      const first = await this.prisma.fxRate.findFirst({
+        where: { currency, date: { lte: coveredFrom } },
+      });
+      if (first) continue;
+
+      try {
+        await this.downloadHistory(currency, startDate);
+      } catch (error) {
+        console.error(
+          `[FxService] ⚠️ Failed to download ${currency} rates:`,
+          error
+        );
+        failed.push(currency);
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Download the daily USD rates of a currency from Yahoo Finance
+   * @param currency - Currency code (USD is skipped)
+   * @param startDate - First day to download
+   * @returns Number of rates stored
+   */
+  async downloadHistory(currency: string, startDate: Date): Promise<number> {
+    if (currency === FX_PIVOT_CURRENCY) return 0;
+
+    const symbol = getFxSymbol(currency);
+    const startTs = Math.floor(startDate.getTime() / 1000);
+    const endTs = Math.floor(Date.now() / 1000);
+    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${startTs}&period2=${endTs}&interval=1d`;
+
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch FX rates for ${symbol}: HTTP ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    const result = data.chart?.result?.[0];
+    const timestamps: number[] | undefined = result?.timestamp;
+    const closes: (number | null)[] | undefined =
+      result?.indicators?.quote?.[0]?.close;
+    if (!timestamps || !closes) {
+      throw new Error(`No FX rates available for ${symbol}`);
+    }
+
+    let savedCount = 0;
+    for (let i = 0; i < timestamps.length; i++) {
+      const usdRate = closes[i];
+      if (usdRate === null || usdRate === undefined || usdRate <= 0) continue;
+
+      const date = new Date(timestamps[i] * 1000);
+      date.setUTCHours(0, 0, 0, 0);
+      await this.prisma.fxRate.upsert({
+        where: { currency_date: { currency, date } },
+        create: { currency, date, usdRate, source: "yahoo_finance" },
+        update: { usdRate },
+      });
+      savedCount++;
+    }
+
+    console.log(`[FxService] ✅ Saved ${savedCount} ${currency} rates`);
+    return savedCount;
+  }
+}
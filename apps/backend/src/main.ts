@@ -2,6 +2,7 @@ import { resolve } from "node:path";
 
 import { ValidationPipe } from "@nestjs/common";
 import { NestFactory } from "@nestjs/core";
+import { NestExpressApplication } from "@nestjs/platform-express";
 import { config as dotenvConfig } from "dotenv";
 
 import { AppModule } from "./app.module";
@@ -12,7 +13,10 @@ dotenvConfig({
 });
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Broker statements are posted as JSON and can exceed the 100kb default
+  app.useBodyParser("json", { limit: "5mb" });
 
   app.useGlobalPipes(
     new ValidationPipe({
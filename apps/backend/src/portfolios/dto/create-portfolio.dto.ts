@@ -13,6 +13,8 @@ import {
   ValidateNested,
 } from "class-validator";
 
+import { WeightBounds } from "../../strategy/weight-constraints";
+
 /**
  * Asset to add to portfolio during onboarding
  */
@@ -62,6 +64,15 @@ export class CreatePortfolioDto {
   @IsObject()
   targetWeights?: Record<string, number>;
 
+  // Per-asset and per-asset-type bounds, as in the portfolio configuration
+  @IsOptional()
+  @IsObject()
+  assetWeightBounds?: WeightBounds;
+
+  @IsOptional()
+  @IsObject()
+  groupWeightBounds?: WeightBounds;
+
   // Step 4 - Optional configuration
   @IsOptional()
   @IsNumber()
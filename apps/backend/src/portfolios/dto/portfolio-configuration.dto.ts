@@ -1,14 +1,162 @@
+import { plainToInstance } from "class-transformer";
 import {
+  IsArray,
   IsBoolean,
   IsIn,
+  IsInt,
   IsNumber,
   IsObject,
   IsOptional,
   IsString,
   Max,
   Min,
+  ValidateBy,
+  ValidationError,
+  ValidationOptions,
+  validateSync,
 } from "class-validator";
 
+import { DeployRule } from "../../strategy/deploy-rules";
+import { ReturnView } from "../../strategy/return-views";
+import {
+  CostBenefitMode,
+  TransactionCostSettings,
+} from "../../strategy/transaction-costs";
+import { WeightBounds } from "../../strategy/weight-constraints";
+
+/**
+ * Optimizer used when dynamic weights are enabled
+ */
+export type OptimizationMethod =
+  | "sharpe"
+  | "risk_parity"
+  | "min_variance"
+  | "max_diversification";
+
+/**
+ * Covariance estimator for the optimizers
+ */
+export type CovarianceEstimator = "sample" | "ledoit_wolf";
+
+/**
+ * Mean return estimator for the Sharpe optimizer
+ */
+export type MeanEstimator = "sample" | "james_stein";
+
+/**
+ * Which tax lots a sell relieves first
+ * 'specific' uses the lots chosen on each sell, falling back to FIFO
+ */
+export type LotReliefMethod = "fifo" | "lifo" | "specific";
+
+/**
+ * Trade filters and costs for one asset
+ * Portfolio defaults with the asset's assetTradingSettings entry applied
+ */
+export interface AssetTradingSettings extends TransactionCostSettings {
+  lotSize: number; // Quantity step, 0 = fractional
+  minTradeNotional: number; // Base currency
+  driftTolerance: number; // Weight drift band
+}
+
+/**
+ * Cost settings of one transactionCosts entry (missing = 0)
+ */
+export class TransactionCostSettingsDto implements Partial<TransactionCostSettings> {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  commissionRate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  commissionFixed?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  spreadBps?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  slippageBps?: number;
+}
+
+/**
+ * Overrides of one assetTradingSettings entry (missing = portfolio value)
+ */
+export class AssetTradingSettingsDto
+  extends TransactionCostSettingsDto
+  implements Partial<AssetTradingSettings>
+{
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  lotSize?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTradeNotional?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  driftTolerance?: number;
+}
+
+/**
+ * Errors of each value of a record validated as `type` (unknown keys
+ * included), e.g. "crypto: spreadBps must not be less than 0"
+ */
+function getRecordValueErrors(
+  record: unknown,
+  type: new () => object
+): string[] {
+  if (!record || typeof record !== "object") return [];
+
+  return Object.entries(record).flatMap(([key, value]) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return [`${key} must be an object`];
+    }
+    const errors: ValidationError[] = validateSync(
+      plainToInstance(type, value),
+      { whitelist: true, forbidNonWhitelisted: true }
+    );
+    return errors.flatMap((error) =>
+      Object.values(error.constraints ?? {}).map(
+        (message) => `${key}: ${message}`
+      )
+    );
+  });
+}
+
+/**
+ * Validate every value of a record keyed by symbol or asset type with a DTO
+ * class (ValidateNested only walks arrays, sets and maps)
+ */
+function ValidateRecordValues(
+  type: new () => object,
+  validationOptions?: ValidationOptions
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: "validateRecordValues",
+      validator: {
+        validate: (value) => getRecordValueErrors(value, type).length === 0,
+        defaultMessage: (args) =>
+          getRecordValueErrors(args?.value, type)
+            .map((error) => `${args?.property}.${error}`)
+            .join("; "),
+      },
+    },
+    validationOptions
+  );
+}
+
 /**
  * Target weight for a single asset
  */
@@ -81,6 +229,16 @@ export class UpdatePortfolioConfigurationDto {
   @Max(1)
   minWeight?: number;
 
+  // Per-asset bounds, e.g. { "BTC-USD": { max: 0.15 } } ({} clears them)
+  @IsOptional()
+  @IsObject()
+  assetWeightBounds?: WeightBounds;
+
+  // Bounds on the total weight of an asset type, e.g. { crypto: { max: 0.2 } }
+  @IsOptional()
+  @IsObject()
+  groupWeightBounds?: WeightBounds;
+
   // Risk parameters
   @IsOptional()
   @IsNumber()
@@ -131,11 +289,21 @@ export class UpdatePortfolioConfigurationDto {
   @Max(1)
   gradualDeployFactor?: number;
 
+  // Custom deploy rules (null or [] restores the three built-in signals)
+  @IsOptional()
+  @IsArray()
+  deployRules?: DeployRule[] | null;
+
   // Optimization parameters
   @IsOptional()
   @IsBoolean()
   useDynamicSharpeRebalance?: boolean;
 
+  @IsOptional()
+  @IsString()
+  @IsIn(["sharpe", "risk_parity", "min_variance", "max_diversification"])
+  optimizationMethod?: OptimizationMethod;
+
   @IsOptional()
   @IsNumber()
   @Min(0)
@@ -147,6 +315,75 @@ export class UpdatePortfolioConfigurationDto {
   @Min(0)
   @Max(0.2)
   riskFreeRate?: number;
+
+  // Views on annual returns for the Sharpe optimizer (null or [] clears them)
+  @IsOptional()
+  @IsArray()
+  returnViews?: ReturnView[] | null;
+
+  // Return/covariance estimators
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  estimationLookbackDays?: number; // 0 = all history, otherwise at least 20
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  ewmaHalfLifeDays?: number; // 0 = equal weights
+
+  @IsOptional()
+  @IsString()
+  @IsIn(["sample", "ledoit_wolf"])
+  covarianceEstimator?: CovarianceEstimator;
+
+  @IsOptional()
+  @IsString()
+  @IsIn(["sample", "james_stein"])
+  meanEstimator?: MeanEstimator;
+
+  // Trade filters
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTradeNotional?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  driftToleranceBand?: number;
+
+  // Per-asset filters and costs, e.g. { "BTC-USD": { lotSize: 0.001 } } ({} clears them)
+  @IsOptional()
+  @IsObject()
+  @ValidateRecordValues(AssetTradingSettingsDto)
+  assetTradingSettings?: Record<string, Partial<AssetTradingSettings>>;
+
+  // Transaction costs, keyed by asset type ("default" applies to the rest)
+  @IsOptional()
+  @IsObject()
+  @ValidateRecordValues(TransactionCostSettingsDto)
+  transactionCosts?: Record<string, Partial<TransactionCostSettings>>;
+
+  @IsOptional()
+  @IsString()
+  @IsIn(["off", "flag", "suppress"])
+  costBenefitMode?: CostBenefitMode;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  riskAversion?: number;
+
+  // Tax lots
+  @IsOptional()
+  @IsString()
+  @IsIn(["fifo", "lifo", "specific"])
+  lotReliefMethod?: LotReliefMethod;
 }
 
 /**
@@ -176,6 +413,8 @@ export interface PortfolioConfigurationResponse {
   // Weight constraints
   maxWeight: number;
   minWeight: number;
+  assetWeightBounds: WeightBounds; // Keyed by symbol
+  groupWeightBounds: WeightBounds; // Keyed by asset type
 
   // Risk parameters
   maintenanceMarginRatio: number;
@@ -188,11 +427,33 @@ export interface PortfolioConfigurationResponse {
   volatilityLookbackDays: number;
   volatilityRedeployThreshold: number;
   gradualDeployFactor: number;
+  deployRules: DeployRule[] | null; // null = built-in signals
 
   // Optimization parameters
   useDynamicSharpeRebalance: boolean;
+  optimizationMethod: OptimizationMethod;
   meanReturnShrinkage: number;
   riskFreeRate: number;
+  returnViews: ReturnView[] | null; // Expired views included
+
+  // Return/covariance estimators
+  estimationLookbackDays: number;
+  ewmaHalfLifeDays: number;
+  covarianceEstimator: CovarianceEstimator;
+  meanEstimator: MeanEstimator;
+
+  // Trade filters
+  minTradeNotional: number;
+  driftToleranceBand: number;
+  assetTradingSettings: Record<string, Partial<AssetTradingSettings>>; // Keyed by symbol
+
+  // Transaction costs
+  transactionCosts: Record<string, TransactionCostSettings>;
+  costBenefitMode: CostBenefitMode;
+  riskAversion: number;
+
+  // Tax lots
+  lotReliefMethod: LotReliefMethod;
 
   // Metadata
   updatedAt: string;
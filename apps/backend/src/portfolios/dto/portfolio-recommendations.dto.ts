@@ -1,3 +1,10 @@
+import { MatchedDeployRule } from "../../strategy/deploy-rules";
+import {
+  PendingTranche,
+  StagedDeploymentStatus,
+} from "../../strategy/staged-deployment";
+import { DeleveragingPlan } from "../../strategy/strategy-engine";
+
 /**
  * Current portfolio state
  */
@@ -22,8 +29,10 @@ export interface DeploySignals {
   weightDeviationTriggered: boolean;
   volatility: number | null;
   volatilityTriggered: boolean;
+  trend: number | null;
   anySignalTriggered: boolean;
   deployFraction: number;
+  matchedRule: MatchedDeployRule | null; // Rule that set deployFraction
 }
 
 /**
@@ -70,8 +79,14 @@ export interface RecommendationActions {
   // For leverage_high: extra contribution needed
   extraContribution?: ExtraContributionRecommendation;
 
+  // For leverage_high: sell / contribution / mixed options to leverageTarget
+  deleveragingPlan?: DeleveragingPlan;
+
   // For contribution_due: reminder
   contributionReminder?: ContributionReminder;
+
+  // For tranche_due: staged contribution tranches deployed by the next rebalance
+  tranches?: PendingTranche[];
 }
 
 /**
@@ -88,6 +103,7 @@ export type RecommendationType =
   | "leverage_high"
   | "deploy_signal"
   | "rebalance_needed"
+  | "tranche_due"
   | "in_range";
 
 /**
@@ -126,6 +142,9 @@ export interface PortfolioRecommendationsResponse {
   // Deploy signals
   signals: DeploySignals;
 
+  // Remaining tranches of staged contributions (null when none are left)
+  stagedDeployment: StagedDeploymentStatus | null;
+
   // Recommendations list
   recommendations: Recommendation[];
 
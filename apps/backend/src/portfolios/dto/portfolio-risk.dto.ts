@@ -0,0 +1,58 @@
+/**
+ * Margin call probability for a given horizon
+ */
+export interface LiquidationRiskHorizon {
+  months: number;
+  tradingDays: number;
+  marginCallProbability: number;
+}
+
+/**
+ * Percentiles of simulated equity at the end of the longest horizon
+ */
+export interface EquityPercentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Monte Carlo liquidation risk response
+ */
+export interface PortfolioLiquidationRiskResponse {
+  portfolioId: string;
+  timestamp: string;
+
+  currentState: {
+    equity: number;
+    exposure: number;
+    leverage: number;
+    marginRatio: number;
+  };
+
+  configuration: {
+    leverageMin: number;
+    leverageMax: number;
+    leverageTarget: number;
+    maintenanceMarginRatio: number;
+    monthlyContribution: number;
+    contributionEnabled: boolean;
+  };
+
+  simulation: {
+    paths: number;
+    historyDays: number;
+    historyStart: string | null;
+    historyEnd: string | null;
+    assets: string[];
+  };
+
+  // Exposure drop (fraction) that would trigger a margin call today
+  distanceToMarginCall: number;
+
+  horizons: LiquidationRiskHorizon[];
+  equityPercentiles: EquityPercentiles | null;
+
+  // True when there are no positions or not enough price history
+  insufficientData: boolean;
+}
@@ -0,0 +1,14 @@
+import { Type } from "class-transformer";
+import { IsNumber, IsOptional, Min } from "class-validator";
+
+/**
+ * Options for the recommendations endpoint
+ * availableCash sizes the contribution of the mixed deleveraging option
+ */
+export class RecommendationsQueryDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  availableCash?: number;
+}
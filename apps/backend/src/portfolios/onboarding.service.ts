@@ -4,7 +4,16 @@ import {
   NotFoundException,
 } from "@nestjs/common";
 
+import { FxService } from "../fx/fx.service";
 import { PrismaService } from "../prisma/prisma.service";
+import {
+  getWeightBoundErrors,
+  getWeightBoundViolations,
+  projectOntoWeightBounds,
+  resolveWeightBounds,
+  WeightBounds,
+} from "../strategy/weight-constraints";
+import { TradesService } from "../trades/trades.service";
 
 import {
   CreatePortfolioDto,
@@ -28,7 +37,11 @@ export interface OnboardingProgress {
  */
 @Injectable()
 export class OnboardingService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tradesService: TradesService,
+    private readonly fxService: FxService
+  ) {}
 
   /**
    * Create a new portfolio with assets and weights
@@ -64,6 +77,29 @@ export class OnboardingService {
       );
     }
 
+    // Validate weight bounds
+    const assetBounds = dto.assetWeightBounds || {};
+    const groupBounds = dto.groupWeightBounds || {};
+    const boundErrors = [
+      ...getWeightBoundErrors(assetBounds, "assetWeightBounds"),
+      ...getWeightBoundErrors(groupBounds, "groupWeightBounds"),
+    ];
+    if (boundErrors.length > 0) {
+      throw new BadRequestException(boundErrors.join("; "));
+    }
+
+    // Known assets keep their stored type
+    const assetTypes: Record<string, string> = Object.fromEntries(
+      dto.assets.map((a) => [a.symbol, a.assetType || "unknown"])
+    );
+    const existingAssets = await this.prisma.asset.findMany({
+      where: { symbol: { in: dto.assets.map((a) => a.symbol) } },
+      select: { symbol: true, assetType: true },
+    });
+    for (const asset of existingAssets) {
+      assetTypes[asset.symbol] = asset.assetType;
+    }
+
     // Validate manual weights if provided
     if (dto.weightAllocationMethod === "manual") {
       if (!dto.targetWeights) {
@@ -72,6 +108,15 @@ export class OnboardingService {
         );
       }
       this.validateTargetWeights(dto.targetWeights, dto.assets.map((a) => a.symbol));
+      const violations = getWeightBoundViolations(
+        dto.targetWeights,
+        assetTypes,
+        assetBounds,
+        groupBounds
+      );
+      if (violations.length > 0) {
+        throw new BadRequestException(violations.join("; "));
+      }
     }
 
     // Step 1: Validate and create/get assets
@@ -143,6 +188,7 @@ export class OnboardingService {
       });
     }
     let historicalDataDownloaded = true;
+    const quoteCurrencies: string[] = [];
 
     for (let i = 0; i < dto.assets.length; i++) {
       const assetDto = dto.assets[i];
@@ -159,7 +205,9 @@ export class OnboardingService {
       }
       
       try {
-        await this.downloadHistoricalPrices(assetId, assetDto.symbol);
+        quoteCurrencies.push(
+          await this.downloadHistoricalPrices(assetId, assetDto.symbol)
+        );
         console.log(
           `[OnboardingService] ✅ Downloaded history for ${assetDto.symbol}`
         );
@@ -193,6 +241,20 @@ export class OnboardingService {
       }
     }
 
+    // FX rates to value the assets in the base currency
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - 730);
+    const missingCurrencies = await this.fxService.ensureHistory(
+      quoteCurrencies,
+      dto.baseCurrency || "USD",
+      historyStart
+    );
+    for (const currency of missingCurrencies) {
+      warnings.push(
+        `Could not download ${currency} exchange rates. Assets in ${currency} are valued 1:1 until rates are ingested.`
+      );
+    }
+
     // Step 3: Calculate weights
     console.log(
       `[OnboardingService] Step 3: Calculating weights (method: ${dto.weightAllocationMethod})...`
@@ -207,7 +269,8 @@ export class OnboardingService {
     const weights = this.calculateWeights(
       dto.assets.map((a) => a.symbol),
       dto.weightAllocationMethod,
-      dto.targetWeights
+      dto.targetWeights,
+      { assetTypes, assetBounds, groupBounds, warnings }
     );
 
     // Step 4: Create portfolio
@@ -234,6 +297,12 @@ export class OnboardingService {
         contributionEnabled: dto.contributionEnabled ?? true,
         targetWeightsJson: JSON.stringify(weights.target),
         equalWeightsJson: JSON.stringify(weights.equal),
+        assetWeightBoundsJson: Object.keys(assetBounds).length
+          ? JSON.stringify(assetBounds)
+          : null,
+        groupWeightBoundsJson: Object.keys(groupBounds).length
+          ? JSON.stringify(groupBounds)
+          : null,
         useDynamicSharpeRebalance: dto.weightAllocationMethod === "sharpe",
       },
     });
@@ -241,19 +310,12 @@ export class OnboardingService {
     console.log(`[OnboardingService] ✅ Portfolio created: ${portfolio.id}`);
 
     // Step 5: Create initial positions with 0 quantity (just to link assets to portfolio)
+    // The ledger has no trades yet, so syncing it creates empty rows
     console.log(`[OnboardingService] Step 5: Creating initial positions...`);
-    for (const assetDto of dto.assets) {
-      const assetId = assetMap[assetDto.symbol];
-      await this.prisma.portfolioPosition.create({
-        data: {
-          portfolioId: portfolio.id,
-          assetId,
-          quantity: 0,
-          avgPrice: 0,
-          exposureUsd: 0,
-        },
-      });
-    }
+    await this.tradesService.syncPositions(
+      portfolio.id,
+      dto.assets.map((assetDto) => assetMap[assetDto.symbol])
+    );
 
     // Step 6: Create initial metrics entry
     console.log(`[OnboardingService] Step 6: Creating initial metrics...`);
@@ -346,11 +408,19 @@ export class OnboardingService {
 
   /**
    * Calculate weights based on allocation method
+   * Equal and initial Sharpe weights are moved inside the asset and group
+   * bounds; manual weights have already been checked against them
    */
   private calculateWeights(
     symbols: string[],
     method: "sharpe" | "manual" | "equal",
-    manualWeights?: Record<string, number>
+    manualWeights: Record<string, number> | undefined,
+    constraints: {
+      assetTypes: Record<string, string>;
+      assetBounds: WeightBounds;
+      groupBounds: WeightBounds;
+      warnings: string[];
+    }
   ): { target: Record<string, number>; equal: Record<string, number> } {
     const n = symbols.length;
     const equalWeight = 1 / n;
@@ -386,6 +456,25 @@ export class OnboardingService {
         break;
     }
 
+    if (method !== "manual") {
+      // Only explicit bounds apply here; uniform ones are left to the optimizer
+      const bounds = resolveWeightBounds(
+        symbols,
+        constraints.assetTypes,
+        { minWeight: 0, maxWeight: 1 },
+        constraints.assetBounds,
+        constraints.groupBounds
+      );
+      constraints.warnings.push(...bounds.relaxed);
+      const projected = projectOntoWeightBounds(
+        symbols.map((symbol) => targetWeights[symbol]),
+        bounds
+      );
+      targetWeights = Object.fromEntries(
+        symbols.map((symbol, i) => [symbol, projected[i]])
+      );
+    }
+
     return {
       target: targetWeights,
       equal: equalWeights,
@@ -478,11 +567,12 @@ export class OnboardingService {
 
   /**
    * Download historical prices for an asset (24+ months for Sharpe)
+   * @returns Quote currency of the asset, as reported with the prices
    */
   private async downloadHistoricalPrices(
     assetId: string,
     symbol: string
-  ): Promise<void> {
+  ): Promise<string> {
     console.log(
       `[OnboardingService] Downloading historical prices for ${symbol}...`
     );
@@ -525,6 +615,11 @@ export class OnboardingService {
       throw new Error(`No price data for ${symbol}`);
     }
 
+    // Prices are stored in the currency the asset is listed in (pence and
+    // other minor units are scaled to the major currency)
+    const { currency: quoteCurrency, priceScale } =
+      await this.fxService.setQuoteCurrency(assetId, result.meta?.currency);
+
     // Store prices in database
     let savedCount = 0;
 
@@ -533,6 +628,8 @@ export class OnboardingService {
       if (price !== null && price !== undefined && price > 0) {
         const date = new Date(timestamps[i] * 1000);
         date.setUTCHours(0, 0, 0, 0);
+        const close = price * priceScale;
+        const adjClose = (adjCloses?.[i] || price) * priceScale;
 
         await this.prisma.assetPrice.upsert({
           where: {
@@ -544,13 +641,13 @@ export class OnboardingService {
           create: {
             assetId,
             date,
-            close: price,
-            adjClose: adjCloses?.[i] || price,
+            close,
+            adjClose,
             source: "yahoo_finance",
           },
           update: {
-            close: price,
-            adjClose: adjCloses?.[i] || price,
+            close,
+            adjClose,
           },
         });
         savedCount++;
@@ -560,6 +657,7 @@ export class OnboardingService {
     console.log(
       `[OnboardingService] ✅ Saved ${savedCount} price records for ${symbol}`
     );
+    return quoteCurrency;
   }
 }
 
@@ -5,8 +5,33 @@ import {
 } from "@nestjs/common";
 
 import { PrismaService } from "../prisma/prisma.service";
+import {
+  DeployRule,
+  getDeployRuleErrors,
+  parseDeployRules,
+} from "../strategy/deploy-rules";
+import {
+  getReturnViewErrors,
+  parseReturnViews,
+  ReturnView,
+} from "../strategy/return-views";
+import {
+  CostBenefitMode,
+  TransactionCostSettings,
+} from "../strategy/transaction-costs";
+import {
+  getWeightBoundErrors,
+  getWeightBoundViolations,
+  parseWeightBounds,
+  WeightBounds,
+} from "../strategy/weight-constraints";
 
 import {
+  AssetTradingSettings,
+  CovarianceEstimator,
+  LotReliefMethod,
+  MeanEstimator,
+  OptimizationMethod,
   UpdatePortfolioConfigurationDto,
   PortfolioConfigurationResponse,
 } from "./dto/portfolio-configuration.dto";
@@ -20,6 +45,20 @@ const DEFAULT_TARGET_WEIGHTS: Record<string, number> = {
   "BTC-USD": 0.15,
 };
 
+const TRANSACTION_COST_KEYS: Array<keyof TransactionCostSettings> = [
+  "commissionRate",
+  "commissionFixed",
+  "spreadBps",
+  "slippageBps",
+];
+
+const ASSET_TRADING_SETTING_KEYS: Array<keyof AssetTradingSettings> = [
+  "lotSize",
+  "minTradeNotional",
+  "driftTolerance",
+  ...TRANSACTION_COST_KEYS,
+];
+
 /**
  * Service for managing portfolio configuration
  */
@@ -106,6 +145,8 @@ export class PortfolioConfigurationService {
       // Weight constraints
       maxWeight: portfolio.maxWeight,
       minWeight: portfolio.minWeight,
+      assetWeightBounds: parseWeightBounds(portfolio.assetWeightBoundsJson),
+      groupWeightBounds: parseWeightBounds(portfolio.groupWeightBoundsJson),
 
       // Risk parameters
       maintenanceMarginRatio: portfolio.maintenanceMarginRatio,
@@ -118,11 +159,40 @@ export class PortfolioConfigurationService {
       volatilityLookbackDays: portfolio.volatilityLookbackDays,
       volatilityRedeployThreshold: portfolio.volatilityRedeployThreshold,
       gradualDeployFactor: portfolio.gradualDeployFactor,
+      deployRules: parseDeployRules(portfolio.deployRulesJson),
 
       // Optimization parameters
       useDynamicSharpeRebalance: portfolio.useDynamicSharpeRebalance,
+      optimizationMethod:
+        (portfolio.optimizationMethod as OptimizationMethod) || "sharpe",
       meanReturnShrinkage: portfolio.meanReturnShrinkage,
       riskFreeRate: portfolio.riskFreeRate,
+      returnViews: parseReturnViews(portfolio.returnViewsJson),
+
+      // Return/covariance estimators
+      estimationLookbackDays: portfolio.estimationLookbackDays,
+      ewmaHalfLifeDays: portfolio.ewmaHalfLifeDays,
+      covarianceEstimator:
+        (portfolio.covarianceEstimator as CovarianceEstimator) || "sample",
+      meanEstimator: (portfolio.meanEstimator as MeanEstimator) || "sample",
+
+      // Trade filters
+      minTradeNotional: portfolio.minTradeNotional,
+      driftToleranceBand: portfolio.driftToleranceBand,
+      assetTradingSettings: this.parseAssetTradingSettings(
+        portfolio.assetTradingSettingsJson
+      ),
+
+      // Transaction costs
+      transactionCosts: this.parseTransactionCosts(
+        portfolio.transactionCostsJson
+      ),
+      costBenefitMode: (portfolio.costBenefitMode as CostBenefitMode) || "flag",
+      riskAversion: portfolio.riskAversion,
+
+      // Tax lots
+      lotReliefMethod:
+        (portfolio.lotReliefMethod as LotReliefMethod) || "fifo",
 
       // Metadata
       updatedAt: portfolio.updatedAt.toISOString(),
@@ -152,6 +222,28 @@ export class PortfolioConfigurationService {
       this.validateTargetWeights(dto.targetWeights);
     }
 
+    if (dto.assetWeightBounds !== undefined) {
+      this.validateWeightBounds(dto.assetWeightBounds, "assetWeightBounds");
+    }
+    if (dto.groupWeightBounds !== undefined) {
+      this.validateWeightBounds(dto.groupWeightBounds, "groupWeightBounds");
+    }
+
+    // Manual weights must respect the asset and group bounds
+    if (
+      dto.targetWeights ||
+      dto.assetWeightBounds !== undefined ||
+      dto.groupWeightBounds !== undefined
+    ) {
+      await this.validateTargetWeightBounds(
+        dto.targetWeights ?? (await this.getTargetWeights(portfolioId)),
+        dto.assetWeightBounds ??
+          parseWeightBounds(portfolio.assetWeightBoundsJson),
+        dto.groupWeightBounds ??
+          parseWeightBounds(portfolio.groupWeightBoundsJson)
+      );
+    }
+
     // Validate leverage settings
     if (dto.leverageMin !== undefined || dto.leverageMax !== undefined) {
       const newMin = dto.leverageMin ?? portfolio.leverageMin;
@@ -164,6 +256,33 @@ export class PortfolioConfigurationService {
       }
     }
 
+    // Optimizers need at least 20 daily returns
+    if (
+      dto.estimationLookbackDays !== undefined &&
+      dto.estimationLookbackDays > 0 &&
+      dto.estimationLookbackDays < 20
+    ) {
+      throw new BadRequestException(
+        "estimationLookbackDays must be 0 (all history) or at least 20"
+      );
+    }
+
+    if (dto.transactionCosts !== undefined) {
+      this.validateTransactionCosts(dto.transactionCosts);
+    }
+
+    if (dto.assetTradingSettings !== undefined) {
+      this.validateAssetTradingSettings(dto.assetTradingSettings);
+    }
+
+    if (dto.deployRules) {
+      this.validateDeployRules(dto.deployRules);
+    }
+
+    if (dto.returnViews) {
+      this.validateReturnViews(dto.returnViews);
+    }
+
     // Build update data
     const updateData: Record<string, any> = {};
 
@@ -204,6 +323,18 @@ export class PortfolioConfigurationService {
     if (dto.minWeight !== undefined) {
       updateData.minWeight = dto.minWeight;
     }
+    if (dto.assetWeightBounds !== undefined) {
+      updateData.assetWeightBoundsJson = Object.keys(dto.assetWeightBounds)
+        .length
+        ? JSON.stringify(dto.assetWeightBounds)
+        : null;
+    }
+    if (dto.groupWeightBounds !== undefined) {
+      updateData.groupWeightBoundsJson = Object.keys(dto.groupWeightBounds)
+        .length
+        ? JSON.stringify(dto.groupWeightBounds)
+        : null;
+    }
 
     // Risk parameters
     if (dto.maintenanceMarginRatio !== undefined) {
@@ -233,17 +364,77 @@ export class PortfolioConfigurationService {
     if (dto.gradualDeployFactor !== undefined) {
       updateData.gradualDeployFactor = dto.gradualDeployFactor;
     }
+    if (dto.deployRules !== undefined) {
+      updateData.deployRulesJson = dto.deployRules?.length
+        ? JSON.stringify(dto.deployRules)
+        : null;
+    }
 
     // Optimization parameters
     if (dto.useDynamicSharpeRebalance !== undefined) {
       updateData.useDynamicSharpeRebalance = dto.useDynamicSharpeRebalance;
     }
+    if (dto.optimizationMethod !== undefined) {
+      updateData.optimizationMethod = dto.optimizationMethod;
+    }
     if (dto.meanReturnShrinkage !== undefined) {
       updateData.meanReturnShrinkage = dto.meanReturnShrinkage;
     }
     if (dto.riskFreeRate !== undefined) {
       updateData.riskFreeRate = dto.riskFreeRate;
     }
+    if (dto.returnViews !== undefined) {
+      updateData.returnViewsJson = dto.returnViews?.length
+        ? JSON.stringify(dto.returnViews)
+        : null;
+    }
+
+    // Return/covariance estimators
+    if (dto.estimationLookbackDays !== undefined) {
+      updateData.estimationLookbackDays = dto.estimationLookbackDays;
+    }
+    if (dto.ewmaHalfLifeDays !== undefined) {
+      updateData.ewmaHalfLifeDays = dto.ewmaHalfLifeDays;
+    }
+    if (dto.covarianceEstimator !== undefined) {
+      updateData.covarianceEstimator = dto.covarianceEstimator;
+    }
+    if (dto.meanEstimator !== undefined) {
+      updateData.meanEstimator = dto.meanEstimator;
+    }
+
+    // Trade filters
+    if (dto.minTradeNotional !== undefined) {
+      updateData.minTradeNotional = dto.minTradeNotional;
+    }
+    if (dto.driftToleranceBand !== undefined) {
+      updateData.driftToleranceBand = dto.driftToleranceBand;
+    }
+    if (dto.assetTradingSettings !== undefined) {
+      updateData.assetTradingSettingsJson = Object.keys(
+        dto.assetTradingSettings
+      ).length
+        ? JSON.stringify(dto.assetTradingSettings)
+        : null;
+    }
+
+    // Transaction costs
+    if (dto.transactionCosts !== undefined) {
+      updateData.transactionCostsJson = JSON.stringify(
+        this.parseTransactionCosts(JSON.stringify(dto.transactionCosts))
+      );
+    }
+    if (dto.costBenefitMode !== undefined) {
+      updateData.costBenefitMode = dto.costBenefitMode;
+    }
+    if (dto.riskAversion !== undefined) {
+      updateData.riskAversion = dto.riskAversion;
+    }
+
+    // Tax lots
+    if (dto.lotReliefMethod !== undefined) {
+      updateData.lotReliefMethod = dto.lotReliefMethod;
+    }
 
     // Update portfolio
     await this.prisma.portfolio.update({
@@ -305,6 +496,198 @@ export class PortfolioConfigurationService {
     }
   }
 
+  /**
+   * Validate per-asset or per-asset-type weight bounds
+   * @param bounds - { min?, max? } keyed by symbol or asset type
+   * @param field - Field name used in error messages
+   */
+  validateWeightBounds(bounds: WeightBounds, field: string): void {
+    const errors = getWeightBoundErrors(bounds, field);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join("; "));
+    }
+  }
+
+  /**
+   * Validate target weights against asset and asset type bounds
+   * Asset types come from the Asset table; unknown symbols belong to no group
+   * @param weights - Target weights
+   */
+  async validateTargetWeightBounds(
+    weights: Record<string, number>,
+    assetBounds: WeightBounds,
+    groupBounds: WeightBounds
+  ): Promise<void> {
+    const assets = await this.prisma.asset.findMany({
+      where: { symbol: { in: Object.keys(weights) } },
+      select: { symbol: true, assetType: true },
+    });
+    const violations = getWeightBoundViolations(
+      weights,
+      Object.fromEntries(assets.map((a) => [a.symbol, a.assetType])),
+      assetBounds,
+      groupBounds
+    );
+    if (violations.length > 0) {
+      throw new BadRequestException(violations.join("; "));
+    }
+  }
+
+  /**
+   * Validate transaction costs per asset type
+   * Every value must be a non-negative number
+   * @param costs - Cost settings keyed by asset type
+   */
+  validateTransactionCosts(
+    costs: Record<string, Partial<TransactionCostSettings>>
+  ): void {
+    if (!costs || typeof costs !== "object") {
+      throw new BadRequestException("transactionCosts must be an object");
+    }
+
+    for (const [assetType, settings] of Object.entries(costs)) {
+      if (!settings || typeof settings !== "object") {
+        throw new BadRequestException(
+          `Transaction costs for ${assetType} must be an object`
+        );
+      }
+
+      for (const [key, value] of Object.entries(settings)) {
+        if (!(TRANSACTION_COST_KEYS as readonly string[]).includes(key)) {
+          throw new BadRequestException(
+            `Unknown transaction cost setting ${key} for ${assetType}`
+          );
+        }
+        if (typeof value !== "number" || isNaN(value) || value < 0) {
+          throw new BadRequestException(
+            `${key} for ${assetType} must be a non-negative number`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate per-asset trade filters and costs
+   * Every value must be a non-negative number, driftTolerance at most 1
+   * @param settings - Partial settings keyed by symbol
+   */
+  validateAssetTradingSettings(
+    settings: Record<string, Partial<AssetTradingSettings>>
+  ): void {
+    if (!settings || typeof settings !== "object") {
+      throw new BadRequestException("assetTradingSettings must be an object");
+    }
+
+    for (const [symbol, assetSettings] of Object.entries(settings)) {
+      if (!assetSettings || typeof assetSettings !== "object") {
+        throw new BadRequestException(
+          `Trading settings for ${symbol} must be an object`
+        );
+      }
+
+      for (const [key, value] of Object.entries(assetSettings)) {
+        if (!(ASSET_TRADING_SETTING_KEYS as readonly string[]).includes(key)) {
+          throw new BadRequestException(
+            `Unknown trading setting ${key} for ${symbol}`
+          );
+        }
+        if (typeof value !== "number" || isNaN(value) || value < 0) {
+          throw new BadRequestException(
+            `${key} for ${symbol} must be a non-negative number`
+          );
+        }
+        if (key === "driftTolerance" && value > 1) {
+          throw new BadRequestException(
+            `driftTolerance for ${symbol} must be at most 1`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate custom deploy rules (metrics, operators, fractions, nesting)
+   * @param rules - Rule list, checked in order at evaluation time
+   */
+  validateDeployRules(rules: DeployRule[]): void {
+    const errors = getDeployRuleErrors(rules);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join("; "));
+    }
+  }
+
+  /**
+   * Validate return views (symbol, annual return, confidence, expiry)
+   * @param views - At most one view per symbol
+   */
+  validateReturnViews(views: ReturnView[]): void {
+    const errors = getReturnViewErrors(views);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join("; "));
+    }
+  }
+
+  /**
+   * Parse stored transaction costs, filling missing settings with 0
+   */
+  private parseTransactionCosts(
+    json: string | null
+  ): Record<string, TransactionCostSettings> {
+    if (!json) {
+      return {};
+    }
+
+    let raw: Record<string, any>;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return {};
+    }
+
+    const costs: Record<string, TransactionCostSettings> = {};
+    for (const [assetType, settings] of Object.entries(raw || {})) {
+      costs[assetType] = {
+        commissionRate: Number(settings?.commissionRate) || 0,
+        commissionFixed: Number(settings?.commissionFixed) || 0,
+        spreadBps: Number(settings?.spreadBps) || 0,
+        slippageBps: Number(settings?.slippageBps) || 0,
+      };
+    }
+    return costs;
+  }
+
+  /**
+   * Parse stored per-asset trading settings, dropping invalid values
+   */
+  private parseAssetTradingSettings(
+    json: string | null
+  ): Record<string, Partial<AssetTradingSettings>> {
+    if (!json) {
+      return {};
+    }
+
+    let raw: Record<string, any>;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return {};
+    }
+
+    const settings: Record<string, Partial<AssetTradingSettings>> = {};
+    for (const [symbol, assetSettings] of Object.entries(raw || {})) {
+      const parsed: Partial<AssetTradingSettings> = {};
+      for (const key of ASSET_TRADING_SETTING_KEYS) {
+        const value = Number(assetSettings?.[key]);
+        if (assetSettings?.[key] !== undefined && value >= 0) {
+          parsed[key] = value;
+        }
+      }
+      settings[symbol] = parsed;
+    }
+    return settings;
+  }
+
   /**
    * Get target weights for a portfolio
    * @param portfolioId - Portfolio ID
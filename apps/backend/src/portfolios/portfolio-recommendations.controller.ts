@@ -1,7 +1,8 @@
-import { Controller, Get, Param, UseGuards } from "@nestjs/common";
+import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
 
 import { AuthGuard } from "../auth/auth.guard";
 
+import { RecommendationsQueryDto } from "./dto/recommendations-query.dto";
 import { PortfolioRecommendationsService } from "./portfolio-recommendations.service";
 
 /**
@@ -18,13 +19,21 @@ export class PortfolioRecommendationsController {
   /**
    * Get all recommendations for a portfolio
    * Includes current state, signals, and specific actions
+   * GET /api/portfolios/:portfolioId/recommendations?availableCash=500
    *
    * @param portfolioId - Portfolio ID
+   * @param query - Cash available for the mixed deleveraging option
    * @returns Full recommendations response with actions
    */
   @Get()
-  async getRecommendations(@Param("portfolioId") portfolioId: string) {
-    return this.recommendationsService.getRecommendations(portfolioId);
+  async getRecommendations(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: RecommendationsQueryDto
+  ) {
+    return this.recommendationsService.getRecommendations(
+      portfolioId,
+      query.availableCash
+    );
   }
 }
 
@@ -1,6 +1,18 @@
 import { Injectable, NotFoundException } from "@nestjs/common";
 
+import { FxService } from "../fx/fx.service";
 import { PrismaService } from "../prisma/prisma.service";
+import {
+  getStagedDeploymentStatus,
+  StagedDeploymentStatus,
+} from "../strategy/staged-deployment";
+import {
+  calculateCurrentState,
+  calculateDeleveragingPlan,
+  calculateDeploySignals,
+  getLeverageStatus,
+  getMetricsHistoryWindow,
+} from "../strategy/strategy-engine";
 
 import {
   PortfolioRecommendationsResponse,
@@ -42,17 +54,24 @@ const SYMBOL_UNITS: Record<string, string> = {
 export class PortfolioRecommendationsService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly configService: PortfolioConfigurationService
+    private readonly configService: PortfolioConfigurationService,
+    private readonly fxService: FxService
   ) {}
 
   /**
    * Get recommendations for a portfolio
    * Main entry point that orchestrates all calculations
+   * @param availableCash - Contribution for the mixed deleveraging option
    */
   async getRecommendations(
-    portfolioId: string
+    portfolioId: string,
+    availableCash?: number
   ): Promise<PortfolioRecommendationsResponse> {
-    // 1. Get portfolio with all related data
+    // 1. Get configuration and target weights
+    const config = await this.configService.getConfiguration(portfolioId);
+    const targetWeights = config.targetWeights;
+
+    // 2. Get portfolio with all related data
     const portfolio = await this.prisma.portfolio.findUnique({
       where: { id: portfolioId },
       include: {
@@ -65,7 +84,7 @@ export class PortfolioRecommendationsService {
         },
         metricsTimeseries: {
           orderBy: { date: "desc" },
-          take: 100, // For volatility calculation
+          take: getMetricsHistoryWindow(config.volatilityLookbackDays),
         },
         dailyMetrics: {
           orderBy: { date: "desc" },
@@ -78,23 +97,43 @@ export class PortfolioRecommendationsService {
       throw new NotFoundException("Portfolio not found");
     }
 
-    // 2. Get configuration and target weights
-    const config = await this.configService.getConfiguration(portfolioId);
-    const targetWeights = config.targetWeights;
-
-    // 3. Get latest prices
+    // 3. Get latest prices (in the base currency)
     const latestPrices = await this.getLatestPrices(
-      (portfolio.positions as any[]).map((p: any) => p.assetId)
+      (portfolio.positions as any[]).map((p: any) => p.assetId),
+      portfolio.baseCurrency
     );
 
-    // 4. Calculate current state
-    const currentState = this.calculateCurrentState(portfolio, latestPrices);
-
-    // 5. Evaluate deploy signals
-    const signals = this.evaluateDeploySignals(
+    // 4. Calculate current state (shared strategy engine)
+    const currentState: PortfolioCurrentState = calculateCurrentState(
       portfolio,
+      latestPrices
+    );
+
+    // 5. Evaluate deploy signals (same engine as the rebalance proposal)
+    const engineSignals = calculateDeploySignals(
       currentState,
-      targetWeights
+      portfolio.metricsTimeseries,
+      targetWeights,
+      config
+    );
+    const signals: DeploySignals = {
+      drawdown: engineSignals.drawdown,
+      drawdownTriggered: engineSignals.drawdownTriggered,
+      weightDeviation: engineSignals.weightDeviation,
+      weightDeviationTriggered: engineSignals.weightDeviationTriggered,
+      volatility: engineSignals.realizedVolatility,
+      volatilityTriggered: engineSignals.volatilityTriggered,
+      trend: engineSignals.trend,
+      anySignalTriggered: engineSignals.anySignalTriggered,
+      deployFraction: engineSignals.deployFraction,
+      matchedRule: engineSignals.matchedRule,
+    };
+
+    // Tranches of staged contributions (same schedule as the rebalance proposal)
+    const stagedDeployment = getStagedDeploymentStatus(
+      portfolio.contributions,
+      new Date(),
+      engineSignals.matchedRule?.name ?? null
     );
 
     // 6. Check contribution day
@@ -111,11 +150,13 @@ export class PortfolioRecommendationsService {
       config,
       targetWeights,
       latestPrices,
-      isContributionDay
+      isContributionDay,
+      stagedDeployment,
+      availableCash
     );
 
     // 8. Determine leverage status
-    const leverageStatus = this.getLeverageStatus(
+    const leverageStatus = getLeverageStatus(
       currentState.leverage,
       config.leverageMin,
       config.leverageMax
@@ -140,6 +181,8 @@ export class PortfolioRecommendationsService {
 
       signals,
 
+      stagedDeployment,
+
       recommendations,
 
       isContributionDay,
@@ -156,152 +199,6 @@ export class PortfolioRecommendationsService {
     };
   }
 
-  /**
-   * Calculate current portfolio state
-   * NOTE: Contributions go directly to equity when registered,
-   * so pendingContributions should be 0 in normal operation
-   */
-  private calculateCurrentState(
-    portfolio: any,
-    latestPrices: Record<string, number>
-  ): PortfolioCurrentState {
-    let exposure = 0;
-    const positionValues: Record<string, number> = {};
-    const positionQuantities: Record<string, number> = {};
-
-    for (const position of portfolio.positions) {
-      const price = latestPrices[position.assetId] || position.avgPrice;
-      const value = position.quantity * price;
-      exposure += value;
-      positionValues[position.asset.symbol] = value;
-      positionQuantities[position.asset.symbol] = position.quantity;
-    }
-
-    // Get base equity from latest metrics or calculate
-    let baseEquity = portfolio.initialCapital;
-    let peakEquity = baseEquity;
-
-    if (portfolio.dailyMetrics?.length > 0) {
-      baseEquity = portfolio.dailyMetrics[0].equity;
-      peakEquity = portfolio.dailyMetrics[0].peakEquity || baseEquity;
-    } else if (portfolio.metricsTimeseries?.length > 0) {
-      baseEquity = portfolio.metricsTimeseries[0].equity;
-      // Calculate peak from history
-      for (const metric of portfolio.metricsTimeseries) {
-        if (metric.equity > peakEquity) {
-          peakEquity = metric.equity;
-        }
-      }
-    }
-
-    // Calculate pending contributions (not yet deployed) - for display only
-    // NOTE: Contributions are now marked as deployed immediately when registered,
-    // so pending contributions should be 0 in normal operation
-    const pendingContributions = portfolio.contributions
-      .filter((c: any) => !c.deployed)
-      .reduce((sum: number, c: any) => sum + c.amount, 0);
-
-    // Equity should already include all contributions (they're marked as deployed immediately)
-    // We do NOT add pendingContributions here to avoid double-counting
-    const effectiveEquity = baseEquity;
-
-    // Calculate leverage using effective equity
-    const leverage = effectiveEquity > 0 ? exposure / effectiveEquity : 0;
-    const marginRatio = exposure > 0 ? effectiveEquity / exposure : 1;
-
-    return {
-      equity: effectiveEquity, // Includes all contributions (they go directly to equity)
-      exposure,
-      leverage,
-      marginRatio,
-      peakEquity: Math.max(peakEquity, effectiveEquity),
-      pendingContributions, // Should be 0 in normal operation
-      positionValues,
-      positionQuantities,
-    };
-  }
-
-  /**
-   * Evaluate deploy signals (drawdown, weight deviation, volatility)
-   */
-  private evaluateDeploySignals(
-    portfolio: any,
-    currentState: PortfolioCurrentState,
-    targetWeights: Record<string, number>
-  ): DeploySignals {
-    const { equity, peakEquity, positionValues, exposure } = currentState;
-
-    // 1. Calculate drawdown
-    const drawdown = peakEquity > 0 ? (equity - peakEquity) / peakEquity : 0;
-    const drawdownTriggered = drawdown <= -portfolio.drawdownRedeployThreshold;
-
-    // 2. Calculate weight deviation
-    let maxWeightDeviation = 0;
-    if (exposure > 0) {
-      for (const [symbol, targetWeight] of Object.entries(targetWeights)) {
-        const currentValue = positionValues[symbol] || 0;
-        const currentWeight = currentValue / exposure;
-        const deviation = Math.abs(currentWeight - targetWeight);
-        if (deviation > maxWeightDeviation) {
-          maxWeightDeviation = deviation;
-        }
-      }
-    }
-    const weightDeviationTriggered =
-      maxWeightDeviation >= portfolio.weightDeviationThreshold;
-
-    // 3. Calculate realized volatility
-    let volatility: number | null = null;
-    if (portfolio.metricsTimeseries?.length >= 2) {
-      const equityValues = portfolio.metricsTimeseries
-        .slice(0, portfolio.volatilityLookbackDays + 1)
-        .map((m: any) => m.equity)
-        .reverse();
-
-      if (equityValues.length > 1) {
-        const logReturns: number[] = [];
-        for (let i = 1; i < equityValues.length; i++) {
-          if (equityValues[i - 1] > 0) {
-            logReturns.push(Math.log(equityValues[i] / equityValues[i - 1]));
-          }
-        }
-
-        if (logReturns.length > 0) {
-          const mean =
-            logReturns.reduce((a, b) => a + b, 0) / logReturns.length;
-          const variance =
-            logReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) /
-            (logReturns.length - 1 || 1);
-          const dailyVol = Math.sqrt(variance);
-          volatility = dailyVol * Math.sqrt(252); // Annualize
-        }
-      }
-    }
-    const volatilityTriggered =
-      volatility !== null &&
-      volatility <= portfolio.volatilityRedeployThreshold;
-
-    // 4. Determine deploy fraction
-    let deployFraction = 0;
-    const anySignalTriggered =
-      drawdownTriggered || weightDeviationTriggered || volatilityTriggered;
-
-    if (anySignalTriggered) {
-      deployFraction = portfolio.gradualDeployFactor;
-    }
-
-    return {
-      drawdown,
-      drawdownTriggered,
-      weightDeviation: maxWeightDeviation,
-      weightDeviationTriggered,
-      volatility,
-      volatilityTriggered,
-      anySignalTriggered,
-      deployFraction,
-    };
-  }
-
   /**
    * Generate recommendations based on current state and signals
    * Implements the 3 cases from the strategy
@@ -312,14 +209,16 @@ export class PortfolioRecommendationsService {
     config: any,
     targetWeights: Record<string, number>,
     latestPrices: Record<string, number>,
-    isContributionDay: boolean
+    isContributionDay: boolean,
+    stagedDeployment: StagedDeploymentStatus | null,
+    availableCash?: number
   ): Promise<Recommendation[]> {
     const recommendations: Recommendation[] = [];
     const { leverage } = currentState;
     const { leverageMin, leverageMax } = config;
 
     // Determine leverage status
-    const leverageStatus = this.getLeverageStatus(
+    const leverageStatus = getLeverageStatus(
       leverage,
       leverageMin,
       leverageMax
@@ -355,7 +254,8 @@ export class PortfolioRecommendationsService {
         currentState,
         targetWeights,
         latestPrices,
-        targetLeverageForReborrow
+        targetLeverageForReborrow,
+        stagedDeployment?.heldBackAmount ?? 0
       );
 
       const totalPurchaseValue = purchases.reduce(
@@ -402,11 +302,18 @@ export class PortfolioRecommendationsService {
       }
     }
 
-    // Case 3: Leverage HIGH - Need extra contribution as collateral
+    // Case 3: Leverage HIGH - Extra contribution as collateral, or sells
+    // when there is no cash to contribute (e.g. in a fast crash)
     if (leverageStatus === "high") {
       const extraContribution = this.calculateExtraContribution(
         currentState,
-        leverageMax
+        leverageMax,
+        portfolio.baseCurrency
+      );
+      const deleveragingPlan = calculateDeleveragingPlan(
+        currentState,
+        Math.min(config.leverageTarget || leverageMax, leverageMax),
+        availableCash
       );
 
       recommendations.push({
@@ -420,9 +327,10 @@ export class PortfolioRecommendationsService {
           .replace(
             ".",
             ","
-          )}x). Se recomienda realizar un aporte extra para reducir el leverage.`,
+          )}x). Se recomienda realizar un aporte extra o vender parte de las posiciones para reducir el leverage.`,
         actions: {
           extraContribution,
+          ...(deleveragingPlan ? { deleveragingPlan } : {}),
         },
         actionUrl: `/dashboard/contribution?extra=true&amount=${Math.ceil(
           extraContribution.amount
@@ -430,6 +338,28 @@ export class PortfolioRecommendationsService {
       });
     }
 
+    // Case 4: Staged contribution tranches due - deployed by the next rebalance
+    if (stagedDeployment && stagedDeployment.dueTranches.length > 0) {
+      const { dueTranches, remainingTranches } = stagedDeployment;
+      const dueAmount = Math.round(stagedDeployment.dueAmount);
+      const heldBackAmount = Math.round(stagedDeployment.heldBackAmount);
+
+      recommendations.push({
+        type: "tranche_due",
+        priority: "medium",
+        title: "Tramo de Aportación Pendiente",
+        description: `Hay ${dueTranches.length} tramo(s) listos para desplegar ($${dueAmount.toLocaleString(
+          "es-ES"
+        )}). Quedan ${remainingTranches.length} tramo(s) por vencer ($${heldBackAmount.toLocaleString(
+          "es-ES"
+        )}).`,
+        actions: {
+          tranches: stagedDeployment.dueTranches,
+        },
+        actionUrl: "/dashboard/rebalance",
+      });
+    }
+
     // If everything is in range, show status
     if (
       recommendations.length === 0 ||
@@ -467,18 +397,20 @@ export class PortfolioRecommendationsService {
   /**
    * Calculate specific purchases for leverage_low case
    * Increases exposure to reach target leverage (usually leverageTarget, not just minimum)
+   * @param heldBackAmount - Cash of staged tranches not due yet (not leveraged)
    */
   private async calculateSpecificPurchases(
     portfolio: any,
     currentState: PortfolioCurrentState,
     targetWeights: Record<string, number>,
     latestPrices: Record<string, number>,
-    targetLeverage: number
+    targetLeverage: number,
+    heldBackAmount: number
   ): Promise<PurchaseRecommendation[]> {
     const { equity, exposure } = currentState;
 
     // Target exposure to reach target leverage
-    const targetExposure = equity * targetLeverage;
+    const targetExposure = (equity - heldBackAmount) * targetLeverage;
     const exposureIncrease = targetExposure - exposure;
 
     // Only recommend purchases if increase is meaningful (at least $10)
@@ -579,7 +511,8 @@ export class PortfolioRecommendationsService {
    */
   private calculateExtraContribution(
     currentState: PortfolioCurrentState,
-    maxLeverage: number
+    maxLeverage: number,
+    currency: string
   ): ExtraContributionRecommendation {
     const { equity, exposure, leverage } = currentState;
 
@@ -592,7 +525,7 @@ export class PortfolioRecommendationsService {
 
     return {
       amount: Math.max(0, extraNeeded),
-      currency: "USD",
+      currency,
       reason: `Para reducir leverage de ${leverage
         .toFixed(2)
         .replace(".", ",")}x a ${maxLeverage.toFixed(1).replace(".", ",")}x`,
@@ -601,21 +534,6 @@ export class PortfolioRecommendationsService {
     };
   }
 
-  /**
-   * Get leverage status (low, in_range, high)
-   * Uses small tolerance to handle floating point precision issues
-   */
-  private getLeverageStatus(
-    leverage: number,
-    leverageMin: number,
-    leverageMax: number
-  ): "low" | "in_range" | "high" {
-    const tolerance = 0.01; // 1% tolerance for floating point precision
-    if (leverage < leverageMin - tolerance) return "low";
-    if (leverage > leverageMax + tolerance) return "high";
-    return "in_range";
-  }
-
   /**
    * Get unit for an asset
    */
@@ -630,22 +548,17 @@ export class PortfolioRecommendationsService {
   }
 
   /**
-   * Get latest prices for assets
+   * Get latest prices for assets, converted into the base currency
    */
   private async getLatestPrices(
-    assetIds: string[]
+    assetIds: string[],
+    baseCurrency: string
   ): Promise<Record<string, number>> {
+    const valuation = await this.fxService.getValuation(assetIds, baseCurrency);
     const prices: Record<string, number> = {};
 
-    for (const assetId of assetIds) {
-      const latestPrice = await this.prisma.assetPrice.findFirst({
-        where: { assetId },
-        orderBy: { date: "desc" },
-      });
-
-      if (latestPrice) {
-        prices[assetId] = latestPrice.close;
-      }
+    for (const [assetId, close] of Object.entries(valuation.prices)) {
+      prices[assetId] = close * (valuation.fxRates[assetId] ?? 1);
     }
 
     return prices;
@@ -0,0 +1,26 @@
+import { Controller, Get, Param, UseGuards } from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import { PortfolioRiskService } from "./portfolio-risk.service";
+
+/**
+ * Controller for portfolio risk analysis
+ * Exposes the Monte Carlo liquidation risk estimate
+ */
+@Controller("portfolios/:portfolioId/risk")
+@UseGuards(AuthGuard)
+export class PortfolioRiskController {
+  constructor(private readonly riskService: PortfolioRiskService) {}
+
+  /**
+   * Get margin call probabilities for 1/3/12 months
+   *
+   * @param portfolioId - Portfolio ID
+   * @returns Liquidation risk simulation results
+   */
+  @Get("liquidation")
+  async getLiquidationRisk(@Param("portfolioId") portfolioId: string) {
+    return this.riskService.getLiquidationRisk(portfolioId);
+  }
+}
@@ -0,0 +1,317 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+
+import { getFxRate } from "../fx/fx-rates";
+import { FxService } from "../fx/fx.service";
+import { PrismaService } from "../prisma/prisma.service";
+
+import {
+  EquityPercentiles,
+  LiquidationRiskHorizon,
+  PortfolioLiquidationRiskResponse,
+} from "./dto/portfolio-risk.dto";
+import { PortfolioConfigurationService } from "./portfolio-configuration.service";
+
+/**
+ * Horizons reported by the simulator (months → trading days)
+ */
+const RISK_HORIZONS = [
+  { months: 1, tradingDays: 21 },
+  { months: 3, tradingDays: 63 },
+  { months: 12, tradingDays: 252 },
+];
+
+const SIMULATION_PATHS = 2000;
+const MIN_HISTORY_DAYS = 20;
+const TRADING_DAYS_PER_MONTH = 21;
+
+// Fixed seed so the dashboard shows stable numbers between refreshes
+const SIMULATION_SEED = 42;
+
+/**
+ * Service for estimating liquidation risk with a Monte Carlo simulation
+ * Bootstraps historical daily returns of the assets held in the portfolio
+ */
+@Injectable()
+export class PortfolioRiskService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: PortfolioConfigurationService,
+    private readonly fxService: FxService
+  ) {}
+
+  /**
+   * Estimate the probability of hitting a margin call over 1/3/12 months
+   *
+   * Each path resamples whole historical days (keeps cross-asset correlation),
+   * keeps debt constant between rebalances and applies the strategy monthly:
+   * contribution (if enabled), de-lever to leverageMax above the band,
+   * re-lever to leverageTarget below it.
+   *
+   * @param portfolioId - Portfolio ID
+   * @returns Margin call probabilities per horizon
+   */
+  async getLiquidationRisk(
+    portfolioId: string
+  ): Promise<PortfolioLiquidationRiskResponse> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: {
+        positions: {
+          include: { asset: true },
+        },
+        metricsTimeseries: {
+          orderBy: { date: "desc" },
+          take: 1,
+        },
+        dailyMetrics: {
+          orderBy: { date: "desc" },
+          take: 1,
+        },
+      },
+    });
+
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+
+    const config = await this.configService.getConfiguration(portfolioId);
+    const positions = (portfolio.positions as any[]).filter(
+      (p) => p.quantity > 0
+    );
+
+    // Current state (same equity source as recommendations), valued in
+    // the base currency
+    const valuation = await this.fxService.getValuation(
+      positions.map((p) => p.assetId),
+      portfolio.baseCurrency
+    );
+    const positionValues: Record<string, number> = {};
+    let exposure = 0;
+    for (const position of positions) {
+      const price = valuation.prices[position.assetId] || position.avgPrice;
+      const value =
+        position.quantity * price * (valuation.fxRates[position.assetId] ?? 1);
+      positionValues[position.assetId] = value;
+      exposure += value;
+    }
+
+    let equity = portfolio.initialCapital;
+    if (portfolio.dailyMetrics?.length > 0) {
+      equity = portfolio.dailyMetrics[0].equity;
+    } else if (portfolio.metricsTimeseries?.length > 0) {
+      equity = portfolio.metricsTimeseries[0].equity;
+    }
+
+    const leverage = equity > 0 ? exposure / equity : 0;
+    const marginRatio = exposure > 0 ? equity / exposure : 1;
+    const maintenance = config.maintenanceMarginRatio;
+
+    const history = await this.loadAlignedReturns(
+      positions.map((p) => p.assetId),
+      portfolio.baseCurrency
+    );
+
+    const response: PortfolioLiquidationRiskResponse = {
+      portfolioId,
+      timestamp: new Date().toISOString(),
+      currentState: { equity, exposure, leverage, marginRatio },
+      configuration: {
+        leverageMin: config.leverageMin,
+        leverageMax: config.leverageMax,
+        leverageTarget: config.leverageTarget,
+        maintenanceMarginRatio: maintenance,
+        monthlyContribution: config.monthlyContribution || 0,
+        contributionEnabled: config.contributionEnabled,
+      },
+      simulation: {
+        paths: 0,
+        historyDays: history.returns.length,
+        historyStart: history.start,
+        historyEnd: history.end,
+        assets: positions.map((p) => p.asset.symbol),
+      },
+      distanceToMarginCall:
+        exposure > 0 && maintenance < 1
+          ? Math.max(0, (marginRatio - maintenance) / (1 - maintenance))
+          : 1,
+      horizons: RISK_HORIZONS.map((h) => ({ ...h, marginCallProbability: 0 })),
+      equityPercentiles: null,
+      insufficientData: true,
+    };
+
+    if (
+      exposure <= 0 ||
+      equity <= 0 ||
+      history.returns.length < MIN_HISTORY_DAYS
+    ) {
+      console.warn(
+        `[PortfolioRisk] Insufficient data for portfolio ${portfolioId}: exposure=${exposure}, equity=${equity}, historyDays=${history.returns.length}`
+      );
+      return response;
+    }
+
+    const initialValues = positions.map((p) => positionValues[p.assetId]);
+    const maxDays = Math.max(...RISK_HORIZONS.map((h) => h.tradingDays));
+    const contribution = config.contributionEnabled
+      ? config.monthlyContribution || 0
+      : 0;
+    const random = this.createRandom(SIMULATION_SEED);
+
+    const marginCallDays: number[] = [];
+    const finalEquities: number[] = [];
+
+    for (let path = 0; path < SIMULATION_PATHS; path++) {
+      const values = [...initialValues];
+      let pathExposure = exposure;
+      let pathEquity = equity;
+      let debt = exposure - equity;
+      let marginCallDay = Infinity;
+
+      for (let day = 1; day <= maxDays; day++) {
+        const sample =
+          history.returns[Math.floor(random() * history.returns.length)];
+
+        pathExposure = 0;
+        for (let j = 0; j < values.length; j++) {
+          values[j] *= 1 + sample[j];
+          pathExposure += values[j];
+        }
+        pathEquity = pathExposure - debt;
+
+        if (pathEquity <= maintenance * pathExposure) {
+          marginCallDay = day;
+          break;
+        }
+
+        // Monthly strategy step
+        if (day % TRADING_DAYS_PER_MONTH === 0) {
+          pathEquity += contribution;
+          debt -= contribution;
+
+          const pathLeverage = pathEquity > 0 ? pathExposure / pathEquity : 0;
+          let newExposure = pathExposure;
+          if (pathLeverage > config.leverageMax) {
+            newExposure = pathEquity * config.leverageMax;
+          } else if (pathLeverage < config.leverageMin) {
+            newExposure = pathEquity * config.leverageTarget;
+          }
+
+          if (newExposure !== pathExposure && pathExposure > 0) {
+            const factor = newExposure / pathExposure;
+            for (let j = 0; j < values.length; j++) {
+              values[j] *= factor;
+            }
+            pathExposure = newExposure;
+            debt = pathExposure - pathEquity;
+          }
+        }
+      }
+
+      marginCallDays.push(marginCallDay);
+      finalEquities.push(Math.max(0, pathEquity));
+    }
+
+    const horizons: LiquidationRiskHorizon[] = RISK_HORIZONS.map((h) => ({
+      ...h,
+      marginCallProbability:
+        marginCallDays.filter((d) => d <= h.tradingDays).length /
+        SIMULATION_PATHS,
+    }));
+
+    console.log(
+      `[PortfolioRisk] Portfolio ${portfolioId}: ${horizons
+        .map((h) => `${h.months}m=${(h.marginCallProbability * 100).toFixed(2)}%`)
+        .join(", ")}`
+    );
+
+    return {
+      ...response,
+      simulation: { ...response.simulation, paths: SIMULATION_PATHS },
+      horizons,
+      equityPercentiles: this.calculatePercentiles(finalEquities),
+      insufficientData: false,
+    };
+  }
+
+  /**
+   * Load daily simple returns for the given assets on common dates
+   * Each row holds one return per asset (same order as assetIds)
+   * Closes are converted into the base currency at the rate of their day
+   */
+  private async loadAlignedReturns(
+    assetIds: string[],
+    baseCurrency: string
+  ): Promise<{
+    returns: number[][];
+    start: string | null;
+    end: string | null;
+  }> {
+    if (assetIds.length === 0) {
+      return { returns: [], start: null, end: null };
+    }
+
+    const { quoteCurrencies, table: fxRates } =
+      await this.fxService.getAssetRates(assetIds, baseCurrency);
+    const closesByAsset: Array<Map<string, number>> = [];
+    for (const assetId of assetIds) {
+      const prices = await this.prisma.assetPrice.findMany({
+        where: { assetId },
+        orderBy: { date: "asc" },
+      });
+      const quoteCurrency = quoteCurrencies[assetId] ?? baseCurrency;
+      const closes = new Map<string, number>();
+      for (const price of prices) {
+        if (price.close > 0) {
+          const fxRate =
+            getFxRate(fxRates, quoteCurrency, baseCurrency, price.date) ?? 1;
+          closes.set(
+            price.date.toISOString().split("T")[0],
+            price.close * fxRate
+          );
+        }
+      }
+      closesByAsset.push(closes);
+    }
+
+    const commonDates = Array.from(closesByAsset[0].keys())
+      .filter((date) => closesByAsset.every((closes) => closes.has(date)))
+      .sort();
+
+    const returns: number[][] = [];
+    for (let i = 1; i < commonDates.length; i++) {
+      returns.push(
+        closesByAsset.map(
+          (closes) =>
+            closes.get(commonDates[i])! / closes.get(commonDates[i - 1])! - 1
+        )
+      );
+    }
+
+    return {
+      returns,
+      start: commonDates[0] ?? null,
+      end: commonDates[commonDates.length - 1] ?? null,
+    };
+  }
+
+  private calculatePercentiles(values: number[]): EquityPercentiles {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (q: number) =>
+      sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+    return { p5: at(0.05), p50: at(0.5), p95: at(0.95) };
+  }
+
+  /**
+   * Seeded PRNG (mulberry32) returning values in [0, 1)
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
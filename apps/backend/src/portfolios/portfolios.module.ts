@@ -1,33 +1,40 @@
 import { Module } from "@nestjs/common";
 
 import { AuthModule } from "../auth/auth.module";
+import { FxModule } from "../fx/fx.module";
+import { TradesModule } from "../trades/trades.module";
 
 import { OnboardingService } from "./onboarding.service";
 import { PortfolioConfigurationController } from "./portfolio-configuration.controller";
 import { PortfolioConfigurationService } from "./portfolio-configuration.service";
 import { PortfolioRecommendationsController } from "./portfolio-recommendations.controller";
 import { PortfolioRecommendationsService } from "./portfolio-recommendations.service";
+import { PortfolioRiskController } from "./portfolio-risk.controller";
+import { PortfolioRiskService } from "./portfolio-risk.service";
 import { PortfoliosController } from "./portfolios.controller";
 import { PortfoliosService } from "./portfolios.service";
 
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, FxModule, TradesModule],
   controllers: [
     PortfoliosController,
     PortfolioConfigurationController,
     PortfolioRecommendationsController,
+    PortfolioRiskController,
   ],
   providers: [
     PortfoliosService,
     PortfolioConfigurationService,
     PortfolioRecommendationsService,
+    PortfolioRiskService,
     OnboardingService,
   ],
   exports: [
     PortfoliosService,
     PortfolioConfigurationService,
     PortfolioRecommendationsService,
+    PortfolioRiskService,
     OnboardingService,
   ],
 })
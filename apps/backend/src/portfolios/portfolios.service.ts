@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException } from "@nestjs/common";
 
+import { FxService } from "../fx/fx.service";
 import { PrismaService } from "../prisma/prisma.service";
 
 interface DailyHistoryEntry {
@@ -12,7 +13,10 @@ const RISK_FREE_RATE = 0.02;
 
 @Injectable()
 export class PortfoliosService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly fxService: FxService
+  ) {}
 
   /**
    * Find portfolios by user email
@@ -187,11 +191,14 @@ export class PortfoliosService {
     console.log(`  - totalContributions: ${totalContributions}`);
 
     // Calculate pending contributions (not deployed) - for display only
-    // NOTE: Contributions are now marked as deployed immediately when registered,
-    // so pending contributions should be 0 in normal operation
+    // NOTE: Contributions are marked as deployed immediately when registered,
+    // unless they are staged in tranches (only the undeployed remainder counts)
     const pendingContributions = portfolio.contributions
       .filter((c: any) => !c.deployed)
-      .reduce((sum: number, c: any) => sum + c.amount, 0);
+      .reduce(
+        (sum: number, c: any) => sum + c.amount - (c.deployedAmount || 0),
+        0
+      );
 
     // EQUITY CALCULATION STRATEGY:
     // The equity is the user's actual capital in the portfolio, NOT derived from exposure/borrowedAmount.
@@ -214,24 +221,26 @@ export class PortfoliosService {
 
     // Calculate exposure in REAL-TIME from current positions and latest prices
     // This ensures accuracy even if metrics are outdated
+    // Values are converted into the base currency, prices stay in the
+    // quote currency of each asset
     let currentExposure = 0;
     const latestPrices: Record<string, number> = {};
+    const valuation = await this.fxService.getValuation(
+      portfolio.positions.map((position: any) => position.assetId),
+      portfolio.baseCurrency
+    );
 
     for (const position of portfolio.positions) {
-      // Get latest price for this asset
-      const latestPrice = await this.prisma.assetPrice.findFirst({
-        where: { assetId: position.assetId },
-        orderBy: { date: "desc" },
-      });
-      const price = latestPrice?.close || position.avgPrice;
+      const fxRate = valuation.fxRates[position.assetId] ?? 1;
+      const price = valuation.prices[position.assetId] || position.avgPrice;
       latestPrices[position.assetId] = price;
 
       // Calculate current value of this position
-      const positionValue = position.quantity * price;
+      const positionValue = position.quantity * price * fxRate;
       currentExposure += positionValue;
 
-      // Update position exposureUsd to match current value
-      if (Math.abs(position.exposureUsd - positionValue) > 0.01) {
+      // Update position exposure to match current value
+      if (Math.abs(position.exposure - positionValue) > 0.01) {
         await this.prisma.portfolioPosition.update({
           where: {
             portfolioId_assetId: {
@@ -239,7 +248,7 @@ export class PortfoliosService {
               assetId: position.assetId,
             },
           },
-          data: { exposureUsd: positionValue },
+          data: { exposure: positionValue },
         });
       }
     }
@@ -266,8 +275,9 @@ export class PortfoliosService {
     // Calculate position weights, PNL, and current prices using real-time exposure
     const positionsWithWeights = portfolio.positions.map((pos: any) => {
       const currentPrice = latestPrices[pos.assetId] || pos.avgPrice;
-      const currentValue = pos.quantity * currentPrice;
-      const pnl = (currentPrice - pos.avgPrice) * pos.quantity;
+      const fxRate = valuation.fxRates[pos.assetId] ?? 1;
+      const currentValue = pos.quantity * currentPrice * fxRate;
+      const pnl = (currentPrice - pos.avgPrice) * pos.quantity * fxRate;
       const pnlPercent =
         pos.avgPrice > 0
           ? ((currentPrice - pos.avgPrice) / pos.avgPrice) * 100
@@ -275,9 +285,11 @@ export class PortfoliosService {
 
       return {
         ...pos,
-        currentPrice, // Current market price
-        exposureUsd: currentValue, // Use real-time value
-        pnl, // Profit/Loss in USD
+        currentPrice, // Current market price (quote currency)
+        quoteCurrency: valuation.quoteCurrencies[pos.assetId] ?? "USD",
+        fxRate, // Base currency per unit of the quote currency
+        exposure: currentValue, // Use real-time value (base currency)
+        pnl, // Profit/Loss in the base currency
         pnlPercent, // Profit/Loss percentage
         weight:
           currentExposure > 0 ? (currentValue / currentExposure) * 100 : 0,
@@ -297,9 +309,11 @@ export class PortfoliosService {
       portfolio: {
         id: portfolio.id,
         name: portfolio.name,
+        baseCurrency: portfolio.baseCurrency,
         leverageMin: portfolio.leverageMin,
         leverageMax: portfolio.leverageMax,
       },
+      fxMissingCurrencies: valuation.missingCurrencies,
       metrics: {
         equity: effectiveEquity, // Now includes pending contributions
         exposure: currentExposure,
@@ -350,7 +364,11 @@ export class PortfoliosService {
       );
   }
 
-  private calculatePortfolioAnalytics(
+  /**
+   * Calculate summary analytics (AnalyticsStats) from a metrics history
+   * Also used by the backtest to summarize simulated series
+   */
+  calculatePortfolioAnalytics(
     metricsHistory: any[],
     totalContributions: number,
     initialCapital: number
@@ -0,0 +1,25 @@
+import { IsNotEmpty, IsOptional, Matches } from "class-validator";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Day to read holdings at (end of day UTC, default now)
+ */
+export class HoldingsQueryDto {
+  @IsOptional()
+  @Matches(DAY_PATTERN, { message: "date must be YYYY-MM-DD" })
+  date?: string;
+}
+
+/**
+ * Days to diff holdings between (end of day UTC)
+ */
+export class HoldingsDiffQueryDto {
+  @IsNotEmpty()
+  @Matches(DAY_PATTERN, { message: "from must be YYYY-MM-DD" })
+  from!: string;
+
+  @IsOptional()
+  @Matches(DAY_PATTERN, { message: "to must be YYYY-MM-DD" })
+  to?: string; // Default now
+}
@@ -0,0 +1,165 @@
+/**
+ * Position history
+ * Holdings are rebuilt from the append-only position snapshots: the last
+ * snapshot of each asset at a date gives its quantity then. Used by the
+ * holdings API and by the metrics refresh job, so this file must stay free
+ * of Nest and Prisma imports.
+ */
+
+/**
+ * Quantities below this are treated as zero
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * What wrote a snapshot
+ * 'opening' snapshots hold the positions that existed before history was kept
+ */
+export type PositionSnapshotSource =
+  "opening" | "manual" | "rebalance" | "import";
+
+export interface PositionSnapshotRow {
+  assetId: string;
+  quantity: number; // Quantity from recordedAt on (0 = closed)
+  avgPrice: number;
+  source: string;
+  recordedAt: Date;
+}
+
+/**
+ * A position held at a date
+ */
+export interface Holding {
+  assetId: string;
+  quantity: number;
+  avgPrice: number;
+  source: string; // Source of the snapshot that set it
+  since: Date; // When it was set
+}
+
+/**
+ * Holdings at a date: the last snapshot of each asset up to it, without
+ * closed positions
+ * @param snapshots - Snapshots of one portfolio, in any order
+ * @param date - Inclusive
+ */
+export function getHoldingsAt(
+  snapshots: PositionSnapshotRow[],
+  date: Date
+): Holding[] {
+  const latest = new Map<string, PositionSnapshotRow>();
+  for (const snapshot of snapshots) {
+    if (snapshot.recordedAt.getTime() > date.getTime()) continue;
+    const current = latest.get(snapshot.assetId);
+    if (
+      !current ||
+      snapshot.recordedAt.getTime() >= current.recordedAt.getTime()
+    ) {
+      latest.set(snapshot.assetId, snapshot);
+    }
+  }
+
+  return Array.from(latest.values())
+    .filter((snapshot) => snapshot.quantity > QUANTITY_EPSILON)
+    .map((snapshot) => ({
+      assetId: snapshot.assetId,
+      quantity: snapshot.quantity,
+      avgPrice: snapshot.avgPrice,
+      source: snapshot.source,
+      since: snapshot.recordedAt,
+    }));
+}
+
+/**
+ * Keep only the changes that differ from the last snapshot of each asset
+ * A first snapshot of an empty position is skipped too
+ * @param latest - Last snapshot quantity and avgPrice per asset
+ * @param changes - New quantity and avgPrice per asset
+ */
+export function getChangedPositions<
+  T extends { assetId: string; quantity: number; avgPrice: number },
+>(
+  latest: Map<string, { quantity: number; avgPrice: number }>,
+  changes: T[]
+): T[] {
+  return changes.filter((change) => {
+    const previous = latest.get(change.assetId);
+    if (!previous) return change.quantity > QUANTITY_EPSILON;
+    return (
+      Math.abs(previous.quantity - change.quantity) > QUANTITY_EPSILON ||
+      Math.abs(previous.avgPrice - change.avgPrice) > 1e-6
+    );
+  });
+}
+
+/**
+ * Change of one asset between two dates
+ * valueChange = priceEffect + tradeEffect, where priceEffect is what the
+ * starting quantity gained or lost with the price and tradeEffect the value
+ * bought (+) or sold (-) at the end price
+ */
+export interface HoldingChange {
+  assetId: string;
+  fromQuantity: number;
+  toQuantity: number;
+  quantityChange: number;
+  fromPrice: number | null;
+  toPrice: number | null;
+  fromValue: number;
+  toValue: number;
+  valueChange: number;
+  priceEffect: number;
+  tradeEffect: number;
+}
+
+/**
+ * Diff holdings between two dates, with a price/trade split of the value
+ * change (assets without a price are valued at their avgPrice)
+ * @param from - Holdings at the start
+ * @param to - Holdings at the end
+ * @param fromPrices - Close per asset at the start
+ * @param toPrices - Close per asset at the end
+ */
+export function diffHoldings(
+  from: Holding[],
+  to: Holding[],
+  fromPrices: Map<string, number>,
+  toPrices: Map<string, number>
+): HoldingChange[] {
+  const start = new Map(from.map((h) => [h.assetId, h]));
+  const end = new Map(to.map((h) => [h.assetId, h]));
+  const assetIds = Array.from(new Set([...start.keys(), ...end.keys()]));
+
+  return assetIds
+    .map((assetId) => {
+      const before = start.get(assetId);
+      const after = end.get(assetId);
+      const fromQuantity = before?.quantity ?? 0;
+      const toQuantity = after?.quantity ?? 0;
+      const fromPrice = fromPrices.get(assetId) ?? before?.avgPrice ?? null;
+      const toPrice = toPrices.get(assetId) ?? after?.avgPrice ?? fromPrice;
+      const fromValue = fromQuantity * (fromPrice ?? 0);
+      const toValue = toQuantity * (toPrice ?? 0);
+      const priceEffect = fromQuantity * ((toPrice ?? 0) - (fromPrice ?? 0));
+
+      return {
+        assetId,
+        fromQuantity,
+        toQuantity,
+        quantityChange: toQuantity - fromQuantity,
+        fromPrice,
+        toPrice,
+        fromValue,
+        toValue,
+        valueChange: toValue - fromValue,
+        priceEffect,
+        tradeEffect: toValue - fromValue - priceEffect,
+      };
+    })
+    .filter(
+      (change) =>
+        Math.abs(change.quantityChange) > QUANTITY_EPSILON ||
+        Math.abs(change.valueChange) > 1e-9 ||
+        change.toQuantity > QUANTITY_EPSILON
+    );
+}
@@ -0,0 +1,79 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import {
+  HoldingsDiffQueryDto,
+  HoldingsQueryDto,
+} from "./dto/holdings-query.dto";
+import {
+  HoldingsAsOf,
+  HoldingsDiff,
+  PositionHistoryService,
+} from "./position-history.service";
+
+/**
+ * Controller for historical holdings (position snapshots)
+ */
+@Controller("portfolios/:portfolioId/holdings")
+@UseGuards(AuthGuard)
+export class PositionHistoryController {
+  constructor(
+    private readonly positionHistoryService: PositionHistoryService
+  ) {}
+
+  /**
+   * Get holdings as of a day
+   * GET /api/portfolios/:portfolioId/holdings?date=2026-06-30
+   *
+   * @param portfolioId - Portfolio ID
+   * @param query - Day (end of day UTC, default now)
+   * @returns Holdings valued at the last close up to the day
+   */
+  @Get()
+  async getHoldings(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: HoldingsQueryDto
+  ): Promise<HoldingsAsOf> {
+    return this.positionHistoryService.getHoldingsAsOf(
+      portfolioId,
+      query.date ? endOfDay(query.date) : new Date()
+    );
+  }
+
+  /**
+   * Diff holdings between two days
+   * GET /api/portfolios/:portfolioId/holdings/diff?from=2026-01-01&to=2026-06-30
+   *
+   * @param portfolioId - Portfolio ID
+   * @param query - Start and end day (end of day UTC, end defaults to now)
+   * @returns Quantity and value changes per asset, split into price and trade effects
+   */
+  @Get("diff")
+  async getDiff(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: HoldingsDiffQueryDto
+  ): Promise<HoldingsDiff> {
+    const from = endOfDay(query.from);
+    const to = query.to ? endOfDay(query.to) : new Date();
+    if (from.getTime() > to.getTime()) {
+      throw new BadRequestException("from must not be after to");
+    }
+    return this.positionHistoryService.getHoldingsDiff(portfolioId, from, to);
+  }
+}
+
+function endOfDay(day: string): Date {
+  const date = new Date(`${day}T23:59:59.999Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`Invalid date ${day}`);
+  }
+  return date;
+}
@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+
+import { AuthModule } from "../auth/auth.module";
+import { FxModule } from "../fx/fx.module";
+
+import { PositionHistoryController } from "./position-history.controller";
+import { PositionHistoryService } from "./position-history.service";
+
+/**
+ * Module for position snapshots and historical holdings
+ */
+@Module({
+  imports: [AuthModule, FxModule],
+  controllers: [PositionHistoryController],
+  providers: [PositionHistoryService],
+  exports: [PositionHistoryService],
+})
+export class PositionHistoryModule {}
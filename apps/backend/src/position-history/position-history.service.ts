@@ -0,0 +1,278 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+
+import { FxService } from "../fx/fx.service";
+import { PrismaService } from "../prisma/prisma.service";
+
+import {
+  Holding,
+  HoldingChange,
+  PositionSnapshotSource,
+  diffHoldings,
+  getChangedPositions,
+  getHoldingsAt,
+} from "./holdings";
+
+/**
+ * New state of one position, as written to PortfolioPosition
+ */
+export interface PositionSnapshotChange {
+  assetId: string;
+  quantity: number; // 0 when the position is closed
+  avgPrice: number;
+}
+
+/**
+ * A holding at a date, valued at the last close up to that date
+ * converted into the portfolio's base currency at the rate of that date
+ */
+export interface HoldingView {
+  assetId: string;
+  symbol: string;
+  name: string;
+  assetType: string;
+  quantity: number;
+  avgPrice: number;
+  price: number | null; // Last close up to the date, base currency (null = no price, valued at avgPrice)
+  value: number;
+  weight: number; // Of totalValue
+  source: string; // What set the quantity
+  since: string;
+}
+
+export interface HoldingsAsOf {
+  portfolioId: string;
+  baseCurrency: string;
+  date: string;
+  holdings: HoldingView[];
+  totalValue: number;
+}
+
+export interface HoldingChangeView extends HoldingChange {
+  symbol: string;
+  name: string;
+}
+
+export interface HoldingsDiff {
+  portfolioId: string;
+  baseCurrency: string;
+  from: string;
+  to: string;
+  changes: HoldingChangeView[];
+  totals: {
+    fromValue: number;
+    toValue: number;
+    valueChange: number;
+    priceEffect: number; // Market moves on the starting holdings
+    tradeEffect: number; // Buys and sells, valued at the end prices
+  };
+}
+
+@Injectable()
+export class PositionHistoryService {
+  constructor(
+    private prisma: PrismaService,
+    private fxService: FxService
+  ) {}
+
+  /**
+   * Append snapshots for changed positions
+   * Positions equal to their last snapshot are skipped
+   * @param portfolioId - Portfolio ID
+   * @param changes - New quantity and avgPrice per asset
+   * @param source - What changed them
+   * @param sourceId - RebalanceEvent ID for rebalance changes
+   */
+  async recordSnapshots(
+    portfolioId: string,
+    changes: PositionSnapshotChange[],
+    source: PositionSnapshotSource,
+    sourceId: string | null = null
+  ): Promise<number> {
+    if (changes.length === 0) return 0;
+
+    const previous = await this.prisma.positionSnapshot.findMany({
+      where: {
+        portfolioId,
+        assetId: { in: changes.map((c) => c.assetId) },
+      },
+      orderBy: { recordedAt: "desc" },
+    });
+    const latest = new Map<string, { quantity: number; avgPrice: number }>();
+    for (const snapshot of previous) {
+      if (!latest.has(snapshot.assetId)) {
+        latest.set(snapshot.assetId, snapshot);
+      }
+    }
+
+    const changed = getChangedPositions(latest, changes);
+    if (changed.length === 0) return 0;
+
+    const recordedAt = new Date();
+    await this.prisma.positionSnapshot.createMany({
+      data: changed.map((change) => ({
+        portfolioId,
+        assetId: change.assetId,
+        quantity: Math.max(0, change.quantity),
+        avgPrice: change.avgPrice,
+        source,
+        sourceId,
+        recordedAt,
+      })),
+    });
+    return changed.length;
+  }
+
+  /**
+   * Get holdings as of a date
+   * @param portfolioId - Portfolio ID
+   * @param date - Inclusive
+   */
+  async getHoldingsAsOf(
+    portfolioId: string,
+    date: Date
+  ): Promise<HoldingsAsOf> {
+    const baseCurrency = await this.getBaseCurrency(portfolioId);
+
+    const holdings = await this.loadHoldings(portfolioId, date);
+    const assets = await this.loadAssets(holdings.map((h) => h.assetId));
+    const prices = await this.getPricesAt(
+      holdings.map((h) => h.assetId),
+      date,
+      baseCurrency
+    );
+
+    const valued = holdings.map((holding) => {
+      const price = prices.get(holding.assetId) ?? null;
+      return {
+        holding,
+        price,
+        value: holding.quantity * (price ?? holding.avgPrice),
+      };
+    });
+    const totalValue = valued.reduce((sum, h) => sum + h.value, 0);
+
+    return {
+      portfolioId,
+      baseCurrency,
+      date: date.toISOString(),
+      holdings: valued
+        .map(({ holding, price, value }) => {
+          const asset = assets.get(holding.assetId);
+          return {
+            assetId: holding.assetId,
+            symbol: asset?.symbol ?? holding.assetId,
+            name: asset?.name ?? "",
+            assetType: asset?.assetType ?? "unknown",
+            quantity: holding.quantity,
+            avgPrice: holding.avgPrice,
+            price,
+            value,
+            weight: totalValue > 0 ? value / totalValue : 0,
+            source: holding.source,
+            since: holding.since.toISOString(),
+          };
+        })
+        .sort((a, b) => b.value - a.value),
+      totalValue,
+    };
+  }
+
+  /**
+   * Diff holdings between two dates
+   * The value change of each asset is split into a price effect and a trade
+   * effect (see diffHoldings)
+   * @param portfolioId - Portfolio ID
+   * @param from - Start date (inclusive)
+   * @param to - End date (inclusive)
+   */
+  async getHoldingsDiff(
+    portfolioId: string,
+    from: Date,
+    to: Date
+  ): Promise<HoldingsDiff> {
+    const baseCurrency = await this.getBaseCurrency(portfolioId);
+
+    const start = await this.loadHoldings(portfolioId, from);
+    const end = await this.loadHoldings(portfolioId, to);
+    const assetIds = Array.from(
+      new Set([...start, ...end].map((h) => h.assetId))
+    );
+    const assets = await this.loadAssets(assetIds);
+
+    const changes = diffHoldings(
+      start,
+      end,
+      await this.getPricesAt(assetIds, from, baseCurrency),
+      await this.getPricesAt(assetIds, to, baseCurrency)
+    ).map((change) => ({
+      ...change,
+      symbol: assets.get(change.assetId)?.symbol ?? change.assetId,
+      name: assets.get(change.assetId)?.name ?? "",
+    }));
+
+    const sum = (field: keyof HoldingsDiff["totals"]) =>
+      changes.reduce((total, change) => total + change[field], 0);
+
+    return {
+      portfolioId,
+      baseCurrency,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      changes: changes.sort(
+        (a, b) => Math.abs(b.valueChange) - Math.abs(a.valueChange)
+      ),
+      totals: {
+        fromValue: sum("fromValue"),
+        toValue: sum("toValue"),
+        valueChange: sum("valueChange"),
+        priceEffect: sum("priceEffect"),
+        tradeEffect: sum("tradeEffect"),
+      },
+    };
+  }
+
+  private async getBaseCurrency(portfolioId: string): Promise<string> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { baseCurrency: true },
+    });
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+    return portfolio.baseCurrency;
+  }
+
+  private async loadHoldings(
+    portfolioId: string,
+    date: Date
+  ): Promise<Holding[]> {
+    const snapshots = await this.prisma.positionSnapshot.findMany({
+      where: { portfolioId, recordedAt: { lte: date } },
+    });
+    return getHoldingsAt(snapshots, date);
+  }
+
+  private async loadAssets(assetIds: string[]) {
+    const assets = await this.prisma.asset.findMany({
+      where: { id: { in: assetIds } },
+    });
+    return new Map(assets.map((asset) => [asset.id, asset]));
+  }
+
+  private async getPricesAt(
+    assetIds: string[],
+    date: Date,
+    baseCurrency: string
+  ): Promise<Map<string, number>> {
+    const valuation = await this.fxService.getValuation(
+      assetIds,
+      baseCurrency,
+      date
+    );
+    const prices = new Map<string, number>();
+    for (const [assetId, close] of Object.entries(valuation.prices)) {
+      prices.set(assetId, close * (valuation.fxRates[assetId] ?? 1));
+    }
+    return prices;
+  }
+}
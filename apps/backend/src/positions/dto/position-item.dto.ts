@@ -1,5 +1,5 @@
 import { Type } from 'class-transformer';
-import { IsNotEmpty, IsNumber, IsOptional, IsString, Min, Max } from 'class-validator';
+import { IsArray, IsNotEmpty, IsNumber, IsOptional, IsString, IsUUID, Min, Max } from 'class-validator';
 
 export class PositionItemDto {
   @IsString()
@@ -26,5 +26,10 @@ export class PositionItemDto {
   @Max(1)
   @Type(() => Number)
   targetWeight?: number; // Optional target weight for new assets
+
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  lotIds?: string[]; // Lots to relieve first when reducing quantity ('specific' lot relief method)
 }
 
@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 
 import { AuthModule } from '../auth/auth.module';
+import { FxModule } from '../fx/fx.module';
 import { PortfoliosModule } from '../portfolios/portfolios.module';
+import { TaxLotsModule } from '../tax-lots/tax-lots.module';
+import { TradesModule } from '../trades/trades.module';
 
 import { PositionsController } from './positions.controller';
 import { PositionsService } from './positions.service';
 
 @Module({
-  imports: [PortfoliosModule, AuthModule],
+  imports: [PortfoliosModule, AuthModule, FxModule, TaxLotsModule, TradesModule],
   controllers: [PositionsController],
   providers: [PositionsService],
   exports: [PositionsService],
@@ -1,7 +1,11 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Trade } from '@prisma/client';
 
+import { FxService } from '../fx/fx.service';
 import { PortfolioConfigurationService } from '../portfolios/portfolio-configuration.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { TaxLotsService } from '../tax-lots/tax-lots.service';
+import { TradesService } from '../trades/trades.service';
 
 import { UpsertPositionsDto } from './dto/upsert-positions.dto';
 
@@ -9,10 +13,20 @@ import { UpsertPositionsDto } from './dto/upsert-positions.dto';
 export class PositionsService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly configService: PortfolioConfigurationService
+    private readonly configService: PortfolioConfigurationService,
+    private readonly taxLotsService: TaxLotsService,
+    private readonly tradesService: TradesService,
+    private readonly fxService: FxService
   ) {}
 
-  async upsert(dto: UpsertPositionsDto) {
+  /**
+   * Replace the portfolio positions with the given ones
+   * Each change is booked as trades in the ledger and the position is
+   * rebuilt from it
+   * @param dto - Positions (quantity 0 removes a position)
+   * @param source - Recorded on the trades and position snapshots ('import' for broker statements)
+   */
+  async upsert(dto: UpsertPositionsDto, source: 'manual' | 'import' = 'manual') {
     console.log(`[PositionsService] Starting upsert for portfolio ${dto.portfolioId}`);
     console.log(`[PositionsService] Received ${dto.positions.length} positions:`, 
       dto.positions.map(p => ({ symbol: p.symbol, quantity: p.quantity }))
@@ -65,6 +79,24 @@ export class PositionsService {
       console.log(`[PositionsService] Assets to delete: ${deletedAssetSymbols.join(", ")}`);
     }
 
+    // Validate lot selections before touching positions
+    for (const item of dto.positions) {
+      if (!item.lotIds || item.lotIds.length === 0) continue;
+      const existingPos = (portfolio.positions as any[]).find(
+        (p: any) => p.asset.symbol === item.symbol
+      );
+      if (!existingPos || item.quantity >= existingPos.quantity) {
+        throw new BadRequestException(
+          `Lots can only be chosen when reducing a position (${item.symbol})`
+        );
+      }
+      await this.taxLotsService.validateLotSelection(
+        dto.portfolioId,
+        existingPos.assetId,
+        item.lotIds
+      );
+    }
+
     // Update positions
     console.log(`[PositionsService] Processing ${dto.positions.length} positions...`);
     for (const item of dto.positions) {
@@ -100,8 +132,6 @@ export class PositionsService {
         }
       }
 
-      const exposure = item.quantity * finalAvgPrice;
-
       const asset = await this.prisma.asset.upsert({
         where: { symbol: item.symbol },
         update: {
@@ -140,10 +170,15 @@ export class PositionsService {
         // Download historical prices for new asset (needed for Sharpe optimization)
         console.log(`[PositionsService] Starting historical price download for new asset ${item.symbol}...`);
         try {
-          await this.downloadHistoricalPrices(asset.id, item.symbol);
+          const quoteCurrency = await this.downloadHistoricalPrices(asset.id, item.symbol);
           console.log(
             `[PositionsService] ✅ Ticker ${item.symbol} validado y histórico descargado correctamente`
           );
+
+          // FX rates to value it in the base currency over the same window
+          const historyStart = new Date();
+          historyStart.setDate(historyStart.getDate() - 730);
+          await this.fxService.ensureHistory([quoteCurrency], portfolio.baseCurrency, historyStart);
         } catch (err) {
           console.error(
             `[PositionsService] ⚠️ Error descargando histórico para ${item.symbol}:`,
@@ -158,26 +193,37 @@ export class PositionsService {
         }
       }
 
-      const position = await this.prisma.portfolioPosition.upsert({
-        where: {
-          portfolioId_assetId: {
-            portfolioId: dto.portfolioId,
-            assetId: asset.id,
-          },
-        },
-        update: {
-          quantity: item.quantity,
-          avgPrice: finalAvgPrice,
-          exposureUsd: exposure,
-        },
-        create: {
-          portfolioId: dto.portfolioId,
-          assetId: asset.id,
-          quantity: item.quantity,
-          avgPrice: finalAvgPrice,
-          exposureUsd: exposure,
-        },
-      });
+      const previousPosition = (portfolio.positions as any[]).find(
+        (p: any) => p.assetId === asset.id
+      );
+
+      // Book the change in the ledger and rebuild the position from it
+      const trades = await this.tradesService.tradeToTarget(
+        dto.portfolioId,
+        asset.id,
+        { quantity: item.quantity, avgPrice: finalAvgPrice },
+        await this.getSellPrice(asset.id, previousPosition?.avgPrice ?? finalAvgPrice),
+        { source }
+      );
+      const [position] = await this.tradesService.syncPositions(
+        dto.portfolioId,
+        [asset.id],
+        {
+          markPrices: new Map([[asset.id, finalAvgPrice]]),
+          snapshot: { source },
+        }
+      );
+
+      // Keep tax lots in line with the new quantity
+      await this.syncTaxLots(
+        dto.portfolioId,
+        asset.id,
+        previousPosition,
+        item.quantity,
+        finalAvgPrice,
+        item.lotIds,
+        this.getUnitTradeId(trades)
+      );
 
       positions.push(position);
     }
@@ -190,12 +236,31 @@ export class PositionsService {
         });
         
         if (asset) {
-          await this.prisma.portfolioPosition.deleteMany({
-            where: {
-              portfolioId: dto.portfolioId,
-              assetId: asset.id,
-            },
+          const previousPosition = (portfolio.positions as any[]).find(
+            (p: any) => p.assetId === asset.id
+          );
+
+          const trades = await this.tradesService.tradeToTarget(
+            dto.portfolioId,
+            asset.id,
+            { quantity: 0 },
+            await this.getSellPrice(asset.id, previousPosition?.avgPrice ?? 0),
+            { source }
+          );
+          await this.tradesService.syncPositions(dto.portfolioId, [asset.id], {
+            removeClosed: true,
+            snapshot: { source },
           });
+
+          await this.syncTaxLots(
+            dto.portfolioId,
+            asset.id,
+            previousPosition,
+            0,
+            previousPosition?.avgPrice ?? 0,
+            dto.positions.find((p) => p.symbol === symbol)?.lotIds,
+            this.getUnitTradeId(trades)
+          );
         }
       }
     }
@@ -219,18 +284,18 @@ export class PositionsService {
 
     // Update equity if provided
     if (dto.equity !== undefined && dto.equity !== null) {
-      // Calculate current exposure from updated positions
+      // Calculate current exposure from updated positions (in the base currency)
       let exposure = 0;
       const latestPrices: Record<string, number> = {};
+      const valuation = await this.fxService.getValuation(
+        positions.map((position) => position.assetId),
+        portfolio.baseCurrency
+      );
       
       for (const position of positions) {
-        const latestPrice = await this.prisma.assetPrice.findFirst({
-          where: { assetId: position.assetId },
-          orderBy: { date: 'desc' },
-        });
-        const price = latestPrice?.close || position.avgPrice;
+        const price = valuation.prices[position.assetId] || position.avgPrice;
         latestPrices[position.assetId] = price;
-        exposure += position.quantity * price;
+        exposure += position.quantity * price * (valuation.fxRates[position.assetId] ?? 1);
       }
 
       // Get previous equity to detect changes
@@ -390,7 +455,7 @@ export class PositionsService {
       // Calculate current portfolio composition
       const composition = positionsWithAssets.map((pos: any) => {
         const price = latestPrices[pos.assetId] || pos.avgPrice;
-        const value = pos.quantity * price;
+        const value = pos.quantity * price * (valuation.fxRates[pos.assetId] ?? 1);
         const weight = exposure > 0 ? value / exposure : 0;
         
         return {
@@ -481,6 +546,78 @@ export class PositionsService {
     return positions;
   }
 
+  /**
+   * Open or relieve tax lots after a manual quantity change
+   * Added units cost what the new avgPrice implies
+   * ((newQty * newAvg - oldQty * oldAvg) / addedQty); removed units are sold
+   * at the latest close
+   * @param tradeId - Ledger trade of the change; tags the lots so reversing
+   * the trade undoes them
+   */
+  private async syncTaxLots(
+    portfolioId: string,
+    assetId: string,
+    previousPosition: any,
+    quantity: number,
+    avgPrice: number,
+    lotIds?: string[],
+    tradeId?: string
+  ): Promise<void> {
+    const previousQuantity = previousPosition?.quantity ?? 0;
+    if (previousPosition) {
+      await this.taxLotsService.ensureOpeningLot(
+        portfolioId,
+        assetId,
+        previousQuantity,
+        previousPosition.avgPrice,
+        previousPosition.updatedAt
+      );
+    }
+
+    let price = avgPrice;
+    if (quantity > previousQuantity) {
+      const previousCost = previousQuantity * (previousPosition?.avgPrice ?? 0);
+      const impliedCost =
+        (quantity * avgPrice - previousCost) / (quantity - previousQuantity);
+      if (Number.isFinite(impliedCost) && impliedCost > 0) {
+        price = impliedCost;
+      }
+    } else if (quantity < previousQuantity) {
+      price = await this.getSellPrice(
+        assetId,
+        previousPosition?.avgPrice || avgPrice
+      );
+    }
+
+    await this.taxLotsService.syncPosition(
+      portfolioId,
+      assetId,
+      quantity,
+      price,
+      { source: 'manual', sourceId: tradeId ?? null, lotIds }
+    );
+  }
+
+  /**
+   * The buy or sell among the ledger entries of a change (adjustments move
+   * no units)
+   */
+  private getUnitTradeId(trades: Trade[]): string | undefined {
+    return trades.find((trade) => trade.side !== 'adjustment')?.id;
+  }
+
+  /**
+   * Price of units removed by a manual update: the latest close, or the
+   * fallback when the asset has no prices
+   */
+  private async getSellPrice(assetId: string, fallback: number): Promise<number> {
+    const latestPrice = await this.prisma.assetPrice.findFirst({
+      where: { assetId },
+      orderBy: { date: 'desc' },
+    });
+    return latestPrice?.close || fallback;
+  }
+
   /**
    * Validate ticker by checking if it exists in Yahoo Finance
    */
@@ -575,11 +712,12 @@ export class PositionsService {
   /**
    * Download historical prices for an asset (needed for Sharpe optimization)
    * Downloads last 730 days (24+ months) of daily prices for robust Sharpe calculation
+   * @returns Quote currency of the asset, as reported with the prices
    */
   private async downloadHistoricalPrices(
     assetId: string,
     symbol: string
-  ): Promise<void> {
+  ): Promise<string> {
     console.log(`[PositionsService] Starting historical price download for ${symbol} (assetId: ${assetId})`);
     
     try {
@@ -635,6 +773,13 @@ export class PositionsService {
       const closes = result.indicators.quote?.[0]?.close;
       const priceArray = adjCloses || closes;
 
+      // Prices are stored in the currency the asset is listed in (pence and
+      // other minor units are scaled to the major currency)
+      const { currency: quoteCurrency, priceScale } = await this.fxService.setQuoteCurrency(
+        assetId,
+        result.meta?.currency
+      );
+
       console.log(`[PositionsService] Data parsed for ${symbol}:`, {
         timestampsCount: timestamps?.length || 0,
         hasAdjCloses: !!adjCloses,
@@ -663,6 +808,8 @@ export class PositionsService {
         if (price !== null && price !== undefined && price > 0) {
           const date = new Date(timestamps[i] * 1000);
           date.setUTCHours(0, 0, 0, 0);
+          const close = price * priceScale;
+          const adjClose = (adjCloses?.[i] || price) * priceScale;
 
           if (!firstDate) firstDate = date;
           lastDate = date;
@@ -678,13 +825,13 @@ export class PositionsService {
               create: {
                 assetId,
                 date,
-                close: price,
-                adjClose: adjCloses?.[i] || price,
+                close,
+                adjClose,
                 source: "yahoo_finance",
               },
               update: {
-                close: price,
-                adjClose: adjCloses?.[i] || price,
+                close,
+                adjClose,
               },
             });
             savedCount++;
@@ -719,6 +866,8 @@ export class PositionsService {
         samplePrices: savedPrices.slice(0, 3).map((p: any) => ({ date: p.date.toISOString(), price: p.close }))
       });
 
+      return quoteCurrency;
+
     } catch (error) {
       console.error(
         `[PositionsService] ❌ Error downloading historical prices for ${symbol} (assetId: ${assetId}):`,
@@ -1,15 +1,58 @@
+import { AsyncLocalStorage } from "async_hooks";
+
 import { Injectable, OnModuleInit, OnModuleDestroy } from "@nestjs/common";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+
+/**
+ * Longest a transaction can run (multi-step writes such as accepting a
+ * rebalance issue many sequential queries)
+ */
+const TRANSACTION_TIMEOUT_MS = 60_000;
 
 /**
  * Prisma service that manages database connections
  * Extends PrismaClient and implements NestJS lifecycle hooks
+ * Inside runInTransaction, every query made through this service (from any
+ * service that injects it) runs on the transaction's client
  */
 @Injectable()
 export class PrismaService
   extends PrismaClient
   implements OnModuleInit, OnModuleDestroy
 {
+  private readonly transactions =
+    new AsyncLocalStorage<Prisma.TransactionClient>();
+
+  constructor() {
+    super();
+
+    // Model delegates and raw queries resolve to the open transaction, if any
+    return new Proxy(this, {
+      get(target, property, receiver) {
+        const transaction = target.transactions.getStore();
+        if (transaction && property in transaction) {
+          return transaction[property as keyof Prisma.TransactionClient];
+        }
+        return Reflect.get(target, property, receiver);
+      },
+    });
+  }
+
+  /**
+   * Run a sequence of writes atomically: if anything throws, nothing is
+   * committed. Nested calls join the outer transaction.
+   * @param work - Writes to run, through this service as usual
+   */
+  async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactions.getStore()) {
+      return work();
+    }
+    return this.$transaction(
+      (transaction) => this.transactions.run(transaction, work),
+      { timeout: TRANSACTION_TIMEOUT_MS }
+    );
+  }
+
   /**
    * Connect to database on module initialization
    */
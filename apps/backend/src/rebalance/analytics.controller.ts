@@ -0,0 +1,35 @@
+import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import { FrontierQueryDto } from "./dto/frontier-query.dto";
+import { EfficientFrontier, RebalanceService } from "./rebalance.service";
+
+/**
+ * Controller for portfolio risk/return analytics
+ */
+@Controller("portfolios/:portfolioId/analytics")
+@UseGuards(AuthGuard)
+export class AnalyticsController {
+  constructor(private readonly rebalanceService: RebalanceService) {}
+
+  /**
+   * Constrained efficient frontier and risk decomposition
+   * GET /api/portfolios/:portfolioId/analytics/frontier?points=20
+   *
+   * @param portfolioId - Portfolio ID
+   * @param query - Number of frontier points
+   * @returns Frontier, current/target/Sharpe-optimal points and the risk
+   * contribution of each asset at current weights
+   */
+  @Get("frontier")
+  async getFrontier(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: FrontierQueryDto
+  ): Promise<EfficientFrontier> {
+    return this.rebalanceService.calculateEfficientFrontier(
+      portfolioId,
+      query.points
+    );
+  }
+}
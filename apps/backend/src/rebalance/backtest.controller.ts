@@ -0,0 +1,32 @@
+import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import { BacktestResult, BacktestService } from "./backtest.service";
+
+/**
+ * Controller for historical backtests of the rebalance strategy
+ */
+@Controller("portfolios/:portfolioId/backtest")
+@UseGuards(AuthGuard)
+export class BacktestController {
+  constructor(private readonly backtestService: BacktestService) {}
+
+  /**
+   * Replay the rebalance algorithm over stored price history
+   * GET /api/portfolios/:portfolioId/backtest?from=YYYY-MM-DD&to=YYYY-MM-DD
+   *
+   * @param portfolioId - Portfolio ID
+   * @param from - Optional start date
+   * @param to - Optional end date
+   * @returns Simulated series and AnalyticsStats summary
+   */
+  @Get()
+  async runBacktest(
+    @Param("portfolioId") portfolioId: string,
+    @Query("from") from?: string,
+    @Query("to") to?: string
+  ): Promise<BacktestResult> {
+    return this.backtestService.runBacktest(portfolioId, from, to);
+  }
+}
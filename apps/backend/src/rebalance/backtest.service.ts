@@ -0,0 +1,406 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+
+import { getFxRate } from "../fx/fx-rates";
+import { FxService } from "../fx/fx.service";
+import { PortfolioConfigurationService } from "../portfolios/portfolio-configuration.service";
+import { PortfoliosService } from "../portfolios/portfolios.service";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  calculateDeploySignals,
+  calculateDrawdown,
+  calculateLeverage,
+  getMetricsHistoryWindow,
+} from "../strategy/strategy-engine";
+
+import { RebalanceService } from "./rebalance.service";
+
+/**
+ * Single day of a backtest simulation
+ */
+export interface BacktestPoint {
+  date: string;
+  equity: number;
+  exposure: number;
+  leverage: number;
+  drawdown: number;
+  marginRatio: number;
+  contribution: number;
+  rebalanced: boolean;
+  deployFraction: number | null;
+  weightsUsed: Record<string, number> | null;
+}
+
+/**
+ * Backtest result: simulated series plus summary analytics
+ */
+export interface BacktestResult {
+  portfolioId: string;
+  baseCurrency: string; // Currency of equity, exposure and contributions
+  from: string;
+  to: string;
+  initialCapital: number;
+  totalContributions: number;
+  rebalanceCount: number;
+  marginCallDates: string[];
+  liquidatedAt: string | null;
+  series: BacktestPoint[];
+  analytics: ReturnType<PortfoliosService["calculatePortfolioAnalytics"]>;
+}
+
+/**
+ * Service for replaying the rebalance algorithm over stored price history
+ * Uses the same deploy signals, weights and target exposure logic as RebalanceService
+ */
+@Injectable()
+export class BacktestService {
+  constructor(
+    private prisma: PrismaService,
+    private fxService: FxService,
+    private configService: PortfolioConfigurationService,
+    private rebalanceService: RebalanceService,
+    private portfoliosService: PortfoliosService
+  ) {}
+
+  /**
+   * Run a historical backtest for a portfolio
+   * Starts from initialCapital, adds monthlyContribution on each contribution
+   * day and rebalances on that day, marking positions to market daily
+   *
+   * @param portfolioId - Portfolio ID
+   * @param from - Optional start date (YYYY-MM-DD), defaults to first price
+   * @param to - Optional end date (YYYY-MM-DD), defaults to last price
+   * @returns Simulated equity/exposure/leverage series with analytics
+   */
+  async runBacktest(
+    portfolioId: string,
+    from?: string,
+    to?: string
+  ): Promise<BacktestResult> {
+    const fromDate = this.parseDate(from, "from");
+    const toDate = this.parseDate(to, "to");
+    if (fromDate && toDate && fromDate > toDate) {
+      throw new BadRequestException("'from' must be before 'to'");
+    }
+
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: {
+        positions: {
+          include: { asset: true },
+        },
+      },
+    });
+
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+
+    const config = await this.configService.getConfiguration(portfolioId);
+    const targetWeights = config.targetWeights;
+
+    // Same asset universe as the live proposal: positions + target weights
+    const symbols = new Set<string>([
+      ...portfolio.positions.map((p: any) => p.asset.symbol),
+      ...Object.keys(targetWeights),
+    ]);
+    const candidateAssets = await this.prisma.asset.findMany({
+      where: { symbol: { in: Array.from(symbols) } },
+    });
+
+    const dateFilter: any = {};
+    if (fromDate) dateFilter.gte = fromDate;
+    if (toDate) dateFilter.lte = toDate;
+
+    const priceRows = await this.prisma.assetPrice.findMany({
+      where: {
+        assetId: { in: candidateAssets.map((a: any) => a.id) },
+        ...(fromDate || toDate ? { date: dateFilter } : {}),
+      },
+      orderBy: { date: "asc" },
+    });
+
+    // Closes are valued in the base currency at the rate of their day, as
+    // in live proposals, so FX moves are part of the simulated returns
+    const baseCurrency = portfolio.baseCurrency;
+    const { quoteCurrencies, table: fxRates } =
+      await this.fxService.getAssetRates(
+        candidateAssets.map((a: any) => a.id),
+        baseCurrency,
+        toDate ?? undefined
+      );
+
+    // Group prices by day; assets without any price in range are left out
+    const pricesByDate = new Map<string, Record<string, number>>();
+    const assetsWithPrices = new Set<string>();
+    for (const row of priceRows) {
+      if (!(row.close > 0)) continue;
+      const key = this.normalizeDate(row.date);
+      if (!pricesByDate.has(key)) {
+        pricesByDate.set(key, {});
+      }
+      const quoteCurrency = quoteCurrencies[row.assetId] ?? baseCurrency;
+      pricesByDate.get(key)![row.assetId] =
+        row.close *
+        (getFxRate(fxRates, quoteCurrency, baseCurrency, row.date) ?? 1);
+      assetsWithPrices.add(row.assetId);
+    }
+
+    const assets = candidateAssets.filter((a: any) => assetsWithPrices.has(a.id));
+    if (assets.length === 0) {
+      throw new BadRequestException(
+        "No price history available for the selected range"
+      );
+    }
+
+    // Forward-fill prices and start on the first day every asset has a price
+    const dates = Array.from(pricesByDate.keys()).sort();
+    const lastPrices: Record<string, number> = {};
+    const dailyPrices: Array<{ date: string; prices: Record<string, number> }> = [];
+    for (const date of dates) {
+      Object.assign(lastPrices, pricesByDate.get(date));
+      if (assets.every((a: any) => lastPrices[a.id] !== undefined)) {
+        dailyPrices.push({ date, prices: { ...lastPrices } });
+      }
+    }
+
+    if (dailyPrices.length < 2) {
+      throw new BadRequestException(
+        "Not enough overlapping price history to run a backtest"
+      );
+    }
+
+    console.log(
+      `[Backtest] Portfolio ${portfolioId}: ${dailyPrices.length} days from ${dailyPrices[0].date} to ${dailyPrices[dailyPrices.length - 1].date}, assets: ${assets.map((a: any) => a.symbol).join(", ")}`
+    );
+
+    const quantities: Record<string, number> = {};
+    let equity = portfolio.initialCapital;
+    let borrowed = -equity; // Negative borrow = idle cash before first deploy
+    let peakEquity = equity;
+    let totalContributions = portfolio.initialCapital;
+    let rebalanceCount = 0;
+    let lastRebalanceMonth: string | null = null;
+    const marginCallDates: string[] = [];
+    let liquidatedAt: string | null = null;
+    const series: BacktestPoint[] = [];
+
+    for (let i = 0; i < dailyPrices.length; i++) {
+      const { date, prices } = dailyPrices[i];
+
+      // Mark to market: debt stays constant, equity absorbs price moves
+      let { exposure, positionValues } = this.valuePositions(
+        assets,
+        quantities,
+        prices
+      );
+      equity = exposure - borrowed;
+
+      if (equity <= 0) {
+        liquidatedAt = date;
+        series.push(
+          this.buildPoint(date, 0, exposure, peakEquity, 0, false, null, null)
+        );
+        console.warn(`[Backtest] Portfolio wiped out on ${date}`);
+        break;
+      }
+
+      // Monthly contribution + rebalance (always rebalance on the first day)
+      let contribution = 0;
+      const monthKey = date.slice(0, 7);
+      const isRebalanceDay =
+        i === 0 ||
+        (monthKey !== lastRebalanceMonth &&
+          this.isContributionDue(date, config));
+
+      if (i > 0 && isRebalanceDay && config.contributionEnabled) {
+        contribution = config.monthlyContribution || 0;
+        equity += contribution;
+        borrowed -= contribution; // Contributions go straight to equity
+        totalContributions += contribution;
+      }
+
+      peakEquity = Math.max(peakEquity, equity);
+
+      let deployFraction: number | null = null;
+      let weightsUsed: Record<string, number> | null = null;
+
+      if (isRebalanceDay) {
+        const currentState = {
+          equity,
+          exposure,
+          leverage: calculateLeverage(exposure, equity),
+          peakEquity,
+          positionValues,
+        };
+
+        // Live proposal reads metrics newest first
+        const metricsHistory = series
+          .slice(-getMetricsHistoryWindow(config.volatilityLookbackDays))
+          .reverse();
+
+        const deploySignals = calculateDeploySignals(
+          currentState,
+          metricsHistory,
+          targetWeights,
+          config
+        );
+
+        const weights = await this.rebalanceService.determineWeights(
+          portfolioId,
+          assets,
+          deploySignals.monthNumber,
+          targetWeights,
+          config,
+          new Date(`${date}T23:59:59.999Z`)
+        );
+
+        const targetExposure = this.rebalanceService.calculateTargetExposure(
+          equity,
+          exposure,
+          0,
+          deploySignals.deployFraction,
+          config
+        );
+
+        for (const asset of assets) {
+          const weight = weights.weights[asset.symbol] || 0;
+          quantities[asset.symbol] = (targetExposure * weight) / prices[asset.id];
+        }
+
+        ({ exposure, positionValues } = this.valuePositions(
+          assets,
+          quantities,
+          prices
+        ));
+        borrowed = exposure - equity;
+
+        deployFraction = deploySignals.deployFraction;
+        weightsUsed = weights.weights;
+        lastRebalanceMonth = monthKey;
+        rebalanceCount++;
+      }
+
+      const point = this.buildPoint(
+        date,
+        equity,
+        exposure,
+        peakEquity,
+        contribution,
+        isRebalanceDay,
+        deployFraction,
+        weightsUsed
+      );
+
+      if (point.marginRatio < config.maintenanceMarginRatio) {
+        marginCallDates.push(date);
+      }
+
+      series.push(point);
+    }
+
+    const analytics = this.portfoliosService.calculatePortfolioAnalytics(
+      series,
+      totalContributions,
+      portfolio.initialCapital
+    );
+
+    return {
+      portfolioId,
+      baseCurrency,
+      from: series[0].date,
+      to: series[series.length - 1].date,
+      initialCapital: portfolio.initialCapital,
+      totalContributions,
+      rebalanceCount,
+      marginCallDates,
+      liquidatedAt,
+      series,
+      analytics,
+    };
+  }
+
+  /**
+   * Check whether a contribution (and monthly rebalance) is due on a date
+   * Contributions are simulated monthly on the first trading day on or after
+   * contributionDayOfMonth; quarterly portfolios only contribute in Jan/Apr/Jul/Oct
+   */
+  private isContributionDue(date: string, config: any): boolean {
+    const month = Number(date.slice(5, 7)) - 1;
+    const dayOfMonth = Number(date.slice(8, 10));
+
+    if (config.contributionFrequency === "quarterly" && month % 3 !== 0) {
+      return false;
+    }
+
+    // Weekly/biweekly store a day of week; fall back to the first trading day
+    const usesDayOfMonth =
+      config.contributionFrequency === "monthly" ||
+      config.contributionFrequency === "quarterly";
+    const targetDay = usesDayOfMonth
+      ? Math.min(config.contributionDayOfMonth || 1, 28)
+      : 1;
+
+    return dayOfMonth >= targetDay;
+  }
+
+  /**
+   * Value simulated positions at the given prices
+   */
+  private valuePositions(
+    assets: any[],
+    quantities: Record<string, number>,
+    prices: Record<string, number>
+  ): { exposure: number; positionValues: Record<string, number> } {
+    let exposure = 0;
+    const positionValues: Record<string, number> = {};
+
+    for (const asset of assets) {
+      const value = (quantities[asset.symbol] || 0) * prices[asset.id];
+      positionValues[asset.symbol] = value;
+      exposure += value;
+    }
+
+    return { exposure, positionValues };
+  }
+
+  private buildPoint(
+    date: string,
+    equity: number,
+    exposure: number,
+    peakEquity: number,
+    contribution: number,
+    rebalanced: boolean,
+    deployFraction: number | null,
+    weightsUsed: Record<string, number> | null
+  ): BacktestPoint {
+    return {
+      date,
+      equity,
+      exposure,
+      leverage: calculateLeverage(exposure, equity),
+      drawdown: calculateDrawdown(equity, peakEquity),
+      marginRatio: exposure > 0 ? equity / exposure : 1,
+      contribution,
+      rebalanced,
+      deployFraction,
+      weightsUsed,
+    };
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid '${name}' date: ${value}`);
+    }
+    return date;
+  }
+
+  private normalizeDate(value: string | Date): string {
+    return new Date(value).toISOString().split("T")[0];
+  }
+}
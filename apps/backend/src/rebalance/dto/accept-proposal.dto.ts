@@ -0,0 +1,9 @@
+import { IsUUID } from "class-validator";
+
+/**
+ * Body for accepting a stored rebalance proposal
+ */
+export class AcceptProposalDto {
+  @IsUUID()
+  proposalId!: string;
+}
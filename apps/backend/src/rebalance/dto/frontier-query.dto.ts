@@ -0,0 +1,14 @@
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+
+/**
+ * Resolution of the efficient frontier
+ */
+export class FrontierQueryDto {
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(50)
+  @Type(() => Number)
+  points?: number; // Default 20
+}
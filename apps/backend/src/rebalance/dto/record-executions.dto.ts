@@ -0,0 +1,58 @@
+import { Type } from "class-transformer";
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  IsString,
+  IsNotEmpty,
+  Min,
+  ValidateNested,
+} from "class-validator";
+
+/**
+ * Actual fill for one rebalance position
+ * executedQuantity is the absolute number of units traded;
+ * the side (buy/sell) comes from the rebalance position
+ */
+export class ExecutionItemDto {
+  @IsString()
+  @IsNotEmpty()
+  assetId!: string;
+
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  executedQuantity!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  fillPrice!: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  fee?: number;
+
+  // Lots to relieve first on a sell ('specific' lot relief method)
+  @IsOptional()
+  @IsArray()
+  @IsUUID("all", { each: true })
+  lotIds?: string[];
+}
+
+export class RecordExecutionsDto {
+  // One fill per asset: a repeated asset would apply its delta twice
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique((execution: ExecutionItemDto) => execution.assetId, {
+    message: "executions must not repeat an assetId",
+  })
+  @ValidateNested({ each: true })
+  @Type(() => ExecutionItemDto)
+  executions!: ExecutionItemDto[];
+}
@@ -0,0 +1,14 @@
+import { IsNumber, IsOptional, Min } from "class-validator";
+
+import { UpdatePortfolioConfigurationDto } from "../../portfolios/dto/portfolio-configuration.dto";
+
+/**
+ * Body for a what-if rebalance: configuration overrides applied in memory
+ * plus an optional hypothetical contribution
+ */
+export class SimulateRebalanceDto extends UpdatePortfolioConfigurationDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  contributionAmount?: number; // Added to current equity before calculating
+}
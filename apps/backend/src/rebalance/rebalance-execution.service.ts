@@ -0,0 +1,427 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+
+import { FxService } from "../fx/fx.service";
+import { PrismaService } from "../prisma/prisma.service";
+import { TaxLotSource, TaxLotsService } from "../tax-lots/tax-lots.service";
+import { TradesService } from "../trades/trades.service";
+
+import { RecordExecutionsDto } from "./dto/record-executions.dto";
+
+/**
+ * Deltas smaller than this are HOLD positions (same threshold as proposals)
+ */
+const HOLD_THRESHOLD = 0.0001;
+
+/**
+ * Execution vs proposal for one rebalance position
+ * Prices are in the asset's quote currency, slippageCost in the portfolio's
+ * base currency
+ */
+export interface ExecutionReportPosition {
+  rebalancePositionId: string;
+  assetId: string;
+  assetSymbol: string;
+  action: "BUY" | "SELL" | "HOLD";
+  proposedQuantity: number; // Signed delta from the proposal
+  executedQuantity: number | null; // Signed executed delta
+  quantityShortfall: number | null; // |proposed| - |executed|
+  quoteCurrency: string;
+  fxRate: number; // Base currency per unit of quoteCurrency, at accept time
+  proposedPrice: number | null;
+  fillPrice: number | null;
+  priceSlippage: number | null; // Fraction, positive = worse than proposed
+  slippageCost: number | null; // Base currency, positive = cost
+  fee: number | null; // Quote currency
+  executedAt: string | null;
+}
+
+/**
+ * Slippage report for a rebalance event
+ * Totals add up positions in different currencies, so they are in the base
+ * currency
+ */
+export interface ExecutionReport {
+  rebalanceEventId: string;
+  portfolioId: string;
+  baseCurrency: string;
+  createdAt: string;
+  executedAt: string | null;
+  fullyRecorded: boolean;
+  positions: ExecutionReportPosition[];
+  totals: {
+    proposedNotional: number;
+    executedNotional: number;
+    fees: number;
+    slippageCost: number;
+    totalCost: number;
+  };
+}
+
+/**
+ * Service for recording real broker fills against a rebalance event
+ * Rebuilds positions and avgPrice from fills instead of proposal targets
+ */
+@Injectable()
+export class RebalanceExecutionService {
+  constructor(
+    private prisma: PrismaService,
+    private fxService: FxService,
+    private taxLotsService: TaxLotsService,
+    private tradesService: TradesService
+  ) {}
+
+  /**
+   * Record executed quantity, fill price and fee for rebalance positions
+   * Can be called again to correct previously recorded fills
+   *
+   * @param portfolioId - Portfolio ID
+   * @param rebalanceEventId - Rebalance event ID
+   * @param dto - Fills per asset
+   * @returns Slippage report for the event
+   */
+  async recordExecutions(
+    portfolioId: string,
+    rebalanceEventId: string,
+    dto: RecordExecutionsDto
+  ): Promise<ExecutionReport> {
+    // Validate and apply in one transaction: a failure part-way leaves the
+    // lots, ledger and positions as they were, so a retry applies each fill
+    // once
+    const recorded = await this.prisma.runInTransaction(async () => {
+      const event = await this.findEvent(portfolioId, rebalanceEventId);
+
+      if (event.revertedAt) {
+        throw new BadRequestException(
+          "Rebalance was reverted, fills can no longer be recorded"
+        );
+      }
+
+      // Validate everything before touching positions
+      const updates = dto.executions.map((execution) => {
+        const rebalancePosition = event.positions.find(
+          (pos: any) => pos.assetId === execution.assetId
+        );
+        if (!rebalancePosition) {
+          throw new BadRequestException(
+            `Asset ${execution.assetId} is not part of rebalance ${rebalanceEventId}`
+          );
+        }
+
+        const side = this.getSide(rebalancePosition.deltaQuantity);
+        if (side === 0 && execution.executedQuantity > 0) {
+          throw new BadRequestException(
+            `${rebalancePosition.asset.symbol} had no trade proposed (HOLD)`
+          );
+        }
+        if (execution.executedQuantity > 0 && !(execution.fillPrice > 0)) {
+          throw new BadRequestException(
+            `Fill price for ${rebalancePosition.asset.symbol} must be greater than 0`
+          );
+        }
+
+        return { rebalancePosition, execution, side };
+      });
+
+      for (const { rebalancePosition, execution, side } of updates) {
+        if (!execution.lotIds || execution.lotIds.length === 0) continue;
+        if (side >= 0) {
+          throw new BadRequestException(
+            `Lots can only be chosen for sells (${rebalancePosition.asset.symbol})`
+          );
+        }
+        await this.taxLotsService.validateLotSelection(
+          portfolioId,
+          rebalancePosition.assetId,
+          execution.lotIds,
+          rebalancePosition.id
+        );
+      }
+
+      const now = new Date();
+
+      for (const { rebalancePosition, execution, side } of updates) {
+        const signedExecuted = side * execution.executedQuantity;
+        const fee = execution.fee ?? 0;
+
+        await this.applyFill(
+          portfolioId,
+          rebalancePosition,
+          signedExecuted,
+          execution.fillPrice,
+          fee,
+          execution.lotIds
+        );
+
+        await this.prisma.rebalancePosition.update({
+          where: { id: rebalancePosition.id },
+          data: {
+            executedQuantity: signedExecuted,
+            fillPrice: execution.fillPrice,
+            fee,
+            executedAt: now,
+          },
+        });
+      }
+
+      // Event is executed once every traded position has a fill
+      const refreshed = await this.findEvent(portfolioId, rebalanceEventId);
+      const allRecorded = refreshed.positions.every(
+        (pos: any) => this.getSide(pos.deltaQuantity) === 0 || pos.executedAt
+      );
+      if (allRecorded && !refreshed.executedAt) {
+        await this.prisma.rebalanceEvent.update({
+          where: { id: rebalanceEventId },
+          data: { executedAt: now },
+        });
+      }
+
+      return updates.length;
+    });
+
+    console.log(
+      `[RebalanceExecution] Recorded ${recorded} fills for rebalance ${rebalanceEventId}`
+    );
+
+    return this.getExecutionReport(portfolioId, rebalanceEventId);
+  }
+
+  /**
+   * Build the slippage report (proposal vs fills) for a rebalance event
+   * @param portfolioId - Portfolio ID
+   * @param rebalanceEventId - Rebalance event ID
+   */
+  async getExecutionReport(
+    portfolioId: string,
+    rebalanceEventId: string
+  ): Promise<ExecutionReport> {
+    const event = await this.findEvent(portfolioId, rebalanceEventId);
+    const { baseCurrency } = await this.prisma.portfolio.findUniqueOrThrow({
+      where: { id: portfolioId },
+      select: { baseCurrency: true },
+    });
+
+    // Fills are compared at the rate of the proposal, so an FX move between
+    // accepting and executing is not counted as slippage. Events accepted
+    // before the rate was stored use the rate of their accept day.
+    const assetRates = await this.fxService.getAssetRates(
+      event.positions
+        .filter((pos: any) => pos.fxRate === null)
+        .map((pos: any) => pos.assetId),
+      baseCurrency,
+      event.createdAt
+    );
+
+    const totals = {
+      proposedNotional: 0,
+      executedNotional: 0,
+      fees: 0,
+      slippageCost: 0,
+      totalCost: 0,
+    };
+
+    const positions: ExecutionReportPosition[] = event.positions.map(
+      (pos: any) => {
+        const side = this.getSide(pos.deltaQuantity);
+        const action: "BUY" | "SELL" | "HOLD" =
+          side > 0 ? "BUY" : side < 0 ? "SELL" : "HOLD";
+        const recorded = pos.executedAt !== null;
+        const fxRate = pos.fxRate ?? assetRates.fxRates[pos.assetId] ?? 1;
+
+        let priceSlippage: number | null = null;
+        let slippageCost: number | null = null;
+        if (recorded && pos.proposedPrice && pos.fillPrice) {
+          // Paying more on a buy or receiving less on a sell is a cost
+          priceSlippage =
+            (side * (pos.fillPrice - pos.proposedPrice)) / pos.proposedPrice;
+          slippageCost =
+            (pos.fillPrice - pos.proposedPrice) * pos.executedQuantity * fxRate;
+        }
+
+        if (pos.proposedPrice) {
+          totals.proposedNotional +=
+            Math.abs(pos.deltaQuantity) * pos.proposedPrice * fxRate;
+        }
+        if (recorded) {
+          totals.executedNotional +=
+            Math.abs(pos.executedQuantity || 0) * (pos.fillPrice || 0) * fxRate;
+          totals.fees += (pos.fee || 0) * fxRate;
+          totals.slippageCost += slippageCost || 0;
+        }
+
+        return {
+          rebalancePositionId: pos.id,
+          assetId: pos.assetId,
+          assetSymbol: pos.asset.symbol,
+          action,
+          quoteCurrency: pos.asset.quoteCurrency,
+          fxRate,
+          proposedQuantity: pos.deltaQuantity,
+          executedQuantity: recorded ? pos.executedQuantity : null,
+          quantityShortfall: recorded
+            ? Math.abs(pos.deltaQuantity) - Math.abs(pos.executedQuantity || 0)
+            : null,
+          proposedPrice: pos.proposedPrice,
+          fillPrice: recorded ? pos.fillPrice : null,
+          priceSlippage,
+          slippageCost,
+          fee: recorded ? pos.fee : null,
+          executedAt: pos.executedAt ? pos.executedAt.toISOString() : null,
+        };
+      }
+    );
+
+    totals.totalCost = totals.fees + totals.slippageCost;
+
+    return {
+      rebalanceEventId: event.id,
+      portfolioId: event.portfolioId,
+      baseCurrency,
+      createdAt: event.createdAt.toISOString(),
+      executedAt: event.executedAt ? event.executedAt.toISOString() : null,
+      fullyRecorded: positions.every(
+        (pos) => pos.action === "HOLD" || pos.executedAt !== null
+      ),
+      positions,
+      totals,
+    };
+  }
+
+  /**
+   * Rebuild a portfolio position from a fill
+   * Quantity is corrected by the difference between the fill and what was
+   * assumed so far (proposal delta, or a previously recorded fill), so manual
+   * updates made after accepting are kept. The ledger trade and the tax lots
+   * of the proposal are replaced by the fill: buys open a lot at fill price +
+   * fee, sells relieve lots at fill price - fee. avgPrice is the ledger's
+   * average cost.
+   */
+  private async applyFill(
+    portfolioId: string,
+    rebalancePosition: any,
+    signedExecuted: number,
+    fillPrice: number,
+    fee: number,
+    lotIds?: string[]
+  ): Promise<void> {
+    const where = {
+      portfolioId_assetId: {
+        portfolioId,
+        assetId: rebalancePosition.assetId,
+      },
+    };
+    const currentPosition = await this.prisma.portfolioPosition.findUnique({
+      where,
+    });
+
+    const assumedDelta =
+      rebalancePosition.executedAt !== null
+        ? rebalancePosition.executedQuantity || 0
+        : rebalancePosition.deltaQuantity;
+    const currentQuantity = currentPosition?.quantity ?? 0;
+
+    const previousAvgPrice =
+      rebalancePosition.previousAvgPrice ?? currentPosition?.avgPrice ?? fillPrice;
+
+    // Replace what the proposal (or a previous fill) did to the tax lots
+    const tradeLot = await this.prisma.taxLot.findFirst({
+      where: { sourceId: rebalancePosition.id },
+    });
+    await this.taxLotsService.reverseSource([rebalancePosition.id]);
+    await this.taxLotsService.ensureOpeningLot(
+      portfolioId,
+      rebalancePosition.assetId,
+      currentQuantity - assumedDelta,
+      previousAvgPrice,
+      currentPosition?.updatedAt ?? new Date()
+    );
+
+    const change = {
+      source: (tradeLot?.source as TaxLotSource) || "rebalance",
+      sourceId: rebalancePosition.id,
+      lotIds,
+    };
+    const executedQuantity = Math.abs(signedExecuted);
+    if (signedExecuted > 0) {
+      await this.taxLotsService.openLot(
+        portfolioId,
+        rebalancePosition.assetId,
+        executedQuantity,
+        (executedQuantity * fillPrice + fee) / executedQuantity,
+        change
+      );
+    } else if (signedExecuted < 0) {
+      await this.taxLotsService.relieveLots(
+        portfolioId,
+        rebalancePosition.assetId,
+        executedQuantity,
+        (executedQuantity * fillPrice - fee) / executedQuantity,
+        change
+      );
+    }
+
+    // Replace the ledger trade of the proposal (or a previous fill). Events
+    // accepted before the ledger have none, so the position is first traded
+    // back to its quantity before the rebalance.
+    await this.tradesService.reverseSource(portfolioId, [rebalancePosition.id]);
+    await this.tradesService.tradeToTarget(
+      portfolioId,
+      rebalancePosition.assetId,
+      { quantity: Math.max(0, currentQuantity - assumedDelta) },
+      rebalancePosition.proposedPrice || previousAvgPrice,
+      { source: "rebalance", note: "Position before rebalance fill" }
+    );
+    if (signedExecuted !== 0) {
+      await this.tradesService.recordTrade(
+        portfolioId,
+        rebalancePosition.assetId,
+        signedExecuted > 0 ? "buy" : "sell",
+        executedQuantity,
+        fillPrice,
+        fee,
+        { source: "rebalance", sourceId: rebalancePosition.id }
+      );
+    }
+
+    const markPrice =
+      fillPrice || rebalancePosition.proposedPrice || previousAvgPrice;
+    await this.tradesService.syncPositions(
+      portfolioId,
+      [rebalancePosition.assetId],
+      {
+        markPrices: new Map([[rebalancePosition.assetId, markPrice]]),
+        removeClosed: true,
+        snapshot: {
+          source: "rebalance",
+          sourceId: rebalancePosition.rebalanceEventId,
+        },
+      }
+    );
+  }
+
+  private getSide(deltaQuantity: number): number {
+    if (deltaQuantity > HOLD_THRESHOLD) return 1;
+    if (deltaQuantity < -HOLD_THRESHOLD) return -1;
+    return 0;
+  }
+
+  private async findEvent(portfolioId: string, rebalanceEventId: string) {
+    const event = await this.prisma.rebalanceEvent.findFirst({
+      where: { id: rebalanceEventId, portfolioId },
+      include: {
+        positions: {
+          include: { asset: true },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException("Rebalance event not found");
+    }
+
+    return event;
+  }
+}
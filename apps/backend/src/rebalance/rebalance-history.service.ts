@@ -0,0 +1,203 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+
+import { OptimizationMethod } from "../portfolios/dto/portfolio-configuration.dto";
+import { PrismaService } from "../prisma/prisma.service";
+
+import { RebalanceHistoryQueryDto } from "./dto/rebalance-history-query.dto";
+import { OptimizerDiagnostics, OptimizerInputs } from "./rebalance.service";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * One asset of a past rebalance
+ */
+export interface RebalanceHistoryPosition {
+  assetId: string;
+  assetSymbol: string;
+  assetName: string;
+  targetWeight: number;
+  targetUsd: number;
+  deltaQuantity: number;
+  deltaUsd: number | null; // deltaQuantity * proposedPrice (null for legacy rows)
+  proposedPrice: number | null;
+  executedQuantity: number | null;
+  fillPrice: number | null;
+}
+
+/**
+ * A past rebalance event with the weights it was computed with
+ * Weight fields come from the accepted proposal; null for events
+ * created before proposals were stored
+ */
+export interface RebalanceHistoryEvent {
+  id: string;
+  createdAt: string;
+  executedAt: string | null;
+  revertedAt: string | null;
+  triggeredBy: string;
+  targetLeverage: number;
+  proposalId: string | null;
+  weightsUsed: Record<string, number> | null;
+  dynamicWeightsComputed: boolean | null;
+  optimizationMethod: OptimizationMethod | "static" | null;
+  positions: RebalanceHistoryPosition[];
+}
+
+/**
+ * What a stored proposal's optimizer saw and returned ("explain these weights")
+ */
+export interface ProposalExplanation {
+  proposalId: string;
+  createdAt: string;
+  status: string;
+  rebalanceEventId: string | null;
+  optimizationMethod: OptimizationMethod | "static";
+  dynamicWeightsComputed: boolean;
+  weightsUsed: Record<string, number>;
+  diagnostics: OptimizerDiagnostics | null;
+  inputs: OptimizerInputs | null; // null for static weights or proposals stored before inputs were kept
+}
+
+export interface RebalanceHistoryPage {
+  portfolioId: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  events: RebalanceHistoryEvent[];
+}
+
+/**
+ * Service for reading past rebalance events (newest first)
+ */
+@Injectable()
+export class RebalanceHistoryService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get a page of rebalance events for a portfolio
+   * @param portfolioId - Portfolio ID
+   * @param query - page (1-based) and pageSize
+   */
+  async getHistory(
+    portfolioId: string,
+    query: RebalanceHistoryQueryDto
+  ): Promise<RebalanceHistoryPage> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { id: true },
+    });
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    const [total, events] = await Promise.all([
+      this.prisma.rebalanceEvent.count({ where: { portfolioId } }),
+      this.prisma.rebalanceEvent.findMany({
+        where: { portfolioId },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          positions: {
+            include: { asset: true },
+          },
+          proposal: {
+            select: { id: true, proposalJson: true },
+          },
+        },
+      }),
+    ]);
+
+    return {
+      portfolioId,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+      events: events.map((event: any) => this.toHistoryEvent(event)),
+    };
+  }
+
+  /**
+   * Get the optimizer inputs and outputs stored with a proposal
+   * @param portfolioId - Portfolio ID
+   * @param proposalId - Proposal ID (also listed on history events)
+   */
+  async getProposalExplanation(
+    portfolioId: string,
+    proposalId: string
+  ): Promise<ProposalExplanation> {
+    const record = await this.prisma.rebalanceProposal.findFirst({
+      where: { id: proposalId, portfolioId },
+    });
+    if (!record) {
+      throw new NotFoundException("Proposal not found");
+    }
+
+    const proposal = JSON.parse(record.proposalJson);
+    const diagnostics: OptimizerDiagnostics | null =
+      proposal.optimizerDiagnostics ?? null;
+
+    return {
+      proposalId: record.id,
+      createdAt: record.createdAt.toISOString(),
+      status: record.status,
+      rebalanceEventId: record.rebalanceEventId,
+      optimizationMethod: proposal.optimizationMethod,
+      dynamicWeightsComputed: proposal.dynamicWeightsComputed,
+      weightsUsed: proposal.weightsUsed,
+      diagnostics,
+      inputs: diagnostics?.inputs ?? null,
+    };
+  }
+
+  private toHistoryEvent(event: any): RebalanceHistoryEvent {
+    let proposal: any = null;
+    if (event.proposal?.proposalJson) {
+      try {
+        proposal = JSON.parse(event.proposal.proposalJson);
+      } catch {
+        proposal = null;
+      }
+    }
+
+    const positions: RebalanceHistoryPosition[] = event.positions
+      .map((pos: any) => ({
+        assetId: pos.assetId,
+        assetSymbol: pos.asset.symbol,
+        assetName: pos.asset.name,
+        targetWeight: pos.targetWeight,
+        targetUsd: pos.targetUsd,
+        deltaQuantity: pos.deltaQuantity,
+        deltaUsd:
+          pos.proposedPrice !== null
+            ? pos.deltaQuantity * pos.proposedPrice
+            : null,
+        proposedPrice: pos.proposedPrice,
+        executedQuantity: pos.executedQuantity,
+        fillPrice: pos.fillPrice,
+      }))
+      .sort(
+        (a: RebalanceHistoryPosition, b: RebalanceHistoryPosition) =>
+          b.targetWeight - a.targetWeight
+      );
+
+    return {
+      id: event.id,
+      createdAt: event.createdAt.toISOString(),
+      executedAt: event.executedAt ? event.executedAt.toISOString() : null,
+      revertedAt: event.revertedAt ? event.revertedAt.toISOString() : null,
+      triggeredBy: event.triggeredBy,
+      targetLeverage: event.targetLeverage,
+      proposalId: event.proposal?.id ?? null,
+      weightsUsed: proposal?.weightsUsed ?? null,
+      dynamicWeightsComputed: proposal?.dynamicWeightsComputed ?? null,
+      optimizationMethod: proposal?.optimizationMethod ?? null,
+      positions,
+    };
+  }
+}
@@ -4,6 +4,7 @@ import {
   Post,
   Param,
   Body,
+  Query,
   HttpException,
   HttpStatus,
   UseGuards,
@@ -11,6 +12,19 @@ import {
 
 import { AuthGuard } from "../auth/auth.guard";
 
+import { AcceptProposalDto } from "./dto/accept-proposal.dto";
+import { RebalanceHistoryQueryDto } from "./dto/rebalance-history-query.dto";
+import { RecordExecutionsDto } from "./dto/record-executions.dto";
+import { SimulateRebalanceDto } from "./dto/simulate-rebalance.dto";
+import {
+  ExecutionReport,
+  RebalanceExecutionService,
+} from "./rebalance-execution.service";
+import {
+  ProposalExplanation,
+  RebalanceHistoryPage,
+  RebalanceHistoryService,
+} from "./rebalance-history.service";
 import { RebalanceService, RebalanceProposal } from "./rebalance.service";
 
 /**
@@ -19,19 +33,55 @@ import { RebalanceService, RebalanceProposal } from "./rebalance.service";
 @Controller("portfolios/:portfolioId/rebalance")
 @UseGuards(AuthGuard)
 export class RebalanceController {
-  constructor(private readonly rebalanceService: RebalanceService) {}
+  constructor(
+    private readonly rebalanceService: RebalanceService,
+    private readonly executionService: RebalanceExecutionService,
+    private readonly historyService: RebalanceHistoryService
+  ) {}
+
+  /**
+   * List past rebalance events, newest first
+   * GET /api/portfolios/:portfolioId/rebalance/history?page=1&pageSize=20
+   *
+   * @param portfolioId - Portfolio ID
+   * @param query - Pagination
+   * @returns Events with target leverage, weights, USD targets and deltas
+   */
+  @Get("history")
+  async getHistory(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: RebalanceHistoryQueryDto
+  ): Promise<RebalanceHistoryPage> {
+    return this.historyService.getHistory(portfolioId, query);
+  }
+
+  /**
+   * Get the optimizer inputs and outputs stored with a proposal
+   * GET /api/portfolios/:portfolioId/rebalance/proposals/:proposalId/explanation
+   *
+   * @param portfolioId - Portfolio ID
+   * @param proposalId - Proposal ID
+   * @returns Asset list, sample window, means, covariance, constraints and Sharpe
+   */
+  @Get("proposals/:proposalId/explanation")
+  async getProposalExplanation(
+    @Param("portfolioId") portfolioId: string,
+    @Param("proposalId") proposalId: string
+  ): Promise<ProposalExplanation> {
+    return this.historyService.getProposalExplanation(portfolioId, proposalId);
+  }
 
   /**
-   * Calculate rebalance proposal for a portfolio
+   * Calculate and store a rebalance proposal for a portfolio
    * @param portfolioId - Portfolio ID
-   * @returns Rebalance proposal with target allocations
+   * @returns Rebalance proposal with target allocations, proposalId and expiry
    */
   @Get("proposal")
   async getProposal(
     @Param("portfolioId") portfolioId: string
   ): Promise<RebalanceProposal> {
     try {
-      return await this.rebalanceService.calculateProposal(portfolioId);
+      return await this.rebalanceService.createProposal(portfolioId);
     } catch (error) {
       throw new HttpException(
         error instanceof Error ? error.message : "Failed to calculate proposal",
@@ -41,27 +91,96 @@ export class RebalanceController {
   }
 
   /**
-   * Accept a rebalance proposal
+   * Calculate a what-if proposal with configuration overrides
+   * Nothing is stored: the result has no proposalId and cannot be accepted
    * @param portfolioId - Portfolio ID
-   * @param proposal - The proposal to accept
+   * @param dto - Configuration overrides and hypothetical contribution
+   */
+  @Post("simulate")
+  async simulateProposal(
+    @Param("portfolioId") portfolioId: string,
+    @Body() dto: SimulateRebalanceDto
+  ): Promise<RebalanceProposal> {
+    try {
+      return await this.rebalanceService.simulateProposal(portfolioId, dto);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        error instanceof Error ? error.message : "Failed to simulate proposal",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  /**
+   * Accept a stored rebalance proposal
+   * @param portfolioId - Portfolio ID
+   * @param body - ID of the proposal to accept
    */
   @Post("accept")
   async acceptProposal(
     @Param("portfolioId") portfolioId: string,
-    @Body() proposal: RebalanceProposal
-  ): Promise<{ success: boolean; message: string }> {
+    @Body() body: AcceptProposalDto
+  ): Promise<{ success: boolean; message: string; rebalanceEventId: string }> {
     try {
-      await this.rebalanceService.acceptProposal(portfolioId, proposal);
-      return {
-        success: true,
-        message: "Rebalance accepted and portfolio updated",
-      };
+      return await this.rebalanceService.acceptProposal(
+        portfolioId,
+        body.proposalId
+      );
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         error instanceof Error ? error.message : "Failed to accept proposal",
         HttpStatus.BAD_REQUEST
       );
     }
   }
-}
 
+  /**
+   * Revert the last accepted rebalance
+   * Restores positions and metrics from before the event; the event is
+   * kept and marked as reverted
+   * @param portfolioId - Portfolio ID
+   * @param eventId - Rebalance event ID
+   */
+  @Post("events/:eventId/revert")
+  async revertRebalance(
+    @Param("portfolioId") portfolioId: string,
+    @Param("eventId") eventId: string
+  ): Promise<{ success: boolean; message: string; rebalanceEventId: string }> {
+    return this.rebalanceService.revertRebalance(portfolioId, eventId);
+  }
+
+  /**
+   * Record actual broker fills for an accepted rebalance
+   * @param portfolioId - Portfolio ID
+   * @param eventId - Rebalance event ID
+   * @param dto - Executed quantity, fill price and fee per asset
+   * @returns Slippage report vs the proposal
+   */
+  @Post("events/:eventId/executions")
+  async recordExecutions(
+    @Param("portfolioId") portfolioId: string,
+    @Param("eventId") eventId: string,
+    @Body() dto: RecordExecutionsDto
+  ): Promise<ExecutionReport> {
+    return this.executionService.recordExecutions(portfolioId, eventId, dto);
+  }
+
+  /**
+   * Get the slippage report for a rebalance event
+   * @param portfolioId - Portfolio ID
+   * @param eventId - Rebalance event ID
+   */
+  @Get("events/:eventId/executions")
+  async getExecutionReport(
+    @Param("portfolioId") portfolioId: string,
+    @Param("eventId") eventId: string
+  ): Promise<ExecutionReport> {
+    return this.executionService.getExecutionReport(portfolioId, eventId);
+  }
+}
@@ -1,9 +1,17 @@
 import { Module } from "@nestjs/common";
 
 import { AuthModule } from "../auth/auth.module";
+import { FxModule } from "../fx/fx.module";
 import { PortfoliosModule } from "../portfolios/portfolios.module";
 import { PrismaModule } from "../prisma/prisma.module";
+import { TaxLotsModule } from "../tax-lots/tax-lots.module";
+import { TradesModule } from "../trades/trades.module";
 
+import { AnalyticsController } from "./analytics.controller";
+import { BacktestController } from "./backtest.controller";
+import { BacktestService } from "./backtest.service";
+import { RebalanceExecutionService } from "./rebalance-execution.service";
+import { RebalanceHistoryService } from "./rebalance-history.service";
 import { RebalanceController } from "./rebalance.controller";
 import { RebalanceService } from "./rebalance.service";
 
@@ -11,9 +19,21 @@ import { RebalanceService } from "./rebalance.service";
  * Module for portfolio rebalancing operations
  */
 @Module({
-  imports: [PrismaModule, PortfoliosModule, AuthModule],
-  controllers: [RebalanceController],
-  providers: [RebalanceService],
+  imports: [
+    PrismaModule,
+    PortfoliosModule,
+    AuthModule,
+    FxModule,
+    TaxLotsModule,
+    TradesModule,
+  ],
+  controllers: [RebalanceController, BacktestController, AnalyticsController],
+  providers: [
+    RebalanceService,
+    RebalanceExecutionService,
+    RebalanceHistoryService,
+    BacktestService,
+  ],
   exports: [RebalanceService],
 })
 export class RebalanceModule {}
@@ -1,7 +1,77 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
-
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+
+import { getFxRate } from "../fx/fx-rates";
+import { FxService } from "../fx/fx.service";
+import {
+  AssetTradingSettings,
+  CovarianceEstimator,
+  MeanEstimator,
+  OptimizationMethod,
+} from "../portfolios/dto/portfolio-configuration.dto";
 import { PortfolioConfigurationService } from "../portfolios/portfolio-configuration.service";
 import { PrismaService } from "../prisma/prisma.service";
+import { MatchedDeployRule } from "../strategy/deploy-rules";
+import {
+  BindingBound,
+  BindingGroup,
+  calculateDiversificationRatio,
+  calculateLeveragedSharpe,
+  calculateRiskContributions,
+  findBindingBounds,
+  multiplyCov,
+  optimizeMaxDiversification,
+  optimizeMinVariance,
+  optimizeRiskParity,
+  optimizeSharpe,
+  OptimizerResult,
+  portfolioVariance,
+  SharpeSettings,
+  traceEfficientFrontier,
+} from "../strategy/portfolio-optimizers";
+import {
+  shrinkCovarianceLedoitWolf,
+  shrinkMeansJamesStein,
+} from "../strategy/return-estimators";
+import {
+  annualizeDailyLogReturn,
+  blendReturnViews,
+  getActiveReturnViews,
+  ReturnView,
+  ViewConfidence,
+} from "../strategy/return-views";
+import {
+  getStagedDeploymentStatus,
+  StagedDeploymentStatus,
+} from "../strategy/staged-deployment";
+import {
+  calculateCurrentState,
+  calculateDeleveragingPlan,
+  calculatePositionExposure,
+  calculateDeploySignals,
+  calculateLeverage,
+  DeleveragingPlan,
+  getLeverageStatus,
+  getMetricsHistoryWindow,
+  LeverageStatus,
+} from "../strategy/strategy-engine";
+import {
+  CostBenefitAnalysis,
+  estimateTradeCost,
+  evaluateCostBenefit,
+  TransactionCostSettings,
+} from "../strategy/transaction-costs";
+import {
+  ResolvedWeightBounds,
+  resolveWeightBounds,
+} from "../strategy/weight-constraints";
+import { TaxLotsService } from "../tax-lots/tax-lots.service";
+import { TradesService } from "../trades/trades.service";
+
+import { SimulateRebalanceDto } from "./dto/simulate-rebalance.dto";
 
 /**
  * Metaparameters for rebalancing algorithm
@@ -58,8 +128,19 @@ interface RebalanceMetaparameters {
 //   "BTC-USD": 0.05,
 // };
 
+/**
+ * How long a stored proposal can be accepted
+ */
+const PROPOSAL_TTL_MINUTES = 15;
+
+/**
+ * Max relative price move between proposal and accept (2%)
+ */
+const PROPOSAL_PRICE_TOLERANCE = 0.02;
+
 /**
  * Position in the proposal
+ * Prices and values are in the portfolio's base currency
  */
 export interface ProposalPosition {
   assetId: string;
@@ -74,17 +155,30 @@ export interface ProposalPosition {
   targetWeight: number;
   currentWeight: number;
   currentPrice: number;
+  quoteCurrency: string; // Currency the asset trades in
+  fxRate: number; // Base currency per unit of quoteCurrency (currentPrice / fxRate = quote price)
   action: "BUY" | "SELL" | "HOLD";
+  skipReason:
+    | "drift_band"
+    | "min_notional"
+    | "lot_size"
+    | "cost_benefit"
+    | null; // Why a trade was dropped
+  estimatedCost: number; // Commission + half spread + slippage (USD)
 }
 
 /**
  * Rebalance proposal interface
  */
 export interface RebalanceProposal {
+  baseCurrency: string; // Currency of all prices and values
+  fxMissingCurrencies: string[]; // Quote currencies valued 1:1 for lack of a rate (cannot be accepted)
+
   // Current state
   currentEquity: number;
   currentExposure: number;
   currentLeverage: number;
+  leverageStatus: LeverageStatus; // Same status the dashboard recommendations use
 
   // Target state
   targetLeverage: number;
@@ -97,6 +191,10 @@ export interface RebalanceProposal {
     weightDeviationTriggered: boolean;
     volatilityTriggered: boolean;
   };
+  matchedDeployRule: MatchedDeployRule | null; // Rule that set deployFraction
+
+  // Sell / contribution / mixed options to leverageTarget (leverage high only)
+  deleveragingPlan: DeleveragingPlan | null;
 
   // Metrics used for decision
   drawdown: number;
@@ -107,6 +205,10 @@ export interface RebalanceProposal {
   // Pending contribution
   pendingContribution: number;
 
+  // Tranches of staged contributions (null when none are left)
+  // Due tranches are deployed when the proposal is accepted
+  stagedDeployment: StagedDeploymentStatus | null;
+
   // Positions
   positions: ProposalPosition[];
 
@@ -117,11 +219,195 @@ export interface RebalanceProposal {
     newLeverage: number;
     equityUsedFromContribution: number;
     borrowIncrease: number;
+    residualCash: number; // Target exposure left undeployed by trade filters (negative = sells skipped)
+    estimatedCosts: number; // Sum of position costs (USD)
   };
 
+  // null when costBenefitMode is "off" or it can't be evaluated
+  costBenefit: CostBenefitAnalysis | null;
+
   // Weights used (static or dynamically computed)
   weightsUsed: Record<string, number>;
   dynamicWeightsComputed: boolean;
+  optimizationMethod: OptimizationMethod | "static";
+  optimizerDiagnostics: OptimizerDiagnostics | null; // null for static weights
+
+  // Stored proposal (set once persisted by createProposal)
+  proposalId?: string;
+  expiresAt?: string;
+}
+
+/**
+ * How the optimizer reached the weights it returned
+ */
+export interface OptimizerDiagnostics {
+  method: OptimizationMethod;
+  solver: "projected_gradient" | "coordinate_descent";
+  converged: boolean;
+  iterations: number;
+  sharpe: number; // Leveraged Sharpe of the final weights
+  bindingBounds: BindingBound[];
+  bindingGroups: BindingGroup[];
+  estimation: EstimationDiagnostics;
+  returnViews: ReturnViewDiagnostics | null; // null when no active view applies
+  inputs: OptimizerInputs;
+}
+
+/**
+ * Everything the optimizer saw, kept with the stored proposal so the
+ * weights can be explained later (returns and covariance annualized)
+ */
+export interface OptimizerInputs {
+  symbols: string[];
+  window: {
+    from: string; // Date of the first daily return used
+    to: string; // Date of the last daily return used
+    observations: number;
+    lookbackDays: number; // 0 = all history
+    ewmaHalfLifeDays: number; // 0 = equal weights
+  };
+  meanReturns: Array<{
+    symbol: string;
+    sample: number; // Historical mean
+    shrunk: number; // After James–Stein and meanReturnShrinkage
+    used: number; // After return views (= shrunk without views)
+  }>;
+  meanReturnShrinkage: number;
+  volatilities: number[];
+  covariance: number[][];
+  correlation: number[][];
+  constraints: WeightConstraints & {
+    leverage: number;
+    riskFreeRate: number;
+  };
+  weights: Record<string, number>;
+  sharpe: number; // Leveraged Sharpe of the weights
+}
+
+/**
+ * Weight bounds the optimizer ran with, after relaxation
+ */
+export interface WeightConstraints {
+  minWeight: number; // Uniform bounds for assets without their own
+  maxWeight: number;
+  assetBounds: Record<string, { min: number; max: number }>;
+  groupBounds: Array<{
+    assetType: string;
+    symbols: string[];
+    min: number;
+    max: number;
+  }>;
+  relaxed: string[]; // Configured bounds loosened so the weights sum to 1
+}
+
+/**
+ * Effect of the Black–Litterman views on the Sharpe weights
+ */
+export interface ReturnViewDiagnostics {
+  weightsWithoutViews: Record<string, number>;
+  views: ReturnViewImpact[];
+}
+
+/**
+ * One view: how it moved its asset's mean and the weights on its own
+ */
+export interface ReturnViewImpact {
+  symbol: string;
+  expectedReturn: number; // Annual view
+  confidence: ViewConfidence;
+  expiresAt: string;
+  priorReturn: number; // Annual return from the historical estimate
+  posteriorReturn: number; // Annual return after blending all views
+  weightChanges: Record<string, number>; // This view alone vs no views
+}
+
+/**
+ * Return/covariance estimator settings and shrinkage actually applied
+ */
+export interface EstimationDiagnostics {
+  observations: number; // Daily returns used
+  effectiveObservations: number; // Lower than observations with EWMA
+  covarianceEstimator: CovarianceEstimator;
+  covarianceShrinkage: number; // Ledoit–Wolf intensity δ (0 = sample)
+  meanEstimator: MeanEstimator;
+  meanShrinkage: number; // James–Stein intensity (0 = sample means)
+}
+
+/**
+ * A portfolio on the risk/return plane (annual, unleveraged)
+ */
+export interface FrontierPoint {
+  expectedReturn: number;
+  volatility: number;
+  sharpe: number; // Leveraged Sharpe at leverageTarget
+  weights: Record<string, number>;
+}
+
+/**
+ * Risk contribution of one asset at current weights
+ */
+export interface AssetRiskContribution {
+  symbol: string;
+  weight: number;
+  marginalContribution: number; // ∂σ/∂wᵢ (annual volatility per unit of weight)
+  riskContribution: number; // wᵢ·∂σ/∂wᵢ, sums to portfolio volatility
+  percentOfRisk: number; // Share of portfolio variance, sums to 1
+}
+
+/**
+ * Constrained efficient frontier and risk decomposition
+ * Uses the optimizer's return/covariance estimate (shrinkage and active
+ * return views included) and its weight bounds
+ */
+export interface EfficientFrontier {
+  portfolioId: string;
+  timestamp: string;
+  symbols: string[]; // Assets with enough price history
+  constraints: WeightConstraints & {
+    leverage: number;
+    riskFreeRate: number;
+  };
+  frontier: FrontierPoint[]; // From minimum variance to maximum return
+  current: FrontierPoint | null; // null when no position is held
+  target: FrontierPoint | null; // null when targetWeights has none of the assets
+  sharpeOptimal: FrontierPoint;
+  riskContributions: AssetRiskContribution[]; // At current weights
+}
+
+/**
+ * Latest prices converted into the portfolio's base currency
+ */
+interface BaseCurrencyPrices {
+  prices: Record<string, number>; // assetId -> price in the base currency
+  fxRates: Record<string, number>; // assetId -> base currency per unit of quote currency
+  quoteCurrencies: Record<string, string>; // assetId -> quote currency
+  missingCurrencies: string[]; // Quote currencies without a rate, valued 1:1
+}
+
+/**
+ * Inputs a stored proposal was calculated with
+ */
+interface ProposalInputs {
+  prices: Record<string, number>; // assetId -> price used (base currency)
+  quantities: Record<string, number>; // assetId -> quantity held
+  equity: number;
+  exposure: number;
+  configuration: any;
+}
+
+/**
+ * Metrics row of the rebalance day as it was before accepting
+ * existed=false means the row was created by the rebalance; the numbers
+ * are then the pre-rebalance state from the proposal
+ */
+interface MetricsSnapshot {
+  date: string;
+  existed: boolean;
+  equity: number;
+  exposure: number;
+  leverage: number;
+  drawdown: number;
+  marginRatio: number;
 }
 
 /**
@@ -132,9 +418,182 @@ export interface RebalanceProposal {
 export class RebalanceService {
   constructor(
     private prisma: PrismaService,
-    private configService: PortfolioConfigurationService
+    private configService: PortfolioConfigurationService,
+    private taxLotsService: TaxLotsService,
+    private tradesService: TradesService,
+    private fxService: FxService
   ) {}
 
+  /**
+   * Calculate a proposal and store it so it can be accepted by ID
+   * @param portfolioId - Portfolio ID
+   * @returns Rebalance proposal with proposalId and expiresAt
+   */
+  async createProposal(portfolioId: string): Promise<RebalanceProposal> {
+    const proposal = await this.calculateProposal(portfolioId);
+
+    const [configuration, positions] = await Promise.all([
+      this.configService.getConfiguration(portfolioId),
+      this.prisma.portfolioPosition.findMany({ where: { portfolioId } }),
+    ]);
+
+    const inputs: ProposalInputs = {
+      prices: Object.fromEntries(
+        proposal.positions.map((pos) => [pos.assetId, pos.currentPrice])
+      ),
+      quantities: Object.fromEntries(
+        positions.map((pos: any) => [pos.assetId, pos.quantity])
+      ),
+      equity: proposal.currentEquity,
+      exposure: proposal.currentExposure,
+      configuration,
+    };
+
+    const expiresAt = new Date(Date.now() + PROPOSAL_TTL_MINUTES * 60 * 1000);
+
+    const record = await this.prisma.rebalanceProposal.create({
+      data: {
+        portfolioId,
+        proposalJson: JSON.stringify(proposal),
+        inputsJson: JSON.stringify(inputs),
+        expiresAt,
+      },
+    });
+
+    return {
+      ...proposal,
+      proposalId: record.id,
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Compute the constrained efficient frontier for the portfolio's assets
+   * plus the current, target and Sharpe-optimal points and the risk
+   * contribution of each asset at current weights
+   * Current and target weights are renormalized over the assets with
+   * enough price history
+   * @param portfolioId - Portfolio ID
+   * @param points - Number of frontier points
+   */
+  async calculateEfficientFrontier(
+    portfolioId: string,
+    points = 20
+  ): Promise<EfficientFrontier> {
+    const config = await this.configService.getConfiguration(portfolioId);
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: { positions: { include: { asset: true } } },
+    });
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+
+    const heldSymbols = new Set(
+      portfolio.positions.map((p: any) => p.asset.symbol)
+    );
+    const assets = (await this.prisma.asset.findMany()).filter(
+      (a: any) =>
+        heldSymbols.has(a.symbol) ||
+        config.targetWeights[a.symbol] !== undefined
+    );
+    const latestPrices = await this.getLatestPrices(
+      assets.map((a: any) => a.id),
+      portfolio.baseCurrency
+    );
+    const { positionValues } = calculatePositionExposure(
+      portfolio.positions,
+      latestPrices.prices
+    );
+
+    let statistics;
+    try {
+      statistics = await this.estimateReturnStatistics(assets, config);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : "Not enough price history"
+      );
+    }
+    const { symbols, covMatrix } = statistics;
+    const { means } = blendReturnViews(
+      symbols,
+      statistics.meanReturns,
+      covMatrix,
+      getActiveReturnViews(config.returnViews, new Date())
+    );
+
+    const bounds = this.getWeightBounds(symbols, assets, config);
+    const sharpeSettings = this.getSharpeSettings(config);
+    const toPoint = (weights: number[]): FrontierPoint => ({
+      expectedReturn: annualizeDailyLogReturn(
+        weights.reduce((sum, w, i) => sum + w * means[i], 0)
+      ),
+      volatility: Math.sqrt(252 * portfolioVariance(weights, covMatrix)),
+      sharpe: calculateLeveragedSharpe(
+        weights,
+        means,
+        covMatrix,
+        sharpeSettings
+      ),
+      weights: Object.fromEntries(
+        symbols.map((symbol, i) => [symbol, weights[i]])
+      ),
+    });
+    const normalize = (values: number[]): number[] | null => {
+      const total = values.reduce((a, b) => a + b, 0);
+      return total > 0 ? values.map((v) => v / total) : null;
+    };
+
+    const currentWeights = normalize(
+      symbols.map((symbol) => Math.max(0, positionValues[symbol] || 0))
+    );
+    const targetWeights = normalize(
+      symbols.map((symbol) => config.targetWeights[symbol] || 0)
+    );
+
+    return {
+      portfolioId,
+      timestamp: new Date().toISOString(),
+      symbols,
+      constraints: {
+        ...this.summarizeWeightBounds(symbols, bounds),
+        ...sharpeSettings,
+      },
+      frontier: traceEfficientFrontier(means, covMatrix, bounds, points).map(
+        toPoint
+      ),
+      current: currentWeights ? toPoint(currentWeights) : null,
+      target: targetWeights ? toPoint(targetWeights) : null,
+      sharpeOptimal: toPoint(
+        optimizeSharpe(means, covMatrix, bounds, sharpeSettings).weights
+      ),
+      riskContributions: currentWeights
+        ? this.calculateAssetRiskContributions(
+            symbols,
+            currentWeights,
+            covMatrix
+          )
+        : [],
+    };
+  }
+
+  /**
+   * Calculate the proposal that a configuration change would produce
+   * Overrides are applied in memory only: nothing is stored or updated
+   * @param portfolioId - Portfolio ID
+   * @param dto - Configuration overrides and hypothetical contribution
+   * @returns Rebalance proposal (without proposalId, cannot be accepted)
+   */
+  async simulateProposal(
+    portfolioId: string,
+    dto: SimulateRebalanceDto
+  ): Promise<RebalanceProposal> {
+    console.log(
+      `[Rebalance] Simulating proposal for portfolio ${portfolioId} with overrides: ${Object.keys(dto).join(", ") || "none"}`
+    );
+    return this.calculateProposal(portfolioId, dto);
+  }
+
   /**
    * Calculate rebalance proposal for a portfolio
    * Implements apply_monthly_rebalancing logic from notebook
@@ -142,9 +601,26 @@ export class RebalanceService {
    * @param portfolioId - Portfolio ID
    * @returns Rebalance proposal with target allocations
    */
-  async calculateProposal(portfolioId: string): Promise<RebalanceProposal> {
+  async calculateProposal(
+    portfolioId: string,
+    simulation?: SimulateRebalanceDto
+  ): Promise<RebalanceProposal> {
     // 1. Get portfolio configuration (uses actual portfolio settings)
-    const config = await this.configService.getConfiguration(portfolioId);
+    let config = await this.configService.getConfiguration(portfolioId);
+    if (simulation) {
+      config = this.applyConfigurationOverrides(config, simulation);
+      if (
+        simulation.targetWeights ||
+        simulation.assetWeightBounds ||
+        simulation.groupWeightBounds
+      ) {
+        await this.configService.validateTargetWeightBounds(
+          config.targetWeights,
+          config.assetWeightBounds,
+          config.groupWeightBounds
+        );
+      }
+    }
     const targetWeights = config.targetWeights;
 
     // 2. Get portfolio with positions and history
@@ -160,7 +636,7 @@ export class RebalanceService {
         },
         metricsTimeseries: {
           orderBy: { date: "desc" },
-          take: config.volatilityLookbackDays + 10,
+          take: getMetricsHistoryWindow(config.volatilityLookbackDays),
         },
         dailyMetrics: {
           orderBy: { date: "desc" },
@@ -175,24 +651,36 @@ export class RebalanceService {
 
     // 3. Get all assets with their latest prices
     const assets = await this.prisma.asset.findMany();
-    const latestPrices = await this.getLatestPrices(assets.map((a: any) => a.id));
-
-    // 4. Calculate current portfolio state (includes pending contributions)
-    const currentState = this.calculateCurrentState(
-      portfolio,
-      latestPrices,
-      assets
+    const latestPrices = await this.getLatestPrices(
+      assets.map((a: any) => a.id),
+      portfolio.baseCurrency
     );
 
+    // 4. Calculate current portfolio state (shared strategy engine)
+    const currentState = calculateCurrentState(portfolio, latestPrices.prices);
+
+    // Hypothetical contribution goes straight to equity, like a registered one
+    if (simulation?.contributionAmount) {
+      currentState.equity += simulation.contributionAmount;
+      currentState.peakEquity = Math.max(
+        currentState.peakEquity,
+        currentState.equity
+      );
+      currentState.leverage = calculateLeverage(
+        currentState.exposure,
+        currentState.equity
+      );
+    }
+
     // 5. Calculate deploy signals (using portfolio config thresholds)
-    const deploySignals = this.calculateDeploySignals(
+    const deploySignals = calculateDeploySignals(
       currentState,
       portfolio.metricsTimeseries,
       targetWeights,
       config
     );
 
-    // 6. Determine weights to use - always use Sharpe optimization
+    // 6. Determine weights to use - always try dynamic optimization
     // Get assets that are in the portfolio (have positions) or in target weights
     const portfolioAssetSymbols = new Set(
       portfolio.positions.map((p: any) => p.asset.symbol)
@@ -213,9 +701,7 @@ export class RebalanceService {
     // NOTE: Contributions go directly to equity when registered,
     // so pendingContribution should be 0 in normal operation
     // We still calculate it for the response, but don't use it in calculations
-    const pendingContribution = this.calculatePendingContribution(
-      portfolio.contributions
-    );
+    const pendingContribution = currentState.pendingContributions;
 
     // 8. Equity remains the same when rebalancing to increase exposure
     // Contributions are already included in currentState.equity
@@ -223,7 +709,7 @@ export class RebalanceService {
 
     // 9. Calculate target exposure based on leverage target (not minimum)
     // When rebalancing to increase exposure, we target leverageTarget, not leverageMin
-    const targetExposure = this.calculateTargetExposure(
+    let targetExposure = this.calculateTargetExposure(
       equityForCalculations,
       currentState.exposure,
       0, // Don't use pending contributions in calculations - they're already in equity
@@ -231,28 +717,88 @@ export class RebalanceService {
       config
     );
 
+    // Cash of staged tranches that are not due yet stays out of leverage
+    // (it only limits buying, it never causes sells)
+    const stagedDeployment = getStagedDeploymentStatus(
+      portfolio.contributions,
+      new Date(),
+      deploySignals.matchedRule?.name ?? null
+    );
+    if (stagedDeployment && stagedDeployment.heldBackAmount > 0) {
+      targetExposure = Math.min(
+        targetExposure,
+        Math.max(
+          currentState.exposure,
+          (equityForCalculations - stagedDeployment.heldBackAmount) *
+            config.leverageTarget
+        )
+      );
+    }
+
     // 9. Calculate target positions
-    const positions = this.calculateTargetPositions(
+    let positions = this.calculateTargetPositions(
       currentState,
       targetExposure,
       weightsToUse.weights,
       assets,
-      latestPrices
+      latestPrices,
+      config
+    );
+
+    // Drop the rebalancing part of the trades if it costs more than it gains
+    const costBenefit = await this.checkCostBenefit(
+      positions,
+      currentState,
+      assets,
+      config
+    );
+    if (costBenefit?.suppressed) {
+      positions = this.keepCurrentComposition(
+        positions,
+        currentState,
+        targetExposure,
+        assets,
+        latestPrices,
+        config
+      );
+      console.log(
+        `[Rebalance] Rebalancing suppressed for portfolio ${portfolioId}: cost ${costBenefit.rebalancingCost.toFixed(2)} > benefit ${costBenefit.expectedBenefit.toFixed(2)}`
+      );
+    }
+
+    // Trade filters leave part of the target exposure as cash
+    const residualCash = positions.reduce(
+      (sum, pos) => sum + (targetExposure * pos.targetWeight - pos.targetValue),
+      0
     );
+    const newExposure = targetExposure - residualCash;
 
     // 10. Calculate equity/borrow breakdown
     // Don't use pendingContribution - contributions are already in equity
     const breakdown = this.calculateEquityBorrowBreakdown(
       currentState.exposure,
-      targetExposure,
+      newExposure,
       currentState.equity, // Pass equity for calculations
       config
     );
 
+    const leverageStatus = getLeverageStatus(
+      currentState.leverage,
+      config.leverageMin,
+      config.leverageMax
+    );
+
     return {
+      baseCurrency: portfolio.baseCurrency,
+      fxMissingCurrencies: Array.from(
+        new Set(positions.map((pos) => pos.quoteCurrency))
+      )
+        .filter((currency) => latestPrices.missingCurrencies.includes(currency))
+        .sort(),
       currentEquity: currentState.equity,
       currentExposure: currentState.exposure,
       currentLeverage: currentState.leverage,
+      leverageStatus,
       targetLeverage: config.leverageTarget,
       targetExposure,
       deployFraction: deploySignals.deployFraction,
@@ -261,234 +807,159 @@ export class RebalanceService {
         weightDeviationTriggered: deploySignals.weightDeviationTriggered,
         volatilityTriggered: deploySignals.volatilityTriggered,
       },
+      matchedDeployRule: deploySignals.matchedRule,
+      deleveragingPlan:
+        leverageStatus === "high"
+          ? calculateDeleveragingPlan(
+              currentState,
+              Math.min(config.leverageTarget, config.leverageMax)
+            )
+          : null,
       drawdown: deploySignals.drawdown,
       peakEquity: currentState.peakEquity,
       weightDeviation: deploySignals.weightDeviation,
       realizedVolatility: deploySignals.realizedVolatility,
       pendingContribution,
+      stagedDeployment,
       positions,
       summary: {
         newEquity: currentState.equity, // Equity doesn't change when rebalancing to buy assets
-        newExposure: targetExposure,
-        newLeverage: currentState.equity > 0 ? targetExposure / currentState.equity : 0,
+        newExposure,
+        newLeverage: currentState.equity > 0 ? newExposure / currentState.equity : 0,
         equityUsedFromContribution: breakdown.equityUsed,
         borrowIncrease: breakdown.borrowIncrease,
+        residualCash,
+        estimatedCosts: positions.reduce(
+          (sum, pos) => sum + pos.estimatedCost,
+          0
+        ),
       },
+      costBenefit,
       weightsUsed: weightsToUse.weights,
       dynamicWeightsComputed: weightsToUse.isDynamic,
+      optimizationMethod: weightsToUse.method,
+      optimizerDiagnostics: weightsToUse.diagnostics,
     };
   }
 
   /**
-   * Calculate current portfolio state
-   * IMPORTANT: Includes pending contributions in equity (same as recommendations service)
+   * Merge simulation overrides into the stored configuration
+   * Applies the same checks as PUT configuration
    */
-  private calculateCurrentState(
-    portfolio: any,
-    latestPrices: Record<string, number>,
-    _assets: any[]
-  ): {
-    equity: number;
-    exposure: number;
-    leverage: number;
-    peakEquity: number;
-    positionValues: Record<string, number>;
-    positionQuantities: Record<string, number>;
-  } {
-    let exposure = 0;
-    const positionValues: Record<string, number> = {};
-    const positionQuantities: Record<string, number> = {};
-
-    for (const position of portfolio.positions) {
-      const price = latestPrices[position.assetId] || position.avgPrice;
-      const value = position.quantity * price;
-      exposure += value;
-      positionValues[position.asset.symbol] = value;
-      positionQuantities[position.asset.symbol] = position.quantity;
+  private applyConfigurationOverrides(
+    config: any,
+    overrides: SimulateRebalanceDto
+  ): any {
+    const { contributionAmount: _contributionAmount, ...configOverrides } =
+      overrides;
+    const merged = { ...config };
+
+    for (const [key, value] of Object.entries(configOverrides)) {
+      if (value !== undefined) {
+        merged[key] = value;
+      }
     }
 
-    // Get base equity from latest metrics
-    let baseEquity = portfolio.initialCapital;
-    if (portfolio.dailyMetrics?.length > 0) {
-      baseEquity = portfolio.dailyMetrics[0].equity;
-    } else if (portfolio.metricsTimeseries.length > 0) {
-      baseEquity = portfolio.metricsTimeseries[0].equity;
+    if (configOverrides.transactionCosts) {
+      this.configService.validateTransactionCosts(
+        configOverrides.transactionCosts
+      );
     }
 
-    // Calculate pending contributions (not deployed) - for display only
-    // NOTE: Contributions are now marked as deployed immediately when registered,
-    // so pending contributions should be 0 in normal operation
-    // const pendingContributions = portfolio.contributions
-    //   .filter((c: any) => !c.deployed)
-    //   .reduce((sum: number, c: any) => sum + c.amount, 0);
-
-    // Equity should already include all contributions (they're marked as deployed immediately)
-    // We do NOT add pendingContributions here to avoid double-counting
-    const effectiveEquity = baseEquity;
-
-    // Calculate peak equity from history
-    let peakEquity = effectiveEquity;
-    if (portfolio.dailyMetrics?.length > 0) {
-      peakEquity = portfolio.dailyMetrics[0].peakEquity || effectiveEquity;
-    }
-    for (const metric of portfolio.metricsTimeseries) {
-      if (metric.equity > peakEquity) {
-        peakEquity = metric.equity;
-      }
+    if (configOverrides.assetTradingSettings) {
+      this.configService.validateAssetTradingSettings(
+        configOverrides.assetTradingSettings
+      );
     }
 
-    const leverage = effectiveEquity > 0 ? exposure / effectiveEquity : 0;
-
-    return {
-      equity: effectiveEquity, // Now includes pending contributions
-      exposure,
-      leverage,
-      peakEquity,
-      positionValues,
-      positionQuantities,
-    };
-  }
-
-  /**
-   * Calculate deploy signals based on drawdown, weight deviation, and volatility
-   * Implements the deploy_fraction logic from notebook
-   * Now uses portfolio configuration instead of hardcoded values
-   */
-  private calculateDeploySignals(
-    currentState: any,
-    metricsHistory: any[],
-    targetWeights: Record<string, number>,
-    config: any
-  ): {
-    deployFraction: number;
-    drawdown: number;
-    weightDeviation: number;
-    realizedVolatility: number | null;
-    drawdownTriggered: boolean;
-    weightDeviationTriggered: boolean;
-    volatilityTriggered: boolean;
-    monthNumber: number;
-  } {
-    const { equity, peakEquity, positionValues, exposure } = currentState;
-
-    // Calculate drawdown
-    const drawdown = peakEquity > 0 ? equity / peakEquity - 1 : 0;
-
-    // Calculate weight deviation from target (using portfolio config weights)
-    let weightDeviation = 0;
-    if (exposure > 0) {
-      for (const [symbol, targetWeight] of Object.entries(targetWeights)) {
-        const currentValue = positionValues[symbol] || 0;
-        const currentWeight = currentValue / exposure;
-        const deviation = Math.abs(currentWeight - targetWeight);
-        if (deviation > weightDeviation) {
-          weightDeviation = deviation;
-        }
-      }
+    if (configOverrides.deployRules) {
+      this.configService.validateDeployRules(configOverrides.deployRules);
     }
 
-    // Calculate realized volatility from equity history (using portfolio config)
-    let realizedVolatility: number | null = null;
-    if (metricsHistory.length >= 2) {
-      const equityValues = metricsHistory
-        .slice(0, config.volatilityLookbackDays + 1)
-        .map((m) => m.equity)
-        .reverse();
-
-      if (equityValues.length > 1) {
-        const logReturns: number[] = [];
-        for (let i = 1; i < equityValues.length; i++) {
-          if (equityValues[i - 1] > 0) {
-            logReturns.push(Math.log(equityValues[i] / equityValues[i - 1]));
-          }
-        }
-
-        if (logReturns.length > 0) {
-          const mean =
-            logReturns.reduce((a, b) => a + b, 0) / logReturns.length;
-          const variance =
-            logReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) /
-            (logReturns.length - 1 || 1);
-          const dailyVol = Math.sqrt(variance);
-          realizedVolatility = dailyVol * Math.sqrt(252); // Annualize
-        }
-      }
+    if (configOverrides.returnViews) {
+      this.configService.validateReturnViews(configOverrides.returnViews);
     }
 
-    // Estimate month number from metrics history
-    const monthNumber = Math.max(1, Math.ceil(metricsHistory.length / 21));
-
-    // Determine deploy fraction based on signals (using portfolio config thresholds)
-    let deployFraction = 0;
-    let drawdownTriggered = false;
-    let weightDeviationTriggered = false;
-    let volatilityTriggered = false;
+    if (configOverrides.assetWeightBounds) {
+      this.configService.validateWeightBounds(
+        configOverrides.assetWeightBounds,
+        "assetWeightBounds"
+      );
+    }
 
-    // Condition 1: Drawdown exceeds threshold → full deploy
-    if (drawdown <= -config.drawdownRedeployThreshold) {
-      deployFraction = 1.0;
-      drawdownTriggered = true;
-    } else {
-      // Condition 2: Weight deviation exceeds threshold
-      if (weightDeviation >= config.weightDeviationThreshold) {
-        deployFraction = 1.0;
-        weightDeviationTriggered = true;
-      }
+    if (configOverrides.groupWeightBounds) {
+      this.configService.validateWeightBounds(
+        configOverrides.groupWeightBounds,
+        "groupWeightBounds"
+      );
+    }
 
-      // Condition 3: Volatility below threshold (calm market)
-      if (
-        realizedVolatility !== null &&
-        realizedVolatility <= config.volatilityRedeployThreshold
-      ) {
-        deployFraction = 1.0;
-        volatilityTriggered = true;
-      }
+    if (configOverrides.targetWeights) {
+      this.configService.validateTargetWeights(configOverrides.targetWeights);
+      // Keep held assets that are missing from the override at weight 0
+      merged.targetWeights = {
+        ...Object.fromEntries(
+          Object.keys(config.targetWeights).map((symbol) => [symbol, 0])
+        ),
+        ...configOverrides.targetWeights,
+      };
     }
 
-    // Apply gradual deploy factor (from portfolio config)
-    if (deployFraction > 0) {
-      deployFraction = Math.min(deployFraction, config.gradualDeployFactor);
+    if (merged.leverageMin > merged.leverageMax) {
+      throw new BadRequestException(
+        "leverageMin cannot be greater than leverageMax"
+      );
+    }
+    if (
+      merged.estimationLookbackDays > 0 &&
+      merged.estimationLookbackDays < 20
+    ) {
+      throw new BadRequestException(
+        "estimationLookbackDays must be 0 (all history) or at least 20"
+      );
     }
 
-    return {
-      deployFraction,
-      drawdown,
-      weightDeviation,
-      realizedVolatility,
-      drawdownTriggered,
-      weightDeviationTriggered,
-      volatilityTriggered,
-      monthNumber,
-    };
+    return merged;
   }
 
   /**
-   * Determine weights to use - always try Sharpe optimization first
-   * Implements compute_optimal_sharpe_weights from notebook
+   * Determine weights to use - always try dynamic optimization first
+   * Implements compute_optimal_sharpe_weights from notebook (or the
+   * risk-based optimizer selected in config.optimizationMethod)
    * Uses portfolio configuration target weights only as constraints/fallback
+   * When asOf is given, only prices up to that date are used (backtesting)
    */
-  private async determineWeights(
+  async determineWeights(
     portfolioId: string,
     assets: any[],
     monthNumber: number,
     targetWeights: Record<string, number>,
-    config: any
-  ): Promise<{ weights: Record<string, number>; isDynamic: boolean }> {
-    // Use Sharpe optimization only if enabled, otherwise use manual target weights
-    const shouldUseSharpe = config.useDynamicSharpeRebalance === true;
-
-    if (shouldUseSharpe) {
+    config: any,
+    asOf?: Date
+  ): Promise<{
+    weights: Record<string, number>;
+    isDynamic: boolean;
+    method: OptimizationMethod | "static";
+    diagnostics: OptimizerDiagnostics | null;
+  }> {
+    // Use dynamic optimization only if enabled, otherwise use manual target weights
+    const shouldOptimize = config.useDynamicSharpeRebalance === true;
+    const method: OptimizationMethod = config.optimizationMethod || "sharpe";
+
+    if (shouldOptimize) {
       try {
-        console.log(`[Rebalance] Attempting Sharpe optimization for portfolio ${portfolioId}`);
+        console.log(`[Rebalance] Attempting ${method} optimization for portfolio ${portfolioId}`);
         console.log(`[Rebalance] Assets to consider: ${assets.map(a => a.symbol).join(', ')}`);
         console.log(`[Rebalance] Target weights:`, targetWeights);
         
-        const optimalWeights = await this.computeOptimalSharpeWeights(
-          portfolioId,
-          assets,
-          targetWeights,
-          config
-        );
+        const { weights: optimalWeights, diagnostics } =
+          await this.computeOptimalWeights(
+            portfolioId,
+            assets,
+            targetWeights,
+            config,
+            asOf
+          );
         
         console.log(`[Rebalance] Optimal weights computed:`, optimalWeights);
         
@@ -496,14 +967,14 @@ export class RebalanceService {
         const hasValidWeights = Object.values(optimalWeights).some(w => w > 0);
         if (hasValidWeights) {
           const sum = Object.values(optimalWeights).reduce((a, b) => a + b, 0);
-          console.log(`[Rebalance] Using Sharpe-optimized weights (sum: ${sum.toFixed(4)})`);
-          return { weights: optimalWeights, isDynamic: true };
+          console.log(`[Rebalance] Using ${method} weights (sum: ${sum.toFixed(4)})`);
+          return { weights: optimalWeights, isDynamic: true, method, diagnostics };
         } else {
           console.warn(`[Rebalance] Optimal weights are invalid (all zero), falling back`);
         }
       } catch (error) {
         console.error(
-          `[Rebalance] Failed to compute dynamic Sharpe weights, falling back to portfolio target weights:`,
+          `[Rebalance] Failed to compute dynamic ${method} weights, falling back to portfolio target weights:`,
           error instanceof Error ? error.message : error
         );
         if (error instanceof Error && error.stack) {
@@ -512,112 +983,183 @@ export class RebalanceService {
       }
     }
 
-    // Fallback to portfolio target weights only if Sharpe optimization fails
-    return { weights: { ...targetWeights }, isDynamic: false };
+    // Fallback to portfolio target weights only if optimization fails
+    return {
+      weights: { ...targetWeights },
+      isDynamic: false,
+      method: "static",
+      diagnostics: null,
+    };
   }
 
   /**
-   * Compute optimal Sharpe-maximizing weights
-   * Implements compute_optimal_sharpe_weights from notebook
-   *
-   * Key differences from simple implementation:
-   * 1. Uses ALL accumulated historical returns (not just last N days)
-   * 2. Applies mean_return_shrinkage to be more conservative
-   * 3. Uses proper SLSQP-like optimization (Nelder-Mead approximation)
-   * Now uses portfolio configuration for constraints and parameters
+   * Compute optimal weights with the configured optimization method
+   * All methods share the mean returns and covariance matrix from
+   * estimateReturnStatistics; risk-based methods ignore the means
    */
-  private async computeOptimalSharpeWeights(
+  private async computeOptimalWeights(
     portfolioId: string,
     assets: any[],
     targetWeights: Record<string, number>,
-    config: any
-  ): Promise<Record<string, number>> {
-    // Get ALL historical prices for assets (accumulated history like notebook)
-    const assetReturns: Record<string, number[]> = {};
-    const assetSymbols: string[] = [];
+    config: any,
+    asOf?: Date
+  ): Promise<{
+    weights: Record<string, number>;
+    diagnostics: OptimizerDiagnostics;
+  }> {
+    const {
+      symbols,
+      meanReturns: priorMeans,
+      sampleMeans,
+      covMatrix,
+      estimation,
+      window,
+    } = await this.estimateReturnStatistics(assets, config, asOf);
+    const method: OptimizationMethod = config.optimizationMethod || "sharpe";
+
+    // Views are opinions held today, so backtests (asOf) ignore them
+    const views: ReturnView[] =
+      method === "sharpe" && !asOf
+        ? getActiveReturnViews(config.returnViews, new Date())
+        : [];
+    const { means: meanReturns, applied } = blendReturnViews(
+      symbols,
+      priorMeans,
+      covMatrix,
+      views
+    );
 
-    // Use all assets passed in (should include all portfolio positions)
-    // This allows Sharpe optimization to find the best allocation
-    const assetsToConsider = assets;
+    const bounds = this.getWeightBounds(symbols, assets, config);
+    for (const message of bounds.relaxed) {
+      console.warn(`[Optimization] ${message}`);
+    }
 
-    for (const asset of assetsToConsider) {
-      const prices = await this.prisma.assetPrice.findMany({
-        where: { assetId: asset.id },
-        orderBy: { date: "asc" }, // Ascending to get chronological order
-      });
+    const sharpeSettings = this.getSharpeSettings(config);
+    const formatWeights = (values: number[]) =>
+      values
+        .map((v, i) => `${symbols[i]}: ${(v * 100).toFixed(2)}%`)
+        .join(", ");
+    let optimized: OptimizerResult;
+    switch (method) {
+      case "risk_parity":
+        optimized = optimizeRiskParity(covMatrix, bounds);
+        console.log(
+          `[Risk Parity] Risk contributions:`,
+          formatWeights(
+            calculateRiskContributions(optimized.weights, covMatrix)
+          )
+        );
+        break;
+      case "min_variance":
+        optimized = optimizeMinVariance(covMatrix, bounds);
+        console.log(
+          `[Min Variance] ${optimized.converged ? "Converged" : "Stopped"} after ${optimized.iterations} iterations, annual vol: ${(Math.sqrt(portfolioVariance(optimized.weights, covMatrix) * 252) * 100).toFixed(2)}%`
+        );
+        break;
+      case "max_diversification":
+        optimized = optimizeMaxDiversification(covMatrix, bounds);
+        console.log(
+          `[Max Diversification] ${optimized.converged ? "Converged" : "Stopped"} after ${optimized.iterations} iterations, diversification ratio: ${calculateDiversificationRatio(optimized.weights, covMatrix).toFixed(4)}`
+        );
+        break;
+      default:
+        console.log(
+          `[Sharpe Optimization] Constraints: minWeight=${bounds.minWeight}, maxWeight=${bounds.maxWeight}, groups=${bounds.groups.length}, leverage=${sharpeSettings.leverage}`
+        );
+        console.log(
+          `[Sharpe Optimization] Mean returns:`,
+          meanReturns
+            .map((r, i) => `${symbols[i]}: ${(r * 252 * 100).toFixed(2)}%`)
+            .join(", ")
+        );
+        optimized = optimizeSharpe(
+          meanReturns,
+          covMatrix,
+          bounds,
+          sharpeSettings
+        );
+        console.log(
+          `[Sharpe Optimization] ${optimized.converged ? "Converged" : "Stopped"} after ${optimized.iterations} iterations`
+        );
+        console.log(
+          `[Sharpe Optimization] Final weights:`,
+          formatWeights(optimized.weights)
+        );
+    }
 
-      // Reduced minimum history requirement - try with at least 20 days
-      if (prices.length < 20) continue;
+    const sharpe = calculateLeveragedSharpe(
+      optimized.weights,
+      meanReturns,
+      covMatrix,
+      sharpeSettings
+    );
+    const volatilities = covMatrix.map((row, i) => Math.sqrt(252 * row[i]));
+    const diagnostics: OptimizerDiagnostics = {
+      method,
+      solver:
+        method === "risk_parity" ? "coordinate_descent" : "projected_gradient",
+      converged: optimized.converged,
+      iterations: optimized.iterations,
+      sharpe,
+      ...findBindingBounds(symbols, optimized.weights, bounds),
+      estimation,
+      returnViews:
+        applied.length > 0
+          ? this.explainReturnViews(
+              symbols,
+              priorMeans,
+              meanReturns,
+              covMatrix,
+              applied,
+              bounds,
+              sharpeSettings
+            )
+          : null,
+      inputs: {
+        symbols,
+        window: {
+          ...window,
+          observations: estimation.observations,
+          lookbackDays: config.estimationLookbackDays || 0,
+          ewmaHalfLifeDays: config.ewmaHalfLifeDays || 0,
+        },
+        meanReturns: symbols.map((symbol, i) => ({
+          symbol,
+          sample: annualizeDailyLogReturn(sampleMeans[i]),
+          shrunk: annualizeDailyLogReturn(priorMeans[i]),
+          used: annualizeDailyLogReturn(meanReturns[i]),
+        })),
+        meanReturnShrinkage: config.meanReturnShrinkage,
+        volatilities,
+        covariance: covMatrix.map((row) => row.map((cov) => cov * 252)),
+        correlation: covMatrix.map((row, i) =>
+          row.map((cov, j) =>
+            volatilities[i] > 0 && volatilities[j] > 0
+              ? (cov * 252) / (volatilities[i] * volatilities[j])
+              : 0
+          )
+        ),
+        constraints: {
+          ...this.summarizeWeightBounds(symbols, bounds),
+          ...sharpeSettings,
+        },
+        weights: Object.fromEntries(
+          symbols.map((symbol, i) => [symbol, optimized.weights[i]])
+        ),
+        sharpe,
+      },
+    };
 
-      // Calculate log returns (chronological order)
-      const returns: number[] = [];
-      for (let i = 1; i < prices.length; i++) {
-        if (prices[i - 1].close > 0) {
-          returns.push(Math.log(prices[i].close / prices[i - 1].close));
-        }
-      }
+    if (!diagnostics.converged) {
+      console.warn(
+        `[Optimization] ${method} did not converge after ${diagnostics.iterations} iterations`
+      );
+    }
 
-      if (returns.length > 0) {
-        assetReturns[asset.symbol] = returns;
-        assetSymbols.push(asset.symbol);
-      }
-    }
-
-    // Need at least 2 assets with sufficient history for optimization
-    if (assetSymbols.length < 2) {
-      const errorMsg = `Insufficient assets with price history: ${assetSymbols.length} < 2. Assets with data: ${assetSymbols.join(', ')}`;
-      console.error(`[Sharpe Optimization] ${errorMsg}`);
-      throw new Error(errorMsg);
-    }
-    
-    console.log(`[Sharpe Optimization] Optimizing with ${assetSymbols.length} assets: ${assetSymbols.join(', ')}`);
-
-    // Align all return series to same length (use minimum)
-    const minLength = Math.min(
-      ...Object.values(assetReturns).map((r) => r.length)
-    );
-
-    // Calculate mean returns WITH SHRINKAGE (using portfolio config)
-    const meanReturns: number[] = [];
-    for (const symbol of assetSymbols) {
-      const returns = assetReturns[symbol].slice(-minLength); // Use last minLength returns
-      const rawMean = returns.reduce((a, b) => a + b, 0) / returns.length;
-      // Apply shrinkage factor from portfolio config
-      const shrunkMean = rawMean * config.meanReturnShrinkage;
-      meanReturns.push(shrunkMean);
-    }
-
-    // Calculate covariance matrix (no shrinkage on covariance)
-    const covMatrix: number[][] = [];
-    for (let i = 0; i < assetSymbols.length; i++) {
-      covMatrix[i] = [];
-      const returnsI = assetReturns[assetSymbols[i]].slice(-minLength);
-      const meanI = returnsI.reduce((a, b) => a + b, 0) / returnsI.length; // Use raw mean for cov
-
-      for (let j = 0; j < assetSymbols.length; j++) {
-        const returnsJ = assetReturns[assetSymbols[j]].slice(-minLength);
-        const meanJ = returnsJ.reduce((a, b) => a + b, 0) / returnsJ.length;
-
-        let cov = 0;
-        for (let k = 0; k < minLength; k++) {
-          cov += (returnsI[k] - meanI) * (returnsJ[k] - meanJ);
-        }
-        covMatrix[i][j] = cov / (minLength - 1);
-      }
-    }
-
-    // Optimize using Nelder-Mead-like approach (more accurate than grid search)
-    const optimalWeights = this.optimizeSharpeNelderMead(
-      assetSymbols,
-      meanReturns,
-      covMatrix,
-      config
-    );
-
-    // Build result object
-    const result: Record<string, number> = {};
-    for (let i = 0; i < assetSymbols.length; i++) {
-      result[assetSymbols[i]] = optimalWeights[i];
+    // Build result object
+    const result: Record<string, number> = {};
+    for (let i = 0; i < symbols.length; i++) {
+      result[symbols[i]] = optimized.weights[i];
     }
 
     // Fill in any missing assets with 0
@@ -627,270 +1169,338 @@ export class RebalanceService {
       }
     }
 
-    return result;
+    return { weights: result, diagnostics };
   }
 
   /**
-   * Nelder-Mead-like optimization for Sharpe ratio
-   * More accurate than grid search, approximates scipy.optimize.minimize
-   * Now uses portfolio configuration for constraints
+   * Re-run the Sharpe optimizer without views and with each view alone to
+   * show how much every view moved the weights
    */
-  private optimizeSharpeNelderMead(
+  private explainReturnViews(
     symbols: string[],
-    meanReturns: number[],
+    priorMeans: number[],
+    blendedMeans: number[],
     covMatrix: number[][],
-    config: any
-  ): number[] {
-    const n = symbols.length;
-    const minWeight = config.minWeight || 0.05;
-    const maxWeight = config.maxWeight || 0.4;
-    const leverage = config.leverageTarget || 2.5;
-    const yearlyTradingDays = 252;
-    const riskFreeRate = config.riskFreeRate || 0.02;
-    
-    console.log(`[Sharpe Optimization] Constraints: minWeight=${minWeight}, maxWeight=${maxWeight}, leverage=${leverage}`);
-    console.log(`[Sharpe Optimization] Mean returns:`, meanReturns.map((r, i) => `${symbols[i]}: ${(r * 252 * 100).toFixed(2)}%`).join(', '));
-
-    // Objective function: negative Sharpe (to minimize)
-    const negSharpe = (weights: number[]): number => {
-      // Normalize weights
-      const sum = weights.reduce((a, b) => a + b, 0);
-      if (sum <= 0) return Infinity;
-      const w = weights.map((x) => x / sum);
-
-      // Check constraints
-      for (const weight of w) {
-        if (weight < minWeight - 0.001 || weight > maxWeight + 0.001) {
-          return Infinity; // Penalty for constraint violation
-        }
-      }
+    views: ReturnView[],
+    bounds: ResolvedWeightBounds,
+    sharpeSettings: SharpeSettings
+  ): ReturnViewDiagnostics {
+    const toRecord = (weights: number[]) =>
+      Object.fromEntries(symbols.map((symbol, i) => [symbol, weights[i]]));
+    const withoutViews = optimizeSharpe(
+      priorMeans,
+      covMatrix,
+      bounds,
+      sharpeSettings
+    ).weights;
 
-      return -this.calculateLeveragedSharpe(
-        w,
-        meanReturns,
-        covMatrix,
-        leverage,
-        yearlyTradingDays,
-        riskFreeRate
-      );
+    return {
+      weightsWithoutViews: toRecord(withoutViews),
+      views: views.map((view) => {
+        const index = symbols.indexOf(view.symbol);
+        const { means } = blendReturnViews(symbols, priorMeans, covMatrix, [
+          view,
+        ]);
+        const weights = optimizeSharpe(
+          means,
+          covMatrix,
+          bounds,
+          sharpeSettings
+        ).weights;
+
+        return {
+          symbol: view.symbol,
+          expectedReturn: view.expectedReturn,
+          confidence: view.confidence,
+          expiresAt: view.expiresAt,
+          priorReturn: annualizeDailyLogReturn(priorMeans[index]),
+          posteriorReturn: annualizeDailyLogReturn(blendedMeans[index]),
+          weightChanges: toRecord(weights.map((w, i) => w - withoutViews[i])),
+        };
+      }),
     };
+  }
 
-    // Initialize with equal weights
-    let bestWeights = Array(n).fill(1 / n);
-    let bestValue = negSharpe(bestWeights);
-
-    // Nelder-Mead parameters
-    const alpha = 1.0; // Reflection
-    const gamma = 2.0; // Expansion
-    const rho = 0.5; // Contraction
-    const sigma = 0.5; // Shrink
-    const tolerance = 1e-8;
-    const maxIterations = 500;
+  /**
+   * Estimate daily mean log returns and covariance matrix
+   *
+   * Key differences from simple implementation:
+   * 1. Uses ALL accumulated historical returns unless estimationLookbackDays is set
+   * 2. Optional EWMA observation weights (ewmaHalfLifeDays)
+   * 3. Optional Ledoit–Wolf covariance and James–Stein mean shrinkage
+   * 4. Applies mean_return_shrinkage to be more conservative
+   * Now uses portfolio configuration for parameters
+   */
+  private async estimateReturnStatistics(
+    assets: any[],
+    config: any,
+    asOf?: Date
+  ): Promise<{
+    symbols: string[];
+    meanReturns: number[];
+    sampleMeans: number[]; // Before James–Stein and meanReturnShrinkage
+    covMatrix: number[][];
+    estimation: EstimationDiagnostics;
+    window: { from: string; to: string };
+  }> {
+    // Get ALL historical prices for assets (accumulated history like notebook)
+    const assetReturns: Record<string, number[]> = {};
+    const assetReturnDates: Record<string, Date[]> = {};
+    const assetSymbols: string[] = [];
 
-    // Initialize simplex
-    const simplex: { point: number[]; value: number }[] = [];
+    // Use all assets passed in (should include all portfolio positions)
+    // This allows the optimizer to find the best allocation
+    const assetsToConsider = assets;
 
-    // First vertex: equal weights
-    simplex.push({ point: [...bestWeights], value: bestValue });
+    // Returns are measured in the base currency, so FX moves are part of them
+    const baseCurrency: string = config.baseCurrency || "USD";
+    const { quoteCurrencies, table: fxRates } =
+      await this.fxService.getAssetRates(
+        assetsToConsider.map((asset: any) => asset.id),
+        baseCurrency,
+        asOf
+      );
 
-    // Other vertices: perturb each dimension
-    for (let i = 0; i < n; i++) {
-      const point = [...bestWeights];
-      point[i] = Math.min(maxWeight, point[i] + 0.05);
-      // Normalize
-      const sum = point.reduce((a, b) => a + b, 0);
-      for (let j = 0; j < n; j++) point[j] /= sum;
-      simplex.push({ point, value: negSharpe(point) });
-    }
+    for (const asset of assetsToConsider) {
+      const prices = await this.prisma.assetPrice.findMany({
+        where: {
+          assetId: asset.id,
+          ...(asOf ? { date: { lte: asOf } } : {}),
+        },
+        orderBy: { date: "asc" }, // Ascending to get chronological order
+      });
 
-    // Sort simplex
-    simplex.sort((a, b) => a.value - b.value);
+      // Reduced minimum history requirement - try with at least 20 days
+      if (prices.length < 20) continue;
 
-    for (let iter = 0; iter < maxIterations; iter++) {
-      // Check convergence
-      const range = simplex[n].value - simplex[0].value;
-      if (range < tolerance) break;
+      const quoteCurrency = quoteCurrencies[asset.id] ?? baseCurrency;
+      const closes = prices.map(
+        (price: any) =>
+          price.close *
+          (getFxRate(fxRates, quoteCurrency, baseCurrency, price.date) ?? 1)
+      );
 
-      // Centroid of all points except worst
-      const centroid = Array(n).fill(0);
-      for (let i = 0; i < n; i++) {
-        for (let j = 0; j < n; j++) {
-          centroid[j] += simplex[i].point[j] / n;
+      // Calculate log returns (chronological order)
+      const returns: number[] = [];
+      const returnDates: Date[] = [];
+      for (let i = 1; i < prices.length; i++) {
+        if (closes[i - 1] > 0) {
+          returns.push(Math.log(closes[i] / closes[i - 1]));
+          returnDates.push(prices[i].date);
         }
       }
 
-      // Reflection
-      const reflected = centroid.map(
-        (c, j) => c + alpha * (c - simplex[n].point[j])
-      );
-      // Clamp to bounds
-      for (let j = 0; j < n; j++) {
-        reflected[j] = Math.max(0.01, Math.min(0.99, reflected[j]));
+      if (returns.length > 0) {
+        assetReturns[asset.symbol] = returns;
+        assetReturnDates[asset.symbol] = returnDates;
+        assetSymbols.push(asset.symbol);
       }
-      const reflectedValue = negSharpe(reflected);
+    }
 
-      if (reflectedValue < simplex[0].value) {
-        // Expansion
-        const expanded = centroid.map((c, j) => c + gamma * (reflected[j] - c));
-        for (let j = 0; j < n; j++) {
-          expanded[j] = Math.max(0.01, Math.min(0.99, expanded[j]));
-        }
-        const expandedValue = negSharpe(expanded);
+    // Need at least 2 assets with sufficient history for optimization
+    if (assetSymbols.length < 2) {
+      const errorMsg = `Insufficient assets with price history: ${assetSymbols.length} < 2. Assets with data: ${assetSymbols.join(', ')}`;
+      console.error(`[Optimization] ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+    
+    console.log(`[Optimization] Optimizing with ${assetSymbols.length} assets: ${assetSymbols.join(', ')}`);
 
-        if (expandedValue < reflectedValue) {
-          simplex[n] = { point: expanded, value: expandedValue };
-        } else {
-          simplex[n] = { point: reflected, value: reflectedValue };
-        }
-      } else if (reflectedValue < simplex[n - 1].value) {
-        simplex[n] = { point: reflected, value: reflectedValue };
-      } else {
-        // Contraction
-        const contracted = centroid.map(
-          (c, j) => c + rho * (simplex[n].point[j] - c)
-        );
-        const contractedValue = negSharpe(contracted);
+    // Align all return series to same length (use minimum), capped by lookback
+    let minLength = Math.min(
+      ...Object.values(assetReturns).map((r) => r.length)
+    );
+    if (config.estimationLookbackDays > 0) {
+      minLength = Math.min(minLength, config.estimationLookbackDays);
+    }
+    const series = assetSymbols.map((symbol) =>
+      assetReturns[symbol].slice(-minLength)
+    );
 
-        if (contractedValue < simplex[n].value) {
-          simplex[n] = { point: contracted, value: contractedValue };
-        } else {
-          // Shrink
-          for (let i = 1; i <= n; i++) {
-            for (let j = 0; j < n; j++) {
-              simplex[i].point[j] =
-                simplex[0].point[j] +
-                sigma * (simplex[i].point[j] - simplex[0].point[j]);
-            }
-            simplex[i].value = negSharpe(simplex[i].point);
-          }
+    // Observation weights: EWMA (newest = highest) or equal
+    const halfLife = config.ewmaHalfLifeDays || 0;
+    const rawWeights = Array.from({ length: minLength }, (_, k) =>
+      halfLife > 0 ? Math.pow(0.5, (minLength - 1 - k) / halfLife) : 1
+    );
+    const weightSum = rawWeights.reduce((a, b) => a + b, 0);
+    const obsWeights = rawWeights.map((w) => w / weightSum);
+    const sumSquaredWeights = obsWeights.reduce((a, w) => a + w * w, 0);
+    const effectiveObservations = 1 / sumSquaredWeights;
+
+    const rawMeans = series.map((returns) =>
+      returns.reduce((sum, r, k) => sum + obsWeights[k] * r, 0)
+    );
+    const demeaned = series.map((returns, i) =>
+      returns.map((r) => r - rawMeans[i])
+    );
+
+    // Weighted sample covariance (unbiased for reliability weights)
+    const n = assetSymbols.length;
+    let covMatrix: number[][] = [];
+    for (let i = 0; i < n; i++) {
+      covMatrix[i] = [];
+      for (let j = 0; j < n; j++) {
+        let cov = 0;
+        for (let k = 0; k < minLength; k++) {
+          cov += obsWeights[k] * demeaned[i][k] * demeaned[j][k];
         }
+        covMatrix[i][j] = cov / (1 - sumSquaredWeights);
       }
-
-      // Re-sort simplex
-      simplex.sort((a, b) => a.value - b.value);
     }
 
-    // Get best solution
-    bestWeights = simplex[0].point;
-    bestValue = simplex[0].value;
-    
-    console.log(`[Sharpe Optimization] Best value found: ${bestValue.toFixed(6)} (negative Sharpe: ${-bestValue.toFixed(6)})`);
+    let covarianceShrinkage = 0;
+    if (config.covarianceEstimator === "ledoit_wolf") {
+      const shrunk = shrinkCovarianceLedoitWolf(
+        covMatrix,
+        demeaned,
+        obsWeights
+      );
+      covMatrix = shrunk.covMatrix;
+      covarianceShrinkage = shrunk.intensity;
+    }
 
-    // Normalize and clamp to constraints
-    let sum = bestWeights.reduce((a, b) => a + b, 0);
-    if (sum <= 0) {
-      console.warn(`[Sharpe Optimization] Invalid weights sum: ${sum}, using equal weights`);
-      bestWeights = Array(n).fill(1 / n);
-    } else {
-      bestWeights = bestWeights.map((w) => w / sum);
+    let meanShrinkage = 0;
+    let meanReturns = rawMeans;
+    if (config.meanEstimator === "james_stein") {
+      const shrunk = shrinkMeansJamesStein(
+        rawMeans,
+        covMatrix,
+        effectiveObservations
+      );
+      meanReturns = shrunk.means;
+      meanShrinkage = shrunk.intensity;
     }
 
-    // Apply min/max constraints with redistribution
-    let needsAdjustment = true;
-    let iterations = 0;
-    while (needsAdjustment && iterations < 10) {
-      needsAdjustment = false;
-      let excess = 0;
-      // let deficitCount = 0; // Not currently used
-
-      for (let i = 0; i < n; i++) {
-        if (bestWeights[i] > maxWeight) {
-          excess += bestWeights[i] - maxWeight;
-          bestWeights[i] = maxWeight;
-          needsAdjustment = true;
-        } else if (bestWeights[i] < minWeight) {
-          excess -= minWeight - bestWeights[i];
-          bestWeights[i] = minWeight;
-          needsAdjustment = true;
-          // deficitCount++; // Not currently used
-        }
-      }
+    // Apply shrinkage factor from portfolio config (conservatism)
+    meanReturns = meanReturns.map((m) => m * config.meanReturnShrinkage);
 
-      // Redistribute excess
-      if (excess !== 0) {
-        const adjustable = bestWeights.filter(
-          (w) => w > minWeight && w < maxWeight
-        ).length;
-        if (adjustable > 0) {
-          const adjustment = excess / adjustable;
-          for (let i = 0; i < n; i++) {
-            if (bestWeights[i] > minWeight && bestWeights[i] < maxWeight) {
-              bestWeights[i] -= adjustment;
-            }
-          }
-        }
-      }
+    const estimation: EstimationDiagnostics = {
+      observations: minLength,
+      effectiveObservations,
+      covarianceEstimator: config.covarianceEstimator || "sample",
+      covarianceShrinkage,
+      meanEstimator: config.meanEstimator || "sample",
+      meanShrinkage,
+    };
 
-      iterations++;
-    }
+    console.log(`[Optimization] Estimation: ${minLength} days (effective ${effectiveObservations.toFixed(1)}), covariance=${estimation.covarianceEstimator} (δ=${covarianceShrinkage.toFixed(3)}), means=${estimation.meanEstimator} (c=${meanShrinkage.toFixed(3)})`);
 
-    // Final normalization
-    sum = bestWeights.reduce((a, b) => a + b, 0);
-    const finalWeights = bestWeights.map((w) => w / sum);
-    
-    console.log(`[Sharpe Optimization] Final weights:`, finalWeights.map((w, i) => `${symbols[i]}: ${(w * 100).toFixed(2)}%`).join(', '));
-    
-    return finalWeights;
+    // Series are aligned by their tail, so start dates can differ per asset
+    const windowDates = assetSymbols.map((symbol) =>
+      assetReturnDates[symbol].slice(-minLength)
+    );
+    const window = {
+      from: new Date(
+        Math.min(...windowDates.map((dates) => dates[0].getTime()))
+      ).toISOString(),
+      to: new Date(
+        Math.max(
+          ...windowDates.map((dates) => dates[dates.length - 1].getTime())
+        )
+      ).toISOString(),
+    };
+
+    return {
+      symbols: assetSymbols,
+      meanReturns,
+      sampleMeans: rawMeans,
+      covMatrix,
+      estimation,
+      window,
+    };
   }
 
   /**
-   * Calculate leveraged Sharpe ratio
-   * Matches the formula in BacktestHistorical.ipynb:
-   * sharpe = (r_lever - risk_free_rate) / vol_lever
-   * where r_lever = r_annual * leverage, vol_lever = vol_annual * leverage
+   * Weight bounds for the optimized symbols: uniform minWeight/maxWeight,
+   * per-asset bounds and asset type groups (see resolveWeightBounds)
    */
-  private calculateLeveragedSharpe(
-    weights: number[],
-    meanReturns: number[],
-    covMatrix: number[][],
-    leverage: number,
-    yearlyTradingDays: number,
-    riskFreeRate: number
-  ): number {
-    // Portfolio daily return (already shrunk mean returns)
-    let portReturnDaily = 0;
-    for (let i = 0; i < weights.length; i++) {
-      portReturnDaily += weights[i] * meanReturns[i];
-    }
-
-    // Portfolio daily variance: w' * Cov * w
-    let portVarianceDaily = 0;
-    for (let i = 0; i < weights.length; i++) {
-      for (let j = 0; j < weights.length; j++) {
-        portVarianceDaily += weights[i] * weights[j] * covMatrix[i][j];
-      }
-    }
-
-    // Annualize
-    const portReturnAnnual = portReturnDaily * yearlyTradingDays;
-    const portVolAnnual = Math.sqrt(portVarianceDaily * yearlyTradingDays);
+  private getWeightBounds(
+    symbols: string[],
+    assets: any[],
+    config: any
+  ): ResolvedWeightBounds {
+    const assetTypes: Record<string, string> = Object.fromEntries(
+      assets.map((asset: any) => [asset.symbol, asset.assetType])
+    );
+    return resolveWeightBounds(
+      symbols,
+      assetTypes,
+      {
+        minWeight: config.minWeight || 0.05,
+        maxWeight: config.maxWeight || 0.4,
+      },
+      config.assetWeightBounds || {},
+      config.groupWeightBounds || {}
+    );
+  }
 
-    // Apply leverage (THE CORE ASSUMPTION from notebook)
-    const rLeveraged = portReturnAnnual * leverage;
-    const volLeveraged = portVolAnnual * leverage;
+  /**
+   * Leverage and risk-free rate the Sharpe optimizer and diagnostics use
+   */
+  private getSharpeSettings(config: any): SharpeSettings {
+    return {
+      leverage: config.leverageTarget || 2.5,
+      riskFreeRate: config.riskFreeRate || 0.02,
+    };
+  }
 
-    // Sharpe ratio
-    if (volLeveraged <= 0) return 0;
-    return (rLeveraged - riskFreeRate) / volLeveraged;
+  /**
+   * Resolved weight bounds keyed by symbol and asset type
+   */
+  private summarizeWeightBounds(
+    symbols: string[],
+    bounds: ResolvedWeightBounds
+  ): WeightConstraints {
+    return {
+      minWeight: bounds.minWeight,
+      maxWeight: bounds.maxWeight,
+      assetBounds: Object.fromEntries(
+        symbols.map((symbol, i) => [
+          symbol,
+          { min: bounds.lower[i], max: bounds.upper[i] },
+        ])
+      ),
+      groupBounds: bounds.groups.map((group) => ({
+        assetType: group.assetType,
+        symbols: group.members.map((i) => symbols[i]),
+        min: group.min,
+        max: group.max,
+      })),
+      relaxed: bounds.relaxed,
+    };
   }
 
   /**
-   * Calculate pending contribution (undeployed)
-   * NOTE: Contributions are now marked as deployed immediately when registered,
-   * so this should return 0 in normal operation
+   * Marginal and total risk contribution of each asset (annualized)
    */
-  private calculatePendingContribution(contributions: any[]): number {
-    return contributions
-      .filter((c) => !c.deployed)
-      .reduce((sum, c) => sum + c.amount, 0);
+  private calculateAssetRiskContributions(
+    symbols: string[],
+    weights: number[],
+    covMatrix: number[][]
+  ): AssetRiskContribution[] {
+    const covW = multiplyCov(covMatrix, weights);
+    const volatility = Math.sqrt(252 * portfolioVariance(weights, covMatrix));
+    const shares = calculateRiskContributions(weights, covMatrix);
+
+    return symbols.map((symbol, i) => {
+      const marginal = volatility > 0 ? (252 * covW[i]) / volatility : 0;
+      return {
+        symbol,
+        weight: weights[i],
+        marginalContribution: marginal,
+        riskContribution: weights[i] * marginal,
+        percentOfRisk: shares[i],
+      };
+    });
   }
 
   /**
    * Calculate target exposure based on leverage target
    * When rebalancing to increase exposure (leverage low), target leverageTarget
    * When rebalancing to decrease exposure (leverage high), target leverageMax
+   * Low/high come from the strategy engine, same as the dashboard status
    */
-  private calculateTargetExposure(
+  calculateTargetExposure(
     equity: number,
     currentExposure: number,
     pendingContribution: number,
@@ -898,18 +1508,22 @@ export class RebalanceService {
     config: any
   ): number {
     const leverageTarget = config.leverageTarget;
-    const leverageMin = config.leverageMin;
     const leverageMax = config.leverageMax;
-    const currentLeverage = equity > 0 ? currentExposure / equity : 0;
+    const currentLeverage = calculateLeverage(currentExposure, equity);
+    const leverageStatus = getLeverageStatus(
+      currentLeverage,
+      config.leverageMin,
+      leverageMax
+    );
 
     // If leverage is below minimum, target leverageTarget (not just minimum)
-    if (currentLeverage < leverageMin) {
+    if (leverageStatus === "low") {
       // Target exposure at leverageTarget
       return equity * leverageTarget;
     }
 
     // If leverage is above maximum, target leverageMax
-    if (currentLeverage > leverageMax) {
+    if (leverageStatus === "high") {
       return equity * leverageMax;
     }
 
@@ -926,32 +1540,68 @@ export class RebalanceService {
 
   /**
    * Calculate target positions for each asset
+   * Drops trades inside the drift band or below the minimum notional and
+   * rounds the rest down to the asset lot size
+   * @param includeZeroWeights - Keep assets listed in weights with weight 0
    */
   private calculateTargetPositions(
     currentState: any,
     targetExposure: number,
     weights: Record<string, number>,
     assets: any[],
-    latestPrices: Record<string, number>
+    latestPrices: BaseCurrencyPrices,
+    config: any,
+    includeZeroWeights = false
   ): ProposalPosition[] {
     const positions: ProposalPosition[] = [];
     const { positionValues, positionQuantities, exposure } = currentState;
 
     for (const asset of assets) {
       const weight = weights[asset.symbol] || 0;
-      if (weight === 0) continue;
+      if (weight === 0 && !(includeZeroWeights && asset.symbol in weights)) {
+        continue;
+      }
 
-      const price = latestPrices[asset.id] || 0;
+      const price = latestPrices.prices[asset.id] || 0;
       if (price === 0) continue;
 
       const currentValue = positionValues[asset.symbol] || 0;
       const currentQuantity = positionQuantities[asset.symbol] || 0;
       const currentWeight = exposure > 0 ? currentValue / exposure : 0;
 
-      const targetValue = targetExposure * weight;
-      const targetQuantity = targetValue / price;
+      const settings = this.getAssetTradingSettings(asset, config);
+      const idealValue = targetExposure * weight;
+      const idealDelta = idealValue / price - currentQuantity;
+
+      let deltaQuantity = idealDelta;
+      let skipReason: ProposalPosition["skipReason"] = null;
+
+      const drift =
+        targetExposure > 0
+          ? Math.abs(currentValue - idealValue) / targetExposure
+          : 0;
+      if (settings.driftTolerance > 0 && drift <= settings.driftTolerance) {
+        deltaQuantity = 0;
+        skipReason = "drift_band";
+      } else if (settings.lotSize > 0) {
+        // Round towards zero so we never trade more than proposed
+        const lots = Math.floor(Math.abs(idealDelta) / settings.lotSize + 1e-9);
+        deltaQuantity = Math.sign(idealDelta) * lots * settings.lotSize;
+        if (lots === 0 && Math.abs(idealDelta) > 0.0001) {
+          skipReason = "lot_size";
+        }
+      }
 
-      const deltaQuantity = targetQuantity - currentQuantity;
+      if (
+        deltaQuantity !== 0 &&
+        Math.abs(deltaQuantity) * price < settings.minTradeNotional
+      ) {
+        deltaQuantity = 0;
+        skipReason = "min_notional";
+      }
+
+      const targetQuantity = currentQuantity + deltaQuantity;
+      const targetValue = targetQuantity * price;
       const deltaValue = targetValue - currentValue;
 
       let action: "BUY" | "SELL" | "HOLD" = "HOLD";
@@ -961,6 +1611,11 @@ export class RebalanceService {
         action = "SELL";
       }
 
+      const estimatedCost =
+        action === "HOLD"
+          ? 0
+          : estimateTradeCost(Math.abs(deltaValue), settings);
+
       positions.push({
         assetId: asset.id,
         assetSymbol: asset.symbol,
@@ -974,13 +1629,160 @@ export class RebalanceService {
         targetWeight: weight,
         currentWeight,
         currentPrice: price,
+        quoteCurrency: latestPrices.quoteCurrencies[asset.id] ?? "USD",
+        fxRate: latestPrices.fxRates[asset.id] ?? 1,
         action,
+        skipReason,
+        estimatedCost,
       });
     }
 
     return positions;
   }
 
+  /**
+   * Compare the cost of rebalancing with the tracking error it removes,
+   * using the covariance of the traded assets (see evaluateCostBenefit)
+   * @returns null when disabled, nothing is held yet, or there is not
+   * enough price history for a covariance matrix
+   */
+  private async checkCostBenefit(
+    positions: ProposalPosition[],
+    currentState: any,
+    assets: any[],
+    config: any
+  ): Promise<CostBenefitAnalysis | null> {
+    // Skip the price history query when there is nothing to compare
+    if (
+      config.costBenefitMode === "off" ||
+      currentState.exposure <= 0 ||
+      positions.length === 0
+    ) {
+      return null;
+    }
+
+    const tradedAssets = assets.filter((asset: any) =>
+      positions.some((pos) => pos.assetId === asset.id)
+    );
+
+    let symbols: string[];
+    let covMatrix: number[][];
+    try {
+      ({ symbols, covMatrix } = await this.estimateReturnStatistics(
+        tradedAssets,
+        config
+      ));
+    } catch (error) {
+      console.warn(
+        `[Rebalance] Cost/benefit check skipped: ${error instanceof Error ? error.message : error}`
+      );
+      return null;
+    }
+    if (positions.some((pos) => !symbols.includes(pos.assetSymbol))) {
+      return null;
+    }
+
+    // Positions in the order of the covariance matrix
+    const ordered = symbols.flatMap((symbol) =>
+      positions.filter((pos) => pos.assetSymbol === symbol)
+    );
+    return evaluateCostBenefit(
+      ordered.map((pos) => ({
+        currentValue: pos.currentValue,
+        targetValue: pos.targetValue,
+        targetWeight: pos.targetWeight,
+        estimatedCost: pos.estimatedCost,
+        costs: this.getAssetTradingSettings(
+          tradedAssets.find((asset: any) => asset.id === pos.assetId),
+          config
+        ),
+      })),
+      currentState.exposure,
+      covMatrix,
+      config.riskAversion,
+      config.costBenefitMode
+    );
+  }
+
+  /**
+   * Replace the proposed trades with a plain scale of the current holdings
+   * to the target exposure. Trades that change are flagged "cost_benefit".
+   */
+  private keepCurrentComposition(
+    positions: ProposalPosition[],
+    currentState: any,
+    targetExposure: number,
+    assets: any[],
+    latestPrices: BaseCurrencyPrices,
+    config: any
+  ): ProposalPosition[] {
+    const currentWeights = Object.fromEntries(
+      positions.map((pos) => [
+        pos.assetSymbol,
+        currentState.exposure > 0
+          ? pos.currentValue / currentState.exposure
+          : 0,
+      ])
+    );
+    const scaled = this.calculateTargetPositions(
+      currentState,
+      targetExposure,
+      currentWeights,
+      assets,
+      latestPrices,
+      config,
+      true
+    );
+
+    return scaled.map((pos) => {
+      const original = positions.find((p) => p.assetId === pos.assetId);
+      const changed =
+        original &&
+        Math.abs(original.deltaQuantity - pos.deltaQuantity) > 0.0001;
+      return changed && !pos.skipReason
+        ? { ...pos, skipReason: "cost_benefit" as const }
+        : pos;
+    });
+  }
+
+  /**
+   * Resolve trade filters and costs for an asset
+   * Costs come from the asset type entry of transactionCosts (or "default");
+   * the asset's assetTradingSettings entry (keyed by symbol) overrides the
+   * portfolio-wide settings
+   */
+  private getAssetTradingSettings(
+    asset: any,
+    config: any
+  ): AssetTradingSettings {
+    const costs: Partial<TransactionCostSettings> =
+      config.transactionCosts?.[asset.assetType] ??
+      config.transactionCosts?.default ??
+      {};
+    const settings: AssetTradingSettings = {
+      lotSize: 0,
+      minTradeNotional: config.minTradeNotional || 0,
+      driftTolerance: config.driftToleranceBand || 0,
+      commissionRate: costs.commissionRate || 0,
+      commissionFixed: costs.commissionFixed || 0,
+      spreadBps: costs.spreadBps || 0,
+      slippageBps: costs.slippageBps || 0,
+    };
+
+    const overrides: Partial<AssetTradingSettings> =
+      config.assetTradingSettings?.[asset.symbol] ?? {};
+    for (const key of Object.keys(settings) as Array<
+      keyof AssetTradingSettings
+    >) {
+      const value = overrides[key];
+      if (value !== undefined && value >= 0) {
+        settings[key] = value;
+      }
+    }
+
+    return settings;
+  }
+
   /**
    * Calculate equity/borrow breakdown
    * NOTE: When rebalancing to increase exposure, equity doesn't change.
@@ -1017,64 +1819,383 @@ export class RebalanceService {
   }
 
   /**
-   * Accept and save a rebalance proposal
+   * Accept a stored rebalance proposal
+   * Rejects proposals that expired, were already used, or whose inputs
+   * (prices beyond tolerance, held quantities) changed since calculation.
+   * Positions are set to the proposal targets until real fills are recorded;
+   * buys open tax lots at the proposal price and sells relieve them
    * @param portfolioId - Portfolio ID
-   * @param proposal - The accepted proposal
+   * @param proposalId - ID returned by createProposal
    */
   async acceptProposal(
+    portfolioId: string,
+    proposalId: string
+  ): Promise<{ success: boolean; message: string; rebalanceEventId: string }> {
+    const record = await this.prisma.rebalanceProposal.findFirst({
+      where: { id: proposalId, portfolioId },
+    });
+
+    if (!record) {
+      throw new NotFoundException("Proposal not found");
+    }
+
+    if (record.status !== "pending") {
+      throw new BadRequestException(
+        `Proposal is ${record.status} and can no longer be accepted`
+      );
+    }
+
+    if (record.expiresAt.getTime() < Date.now()) {
+      await this.rejectProposal(record.id, "expired", "Proposal expired");
+      throw new BadRequestException(
+        "Proposal expired, please calculate a new one"
+      );
+    }
+
+    const proposal: RebalanceProposal = JSON.parse(record.proposalJson);
+    const inputs: ProposalInputs = JSON.parse(record.inputsJson);
+
+    const staleReason = await this.findStaleReason(
+      portfolioId,
+      proposal,
+      inputs
+    );
+    if (staleReason) {
+      await this.rejectProposal(record.id, "stale", staleReason);
+      throw new BadRequestException(
+        `Proposal is stale: ${staleReason}. Please calculate a new one`
+      );
+    }
+
+    // Claim and apply in one transaction: a failure part-way leaves the
+    // proposal pending and the portfolio untouched, so it can be retried
+    const rebalanceEventId = await this.prisma.runInTransaction(async () => {
+      // Claim the proposal first so concurrent accepts can't apply it twice
+      const claimed = await this.prisma.rebalanceProposal.updateMany({
+        where: { id: record.id, status: "pending" },
+        data: { status: "accepted", acceptedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException("Proposal was already accepted");
+      }
+
+      const eventId = await this.applyProposal(portfolioId, proposal);
+
+      await this.prisma.rebalanceProposal.update({
+        where: { id: record.id },
+        data: { rebalanceEventId: eventId },
+      });
+      return eventId;
+    });
+
+    return {
+      success: true,
+      message: "Rebalance accepted and portfolio updated",
+      rebalanceEventId,
+    };
+  }
+
+  /**
+   * Revert an accepted rebalance
+   * Restores positions from the snapshot stored on each rebalance position,
+   * undoes the tax lots opened/relieved by the event, restores the metrics
+   * row of the rebalance day, drops the event from metadataJson.rebalances
+   * and puts back the contribution tranches it deployed.
+   * The event is kept and marked as reverted.
+   * Only the latest non-reverted event can be reverted, since later events
+   * were calculated from the positions it produced.
+   * @param portfolioId - Portfolio ID
+   * @param rebalanceEventId - Rebalance event ID
+   */
+  async revertRebalance(
+    portfolioId: string,
+    rebalanceEventId: string
+  ): Promise<{ success: boolean; message: string; rebalanceEventId: string }> {
+    const event = await this.prisma.rebalanceEvent.findFirst({
+      where: { id: rebalanceEventId, portfolioId },
+      include: { positions: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException("Rebalance event not found");
+    }
+
+    if (event.revertedAt) {
+      throw new BadRequestException("Rebalance was already reverted");
+    }
+
+    const latest = await this.prisma.rebalanceEvent.findFirst({
+      where: { portfolioId, revertedAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+    if (latest && latest.id !== event.id) {
+      throw new BadRequestException("Only the last rebalance can be reverted");
+    }
+
+    if (
+      !event.previousMetricsJson ||
+      event.positions.some((pos: any) => pos.previousQuantity === null)
+    ) {
+      throw new BadRequestException(
+        "Rebalance was accepted before reverting was supported and has no snapshot"
+      );
+    }
+
+    const previousMetrics = JSON.parse(event.previousMetricsJson);
+
+    // Revert in one transaction: a failure part-way leaves the event as it
+    // was, so a retry does not reverse lots and trades a second time
+    await this.prisma.runInTransaction(async () => {
+      // Claim the event first so concurrent reverts can't run twice
+      const claimed = await this.prisma.rebalanceEvent.updateMany({
+        where: { id: event.id, revertedAt: null },
+        data: { revertedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException("Rebalance was already reverted");
+      }
+
+      // Undo the lots opened/relieved by the event, then restore positions
+      await this.taxLotsService.reverseSource(
+        event.positions.map((pos: any) => pos.id)
+      );
+
+      // Reverse the event's trades; events accepted before the ledger have
+      // none, so positions are then traded back to their snapshot
+      await this.tradesService.reverseSource(
+        portfolioId,
+        event.positions.map((pos: any) => pos.id)
+      );
+      const markPrices = new Map<string, number>();
+      for (const pos of event.positions) {
+        const previousQuantity = pos.previousQuantity ?? 0;
+        const avgPrice = pos.previousAvgPrice ?? pos.proposedPrice ?? 0;
+        markPrices.set(pos.assetId, pos.proposedPrice ?? avgPrice);
+        await this.tradesService.tradeToTarget(
+          portfolioId,
+          pos.assetId,
+          {
+            quantity: previousQuantity,
+            avgPrice: previousQuantity > 1e-12 ? avgPrice : undefined,
+          },
+          pos.proposedPrice ?? avgPrice,
+          { source: "rebalance", note: "Rebalance reverted" }
+        );
+      }
+      await this.tradesService.syncPositions(
+        portfolioId,
+        event.positions.map((pos: any) => pos.assetId),
+        {
+          markPrices,
+          removeClosed: true,
+          snapshot: { source: "rebalance", sourceId: event.id },
+        }
+      );
+
+      await this.restoreMetricsSnapshot(portfolioId, event.id, previousMetrics);
+      await this.undeployTranches(event.id);
+    });
+
+    console.log(
+      `[Rebalance] Reverted rebalance ${event.id} for portfolio ${portfolioId}`
+    );
+
+    return {
+      success: true,
+      message: "Rebalance reverted and positions restored",
+      rebalanceEventId: event.id,
+    };
+  }
+
+  /**
+   * Check whether the inputs of a stored proposal still hold
+   * @returns Reason the proposal is stale, or null if it can be applied
+   */
+  private async findStaleReason(
+    portfolioId: string,
+    proposal: RebalanceProposal,
+    inputs: ProposalInputs
+  ): Promise<string | null> {
+    // Prices are compared in the base currency, so FX moves count too
+    const baseCurrency = inputs.configuration.baseCurrency;
+    const latestPrices = await this.getLatestPrices(
+      proposal.positions.map((pos) => pos.assetId),
+      baseCurrency
+    );
+
+    // Positions valued 1:1 would trade at the wrong size
+    const missingCurrencies = Array.from(
+      new Set([
+        ...(proposal.fxMissingCurrencies ?? []),
+        ...latestPrices.missingCurrencies,
+      ])
+    ).sort();
+    if (missingCurrencies.length > 0) {
+      return `no ${missingCurrencies.join(", ")} to ${baseCurrency} exchange rate`;
+    }
+
+    for (const pos of proposal.positions) {
+      const proposedPrice = inputs.prices[pos.assetId];
+      const latestPrice = latestPrices.prices[pos.assetId];
+      if (!proposedPrice || !latestPrice) continue;
+
+      const priceMove = Math.abs(latestPrice / proposedPrice - 1);
+      if (priceMove > PROPOSAL_PRICE_TOLERANCE) {
+        return `${pos.assetSymbol} price moved ${(priceMove * 100).toFixed(2)}% (tolerance ${(PROPOSAL_PRICE_TOLERANCE * 100).toFixed(0)}%)`;
+      }
+    }
+
+    const positions = await this.prisma.portfolioPosition.findMany({
+      where: { portfolioId },
+    });
+    const currentQuantities: Record<string, number> = Object.fromEntries(
+      positions.map((pos: any) => [pos.assetId, pos.quantity])
+    );
+    const assetIds = new Set([
+      ...Object.keys(currentQuantities),
+      ...Object.keys(inputs.quantities),
+    ]);
+    for (const assetId of assetIds) {
+      const before = inputs.quantities[assetId] || 0;
+      const now = currentQuantities[assetId] || 0;
+      if (Math.abs(now - before) > 1e-9) {
+        return "positions changed since the proposal was calculated";
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Mark a stored proposal as no longer acceptable
+   */
+  private async rejectProposal(
+    proposalId: string,
+    status: "expired" | "stale",
+    reason: string
+  ): Promise<void> {
+    await this.prisma.rebalanceProposal.update({
+      where: { id: proposalId },
+      data: { status, rejectionReason: reason },
+    });
+  }
+
+  /**
+   * Apply a validated rebalance proposal to the portfolio
+   * @param portfolioId - Portfolio ID
+   * @param proposal - The stored proposal being accepted
+   * @returns ID of the created rebalance event
+   */
+  private async applyProposal(
     portfolioId: string,
     proposal: RebalanceProposal
-  ): Promise<{ success: boolean; message: string }> {
-    // Create rebalance event
+  ): Promise<string> {
+    // Get today's date in UTC to avoid timezone issues
+    const now = new Date();
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    // Get existing metric to preserve metadata arrays
+    const existingMetric = await this.prisma.metricsTimeseries.findFirst({
+      where: {
+        portfolioId,
+        date: today,
+      },
+    });
+
+    // Create rebalance event (with metrics snapshot so it can be reverted)
     const rebalanceEvent = await this.prisma.rebalanceEvent.create({
       data: {
         portfolioId,
         triggeredBy: "user",
         targetLeverage: proposal.targetLeverage,
+        previousMetricsJson: JSON.stringify(
+          this.buildMetricsSnapshot(today, existingMetric, proposal)
+        ),
       },
     });
 
+    const trancheAmount = await this.deployDueTranches(
+      rebalanceEvent.id,
+      proposal.stagedDeployment
+    );
+
     // Save rebalance positions and update portfolio positions
+    const markPrices = new Map<string, number>();
     for (const pos of proposal.positions) {
-      // Save rebalance position record
-      await this.prisma.rebalancePosition.create({
+      // Trades, lots and fills are in the asset's quote currency
+      const quotePrice = pos.currentPrice / (pos.fxRate || 1);
+      const previousPosition = await this.prisma.portfolioPosition.findUnique({
+        where: {
+          portfolioId_assetId: {
+            portfolioId,
+            assetId: pos.assetId,
+          },
+        },
+      });
+
+      // Save rebalance position record (with snapshot for execution entry)
+      const rebalancePosition = await this.prisma.rebalancePosition.create({
         data: {
           rebalanceEventId: rebalanceEvent.id,
           assetId: pos.assetId,
           targetWeight: pos.targetWeight,
           targetUsd: pos.targetValue,
           deltaQuantity: pos.deltaQuantity,
+          proposedPrice: quotePrice,
+          fxRate: pos.fxRate || 1,
+          previousQuantity: previousPosition?.quantity ?? 0,
+          previousAvgPrice: previousPosition?.avgPrice ?? null,
         },
       });
 
-      // Update portfolio position
-      await this.prisma.portfolioPosition.upsert({
-        where: {
-          portfolioId_assetId: {
-            portfolioId,
-            assetId: pos.assetId,
-          },
-        },
-        create: {
+      // Open/relieve tax lots
+      if (previousPosition) {
+        await this.taxLotsService.ensureOpeningLot(
           portfolioId,
-          assetId: pos.assetId,
-          quantity: pos.targetQuantity,
-          avgPrice: pos.currentPrice,
-          exposureUsd: pos.targetValue,
-        },
-        update: {
-          quantity: pos.targetQuantity,
-          avgPrice: pos.currentPrice,
-          exposureUsd: pos.targetValue,
-        },
-      });
+          pos.assetId,
+          previousPosition.quantity,
+          previousPosition.avgPrice,
+          previousPosition.updatedAt
+        );
+      }
+      await this.taxLotsService.syncPosition(
+        portfolioId,
+        pos.assetId,
+        pos.targetQuantity,
+        quotePrice,
+        {
+          source:
+            pos.deltaQuantity > 0 && trancheAmount > 0
+              ? "contribution"
+              : "rebalance",
+          sourceId: rebalancePosition.id,
+        }
+      );
+
+      // Book the trade at the proposal price (fills replace it later)
+      await this.tradesService.tradeToTarget(
+        portfolioId,
+        pos.assetId,
+        { quantity: pos.targetQuantity },
+        quotePrice,
+        { source: "rebalance", sourceId: rebalancePosition.id }
+      );
+      markPrices.set(pos.assetId, quotePrice);
     }
 
+    // Update portfolio positions from the ledger
+    await this.tradesService.syncPositions(
+      portfolioId,
+      proposal.positions.map((pos) => pos.assetId),
+      {
+        markPrices,
+        snapshot: { source: "rebalance", sourceId: rebalanceEvent.id },
+      }
+    );
+
     // Save metrics snapshot with metadata for dashboard tracing
-    const pnl =
-      proposal.summary.newEquity -
-      proposal.currentEquity -
-      proposal.pendingContribution;
+    // Contributions are already in currentEquity when they are registered
+    const pnl = proposal.summary.newEquity - proposal.currentEquity;
     const pnlPercent =
       proposal.currentEquity > 0 ? (pnl / proposal.currentEquity) * 100 : 0;
     const composition = proposal.positions.map((pos) => ({
@@ -1086,18 +2207,6 @@ export class RebalanceService {
       action: pos.action,
     }));
 
-    // Get today's date in UTC to avoid timezone issues
-    const now = new Date();
-    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
-    
-    // Get existing metric to preserve metadata arrays
-    const existingMetric = await this.prisma.metricsTimeseries.findFirst({
-      where: {
-        portfolioId,
-        date: today,
-      },
-    });
-
     // Build metadata: add rebalance to rebalances array, preserve other arrays
     let metadata: any = {
       source: "rebalance",
@@ -1133,15 +2242,17 @@ export class RebalanceService {
 
     // Add new rebalance to the array
     metadata.rebalances.push({
+      rebalanceEventId: rebalanceEvent.id,
       pnl,
       pnlPercent,
-      contribution: proposal.pendingContribution,
+      contribution: trancheAmount,
       deployFraction: proposal.deployFraction,
       drawdown: proposal.drawdown,
       weightDeviation: proposal.weightDeviation,
       realizedVolatility: proposal.realizedVolatility,
       weightsUsed: proposal.weightsUsed,
       dynamicWeights: proposal.dynamicWeightsComputed,
+      optimizationMethod: proposal.optimizationMethod,
       composition,
       rebalancedAt: new Date().toISOString(),
     });
@@ -1178,33 +2289,212 @@ export class RebalanceService {
       },
     });
 
+    return rebalanceEvent.id;
+  }
+
+  /**
+   * Mark the due tranches of a proposal as deployed by a rebalance event
+   * A tranche is skipped if another rebalance deployed it in the meantime
+   * @returns Amount deployed
+   */
+  private async deployDueTranches(
+    rebalanceEventId: string,
+    stagedDeployment: StagedDeploymentStatus | null | undefined
+  ): Promise<number> {
+    let deployedAmount = 0;
+    const now = new Date();
+
+    for (const tranche of stagedDeployment?.dueTranches || []) {
+      const updated = await this.prisma.monthlyContribution.updateMany({
+        where: {
+          id: tranche.contributionId,
+          tranchesDeployed: tranche.trancheNumber - 1,
+        },
+        data: {
+          tranchesDeployed: { increment: 1 },
+          deployedAmount: { increment: tranche.amount },
+          deploymentReason: tranche.reason,
+          lastDeployedAt: now,
+          deployed: tranche.trancheNumber >= tranche.trancheCount,
+        },
+      });
+      if (updated.count === 0) continue;
+
+      await this.prisma.contributionTranche.create({
+        data: {
+          contributionId: tranche.contributionId,
+          rebalanceEventId,
+          trancheNumber: tranche.trancheNumber,
+          amount: tranche.amount,
+          reason: tranche.reason || "scheduled",
+          deployedAt: now,
+        },
+      });
+      deployedAmount += tranche.amount;
+    }
+
+    return deployedAmount;
+  }
+
+  /**
+   * Undo the tranches deployed by a reverted rebalance event
+   * The contribution goes back to its previous tranche, reason and date
+   */
+  private async undeployTranches(rebalanceEventId: string): Promise<void> {
+    const tranches = await this.prisma.contributionTranche.findMany({
+      where: { rebalanceEventId },
+    });
+    if (tranches.length === 0) return;
+
+    await this.prisma.contributionTranche.deleteMany({
+      where: { rebalanceEventId },
+    });
+
+    const contributionIds = new Set(tranches.map((t: any) => t.contributionId));
+    for (const contributionId of contributionIds) {
+      const undone = tranches.filter(
+        (t: any) => t.contributionId === contributionId
+      );
+      const previous = await this.prisma.contributionTranche.findFirst({
+        where: { contributionId },
+        orderBy: { trancheNumber: "desc" },
+      });
+      await this.prisma.monthlyContribution.update({
+        where: { id: contributionId },
+        data: {
+          tranchesDeployed: { decrement: undone.length },
+          deployedAmount: {
+            decrement: undone.reduce(
+              (sum: number, t: any) => sum + t.amount,
+              0
+            ),
+          },
+          deploymentReason: previous?.reason ?? null,
+          lastDeployedAt: previous?.deployedAt ?? null,
+          deployed: false,
+        },
+      });
+    }
+  }
+
+  /**
+   * Snapshot of the rebalance day metrics before applying a proposal
+   */
+  private buildMetricsSnapshot(
+    date: Date,
+    existingMetric: any,
+    proposal: RebalanceProposal
+  ): MetricsSnapshot {
+    if (existingMetric) {
+      return {
+        date: date.toISOString(),
+        existed: true,
+        equity: existingMetric.equity,
+        exposure: existingMetric.exposure,
+        leverage: existingMetric.leverage,
+        drawdown: existingMetric.drawdown,
+        marginRatio: existingMetric.marginRatio,
+      };
+    }
+
     return {
-      success: true,
-      message: "Rebalance accepted and portfolio updated",
+      date: date.toISOString(),
+      existed: false,
+      equity: proposal.currentEquity,
+      exposure: proposal.currentExposure,
+      leverage: proposal.currentLeverage,
+      drawdown: proposal.drawdown,
+      marginRatio:
+        proposal.currentExposure > 0
+          ? proposal.currentEquity / proposal.currentExposure
+          : 1,
     };
   }
 
   /**
-   * Get latest prices for assets
+   * Put back the metrics row of a reverted rebalance and drop the event
+   * from metadataJson.rebalances. A row created by the rebalance is deleted
+   * unless other events were recorded on it afterwards.
+   */
+  private async restoreMetricsSnapshot(
+    portfolioId: string,
+    rebalanceEventId: string,
+    snapshot: MetricsSnapshot
+  ): Promise<void> {
+    const where = {
+      portfolioId_date: {
+        portfolioId,
+        date: new Date(snapshot.date),
+      },
+    };
+    const metric = await this.prisma.metricsTimeseries.findUnique({ where });
+    if (!metric) {
+      return;
+    }
+
+    let metadata: any = {};
+    if (metric.metadataJson) {
+      try {
+        metadata = JSON.parse(metric.metadataJson);
+      } catch {
+        metadata = {};
+      }
+    }
+
+    if (Array.isArray(metadata.rebalances)) {
+      metadata.rebalances = metadata.rebalances.filter(
+        (entry: any) => entry.rebalanceEventId !== rebalanceEventId
+      );
+    }
+
+    const remainingEntries =
+      (metadata.contributions?.length || 0) +
+      (metadata.rebalances?.length || 0) +
+      (metadata.manualUpdates?.length || 0);
+
+    if (!snapshot.existed && remainingEntries === 0) {
+      await this.prisma.metricsTimeseries.delete({ where });
+      return;
+    }
+
+    await this.prisma.metricsTimeseries.update({
+      where,
+      data: {
+        equity: snapshot.equity,
+        exposure: snapshot.exposure,
+        leverage: snapshot.leverage,
+        drawdown: snapshot.drawdown,
+        marginRatio: snapshot.marginRatio,
+        metadataJson: JSON.stringify({
+          ...metadata,
+          updatedAt: new Date().toISOString(),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Get latest prices for assets in the portfolio's base currency
    * @param assetIds - Array of asset IDs
-   * @returns Map of assetId to latest price
+   * @param baseCurrency - Portfolio base currency
+   * @returns Map of assetId to latest price, with the rate used for each
    */
   private async getLatestPrices(
-    assetIds: string[]
-  ): Promise<Record<string, number>> {
+    assetIds: string[],
+    baseCurrency: string
+  ): Promise<BaseCurrencyPrices> {
+    const valuation = await this.fxService.getValuation(assetIds, baseCurrency);
     const prices: Record<string, number> = {};
 
-    for (const assetId of assetIds) {
-      const latestPrice = await this.prisma.assetPrice.findFirst({
-        where: { assetId },
-        orderBy: { date: "desc" },
-      });
-
-      if (latestPrice) {
-        prices[assetId] = latestPrice.close;
-      }
+    for (const [assetId, close] of Object.entries(valuation.prices)) {
+      prices[assetId] = close * (valuation.fxRates[assetId] ?? 1);
     }
 
-    return prices;
+    return {
+      prices,
+      fxRates: valuation.fxRates,
+      quoteCurrencies: valuation.quoteCurrencies,
+      missingCurrencies: valuation.missingCurrencies,
+    };
   }
 }
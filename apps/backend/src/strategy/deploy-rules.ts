@@ -0,0 +1,283 @@
+/**
+ * Deploy rules
+ * User-defined JSON rule tree deciding how much to deploy, e.g.
+ * { name: "Deep dip", when: { all: [
+ *   { metric: "drawdown", op: "<=", value: -0.15 },
+ *   { metric: "volatility", op: "<", value: 0.25 } ] }, deployFraction: 1 }
+ * Rules are checked in order and the first match wins. Like the strategy
+ * engine, this file must stay free of Nest and Prisma imports.
+ */
+
+/**
+ * Metrics a rule can reference (all computed by the strategy engine)
+ */
+export const DEPLOY_RULE_METRICS = [
+  "drawdown", // Negative fraction from peak equity
+  "weightDeviation", // Largest |current - target| weight
+  "volatility", // Annualized equity volatility (null without history)
+  "trend", // Equity change over the volatility lookback (null without history)
+  "leverage",
+  "marginRatio",
+  "equity",
+  "exposure",
+  "pendingContributions",
+  "monthNumber",
+] as const;
+
+export type DeployRuleMetric = (typeof DEPLOY_RULE_METRICS)[number];
+
+export const DEPLOY_RULE_OPERATORS = [
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "==",
+  "!=",
+] as const;
+
+export type DeployRuleOperator = (typeof DEPLOY_RULE_OPERATORS)[number];
+
+export type DeployRuleCondition =
+  | { metric: DeployRuleMetric; op: DeployRuleOperator; value: number }
+  | { all: DeployRuleCondition[] }
+  | { any: DeployRuleCondition[] }
+  | { not: DeployRuleCondition };
+
+export interface DeployRule {
+  name: string;
+  when: DeployRuleCondition;
+  deployFraction: number; // 0-1
+}
+
+/**
+ * Rule that decided the deploy fraction
+ * source "default" = built-in drawdown / weight deviation / volatility rules
+ */
+export interface MatchedDeployRule {
+  index: number;
+  name: string;
+  source: "default" | "custom";
+  deployFraction: number;
+}
+
+export type DeployRuleMetrics = Record<DeployRuleMetric, number | null>;
+
+const MAX_RULES = 20;
+const MAX_CONDITION_DEPTH = 5;
+
+/**
+ * Built-in rules equivalent to the three threshold signals
+ * Used when the portfolio has no custom rules
+ */
+export function buildDefaultDeployRules(config: {
+  drawdownRedeployThreshold: number;
+  weightDeviationThreshold: number;
+  volatilityRedeployThreshold: number;
+  gradualDeployFactor: number;
+}): DeployRule[] {
+  const deployFraction = Math.min(1, config.gradualDeployFactor);
+  return [
+    {
+      name: "drawdown",
+      when: {
+        metric: "drawdown",
+        op: "<=",
+        value: -config.drawdownRedeployThreshold,
+      },
+      deployFraction,
+    },
+    {
+      name: "weight_deviation",
+      when: {
+        metric: "weightDeviation",
+        op: ">=",
+        value: config.weightDeviationThreshold,
+      },
+      deployFraction,
+    },
+    {
+      name: "volatility",
+      when: {
+        metric: "volatility",
+        op: "<=",
+        value: config.volatilityRedeployThreshold,
+      },
+      deployFraction,
+    },
+  ];
+}
+
+/**
+ * Validate a rule list, returning one message per problem (empty = valid)
+ */
+export function getDeployRuleErrors(rules: unknown): string[] {
+  if (!Array.isArray(rules)) {
+    return ["deployRules must be an array"];
+  }
+  if (rules.length > MAX_RULES) {
+    return [`deployRules cannot have more than ${MAX_RULES} rules`];
+  }
+
+  const errors: string[] = [];
+  rules.forEach((rule: any, index) => {
+    const label = `deployRules[${index}]`;
+    if (!rule || typeof rule !== "object") {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof rule.name !== "string" || rule.name.trim() === "") {
+      errors.push(`${label}.name must be a non-empty string`);
+    }
+    if (
+      typeof rule.deployFraction !== "number" ||
+      !isFinite(rule.deployFraction) ||
+      rule.deployFraction < 0 ||
+      rule.deployFraction > 1
+    ) {
+      errors.push(`${label}.deployFraction must be a number between 0 and 1`);
+    }
+    validateCondition(rule.when, `${label}.when`, 1, errors);
+  });
+
+  return errors;
+}
+
+/**
+ * Parse stored rules; null when unset, empty or no longer valid
+ */
+export function parseDeployRules(
+  json: string | null | undefined
+): DeployRule[] | null {
+  if (!json) return null;
+
+  let rules: unknown;
+  try {
+    rules = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(rules) || rules.length === 0) return null;
+  return getDeployRuleErrors(rules).length === 0
+    ? (rules as DeployRule[])
+    : null;
+}
+
+/**
+ * Find the first rule whose condition holds for the given metrics
+ */
+export function evaluateDeployRules(
+  rules: DeployRule[],
+  metrics: DeployRuleMetrics,
+  source: MatchedDeployRule["source"]
+): MatchedDeployRule | null {
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    if (evaluateCondition(rule.when, metrics)) {
+      return {
+        index,
+        name: rule.name,
+        source,
+        deployFraction: rule.deployFraction,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate a condition tree
+ * Comparisons against a missing (null) metric are false
+ */
+function evaluateCondition(
+  condition: DeployRuleCondition,
+  metrics: DeployRuleMetrics
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluateCondition(c, metrics));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluateCondition(c, metrics));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, metrics);
+  }
+
+  const actual = metrics[condition.metric];
+  if (actual === null || actual === undefined) return false;
+
+  switch (condition.op) {
+    case "<":
+      return actual < condition.value;
+    case "<=":
+      return actual <= condition.value;
+    case ">":
+      return actual > condition.value;
+    case ">=":
+      return actual >= condition.value;
+    case "==":
+      return actual === condition.value;
+    case "!=":
+      return actual !== condition.value;
+  }
+}
+
+/**
+ * Collect errors for a condition tree into errors
+ */
+function validateCondition(
+  condition: any,
+  path: string,
+  depth: number,
+  errors: string[]
+): void {
+  if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (depth > MAX_CONDITION_DEPTH) {
+    errors.push(`${path} is nested more than ${MAX_CONDITION_DEPTH} levels`);
+    return;
+  }
+
+  const keys = Object.keys(condition);
+  for (const group of ["all", "any"] as const) {
+    if (group in condition) {
+      if (keys.length !== 1) {
+        errors.push(`${path} must only contain "${group}"`);
+      } else if (
+        !Array.isArray(condition[group]) ||
+        condition[group].length === 0
+      ) {
+        errors.push(`${path}.${group} must be a non-empty array`);
+      } else {
+        condition[group].forEach((child: any, i: number) =>
+          validateCondition(child, `${path}.${group}[${i}]`, depth + 1, errors)
+        );
+      }
+      return;
+    }
+  }
+  if ("not" in condition) {
+    if (keys.length !== 1) {
+      errors.push(`${path} must only contain "not"`);
+    } else {
+      validateCondition(condition.not, `${path}.not`, depth + 1, errors);
+    }
+    return;
+  }
+
+  if (!DEPLOY_RULE_METRICS.includes(condition.metric)) {
+    errors.push(
+      `${path}.metric must be one of: ${DEPLOY_RULE_METRICS.join(", ")}`
+    );
+  }
+  if (!DEPLOY_RULE_OPERATORS.includes(condition.op)) {
+    errors.push(
+      `${path}.op must be one of: ${DEPLOY_RULE_OPERATORS.join(" ")}`
+    );
+  }
+  if (typeof condition.value !== "number" || !isFinite(condition.value)) {
+    errors.push(`${path}.value must be a finite number`);
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Portfolio optimizers
+ * Sharpe, minimum variance, risk parity and maximum diversification
+ * weights on the bounded simplex { Σw = 1, per-asset and asset type
+ * bounds }, plus the efficient frontier and which bounds bind. Inputs are
+ * daily mean log returns and the daily covariance matrix, in symbol order.
+ * Like the strategy engine, this file must stay free of Nest and Prisma
+ * imports.
+ */
+
+import {
+  ResolvedWeightBounds,
+  getMaxReturnWeights,
+  projectOntoWeightBounds,
+} from "./weight-constraints";
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Raw optimizer output (weights in the order of the input symbols)
+ */
+export interface OptimizerResult {
+  weights: number[];
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Leverage and risk-free rate the Sharpe ratio is measured at
+ */
+export interface SharpeSettings {
+  leverage: number;
+  riskFreeRate: number; // Annual
+}
+
+/**
+ * An asset sitting on its min or max weight
+ */
+export interface BindingBound {
+  symbol: string;
+  bound: "min" | "max";
+  weight: number;
+}
+
+/**
+ * An asset type group sitting on its min or max total weight
+ */
+export interface BindingGroup {
+  assetType: string;
+  bound: "min" | "max";
+  weight: number; // Total weight of the group
+}
+
+export function portfolioVariance(
+  weights: number[],
+  covMatrix: number[][]
+): number {
+  const covW = multiplyCov(covMatrix, weights);
+  return weights.reduce((sum, w, i) => sum + w * covW[i], 0);
+}
+
+export function multiplyCov(
+  covMatrix: number[][],
+  weights: number[]
+): number[] {
+  return covMatrix.map((row) =>
+    row.reduce((sum, cov, j) => sum + cov * weights[j], 0)
+  );
+}
+
+/**
+ * Fraction of portfolio variance contributed by each asset
+ */
+export function calculateRiskContributions(
+  weights: number[],
+  covMatrix: number[][]
+): number[] {
+  const covW = multiplyCov(covMatrix, weights);
+  const variance = portfolioVariance(weights, covMatrix);
+  return weights.map((w, i) => (variance > 0 ? (w * covW[i]) / variance : 0));
+}
+
+/**
+ * Calculate leveraged Sharpe ratio
+ * Matches the formula in BacktestHistorical.ipynb:
+ * sharpe = (r_lever - risk_free_rate) / vol_lever
+ * where r_lever = r_annual * leverage, vol_lever = vol_annual * leverage
+ */
+export function calculateLeveragedSharpe(
+  weights: number[],
+  meanReturns: number[],
+  covMatrix: number[][],
+  { leverage, riskFreeRate }: SharpeSettings
+): number {
+  // Portfolio daily return (already shrunk mean returns)
+  const portReturnDaily = weights.reduce(
+    (sum, w, i) => sum + w * meanReturns[i],
+    0
+  );
+  const portVarianceDaily = portfolioVariance(weights, covMatrix);
+
+  // Annualize, then apply leverage (THE CORE ASSUMPTION from notebook)
+  const rLeveraged = portReturnDaily * TRADING_DAYS_PER_YEAR * leverage;
+  const volLeveraged =
+    Math.sqrt(portVarianceDaily * TRADING_DAYS_PER_YEAR) * leverage;
+
+  if (volLeveraged <= 0) return 0;
+  return (rLeveraged - riskFreeRate) / volLeveraged;
+}
+
+/**
+ * Projected gradient descent on { Σw = 1, lower ≤ w ≤ upper, group bounds }
+ * Starts from equal weights; backtracking keeps the step size safe
+ */
+export function minimizeOnBoundedSimplex(
+  objective: (w: number[]) => number,
+  gradient: (w: number[]) => number[],
+  n: number,
+  bounds: ResolvedWeightBounds
+): OptimizerResult {
+  const maxIterations = 1000;
+  const tolerance = 1e-10;
+
+  let weights = projectOntoWeightBounds(Array(n).fill(1 / n), bounds);
+  let value = objective(weights);
+  let step = 1;
+
+  for (let iter = 1; iter <= maxIterations; iter++) {
+    const grad = gradient(weights);
+
+    // Backtracking: accept when the quadratic upper bound holds
+    let candidate = weights;
+    let candidateValue = value;
+    let moved = 0;
+    while (step > 1e-12) {
+      candidate = projectOntoWeightBounds(
+        weights.map((w, i) => w - step * grad[i]),
+        bounds
+      );
+      candidateValue = objective(candidate);
+
+      let linear = 0;
+      moved = 0;
+      for (let i = 0; i < n; i++) {
+        const d = candidate[i] - weights[i];
+        linear += grad[i] * d;
+        moved += d * d;
+      }
+      if (candidateValue <= value + linear + moved / (2 * step)) break;
+      step /= 2;
+    }
+
+    if (Math.sqrt(moved) < tolerance) {
+      return { weights: candidate, iterations: iter, converged: true };
+    }
+
+    weights = candidate;
+    value = candidateValue;
+    step *= 2;
+  }
+
+  return { weights, iterations: maxIterations, converged: false };
+}
+
+/**
+ * Maximize the leveraged Sharpe ratio on the bounded simplex
+ * Deterministic projected gradient ascent from equal weights, so the
+ * weight bounds hold exactly (no penalty or clamp loop)
+ */
+export function optimizeSharpe(
+  meanReturns: number[],
+  covMatrix: number[][],
+  bounds: ResolvedWeightBounds,
+  settings: SharpeSettings
+): OptimizerResult {
+  const { leverage, riskFreeRate } = settings;
+  const days = TRADING_DAYS_PER_YEAR;
+
+  // sharpe = (L·252·μ'w − rf) / (L·√(252·w'Σw))
+  return minimizeOnBoundedSimplex(
+    (w) => -calculateLeveragedSharpe(w, meanReturns, covMatrix, settings),
+    (w) => {
+      const covW = multiplyCov(covMatrix, w);
+      const variance = portfolioVariance(w, covMatrix);
+      const excess =
+        leverage * days * w.reduce((sum, x, i) => sum + x * meanReturns[i], 0) -
+        riskFreeRate;
+      const vol = leverage * Math.sqrt(days * variance);
+      return meanReturns.map((mean, i) => {
+        const dExcess = leverage * days * mean;
+        const dVol = (leverage * days * covW[i]) / Math.sqrt(days * variance);
+        return -(dExcess * vol - excess * dVol) / (vol * vol);
+      });
+    },
+    meanReturns.length,
+    bounds
+  );
+}
+
+/**
+ * Minimum variance weights: min w'Σw on the bounded simplex
+ */
+export function optimizeMinVariance(
+  covMatrix: number[][],
+  bounds: ResolvedWeightBounds
+): OptimizerResult {
+  return minimizeOnBoundedSimplex(
+    (w) => portfolioVariance(w, covMatrix),
+    (w) => multiplyCov(covMatrix, w).map((v) => 2 * v),
+    covMatrix.length,
+    bounds
+  );
+}
+
+/**
+ * Equal risk contribution (risk parity) weights
+ * Cyclical coordinate descent on the convex formulation
+ * min ½·y'Σy − Σ(1/n)·log(yᵢ), then w = y / Σy.
+ * Weight bounds are applied afterwards, so binding bounds make risk
+ * contributions only approximately equal
+ */
+export function optimizeRiskParity(
+  covMatrix: number[][],
+  bounds: ResolvedWeightBounds
+): OptimizerResult {
+  const n = covMatrix.length;
+  const budget = 1 / n;
+  const maxSweeps = 500;
+  const y = covMatrix.map((row, i) => 1 / Math.sqrt(row[i]));
+
+  let iterations = maxSweeps;
+  let converged = false;
+  for (let sweep = 1; sweep <= maxSweeps; sweep++) {
+    let maxChange = 0;
+    for (let i = 0; i < n; i++) {
+      let c = 0;
+      for (let j = 0; j < n; j++) {
+        if (j !== i) c += covMatrix[i][j] * y[j];
+      }
+      const a = covMatrix[i][i];
+      const next = (-c + Math.sqrt(c * c + 4 * a * budget)) / (2 * a);
+      maxChange = Math.max(maxChange, Math.abs(next - y[i]) / y[i]);
+      y[i] = next;
+    }
+    if (maxChange < 1e-10) {
+      iterations = sweep;
+      converged = true;
+      break;
+    }
+  }
+
+  const sum = y.reduce((a, b) => a + b, 0);
+  return {
+    weights: projectOntoWeightBounds(
+      y.map((v) => v / sum),
+      bounds
+    ),
+    iterations,
+    converged,
+  };
+}
+
+/**
+ * Maximum diversification weights
+ * Maximizes the diversification ratio w'σ / √(w'Σw) on the bounded simplex
+ */
+export function optimizeMaxDiversification(
+  covMatrix: number[][],
+  bounds: ResolvedWeightBounds
+): OptimizerResult {
+  const vols = covMatrix.map((row, i) => Math.sqrt(row[i]));
+
+  // Minimize −log(w'σ) + ½·log(w'Σw)
+  return minimizeOnBoundedSimplex(
+    (w) =>
+      -Math.log(weightedVolatility(w, vols)) +
+      0.5 * Math.log(portfolioVariance(w, covMatrix)),
+    (w) => {
+      const covW = multiplyCov(covMatrix, w);
+      const variance = portfolioVariance(w, covMatrix);
+      const wVol = weightedVolatility(w, vols);
+      return vols.map((vol, i) => -vol / wVol + covW[i] / variance);
+    },
+    covMatrix.length,
+    bounds
+  );
+}
+
+/**
+ * Diversification ratio w'σ / √(w'Σw) (1 = no diversification benefit)
+ */
+export function calculateDiversificationRatio(
+  weights: number[],
+  covMatrix: number[][]
+): number {
+  const vols = covMatrix.map((row, i) => Math.sqrt(row[i]));
+  return (
+    weightedVolatility(weights, vols) /
+    Math.sqrt(portfolioVariance(weights, covMatrix))
+  );
+}
+
+function weightedVolatility(weights: number[], vols: number[]): number {
+  return weights.reduce((sum, w, i) => sum + w * vols[i], 0);
+}
+
+/**
+ * Efficient frontier weights on the bounded simplex
+ * Solves min w'Σw − λ·μ'w on a log-spaced λ grid, then interpolates the
+ * weights so the points are evenly spaced in return between minimum
+ * variance and maximum return (exact between corner portfolios)
+ */
+export function traceEfficientFrontier(
+  means: number[],
+  covMatrix: number[][],
+  bounds: ResolvedWeightBounds,
+  points: number
+): number[][] {
+  const n = means.length;
+  const portfolioReturn = (w: number[]) =>
+    w.reduce((sum, x, i) => sum + x * means[i], 0);
+  const solve = (lambda: number) =>
+    minimizeOnBoundedSimplex(
+      (w) => portfolioVariance(w, covMatrix) - lambda * portfolioReturn(w),
+      (w) => multiplyCov(covMatrix, w).map((v, i) => 2 * v - lambda * means[i]),
+      n,
+      bounds
+    ).weights;
+
+  const minVariance = solve(0);
+  const minReturn = portfolioReturn(minVariance);
+
+  // Highest return within the bounds: fill the best assets first
+  const maxReturnWeights = getMaxReturnWeights(means, bounds);
+  const maxReturn = portfolioReturn(maxReturnWeights);
+
+  if (points < 2 || maxReturn - minReturn < 1e-12) {
+    return [minVariance];
+  }
+
+  // λ large enough to reach the maximum return corner
+  const maxVariance = Math.max(...covMatrix.map((row, i) => row[i]));
+  let lambdaMax = (4 * maxVariance) / (maxReturn - minReturn);
+  for (let i = 0; i < 30; i++) {
+    if (portfolioReturn(solve(lambdaMax)) >= maxReturn - 1e-12) break;
+    lambdaMax *= 2;
+  }
+
+  // Solved points sorted by return (λ from 10⁻⁶·λmax to λmax)
+  const gridSize = 40;
+  const solved = [minVariance];
+  for (let k = 0; k < gridSize; k++) {
+    solved.push(solve(lambdaMax * Math.pow(10, -6 * (1 - k / (gridSize - 1)))));
+  }
+  solved.push(maxReturnWeights);
+  solved.sort((a, b) => portfolioReturn(a) - portfolioReturn(b));
+
+  const frontier: number[][] = [];
+  let j = 0;
+  for (let k = 0; k < points; k++) {
+    const target = minReturn + ((maxReturn - minReturn) * k) / (points - 1);
+    while (j < solved.length - 2 && portfolioReturn(solved[j + 1]) < target) {
+      j++;
+    }
+    const [a, b] = [solved[j], solved[j + 1]];
+    const span = portfolioReturn(b) - portfolioReturn(a);
+    const t =
+      span > 0
+        ? Math.min(1, Math.max(0, (target - portfolioReturn(a)) / span))
+        : 0;
+    frontier.push(a.map((w, i) => w + t * (b[i] - w)));
+  }
+
+  return frontier;
+}
+
+/**
+ * Assets and asset type groups sitting on their min or max weight bound
+ */
+export function findBindingBounds(
+  symbols: string[],
+  weights: number[],
+  bounds: ResolvedWeightBounds
+): { bindingBounds: BindingBound[]; bindingGroups: BindingGroup[] } {
+  const tolerance = 1e-6;
+  const bindingBounds: BindingBound[] = [];
+  const bindingGroups: BindingGroup[] = [];
+
+  for (let i = 0; i < symbols.length; i++) {
+    if (weights[i] <= bounds.lower[i] + tolerance) {
+      bindingBounds.push({
+        symbol: symbols[i],
+        bound: "min",
+        weight: weights[i],
+      });
+    } else if (weights[i] >= bounds.upper[i] - tolerance) {
+      bindingBounds.push({
+        symbol: symbols[i],
+        bound: "max",
+        weight: weights[i],
+      });
+    }
+  }
+
+  // Only group bounds tighter than their assets' own bounds can bind
+  for (const group of bounds.groups) {
+    const total = (values: number[]) =>
+      group.members.reduce((sum, i) => sum + values[i], 0);
+    const weight = total(weights);
+    if (
+      group.min > total(bounds.lower) + tolerance &&
+      weight <= group.min + tolerance
+    ) {
+      bindingGroups.push({
+        assetType: group.assetType,
+        bound: "min",
+        weight,
+      });
+    } else if (
+      group.max < total(bounds.upper) - tolerance &&
+      weight >= group.max - tolerance
+    ) {
+      bindingGroups.push({
+        assetType: group.assetType,
+        bound: "max",
+        weight,
+      });
+    }
+  }
+
+  return { bindingBounds, bindingGroups };
+}
@@ -0,0 +1,95 @@
+/**
+ * Return estimators
+ * Shrinkage of the sample covariance (Ledoit–Wolf) and of the sample means
+ * (James–Stein) estimated from daily log returns. Observation weights let
+ * both work with equal weights and EWMA alike. Like the strategy engine,
+ * this file must stay free of Nest and Prisma imports.
+ */
+
+/**
+ * Ledoit–Wolf shrinkage towards a scaled identity (μ·I)
+ * Σ* = δ·μ·I + (1 − δ)·S with δ = min(b̄², d²) / d²
+ *
+ * @param covMatrix - Weighted sample covariance S
+ * @param demeaned - Demeaned returns per asset, aligned with obsWeights
+ * @param obsWeights - Observation weights summing to 1
+ */
+export function shrinkCovarianceLedoitWolf(
+  covMatrix: number[][],
+  demeaned: number[][],
+  obsWeights: number[]
+): { covMatrix: number[][]; intensity: number } {
+  const n = covMatrix.length;
+  const mu = covMatrix.reduce((sum, row, i) => sum + row[i], 0) / n;
+
+  // d² = ‖S − μI‖² / n
+  let d2 = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const diff = covMatrix[i][j] - (i === j ? mu : 0);
+      d2 += diff * diff;
+    }
+  }
+  d2 /= n;
+
+  // b̄² = Σₜ wₜ²·‖xₜxₜ' − S‖² / n
+  let b2 = 0;
+  for (let k = 0; k < obsWeights.length; k++) {
+    let norm = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const diff = demeaned[i][k] * demeaned[j][k] - covMatrix[i][j];
+        norm += diff * diff;
+      }
+    }
+    b2 += obsWeights[k] * obsWeights[k] * (norm / n);
+  }
+
+  const intensity = d2 > 0 ? Math.min(b2, d2) / d2 : 1;
+
+  return {
+    covMatrix: covMatrix.map((row, i) =>
+      row.map(
+        (cov, j) => intensity * (i === j ? mu : 0) + (1 - intensity) * cov
+      )
+    ),
+    intensity,
+  };
+}
+
+/**
+ * Positive-part James–Stein shrinkage of means towards the grand mean
+ * c = min(1, (n − 3)·σ̄²/T / Σ(μᵢ − μ̄)²); needs at least 4 assets
+ *
+ * @param means - Sample mean per asset
+ * @param covMatrix - Covariance the mean estimates' variance comes from
+ * @param effectiveObservations - T, lower than the sample size with EWMA
+ */
+export function shrinkMeansJamesStein(
+  means: number[],
+  covMatrix: number[][],
+  effectiveObservations: number
+): { means: number[]; intensity: number } {
+  const n = means.length;
+  const grandMean = means.reduce((a, b) => a + b, 0) / n;
+  const dispersion = means.reduce(
+    (sum, m) => sum + (m - grandMean) * (m - grandMean),
+    0
+  );
+
+  // Variance of each mean estimate ≈ σᵢ² / T
+  const meanVariance =
+    covMatrix.reduce((sum, row, i) => sum + row[i], 0) /
+    n /
+    effectiveObservations;
+
+  const intensity =
+    n > 3 && dispersion > 0
+      ? Math.min(1, ((n - 3) * meanVariance) / dispersion)
+      : 0;
+
+  return {
+    means: means.map((m) => grandMean + (1 - intensity) * (m - grandMean)),
+    intensity,
+  };
+}
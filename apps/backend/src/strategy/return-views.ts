@@ -0,0 +1,215 @@
+/**
+ * Return views
+ * Per-asset opinions on expected return, e.g. { symbol: "BTC-USD",
+ * expectedReturn: 0.1, confidence: "low", expiresAt: "2026-12-31" },
+ * blended with the historical means Black–Litterman style before the
+ * Sharpe optimizer runs. Like the strategy engine, this file must stay free
+ * of Nest and Prisma imports.
+ */
+
+/**
+ * Share of the gap between prior and view closed by a single view
+ */
+export const VIEW_CONFIDENCE_LEVELS = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+} as const;
+
+export type ViewConfidence = keyof typeof VIEW_CONFIDENCE_LEVELS;
+
+export interface ReturnView {
+  symbol: string;
+  expectedReturn: number; // Annual, e.g. 0.1 = 10%/yr
+  confidence: ViewConfidence;
+  expiresAt: string; // ISO date; ignored afterwards
+}
+
+/**
+ * Uncertainty of the prior relative to the covariance (τ)
+ */
+export const BLACK_LITTERMAN_TAU = 0.05;
+
+const MAX_VIEWS = 20;
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Validate a view list, returning one message per problem (empty = valid)
+ */
+export function getReturnViewErrors(views: unknown): string[] {
+  if (!Array.isArray(views)) {
+    return ["returnViews must be an array"];
+  }
+  if (views.length > MAX_VIEWS) {
+    return [`returnViews cannot have more than ${MAX_VIEWS} views`];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  views.forEach((view: any, index) => {
+    const label = `returnViews[${index}]`;
+    if (!view || typeof view !== "object") {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof view.symbol !== "string" || view.symbol.trim() === "") {
+      errors.push(`${label}.symbol must be a non-empty string`);
+    } else if (seen.has(view.symbol)) {
+      errors.push(`${label}.symbol ${view.symbol} already has a view`);
+    } else {
+      seen.add(view.symbol);
+    }
+    if (
+      typeof view.expectedReturn !== "number" ||
+      !isFinite(view.expectedReturn) ||
+      view.expectedReturn <= -1 ||
+      view.expectedReturn > 10
+    ) {
+      errors.push(
+        `${label}.expectedReturn must be an annual return above -1 and at most 10`
+      );
+    }
+    if (!(view.confidence in VIEW_CONFIDENCE_LEVELS)) {
+      errors.push(
+        `${label}.confidence must be one of: ${Object.keys(
+          VIEW_CONFIDENCE_LEVELS
+        ).join(", ")}`
+      );
+    }
+    if (
+      typeof view.expiresAt !== "string" ||
+      isNaN(new Date(view.expiresAt).getTime())
+    ) {
+      errors.push(`${label}.expiresAt must be a date`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Parse stored views (expired ones included); null when unset or invalid
+ */
+export function parseReturnViews(
+  json: string | null | undefined
+): ReturnView[] | null {
+  if (!json) return null;
+
+  let views: unknown;
+  try {
+    views = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(views) || views.length === 0) return null;
+  return getReturnViewErrors(views).length === 0
+    ? (views as ReturnView[])
+    : null;
+}
+
+/**
+ * Views that have not expired at the given time
+ */
+export function getActiveReturnViews(
+  views: ReturnView[] | null | undefined,
+  now: Date
+): ReturnView[] {
+  return (views || []).filter(
+    (view) => new Date(view.expiresAt).getTime() >= now.getTime()
+  );
+}
+
+/**
+ * Annual return of a daily mean log return
+ */
+export function annualizeDailyLogReturn(dailyLogReturn: number): number {
+  return Math.exp(dailyLogReturn * TRADING_DAYS_PER_YEAR) - 1;
+}
+
+/**
+ * Blend absolute views with the prior means (Black–Litterman)
+ * μ = π + τΣPᵀ(τPΣPᵀ + Ω)⁻¹(q − Pπ), with Ωₖ = τσₖ²·(1 − c)/c so a single
+ * view moves its asset's mean a fraction c (its confidence) of the way
+ * towards the view; correlated assets move with it.
+ * Means and covariance are daily log returns; views on symbols that are not
+ * being optimized are skipped.
+ */
+export function blendReturnViews(
+  symbols: string[],
+  priorMeans: number[],
+  covMatrix: number[][],
+  views: ReturnView[]
+): { means: number[]; applied: ReturnView[] } {
+  const applied = views.filter((view) => symbols.includes(view.symbol));
+  if (applied.length === 0) {
+    return { means: [...priorMeans], applied };
+  }
+
+  const tau = BLACK_LITTERMAN_TAU;
+  const indices = applied.map((view) => symbols.indexOf(view.symbol));
+
+  // τPΣPᵀ + Ω
+  const system = indices.map((i, row) =>
+    indices.map((j, col) => {
+      const cov = tau * covMatrix[i][j];
+      if (row !== col) return cov;
+      const confidence = VIEW_CONFIDENCE_LEVELS[applied[row].confidence];
+      return cov + (tau * covMatrix[i][i] * (1 - confidence)) / confidence;
+    })
+  );
+  // q − Pπ
+  const surprise = applied.map(
+    (view, row) =>
+      Math.log(1 + view.expectedReturn) / TRADING_DAYS_PER_YEAR -
+      priorMeans[indices[row]]
+  );
+  const solved = solveLinearSystem(system, surprise);
+
+  return {
+    means: priorMeans.map(
+      (prior, i) =>
+        prior +
+        indices.reduce(
+          (sum, j, row) => sum + tau * covMatrix[i][j] * solved[row],
+          0
+        )
+    ),
+    applied,
+  };
+}
+
+/**
+ * Solve A·x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-18) continue;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(a[row][row]) < 1e-18) continue;
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
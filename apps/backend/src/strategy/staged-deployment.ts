@@ -0,0 +1,140 @@
+/**
+ * Staged deployment
+ * A contribution with a tranche schedule is deployed in trancheCount equal
+ * parts instead of all at once. Its cash goes to equity when registered,
+ * but the part not yet due is held back from leverage. Like the strategy
+ * engine, this file must stay free of Nest and Prisma imports.
+ */
+
+export const TRANCHE_SCHEDULES = ["weekly", "signal"] as const;
+
+export type TrancheSchedule = (typeof TRANCHE_SCHEDULES)[number];
+
+export const MAX_TRANCHES = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Contribution fields needed to schedule its tranches
+ */
+export interface StagedContributionInput {
+  id: string;
+  amount: number;
+  contributedAt: Date;
+  deployedAmount: number;
+  trancheCount: number;
+  trancheSchedule: string | null;
+  tranchesDeployed: number;
+  lastDeployedAt: Date | null;
+}
+
+/**
+ * Tranche not yet deployed
+ * "weekly" tranches fall due at dueAt; "signal" tranches after the first
+ * fall due one at a time when a deploy rule matches, at most one per day
+ */
+export interface PendingTranche {
+  contributionId: string;
+  trancheNumber: number; // 1-based
+  trancheCount: number;
+  amount: number;
+  schedule: TrancheSchedule;
+  dueAt: string | null; // null = waiting for a deploy signal
+  due: boolean;
+  reason: string | null; // deploymentReason once deployed ("scheduled" or rule name)
+}
+
+/**
+ * Staged deployment status of a portfolio
+ */
+export interface StagedDeploymentStatus {
+  dueAmount: number; // Deployed by the next rebalance
+  heldBackAmount: number; // Cash kept out of leverage until later tranches
+  dueTranches: PendingTranche[];
+  remainingTranches: PendingTranche[]; // Not due yet
+}
+
+/**
+ * Tranches still to deploy for each staged contribution
+ * @param matchedRuleName - Deploy rule matched today (null = no signal)
+ * @returns null when no contribution has tranches left
+ */
+export function getStagedDeploymentStatus(
+  contributions: StagedContributionInput[],
+  now: Date,
+  matchedRuleName: string | null
+): StagedDeploymentStatus | null {
+  const dueTranches: PendingTranche[] = [];
+  const remainingTranches: PendingTranche[] = [];
+
+  for (const contribution of contributions) {
+    const schedule = contribution.trancheSchedule as TrancheSchedule | null;
+    if (!schedule || !TRANCHE_SCHEDULES.includes(schedule)) continue;
+
+    const trancheAmount = contribution.amount / contribution.trancheCount;
+    let deployedAmount = contribution.deployedAmount;
+    const deployedToday =
+      contribution.lastDeployedAt !== null &&
+      isSameUtcDay(contribution.lastDeployedAt, now);
+
+    for (
+      let number = contribution.tranchesDeployed + 1;
+      number <= contribution.trancheCount;
+      number++
+    ) {
+      // Last tranche takes the rounding remainder
+      const amount =
+        number === contribution.trancheCount
+          ? contribution.amount - deployedAmount
+          : trancheAmount;
+      deployedAmount += amount;
+
+      let dueAt: Date | null = null;
+      let due = false;
+      let reason: string | null = null;
+      if (schedule === "weekly" || number === 1) {
+        dueAt = new Date(
+          contribution.contributedAt.getTime() + (number - 1) * 7 * DAY_MS
+        );
+        due = dueAt.getTime() <= now.getTime();
+        reason = due ? "scheduled" : null;
+      } else if (
+        matchedRuleName !== null &&
+        number === contribution.tranchesDeployed + 1 &&
+        !deployedToday
+      ) {
+        due = true;
+        reason = matchedRuleName;
+      }
+
+      (due ? dueTranches : remainingTranches).push({
+        contributionId: contribution.id,
+        trancheNumber: number,
+        trancheCount: contribution.trancheCount,
+        amount,
+        schedule,
+        dueAt: dueAt ? dueAt.toISOString() : null,
+        due,
+        reason,
+      });
+    }
+  }
+
+  if (dueTranches.length === 0 && remainingTranches.length === 0) {
+    return null;
+  }
+
+  return {
+    dueAmount: dueTranches.reduce((sum, t) => sum + t.amount, 0),
+    heldBackAmount: remainingTranches.reduce((sum, t) => sum + t.amount, 0),
+    dueTranches,
+    remainingTranches,
+  };
+}
+
+/**
+ * Compare calendar days in UTC
+ */
+function isSameUtcDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
@@ -0,0 +1,481 @@
+/**
+ * Strategy engine
+ * Single source of truth for portfolio state, deploy signals and leverage
+ * status. Shared by the recommendations service, the rebalance service and
+ * infra/scripts/daily-check.ts, so it must stay free of Nest and Prisma
+ * imports - it only works on plain data.
+ */
+
+import {
+  buildDefaultDeployRules,
+  DeployRule,
+  DeployRuleMetrics,
+  evaluateDeployRules,
+  MatchedDeployRule,
+} from "./deploy-rules";
+
+export type LeverageStatus = "low" | "in_range" | "high";
+
+/**
+ * Tolerance around leverageMin/leverageMax before a portfolio is reported
+ * out of range (avoids flapping on floating point noise)
+ */
+export const LEVERAGE_STATUS_TOLERANCE = 0.01;
+
+/**
+ * Trading days used to annualize volatility and to estimate month number
+ */
+const TRADING_DAYS_PER_YEAR = 252;
+const TRADING_DAYS_PER_MONTH = 21;
+
+/**
+ * Number of recent metricsTimeseries rows callers load (newest first)
+ * Every caller uses the same window so peak equity and volatility match
+ */
+export function getMetricsHistoryWindow(
+  volatilityLookbackDays: number
+): number {
+  return volatilityLookbackDays + 10;
+}
+
+/**
+ * Portfolio data needed to compute the current state
+ * Metrics arrays are ordered newest first, as returned by Prisma queries
+ */
+export interface StrategyPortfolioInput {
+  initialCapital: number;
+  positions: {
+    assetId: string;
+    quantity: number;
+    avgPrice: number;
+    asset: { symbol: string };
+  }[];
+  contributions?: {
+    amount: number;
+    deployed?: boolean;
+    deployedAmount?: number;
+  }[];
+  dailyMetrics?: { equity: number; peakEquity?: number | null }[];
+  metricsTimeseries?: { equity: number }[];
+}
+
+/**
+ * Current portfolio state
+ */
+export interface StrategyState {
+  equity: number;
+  exposure: number;
+  leverage: number;
+  marginRatio: number;
+  peakEquity: number;
+  pendingContributions: number;
+  positionValues: Record<string, number>;
+  positionQuantities: Record<string, number>;
+}
+
+/**
+ * Configuration thresholds used by the deploy signals
+ */
+export interface DeploySignalConfig {
+  drawdownRedeployThreshold: number;
+  weightDeviationThreshold: number;
+  volatilityRedeployThreshold: number;
+  volatilityLookbackDays: number;
+  gradualDeployFactor: number;
+  deployRules?: DeployRule[] | null; // Custom rules replace the three signals
+}
+
+/**
+ * Deploy signals evaluation
+ */
+export interface StrategyDeploySignals {
+  deployFraction: number;
+  drawdown: number;
+  weightDeviation: number;
+  realizedVolatility: number | null;
+  trend: number | null;
+  drawdownTriggered: boolean;
+  weightDeviationTriggered: boolean;
+  volatilityTriggered: boolean;
+  anySignalTriggered: boolean;
+  matchedRule: MatchedDeployRule | null;
+  monthNumber: number;
+}
+
+/**
+ * Sell of one position in a deleveraging option
+ */
+export interface DeleveragingSell {
+  symbol: string;
+  quantity: number;
+  value: number;
+  weight: number; // Current weight, kept after the sell
+}
+
+/**
+ * One way of bringing leverage back to the target
+ * "sell": sells only, "contribution": cash only, "mixed": both
+ */
+export interface DeleveragingOption {
+  type: "sell" | "contribution" | "mixed";
+  contribution: number;
+  sells: DeleveragingSell[];
+  totalSells: number;
+  equityAfter: number;
+  exposureAfter: number;
+  leverageAfter: number;
+  marginRatioAfter: number;
+}
+
+/**
+ * Options to return an over-leveraged portfolio to the target leverage
+ */
+export interface DeleveragingPlan {
+  currentLeverage: number;
+  currentMarginRatio: number;
+  targetLeverage: number;
+  options: DeleveragingOption[];
+}
+
+/**
+ * Value positions at the latest prices (falls back to avgPrice)
+ */
+export function calculatePositionExposure(
+  positions: StrategyPortfolioInput["positions"],
+  latestPrices: Record<string, number>
+): Pick<StrategyState, "exposure" | "positionValues" | "positionQuantities"> {
+  let exposure = 0;
+  const positionValues: Record<string, number> = {};
+  const positionQuantities: Record<string, number> = {};
+
+  for (const position of positions) {
+    const price = latestPrices[position.assetId] || position.avgPrice;
+    const value = position.quantity * price;
+    exposure += value;
+    positionValues[position.asset.symbol] = value;
+    positionQuantities[position.asset.symbol] = position.quantity;
+  }
+
+  return { exposure, positionValues, positionQuantities };
+}
+
+/**
+ * Roll a stored metric's equity forward to today
+ * Borrowed amount is unchanged, so equity moves with exposure, plus any
+ * contributions registered after the metric was written
+ */
+export function markEquityToMarket(
+  metric: { equity: number; exposure: number },
+  exposure: number,
+  contributionsSinceMetric: number
+): number {
+  return (
+    metric.equity + (exposure - metric.exposure) + contributionsSinceMetric
+  );
+}
+
+/**
+ * Calculate current portfolio state
+ * Equity comes from the latest daily metric, then the latest timeseries
+ * metric, then initial capital, unless the caller already marked it to
+ * market (daily-check). Contributions go straight to equity when
+ * registered, so pending contributions are reported but never added.
+ */
+export function calculateCurrentState(
+  portfolio: StrategyPortfolioInput,
+  latestPrices: Record<string, number>,
+  markedEquity?: number
+): StrategyState {
+  const { exposure, positionValues, positionQuantities } =
+    calculatePositionExposure(portfolio.positions, latestPrices);
+
+  const dailyMetrics = portfolio.dailyMetrics || [];
+  const metricsTimeseries = portfolio.metricsTimeseries || [];
+
+  let equity = portfolio.initialCapital;
+  if (markedEquity !== undefined) {
+    equity = markedEquity;
+  } else if (dailyMetrics.length > 0) {
+    equity = dailyMetrics[0].equity;
+  } else if (metricsTimeseries.length > 0) {
+    equity = metricsTimeseries[0].equity;
+  }
+
+  // Peak is the highest of the stored peak, the history and today
+  let peakEquity = equity;
+  if (dailyMetrics.length > 0 && dailyMetrics[0].peakEquity) {
+    peakEquity = Math.max(peakEquity, dailyMetrics[0].peakEquity);
+  }
+  for (const metric of metricsTimeseries) {
+    if (metric.equity > peakEquity) {
+      peakEquity = metric.equity;
+    }
+  }
+
+  // Staged contributions count only their undeployed remainder
+  const pendingContributions = (portfolio.contributions || [])
+    .filter((c) => !c.deployed)
+    .reduce((sum, c) => sum + c.amount - (c.deployedAmount || 0), 0);
+
+  return {
+    equity,
+    exposure,
+    leverage: calculateLeverage(exposure, equity),
+    marginRatio: exposure > 0 ? equity / exposure : 1,
+    peakEquity,
+    pendingContributions,
+    positionValues,
+    positionQuantities,
+  };
+}
+
+/**
+ * Leverage as exposure / equity (0 when equity is not positive)
+ */
+export function calculateLeverage(exposure: number, equity: number): number {
+  return equity > 0 ? exposure / equity : 0;
+}
+
+/**
+ * Drawdown from peak as a negative fraction (0 at the peak)
+ */
+export function calculateDrawdown(equity: number, peakEquity: number): number {
+  return peakEquity > 0 ? equity / peakEquity - 1 : 0;
+}
+
+/**
+ * Largest absolute gap between current and target weight across assets
+ */
+export function calculateWeightDeviation(
+  positionValues: Record<string, number>,
+  exposure: number,
+  targetWeights: Record<string, number>
+): number {
+  let weightDeviation = 0;
+  if (exposure <= 0) return weightDeviation;
+
+  for (const [symbol, targetWeight] of Object.entries(targetWeights)) {
+    const currentWeight = (positionValues[symbol] || 0) / exposure;
+    const deviation = Math.abs(currentWeight - targetWeight);
+    if (deviation > weightDeviation) {
+      weightDeviation = deviation;
+    }
+  }
+
+  return weightDeviation;
+}
+
+/**
+ * Annualized volatility of equity log returns over the lookback window
+ * metricsHistory is ordered newest first; null when there isn't enough data
+ */
+export function calculateRealizedVolatility(
+  metricsHistory: { equity: number }[],
+  lookbackDays: number
+): number | null {
+  if (metricsHistory.length < 2) return null;
+
+  const equityValues = metricsHistory
+    .slice(0, lookbackDays + 1)
+    .map((m) => m.equity)
+    .reverse();
+
+  const logReturns: number[] = [];
+  for (let i = 1; i < equityValues.length; i++) {
+    if (equityValues[i - 1] > 0) {
+      logReturns.push(Math.log(equityValues[i] / equityValues[i - 1]));
+    }
+  }
+
+  if (logReturns.length === 0) return null;
+
+  const mean = logReturns.reduce((a, b) => a + b, 0) / logReturns.length;
+  const variance =
+    logReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) /
+    (logReturns.length - 1 || 1);
+
+  return Math.sqrt(variance) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * Equity change across the volatility lookback window
+ * metricsHistory is ordered newest first; null when there isn't enough data
+ */
+export function calculateTrend(
+  metricsHistory: { equity: number }[],
+  lookbackDays: number
+): number | null {
+  const window = metricsHistory.slice(0, lookbackDays + 1);
+  if (window.length < 2) return null;
+
+  const oldest = window[window.length - 1].equity;
+  return oldest > 0 ? window[0].equity / oldest - 1 : null;
+}
+
+/**
+ * Calculate deploy signals based on drawdown, weight deviation, and volatility
+ * The deploy fraction comes from the first matching deploy rule: the
+ * portfolio's custom rules, or the built-in rules mirroring the notebook
+ * (any triggered signal deploys, capped by gradualDeployFactor)
+ */
+export function calculateDeploySignals(
+  state: Pick<
+    StrategyState,
+    "equity" | "exposure" | "peakEquity" | "positionValues"
+  > &
+    Partial<Pick<StrategyState, "pendingContributions">>,
+  metricsHistory: { equity: number }[],
+  targetWeights: Record<string, number>,
+  config: DeploySignalConfig
+): StrategyDeploySignals {
+  const drawdown = calculateDrawdown(state.equity, state.peakEquity);
+  const weightDeviation = calculateWeightDeviation(
+    state.positionValues,
+    state.exposure,
+    targetWeights
+  );
+  const realizedVolatility = calculateRealizedVolatility(
+    metricsHistory,
+    config.volatilityLookbackDays
+  );
+
+  // Drawdown beyond threshold takes precedence over the other signals
+  const drawdownTriggered = drawdown <= -config.drawdownRedeployThreshold;
+  const weightDeviationTriggered =
+    !drawdownTriggered && weightDeviation >= config.weightDeviationThreshold;
+  const volatilityTriggered =
+    !drawdownTriggered &&
+    realizedVolatility !== null &&
+    realizedVolatility <= config.volatilityRedeployThreshold;
+
+  const trend = calculateTrend(metricsHistory, config.volatilityLookbackDays);
+  const monthNumber = Math.max(
+    1,
+    Math.ceil(metricsHistory.length / TRADING_DAYS_PER_MONTH)
+  );
+
+  const metrics: DeployRuleMetrics = {
+    drawdown,
+    weightDeviation,
+    volatility: realizedVolatility,
+    trend,
+    leverage: calculateLeverage(state.exposure, state.equity),
+    marginRatio: state.exposure > 0 ? state.equity / state.exposure : 1,
+    equity: state.equity,
+    exposure: state.exposure,
+    pendingContributions: state.pendingContributions ?? 0,
+    monthNumber,
+  };
+  const matchedRule = config.deployRules?.length
+    ? evaluateDeployRules(config.deployRules, metrics, "custom")
+    : evaluateDeployRules(buildDefaultDeployRules(config), metrics, "default");
+
+  return {
+    deployFraction: matchedRule ? Math.min(1, matchedRule.deployFraction) : 0,
+    drawdown,
+    weightDeviation,
+    realizedVolatility,
+    trend,
+    drawdownTriggered,
+    weightDeviationTriggered,
+    volatilityTriggered,
+    anySignalTriggered: matchedRule !== null,
+    matchedRule,
+    monthNumber,
+  };
+}
+
+/**
+ * Deleveraging plan for a portfolio above its target leverage
+ * Sale proceeds and contributions both repay borrowing: selling S lowers
+ * exposure by S with equity unchanged, contributing C raises equity by C
+ * with exposure unchanged. Sells are pro rata to current position values,
+ * so current weights are kept. The mixed option contributes
+ * partialContribution (default half of the cash-only amount) and sells the
+ * rest. Amounts are before trading costs; null when leverage is already at
+ * or below target.
+ */
+export function calculateDeleveragingPlan(
+  state: Pick<
+    StrategyState,
+    "equity" | "exposure" | "positionValues" | "positionQuantities"
+  >,
+  targetLeverage: number,
+  partialContribution?: number
+): DeleveragingPlan | null {
+  const { equity, exposure } = state;
+  const currentLeverage = calculateLeverage(exposure, equity);
+  if (targetLeverage <= 0 || exposure <= 0) return null;
+  if (equity > 0 && currentLeverage <= targetLeverage) return null;
+
+  const buildOption = (
+    type: DeleveragingOption["type"],
+    contribution: number
+  ): DeleveragingOption => {
+    const equityAfter = equity + contribution;
+    const totalSells = Math.min(
+      exposure,
+      Math.max(0, exposure - equityAfter * targetLeverage)
+    );
+    const sells: DeleveragingSell[] = [];
+    for (const [symbol, value] of Object.entries(state.positionValues)) {
+      if (value <= 0 || totalSells <= 0) continue;
+      const share = value / exposure;
+      sells.push({
+        symbol,
+        quantity:
+          (state.positionQuantities[symbol] || 0) * (totalSells / exposure),
+        value: totalSells * share,
+        weight: share,
+      });
+    }
+
+    const exposureAfter = exposure - totalSells;
+    return {
+      type,
+      contribution,
+      sells,
+      totalSells,
+      equityAfter,
+      exposureAfter,
+      leverageAfter: calculateLeverage(exposureAfter, equityAfter),
+      marginRatioAfter: exposureAfter > 0 ? equityAfter / exposureAfter : 1,
+    };
+  };
+
+  // Cash that alone brings leverage down: exposure / (equity + C) = target
+  const fullContribution = Math.max(0, exposure / targetLeverage - equity);
+  const mixedContribution = Math.min(
+    fullContribution,
+    Math.max(0, partialContribution ?? fullContribution / 2)
+  );
+
+  const options = [
+    buildOption("sell", 0),
+    buildOption("contribution", fullContribution),
+  ];
+  if (mixedContribution > 0 && mixedContribution < fullContribution) {
+    options.push(buildOption("mixed", mixedContribution));
+  }
+
+  return {
+    currentLeverage,
+    currentMarginRatio: equity / exposure,
+    targetLeverage,
+    options,
+  };
+}
+
+/**
+ * Get leverage status (low, in_range, high)
+ * Uses LEVERAGE_STATUS_TOLERANCE around the configured bounds
+ */
+export function getLeverageStatus(
+  leverage: number,
+  leverageMin: number,
+  leverageMax: number
+): LeverageStatus {
+  if (leverage < leverageMin - LEVERAGE_STATUS_TOLERANCE) return "low";
+  if (leverage > leverageMax + LEVERAGE_STATUS_TOLERANCE) return "high";
+  return "in_range";
+}
@@ -0,0 +1,135 @@
+/**
+ * Transaction costs
+ * Expected cost of a trade (commission, half the spread, slippage) and the
+ * check whether moving back to the target weights is worth what it costs.
+ * Like the strategy engine, this file must stay free of Nest and Prisma
+ * imports.
+ */
+
+import { portfolioVariance } from "./portfolio-optimizers";
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Trading costs for an asset type (or a single asset via assetTradingSettings)
+ */
+export interface TransactionCostSettings {
+  commissionRate: number; // Fraction of traded notional
+  commissionFixed: number; // Base currency per trade
+  spreadBps: number; // Bid-ask spread, half of it is paid per trade
+  slippageBps: number; // Expected price impact per trade
+}
+
+/**
+ * What to do when a rebalance costs more than it is expected to gain
+ */
+export type CostBenefitMode = "off" | "flag" | "suppress";
+
+/**
+ * Trading costs vs expected benefit of moving back to the target weights
+ * Benefit is the drop in the annual mean-variance cost of tracking error,
+ * ½·riskAversion·(TE²before − TE²after)·exposure. Only the cost of trades
+ * beyond scaling the current holdings to the new exposure is counted.
+ */
+export interface CostBenefitAnalysis {
+  trackingErrorBefore: number; // Annualized, vs weightsUsed
+  trackingErrorAfter: number;
+  expectedBenefit: number; // Base currency per year
+  rebalancingCost: number; // Base currency
+  worthIt: boolean;
+  suppressed: boolean; // Rebalancing trades dropped (costBenefitMode "suppress")
+}
+
+/**
+ * One proposed position, in the order of the covariance matrix
+ */
+export interface CostBenefitPosition {
+  currentValue: number;
+  targetValue: number;
+  targetWeight: number;
+  estimatedCost: number; // Cost of the proposed trade
+  costs: TransactionCostSettings;
+}
+
+/**
+ * Expected cost of one trade: commission + half the spread + slippage
+ * @param notional - Absolute traded value (base currency)
+ */
+export function estimateTradeCost(
+  notional: number,
+  settings: TransactionCostSettings
+): number {
+  if (notional <= 0) return 0;
+  return (
+    settings.commissionFixed +
+    notional *
+      (settings.commissionRate +
+        settings.spreadBps / 2 / 10000 +
+        settings.slippageBps / 10000)
+  );
+}
+
+/**
+ * Compare the cost of rebalancing with the tracking error it removes
+ * The cost of a plain scale of current holdings to the new exposure is
+ * not attributed to rebalancing (it happens either way).
+ *
+ * @param positions - Proposed positions, in covariance matrix order
+ * @param currentExposure - Value of current holdings
+ * @param covMatrix - Daily covariance of the positions' returns
+ * @returns null when disabled or when nothing is held before or after
+ */
+export function evaluateCostBenefit(
+  positions: CostBenefitPosition[],
+  currentExposure: number,
+  covMatrix: number[][],
+  riskAversion: number,
+  mode: CostBenefitMode
+): CostBenefitAnalysis | null {
+  const newExposure = positions.reduce((sum, pos) => sum + pos.targetValue, 0);
+  if (mode === "off" || currentExposure <= 0 || newExposure <= 0) {
+    return null;
+  }
+
+  const weightTotal = positions.reduce((sum, pos) => sum + pos.targetWeight, 0);
+  const driftBefore = positions.map(
+    (pos) =>
+      pos.currentValue / currentExposure -
+      (weightTotal > 0 ? pos.targetWeight / weightTotal : 0)
+  );
+  const driftAfter = positions.map(
+    (pos) =>
+      pos.targetValue / newExposure -
+      (weightTotal > 0 ? pos.targetWeight / weightTotal : 0)
+  );
+  const varianceBefore =
+    portfolioVariance(driftBefore, covMatrix) * TRADING_DAYS_PER_YEAR;
+  const varianceAfter =
+    portfolioVariance(driftAfter, covMatrix) * TRADING_DAYS_PER_YEAR;
+
+  const expectedBenefit =
+    0.5 * riskAversion * (varianceBefore - varianceAfter) * newExposure;
+
+  // Cost beyond what scaling current holdings would cost
+  const scale = newExposure / currentExposure;
+  const rebalancingCost = positions.reduce(
+    (sum, pos) =>
+      sum +
+      Math.max(
+        0,
+        pos.estimatedCost -
+          estimateTradeCost(Math.abs(pos.currentValue * (scale - 1)), pos.costs)
+      ),
+    0
+  );
+
+  const worthIt = rebalancingCost <= 0 || expectedBenefit >= rebalancingCost;
+  return {
+    trackingErrorBefore: Math.sqrt(Math.max(0, varianceBefore)),
+    trackingErrorAfter: Math.sqrt(Math.max(0, varianceAfter)),
+    expectedBenefit,
+    rebalancingCost,
+    worthIt,
+    suppressed: !worthIt && mode === "suppress",
+  };
+}
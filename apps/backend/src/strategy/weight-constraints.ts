@@ -0,0 +1,393 @@
+/**
+ * Weight constraints
+ * Per-asset bounds, e.g. { "BTC-USD": { max: 0.15 }, SPY: { min: 0.3 } },
+ * and bounds on the total weight of an asset type, e.g.
+ * { crypto: { max: 0.2 } }, on top of the portfolio's uniform
+ * minWeight/maxWeight. Shared by the optimizers, target weight validation
+ * and onboarding. Like the strategy engine, this file must stay free of
+ * Nest and Prisma imports.
+ */
+
+export interface WeightBound {
+  min?: number; // Fraction of the portfolio, 0-1
+  max?: number;
+}
+
+/**
+ * Bounds keyed by symbol (asset bounds) or by Asset.assetType (group bounds)
+ */
+export type WeightBounds = Record<string, WeightBound>;
+
+/**
+ * Assets of one type whose total weight is bounded
+ */
+export interface WeightGroup {
+  assetType: string;
+  members: number[]; // Indices into the symbol list
+  min: number;
+  max: number;
+}
+
+/**
+ * Bounds for a symbol list, ready for the optimizers
+ */
+export interface ResolvedWeightBounds {
+  minWeight: number; // Uniform bounds for assets without their own
+  maxWeight: number;
+  lower: number[];
+  upper: number[];
+  groups: WeightGroup[];
+  relaxed: string[]; // Bounds loosened so the weights can sum to 1
+}
+
+const BOUND_KEYS = ["min", "max"];
+const TOLERANCE = 0.001;
+
+/**
+ * Validate asset or group bounds, returning one message per problem
+ * (empty = valid)
+ */
+export function getWeightBoundErrors(bounds: unknown, field: string): string[] {
+  if (!bounds || typeof bounds !== "object" || Array.isArray(bounds)) {
+    return [`${field} must be an object`];
+  }
+
+  const errors: string[] = [];
+  let minTotal = 0;
+  for (const [key, bound] of Object.entries(bounds as Record<string, any>)) {
+    const label = `${field}.${key}`;
+    if (!bound || typeof bound !== "object" || Array.isArray(bound)) {
+      errors.push(`${label} must be an object`);
+      continue;
+    }
+    for (const setting of Object.keys(bound)) {
+      if (!BOUND_KEYS.includes(setting)) {
+        errors.push(`${label} has unknown setting ${setting}`);
+      }
+    }
+    for (const setting of BOUND_KEYS) {
+      const value = bound[setting];
+      if (
+        value !== undefined &&
+        (typeof value !== "number" ||
+          !isFinite(value) ||
+          value < 0 ||
+          value > 1)
+      ) {
+        errors.push(`${label}.${setting} must be between 0 and 1`);
+      }
+    }
+    if (
+      typeof bound.min === "number" &&
+      typeof bound.max === "number" &&
+      bound.min > bound.max
+    ) {
+      errors.push(`${label}.min cannot be greater than max`);
+    }
+    if (typeof bound.min === "number") {
+      minTotal += bound.min;
+    }
+  }
+
+  if (minTotal > 1 + TOLERANCE) {
+    errors.push(
+      `${field} minimums add up to ${formatPercent(minTotal)}, more than 100%`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Parse stored bounds; {} when unset or invalid
+ */
+export function parseWeightBounds(
+  json: string | null | undefined
+): WeightBounds {
+  if (!json) return {};
+
+  let bounds: unknown;
+  try {
+    bounds = JSON.parse(json);
+  } catch {
+    return {};
+  }
+
+  return getWeightBoundErrors(bounds, "bounds").length === 0
+    ? (bounds as WeightBounds)
+    : {};
+}
+
+/**
+ * Check weights that sum to 1 (manual target weights) against the asset
+ * and group bounds, returning one message per violation
+ * The uniform minWeight/maxWeight only bind the optimizers.
+ * @param assetTypes - Asset type by symbol; symbols without one belong to no group
+ */
+export function getWeightBoundViolations(
+  weights: Record<string, number>,
+  assetTypes: Record<string, string>,
+  assetBounds: WeightBounds,
+  groupBounds: WeightBounds
+): string[] {
+  const violations: string[] = [];
+
+  for (const [symbol, bound] of Object.entries(assetBounds)) {
+    const weight = weights[symbol] ?? 0;
+    if (bound.min !== undefined && weight < bound.min - TOLERANCE) {
+      violations.push(
+        `Weight for ${symbol} (${formatPercent(weight)}) is below its minimum of ${formatPercent(bound.min)}`
+      );
+    }
+    if (bound.max !== undefined && weight > bound.max + TOLERANCE) {
+      violations.push(
+        `Weight for ${symbol} (${formatPercent(weight)}) is above its maximum of ${formatPercent(bound.max)}`
+      );
+    }
+  }
+
+  for (const [assetType, bound] of Object.entries(groupBounds)) {
+    const total = Object.entries(weights)
+      .filter(([symbol]) => assetTypes[symbol] === assetType)
+      .reduce((sum, [, weight]) => sum + weight, 0);
+    if (bound.min !== undefined && total < bound.min - TOLERANCE) {
+      violations.push(
+        `Total weight of ${assetType} assets (${formatPercent(total)}) is below its minimum of ${formatPercent(bound.min)}`
+      );
+    }
+    if (bound.max !== undefined && total > bound.max + TOLERANCE) {
+      violations.push(
+        `Total weight of ${assetType} assets (${formatPercent(total)}) is above its maximum of ${formatPercent(bound.max)}`
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Lower/upper weight per symbol and the asset type groups that apply
+ * Asset bounds replace the uniform ones on their side. The uniform bounds
+ * are relaxed to 1/n when there are too few or too many assets for them to
+ * sum to 1; explicit bounds that cannot hold together are loosened and
+ * reported in `relaxed`.
+ */
+export function resolveWeightBounds(
+  symbols: string[],
+  assetTypes: Record<string, string>,
+  defaults: { minWeight: number; maxWeight: number },
+  assetBounds: WeightBounds,
+  groupBounds: WeightBounds
+): ResolvedWeightBounds {
+  const n = symbols.length;
+  const relaxed: string[] = [];
+  let { minWeight, maxWeight } = defaults;
+  if (minWeight * n > 1) minWeight = 1 / n;
+  if (maxWeight * n < 1) maxWeight = 1 / n;
+
+  const lower = symbols.map((symbol) => assetBounds[symbol]?.min ?? minWeight);
+  const upper = symbols.map((symbol) => assetBounds[symbol]?.max ?? maxWeight);
+  symbols.forEach((symbol, i) => {
+    // An asset's own bound wins over the uniform one on the other side
+    if (lower[i] > upper[i]) {
+      if (assetBounds[symbol]?.min !== undefined) {
+        upper[i] = lower[i];
+      } else {
+        lower[i] = upper[i];
+      }
+    }
+  });
+
+  const lowerTotal = sum(lower);
+  if (lowerTotal > 1) {
+    lower.forEach((value, i) => (lower[i] = value / lowerTotal));
+    relaxed.push(
+      `Minimum weights add up to ${formatPercent(lowerTotal)}; scaled down to 100%`
+    );
+  }
+  const upperTotal = sum(upper);
+  if (upperTotal < 1) {
+    upper.forEach((value, i) => (upper[i] = value / upperTotal));
+    relaxed.push(
+      `Maximum weights add up to ${formatPercent(upperTotal)}; scaled up to 100%`
+    );
+  }
+
+  let groups: WeightGroup[] = [];
+  for (const [assetType, bound] of Object.entries(groupBounds)) {
+    const members = symbols.flatMap((symbol, i) =>
+      assetTypes[symbol] === assetType ? [i] : []
+    );
+    if (members.length === 0) continue;
+
+    const memberLower = sum(members.map((i) => lower[i]));
+    const memberUpper = sum(members.map((i) => upper[i]));
+    let min = bound.min ?? 0;
+    let max = bound.max ?? 1;
+    // The group cap wins over its assets' minimums (and vice versa)
+    if (max < memberLower) {
+      members.forEach((i) => (lower[i] *= max / memberLower));
+      relaxed.push(
+        `${assetType} maximum of ${formatPercent(max)} is below its assets' minimum weights; minimums scaled down`
+      );
+    }
+    if (min > memberUpper) {
+      members.forEach((i) => (upper[i] *= min / memberUpper));
+      relaxed.push(
+        `${assetType} minimum of ${formatPercent(min)} is above its assets' maximum weights; maximums scaled up`
+      );
+    }
+    min = Math.max(min, sum(members.map((i) => lower[i])));
+    max = Math.min(max, sum(members.map((i) => upper[i])));
+    groups.push({ assetType, members, min, max });
+  }
+
+  // Groups are disjoint, so they can all hold iff their totals can reach 1
+  const grouped = new Set(groups.flatMap((group) => group.members));
+  const free = symbols.map((_, i) => i).filter((i) => !grouped.has(i));
+  const reachableMin =
+    sum(groups.map((group) => group.min)) + sum(free.map((i) => lower[i]));
+  const reachableMax =
+    sum(groups.map((group) => group.max)) + sum(free.map((i) => upper[i]));
+  if (
+    groups.length > 0 &&
+    (reachableMin > 1 + 1e-9 || reachableMax < 1 - 1e-9)
+  ) {
+    relaxed.push(
+      `Asset type bounds (${groups
+        .map((group) => group.assetType)
+        .join(", ")}) cannot hold together with the asset bounds; ignored`
+    );
+    groups = [];
+  }
+
+  return { minWeight, maxWeight, lower, upper, groups, relaxed };
+}
+
+/**
+ * Euclidean projection onto { Σw = 1, lower ≤ w ≤ upper, group bounds }
+ * Groups are disjoint, so wᵢ = clip(vᵢ − τ − ν_g): bisection on the global
+ * shift τ (each group's total clamped to its bounds), then on the shift ν_g
+ * of every group whose bound is active.
+ */
+export function projectOntoWeightBounds(
+  point: number[],
+  bounds: ResolvedWeightBounds
+): number[] {
+  const { lower, upper, groups } = bounds;
+  const clip = (i: number, shift: number) =>
+    Math.min(upper[i], Math.max(lower[i], point[i] - shift));
+  const blockTotal = (members: number[], shift: number) =>
+    members.reduce((total, i) => total + clip(i, shift), 0);
+
+  const grouped = new Set(groups.flatMap((group) => group.members));
+  const blocks = [
+    ...groups,
+    {
+      members: point.map((_, i) => i).filter((i) => !grouped.has(i)),
+      min: -Infinity,
+      max: Infinity,
+    },
+  ];
+  const clampedTotal = (
+    block: { members: number[]; min: number; max: number },
+    shift: number
+  ) =>
+    Math.min(block.max, Math.max(block.min, blockTotal(block.members, shift)));
+
+  const [lo, hi] = [
+    Math.min(...point) - Math.max(...upper), // Every weight at its upper bound
+    Math.max(...point) - Math.min(...lower), // Every weight at its lower bound
+  ];
+  const tau = findShift(
+    (shift) =>
+      blocks.reduce((total, block) => total + clampedTotal(block, shift), 0),
+    1,
+    lo,
+    hi
+  );
+
+  const weights = new Array(point.length).fill(0);
+  for (const block of blocks) {
+    const total = blockTotal(block.members, tau);
+    const shift =
+      total > block.max || total < block.min
+        ? findShift(
+            (s) => blockTotal(block.members, s),
+            clampedTotal(block, tau),
+            lo,
+            hi
+          )
+        : tau;
+    for (const i of block.members) {
+      weights[i] = clip(i, shift);
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Highest-return weights within the bounds (a linear program)
+ * Every group first reaches its minimum with its best assets, then the
+ * remaining weight goes to the best assets whose group has room.
+ */
+export function getMaxReturnWeights(
+  means: number[],
+  bounds: ResolvedWeightBounds
+): number[] {
+  const { upper, groups } = bounds;
+  const weights = [...bounds.lower];
+  let remaining = 1 - sum(weights);
+  const byReturn = means.map((_, i) => i).sort((a, b) => means[b] - means[a]);
+  const groupTotal = (group: WeightGroup) =>
+    sum(group.members.map((i) => weights[i]));
+  const add = (i: number, limit: number) => {
+    const amount = Math.max(
+      0,
+      Math.min(upper[i] - weights[i], limit, remaining)
+    );
+    weights[i] += amount;
+    remaining -= amount;
+  };
+
+  for (const group of groups) {
+    for (const i of byReturn.filter((i) => group.members.includes(i))) {
+      add(i, group.min - groupTotal(group));
+    }
+  }
+  for (const i of byReturn) {
+    const group = groups.find((g) => g.members.includes(i));
+    add(i, group ? group.max - groupTotal(group) : Infinity);
+  }
+
+  return weights;
+}
+
+/**
+ * Bisection for the shift s where the non-increasing total(s) equals target
+ */
+function findShift(
+  total: (shift: number) => number,
+  target: number,
+  lo: number,
+  hi: number
+): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (total(mid) > target) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,15 @@
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+
+/**
+ * Filter for the tax lot report
+ * With a year, only disposals of that year count as realized gains
+ */
+export class TaxLotsQueryDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1970)
+  @Max(2100)
+  @Type(() => Number)
+  year?: number;
+}
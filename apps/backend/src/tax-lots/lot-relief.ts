@@ -0,0 +1,92 @@
+/**
+ * Tax lot relief
+ * Which open lots a sell relieves, and how much of each: FIFO takes the
+ * oldest lots first, LIFO the newest, and 'specific' the lots chosen on the
+ * sell (the rest follow FIFO). Kept free of Nest and Prisma imports.
+ */
+
+import { LotReliefMethod } from "../portfolios/dto/portfolio-configuration.dto";
+
+/**
+ * Quantities below this are treated as zero
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * The parts of an open lot relief needs
+ */
+export interface ReliefLot {
+  id: string;
+  remainingQuantity: number;
+  costPerUnit: number;
+}
+
+/**
+ * Units taken from one lot
+ */
+export interface LotRelief<T extends ReliefLot> {
+  lot: T;
+  quantity: number;
+  remainingQuantity: number; // Left in the lot afterwards (0 = closed)
+  realizedGain: number;
+}
+
+/**
+ * Open lots in relief order
+ * Chosen lots go first (in the given order), the rest follow FIFO
+ * @param openLots - Open lots, oldest first
+ * @param lotIds - Lots chosen on the sell ('specific' method only)
+ */
+export function orderLotsForRelief<T extends ReliefLot>(
+  openLots: T[],
+  method: LotReliefMethod,
+  lotIds: string[] = []
+): T[] {
+  if (method === "specific" && lotIds.length > 0) {
+    const chosen = lotIds.flatMap((lotId) =>
+      openLots.filter((lot) => lot.id === lotId)
+    );
+    return [...chosen, ...openLots.filter((lot) => !lotIds.includes(lot.id))];
+  }
+
+  return method === "lifo" ? [...openLots].reverse() : openLots;
+}
+
+/**
+ * Relieve lots in the given order until the sold quantity is covered
+ * @param proceedsPerUnit - Price received per unit, net of fees
+ * @returns Units taken from each lot, the total realized gain and any
+ * sold units the lots did not cover
+ */
+export function allocateRelief<T extends ReliefLot>(
+  lots: T[],
+  quantity: number,
+  proceedsPerUnit: number
+): { reliefs: LotRelief<T>[]; realizedGain: number; uncovered: number } {
+  const reliefs: LotRelief<T>[] = [];
+  let remaining = quantity;
+  let realizedGain = 0;
+
+  for (const lot of lots) {
+    if (remaining <= QUANTITY_EPSILON) break;
+
+    const relieved = Math.min(remaining, lot.remainingQuantity);
+    const left = lot.remainingQuantity - relieved;
+    const gain = relieved * (proceedsPerUnit - lot.costPerUnit);
+    reliefs.push({
+      lot,
+      quantity: relieved,
+      remainingQuantity: left > QUANTITY_EPSILON ? left : 0,
+      realizedGain: gain,
+    });
+
+    remaining -= relieved;
+    realizedGain += gain;
+  }
+
+  return {
+    reliefs,
+    realizedGain,
+    uncovered: remaining > QUANTITY_EPSILON ? remaining : 0,
+  };
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import { TaxLotsQueryDto } from "./dto/tax-lots-query.dto";
+import { TaxLotReport, TaxLotsService } from "./tax-lots.service";
+
+/**
+ * Controller for tax lots and realized/unrealized gains
+ */
+@Controller("portfolios/:portfolioId/tax-lots")
+@UseGuards(AuthGuard)
+export class TaxLotsController {
+  constructor(private readonly taxLotsService: TaxLotsService) {}
+
+  /**
+   * Get lots with realized and unrealized gains
+   * GET /api/portfolios/:portfolioId/tax-lots?year=2026
+   *
+   * @param portfolioId - Portfolio ID
+   * @param query - Optional tax year for realized gains
+   * @returns Lots, per-asset summary and totals
+   */
+  @Get()
+  async getReport(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: TaxLotsQueryDto
+  ): Promise<TaxLotReport> {
+    return this.taxLotsService.getReport(portfolioId, query);
+  }
+}
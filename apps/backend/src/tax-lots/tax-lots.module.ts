@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+
+import { AuthModule } from "../auth/auth.module";
+
+import { TaxLotsController } from "./tax-lots.controller";
+import { TaxLotsService } from "./tax-lots.service";
+
+/**
+ * Module for tax lot tracking (cost basis and realized gains)
+ */
+@Module({
+  imports: [AuthModule],
+  controllers: [TaxLotsController],
+  providers: [TaxLotsService],
+  exports: [TaxLotsService],
+})
+export class TaxLotsModule {}
@@ -0,0 +1,596 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+
+import { LotReliefMethod } from "../portfolios/dto/portfolio-configuration.dto";
+import { PrismaService } from "../prisma/prisma.service";
+
+import { TaxLotsQueryDto } from "./dto/tax-lots-query.dto";
+import { allocateRelief, orderLotsForRelief } from "./lot-relief";
+
+/**
+ * Quantities below this are treated as zero
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Holding period after which a disposal counts as long term
+ */
+const LONG_TERM_DAYS = 365;
+
+/**
+ * Where a lot (or a disposal) comes from
+ * 'opening' lots cover quantities held before lots were tracked
+ */
+export type TaxLotSource = "opening" | "contribution" | "rebalance" | "manual";
+
+/**
+ * Context of a position change that opens or relieves lots
+ */
+export interface LotChange {
+  source: TaxLotSource;
+  sourceId?: string | null; // RebalancePosition ID for rebalance trades, Trade ID for manual, import and correction trades
+  date?: Date;
+  lotIds?: string[]; // Lots to relieve first ('specific' method only)
+}
+
+/**
+ * One relieved part of a lot
+ */
+export interface TaxLotDisposalView {
+  id: string;
+  source: string;
+  sourceId: string | null;
+  disposedAt: string;
+  quantity: number;
+  costPerUnit: number;
+  proceedsPerUnit: number;
+  costBasis: number;
+  proceeds: number;
+  realizedGain: number;
+  holdingDays: number;
+  term: "short" | "long";
+}
+
+/**
+ * A tax lot with its realized and unrealized gains
+ */
+export interface TaxLotView {
+  id: string;
+  assetId: string;
+  assetSymbol: string;
+  assetName: string;
+  source: string;
+  sourceId: string | null;
+  acquiredAt: string;
+  closedAt: string | null;
+  quantity: number;
+  remainingQuantity: number;
+  costPerUnit: number;
+  costBasis: number; // Of the remaining quantity
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  realizedGain: number;
+  disposals: TaxLotDisposalView[];
+}
+
+/**
+ * Lot totals for one asset
+ */
+export interface TaxLotAssetSummary {
+  assetId: string;
+  assetSymbol: string;
+  openLots: number;
+  openQuantity: number;
+  costBasis: number;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  realizedGain: number;
+}
+
+export interface TaxLotReport {
+  portfolioId: string;
+  lotReliefMethod: LotReliefMethod;
+  year: number | null;
+  lots: TaxLotView[];
+  assets: TaxLotAssetSummary[];
+  totals: {
+    costBasis: number;
+    marketValue: number;
+    unrealizedGain: number;
+    realizedGain: number;
+    realizedShortTerm: number;
+    realizedLongTerm: number;
+  };
+}
+
+/**
+ * Service for tax lots: opens lots on buys, relieves them on sells with the
+ * portfolio's relief method (FIFO, LIFO or specific lots) and reports
+ * realized/unrealized gains per lot
+ */
+@Injectable()
+export class TaxLotsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get all lots of a portfolio with realized and unrealized gains
+   * Positions not yet covered by lots get an opening lot at their avgPrice
+   * @param portfolioId - Portfolio ID
+   * @param query - Optional tax year
+   */
+  async getReport(
+    portfolioId: string,
+    query: TaxLotsQueryDto
+  ): Promise<TaxLotReport> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: { positions: true },
+    });
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+
+    for (const position of portfolio.positions) {
+      await this.ensureOpeningLot(
+        portfolioId,
+        position.assetId,
+        position.quantity,
+        position.avgPrice,
+        position.updatedAt
+      );
+    }
+
+    const lots = await this.prisma.taxLot.findMany({
+      where: { portfolioId },
+      include: {
+        asset: true,
+        disposals: { orderBy: { disposedAt: "asc" } },
+      },
+      orderBy: [{ acquiredAt: "asc" }, { createdAt: "asc" }],
+    });
+
+    const prices = await this.getLatestPrices(
+      Array.from(new Set(lots.map((lot: any) => lot.assetId)))
+    );
+
+    const year = query.year ?? null;
+    const inYear = (date: Date) =>
+      year === null || date.getUTCFullYear() === year;
+
+    const totals = {
+      costBasis: 0,
+      marketValue: 0,
+      unrealizedGain: 0,
+      realizedGain: 0,
+      realizedShortTerm: 0,
+      realizedLongTerm: 0,
+    };
+    const assets = new Map<string, TaxLotAssetSummary>();
+    const views: TaxLotView[] = [];
+
+    for (const lot of lots) {
+      const disposals = lot.disposals.filter((disposal: any) =>
+        inYear(disposal.disposedAt)
+      );
+      const isOpen = lot.remainingQuantity > QUANTITY_EPSILON;
+      // A year filter keeps open lots plus lots sold during that year
+      if (!isOpen && disposals.length === 0) continue;
+
+      const currentPrice = prices[lot.assetId] ?? null;
+      const costBasis = lot.remainingQuantity * lot.costPerUnit;
+      const marketValue =
+        currentPrice !== null ? lot.remainingQuantity * currentPrice : null;
+      const unrealizedGain =
+        marketValue !== null ? marketValue - costBasis : null;
+
+      const disposalViews = disposals.map((disposal: any) =>
+        this.toDisposalView(disposal, lot.acquiredAt)
+      );
+      const realizedGain = disposalViews.reduce(
+        (sum, disposal) => sum + disposal.realizedGain,
+        0
+      );
+
+      totals.costBasis += costBasis;
+      totals.marketValue += marketValue ?? 0;
+      totals.unrealizedGain += unrealizedGain ?? 0;
+      totals.realizedGain += realizedGain;
+      for (const disposal of disposalViews) {
+        if (disposal.term === "long") {
+          totals.realizedLongTerm += disposal.realizedGain;
+        } else {
+          totals.realizedShortTerm += disposal.realizedGain;
+        }
+      }
+
+      const summary = assets.get(lot.assetId) ?? {
+        assetId: lot.assetId,
+        assetSymbol: lot.asset.symbol,
+        openLots: 0,
+        openQuantity: 0,
+        costBasis: 0,
+        marketValue: currentPrice !== null ? 0 : null,
+        unrealizedGain: currentPrice !== null ? 0 : null,
+        realizedGain: 0,
+      };
+      if (isOpen) {
+        summary.openLots += 1;
+        summary.openQuantity += lot.remainingQuantity;
+      }
+      summary.costBasis += costBasis;
+      if (summary.marketValue !== null && marketValue !== null) {
+        summary.marketValue += marketValue;
+      }
+      if (summary.unrealizedGain !== null && unrealizedGain !== null) {
+        summary.unrealizedGain += unrealizedGain;
+      }
+      summary.realizedGain += realizedGain;
+      assets.set(lot.assetId, summary);
+
+      views.push({
+        id: lot.id,
+        assetId: lot.assetId,
+        assetSymbol: lot.asset.symbol,
+        assetName: lot.asset.name,
+        source: lot.source,
+        sourceId: lot.sourceId,
+        acquiredAt: lot.acquiredAt.toISOString(),
+        closedAt: lot.closedAt ? lot.closedAt.toISOString() : null,
+        quantity: lot.quantity,
+        remainingQuantity: lot.remainingQuantity,
+        costPerUnit: lot.costPerUnit,
+        costBasis,
+        currentPrice,
+        marketValue,
+        unrealizedGain,
+        realizedGain,
+        disposals: disposalViews,
+      });
+    }
+
+    return {
+      portfolioId,
+      lotReliefMethod: (portfolio.lotReliefMethod as LotReliefMethod) || "fifo",
+      year,
+      lots: views,
+      assets: Array.from(assets.values()).sort((a, b) =>
+        a.assetSymbol.localeCompare(b.assetSymbol)
+      ),
+      totals,
+    };
+  }
+
+  /**
+   * Bring the open lots of an asset in line with a new position quantity
+   * Missing units open a lot at `price`, extra units are relieved at `price`
+   * @returns Average cost of the open lots (new avgPrice), or null if none are open
+   */
+  async syncPosition(
+    portfolioId: string,
+    assetId: string,
+    quantity: number,
+    price: number,
+    change: LotChange
+  ): Promise<number | null> {
+    const openQuantity = this.sumRemaining(
+      await this.findOpenLots(portfolioId, assetId)
+    );
+    const difference = quantity - openQuantity;
+
+    if (difference > QUANTITY_EPSILON) {
+      await this.openLot(portfolioId, assetId, difference, price, change);
+    } else if (difference < -QUANTITY_EPSILON) {
+      await this.relieveLots(portfolioId, assetId, -difference, price, change);
+    }
+
+    return this.getCostBasis(portfolioId, assetId);
+  }
+
+  /**
+   * Open an 'opening' lot for the part of a position not covered by lots
+   * (positions held before lots were tracked). Never relieves lots.
+   */
+  async ensureOpeningLot(
+    portfolioId: string,
+    assetId: string,
+    quantity: number,
+    avgPrice: number,
+    acquiredAt: Date
+  ): Promise<void> {
+    const openQuantity = this.sumRemaining(
+      await this.findOpenLots(portfolioId, assetId)
+    );
+    const uncovered = quantity - openQuantity;
+    if (uncovered > QUANTITY_EPSILON) {
+      await this.openLot(portfolioId, assetId, uncovered, avgPrice, {
+        source: "opening",
+        date: acquiredAt,
+      });
+    }
+  }
+
+  /**
+   * Open a new lot
+   * @param costPerUnit - Price paid per unit, including fees
+   */
+  async openLot(
+    portfolioId: string,
+    assetId: string,
+    quantity: number,
+    costPerUnit: number,
+    change: LotChange
+  ): Promise<void> {
+    await this.prisma.taxLot.create({
+      data: {
+        portfolioId,
+        assetId,
+        source: change.source,
+        sourceId: change.sourceId ?? null,
+        quantity,
+        remainingQuantity: quantity,
+        costPerUnit,
+        acquiredAt: change.date ?? new Date(),
+      },
+    });
+  }
+
+  /**
+   * Relieve open lots for a sell, in the order given by the relief method
+   * @param proceedsPerUnit - Price received per unit, net of fees
+   * @returns Realized gain of the sell
+   */
+  async relieveLots(
+    portfolioId: string,
+    assetId: string,
+    quantity: number,
+    proceedsPerUnit: number,
+    change: LotChange
+  ): Promise<number> {
+    const lots = await this.getReliefOrder(portfolioId, assetId, change.lotIds);
+    const disposedAt = change.date ?? new Date();
+    const { reliefs, realizedGain, uncovered } = allocateRelief(
+      lots,
+      quantity,
+      proceedsPerUnit
+    );
+
+    for (const relief of reliefs) {
+      await this.prisma.taxLotDisposal.create({
+        data: {
+          lotId: relief.lot.id,
+          portfolioId,
+          source: change.source,
+          sourceId: change.sourceId ?? null,
+          quantity: relief.quantity,
+          costPerUnit: relief.lot.costPerUnit,
+          proceedsPerUnit,
+          realizedGain: relief.realizedGain,
+          disposedAt,
+        },
+      });
+      await this.prisma.taxLot.update({
+        where: { id: relief.lot.id },
+        data: {
+          remainingQuantity: relief.remainingQuantity,
+          closedAt: relief.remainingQuantity > 0 ? null : disposedAt,
+        },
+      });
+    }
+
+    if (uncovered > 0) {
+      console.warn(
+        `[TaxLots] Sold ${uncovered} units of asset ${assetId} not covered by open lots`
+      );
+    }
+
+    return realizedGain;
+  }
+
+  /**
+   * Undo everything a trade did to the lots: disposals are given back to
+   * their lots and lots opened by the trade are deleted
+   * Used when fills replace the proposal, when a rebalance is reverted and
+   * when a trade is reversed
+   * @param sourceIds - RebalancePosition IDs, or Trade IDs of other trades
+   */
+  async reverseSource(sourceIds: string[]): Promise<void> {
+    if (sourceIds.length === 0) return;
+
+    const disposals = await this.prisma.taxLotDisposal.findMany({
+      where: { sourceId: { in: sourceIds } },
+    });
+    for (const disposal of disposals) {
+      await this.prisma.taxLot.update({
+        where: { id: disposal.lotId },
+        data: {
+          remainingQuantity: { increment: disposal.quantity },
+          closedAt: null,
+        },
+      });
+    }
+
+    await this.prisma.taxLotDisposal.deleteMany({
+      where: { sourceId: { in: sourceIds } },
+    });
+    await this.prisma.taxLot.deleteMany({
+      where: { sourceId: { in: sourceIds } },
+    });
+  }
+
+  /**
+   * Whether any lot was opened or relieved by a source
+   */
+  async hasSource(sourceId: string): Promise<boolean> {
+    const [lots, disposals] = await Promise.all([
+      this.prisma.taxLot.count({ where: { sourceId } }),
+      this.prisma.taxLotDisposal.count({ where: { sourceId } }),
+    ]);
+    return lots + disposals > 0;
+  }
+
+  /**
+   * Whether lots opened by a source were relieved by other sources since
+   * (reversing the source would drop those disposals with its lots)
+   */
+  async isRelievedByOthers(sourceId: string): Promise<boolean> {
+    const disposals = await this.prisma.taxLotDisposal.count({
+      where: {
+        lot: { sourceId },
+        OR: [{ sourceId: null }, { sourceId: { not: sourceId } }],
+      },
+    });
+    return disposals > 0;
+  }
+
+  /**
+   * Check that a lot selection can be used for a sell of this asset
+   * Lots relieved by `sourceId` count as open, since re-recording a fill
+   * gives them back first. Throws BadRequestException otherwise.
+   */
+  async validateLotSelection(
+    portfolioId: string,
+    assetId: string,
+    lotIds: string[],
+    sourceId?: string
+  ): Promise<void> {
+    if ((await this.getReliefMethod(portfolioId)) !== "specific") {
+      throw new BadRequestException(
+        "Choosing lots requires the 'specific' lot relief method"
+      );
+    }
+
+    const lots = await this.prisma.taxLot.findMany({
+      where: {
+        portfolioId,
+        assetId,
+        OR: [
+          { remainingQuantity: { gt: QUANTITY_EPSILON } },
+          ...(sourceId ? [{ disposals: { some: { sourceId } } }] : []),
+        ],
+      },
+      select: { id: true },
+    });
+    const available = new Set(lots.map((lot: any) => lot.id));
+    for (const lotId of lotIds) {
+      if (!available.has(lotId)) {
+        throw new BadRequestException(
+          `Lot ${lotId} is not an open lot of asset ${assetId}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Average cost per unit of the open lots of an asset
+   */
+  async getCostBasis(
+    portfolioId: string,
+    assetId: string
+  ): Promise<number | null> {
+    const lots = await this.findOpenLots(portfolioId, assetId);
+    const quantity = this.sumRemaining(lots);
+    if (quantity <= QUANTITY_EPSILON) return null;
+
+    const cost = lots.reduce(
+      (sum: number, lot: any) => sum + lot.remainingQuantity * lot.costPerUnit,
+      0
+    );
+    return cost / quantity;
+  }
+
+  /**
+   * Open lots in relief order (see orderLotsForRelief)
+   * Throws BadRequestException for chosen lots that cannot be used
+   */
+  private async getReliefOrder(
+    portfolioId: string,
+    assetId: string,
+    lotIds?: string[]
+  ): Promise<any[]> {
+    const method = await this.getReliefMethod(portfolioId);
+    const openLots = await this.findOpenLots(portfolioId, assetId);
+
+    if (lotIds && lotIds.length > 0) {
+      if (method !== "specific") {
+        throw new BadRequestException(
+          "Choosing lots requires the 'specific' lot relief method"
+        );
+      }
+
+      for (const lotId of lotIds) {
+        if (!openLots.some((open: any) => open.id === lotId)) {
+          throw new BadRequestException(
+            `Lot ${lotId} is not an open lot of asset ${assetId}`
+          );
+        }
+      }
+    }
+
+    return orderLotsForRelief(openLots, method, lotIds);
+  }
+
+  private async getReliefMethod(portfolioId: string): Promise<LotReliefMethod> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { lotReliefMethod: true },
+    });
+    return (portfolio?.lotReliefMethod as LotReliefMethod) || "fifo";
+  }
+
+  private async findOpenLots(portfolioId: string, assetId: string) {
+    return this.prisma.taxLot.findMany({
+      where: {
+        portfolioId,
+        assetId,
+        remainingQuantity: { gt: QUANTITY_EPSILON },
+      },
+      orderBy: [{ acquiredAt: "asc" }, { createdAt: "asc" }],
+    });
+  }
+
+  private sumRemaining(lots: any[]): number {
+    return lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  }
+
+  private toDisposalView(disposal: any, acquiredAt: Date): TaxLotDisposalView {
+    const holdingDays = Math.floor(
+      (disposal.disposedAt.getTime() - acquiredAt.getTime()) /
+        (24 * 60 * 60 * 1000)
+    );
+
+    return {
+      id: disposal.id,
+      source: disposal.source,
+      sourceId: disposal.sourceId,
+      disposedAt: disposal.disposedAt.toISOString(),
+      quantity: disposal.quantity,
+      costPerUnit: disposal.costPerUnit,
+      proceedsPerUnit: disposal.proceedsPerUnit,
+      costBasis: disposal.quantity * disposal.costPerUnit,
+      proceeds: disposal.quantity * disposal.proceedsPerUnit,
+      realizedGain: disposal.realizedGain,
+      holdingDays,
+      term: holdingDays > LONG_TERM_DAYS ? "long" : "short",
+    };
+  }
+
+  private async getLatestPrices(
+    assetIds: string[]
+  ): Promise<Record<string, number>> {
+    const prices: Record<string, number> = {};
+    for (const assetId of assetIds) {
+      const latest = await this.prisma.assetPrice.findFirst({
+        where: { assetId },
+        orderBy: { date: "desc" },
+      });
+      if (latest) {
+        prices[assetId] = latest.close;
+      }
+    }
+    return prices;
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+import { TRADE_SIDES, TradeSide } from "../ledger";
+
+/**
+ * A trade entered by hand to correct the ledger
+ */
+export class RecordTradeDto {
+  @IsString()
+  @IsNotEmpty()
+  symbol!: string;
+
+  @IsIn(TRADE_SIDES)
+  side!: TradeSide;
+
+  @IsNumber()
+  @IsPositive()
+  quantity!: number;
+
+  @IsNumber()
+  @IsPositive()
+  price!: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fee?: number; // Default 0
+
+  @IsOptional()
+  @IsDateString()
+  executedAt?: string; // Default now
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+/**
+ * Reason for reversing a trade
+ */
+export class ReverseTradeDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
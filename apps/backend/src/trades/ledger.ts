@@ -0,0 +1,217 @@
+/**
+ * Trade ledger
+ * Positions are rebuilt by replaying the trades of an asset in execution
+ * order at average cost. Trades are never edited: a mistake is undone by a
+ * reversal entry, and both the reversed trade and its reversal are left out
+ * of the replay. An average cost set by hand is an 'adjustment' entry, not
+ * a trade. Kept free of Nest and Prisma imports.
+ */
+
+/**
+ * Quantities below this are treated as zero
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+export const TRADE_SIDES = ["buy", "sell"] as const;
+export type TradeSide = (typeof TRADE_SIDES)[number];
+
+/**
+ * Side of a ledger entry
+ * 'adjustment' entries set the average cost of the held units to `price`
+ * (`quantity` records the units held); they move no units and realize nothing
+ */
+export type LedgerEntrySide = TradeSide | "adjustment";
+
+/**
+ * Where a trade comes from
+ * 'opening' trades hold the positions that existed before the ledger,
+ * 'correction' trades are entered by hand to fix the ledger
+ */
+export type TradeSource =
+  "opening" | "manual" | "rebalance" | "import" | "correction";
+
+export interface LedgerTrade {
+  id: string;
+  assetId: string;
+  side: string;
+  quantity: number; // Units, always positive
+  price: number;
+  fee: number;
+  executedAt: Date;
+  createdAt: Date;
+  reversesTradeId: string | null;
+}
+
+/**
+ * Position of one asset rebuilt from its trades
+ */
+export interface LedgerPosition {
+  assetId: string;
+  quantity: number;
+  avgPrice: number; // Average cost per unit, buy fees included (last one once closed)
+  costBasis: number; // quantity × avgPrice
+  realizedPnl: number; // Sells at (price - avgPrice), net of sell fees
+  fees: number;
+  tradeCount: number; // Trades replayed (adjustments not counted)
+}
+
+/**
+ * A ledger entry needed to move a position to a target
+ */
+export interface TradeInstruction {
+  side: LedgerEntrySide;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Trades that count: reversed trades and their reversals are dropped, the
+ * rest is sorted by execution time (then entry time, then ID)
+ */
+export function getEffectiveTrades<T extends LedgerTrade>(trades: T[]): T[] {
+  const reversed = new Set(
+    trades
+      .filter((trade) => trade.reversesTradeId)
+      .map((trade) => trade.reversesTradeId as string)
+  );
+
+  return trades
+    .filter((trade) => !trade.reversesTradeId && !reversed.has(trade.id))
+    .sort(
+      (a, b) =>
+        a.executedAt.getTime() - b.executedAt.getTime() ||
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        a.id.localeCompare(b.id)
+    );
+}
+
+/**
+ * Replay trades into positions at average cost
+ * Sells beyond the held quantity are capped at it (see findOversoldTrade)
+ * @param trades - Trades of one portfolio, in any order (reversals included)
+ */
+export function replayTrades(trades: LedgerTrade[]): LedgerPosition[] {
+  const positions = new Map<string, LedgerPosition>();
+
+  for (const trade of getEffectiveTrades(trades)) {
+    const position = positions.get(trade.assetId) ?? {
+      assetId: trade.assetId,
+      quantity: 0,
+      avgPrice: 0,
+      costBasis: 0,
+      realizedPnl: 0,
+      fees: 0,
+      tradeCount: 0,
+    };
+
+    if (trade.side === "adjustment") {
+      position.avgPrice = trade.price;
+      position.costBasis = position.quantity * trade.price;
+      positions.set(trade.assetId, position);
+      continue;
+    }
+
+    position.tradeCount += 1;
+    position.fees += trade.fee;
+
+    if (trade.side === "buy") {
+      position.costBasis += trade.quantity * trade.price + trade.fee;
+      position.quantity += trade.quantity;
+      position.avgPrice = position.costBasis / position.quantity;
+    } else {
+      const quantity = Math.min(trade.quantity, position.quantity);
+      position.realizedPnl +=
+        quantity * (trade.price - position.avgPrice) - trade.fee;
+      position.quantity -= quantity;
+      position.costBasis = position.quantity * position.avgPrice;
+      if (position.quantity <= QUANTITY_EPSILON) {
+        position.quantity = 0;
+        position.costBasis = 0;
+      }
+    }
+
+    positions.set(trade.assetId, position);
+  }
+
+  return Array.from(positions.values());
+}
+
+/**
+ * First sell that exceeds the quantity held when it is replayed (replay
+ * would cap it), e.g. after reversing the buy it depended on
+ * @param trades - Trades in any order (reversals included)
+ * @returns null if every sell is covered
+ */
+export function findOversoldTrade<T extends LedgerTrade>(
+  trades: T[]
+): T | null {
+  const quantities = new Map<string, number>();
+
+  for (const trade of getEffectiveTrades(trades)) {
+    const quantity = quantities.get(trade.assetId) ?? 0;
+    if (trade.side === "buy") {
+      quantities.set(trade.assetId, quantity + trade.quantity);
+    } else if (trade.side === "sell") {
+      if (trade.quantity > quantity + QUANTITY_EPSILON) return trade;
+      quantities.set(trade.assetId, quantity - trade.quantity);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Entries that take a position from its ledger state to a target quantity
+ * Removed units are sold at `price`. Added units are bought at `price`, or,
+ * with a target avgPrice, at the price it implies
+ * ((qty × avg - oldQty × oldAvg) / addedQty). If the average cost still
+ * differs from the target (e.g. a new avgPrice with the same quantity), an
+ * adjustment sets it, which leaves realized P&L untouched.
+ * @param current - Ledger quantity and avgPrice
+ * @param target - Wanted quantity, and avgPrice if it is set by hand
+ * @param price - Market price of the trade
+ */
+export function getTradesToTarget(
+  current: { quantity: number; avgPrice: number },
+  target: { quantity: number; avgPrice?: number },
+  price: number
+): TradeInstruction[] {
+  const trades: TradeInstruction[] = [];
+  const difference = target.quantity - current.quantity;
+  let avgPrice = current.avgPrice;
+
+  if (difference > QUANTITY_EPSILON) {
+    let buyPrice = price;
+    if (target.avgPrice !== undefined) {
+      const impliedPrice =
+        (target.quantity * target.avgPrice -
+          current.quantity * current.avgPrice) /
+        difference;
+      buyPrice =
+        Number.isFinite(impliedPrice) && impliedPrice > 0
+          ? impliedPrice
+          : target.avgPrice;
+    }
+    trades.push({ side: "buy", quantity: difference, price: buyPrice });
+    avgPrice =
+      (current.quantity * current.avgPrice + difference * buyPrice) /
+      target.quantity;
+  } else if (difference < -QUANTITY_EPSILON) {
+    trades.push({ side: "sell", quantity: -difference, price });
+  }
+
+  if (
+    target.avgPrice !== undefined &&
+    target.avgPrice > 0 &&
+    target.quantity > QUANTITY_EPSILON &&
+    Math.abs(avgPrice - target.avgPrice) > 1e-6 * Math.max(1, target.avgPrice)
+  ) {
+    trades.push({
+      side: "adjustment",
+      quantity: target.quantity,
+      price: target.avgPrice,
+    });
+  }
+
+  return trades;
+}
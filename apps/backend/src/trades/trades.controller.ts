@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+
+import { AuthGuard } from "../auth/auth.guard";
+
+import { RecordTradeDto, ReverseTradeDto } from "./dto/record-trade.dto";
+import { TradesQueryDto } from "./dto/trades-query.dto";
+import {
+  LedgerReport,
+  TradeView,
+  TradesPage,
+  TradesService,
+} from "./trades.service";
+
+/**
+ * Controller for the trade ledger
+ */
+@Controller("portfolios/:portfolioId/trades")
+@UseGuards(AuthGuard)
+export class TradesController {
+  constructor(private readonly tradesService: TradesService) {}
+
+  /**
+   * List trades (newest first), reversal entries included
+   * GET /api/portfolios/:portfolioId/trades?symbol=SPY&page=1&pageSize=50
+   *
+   * @param portfolioId - Portfolio ID
+   * @param query - Optional symbol and pagination
+   * @returns A page of trades
+   */
+  @Get()
+  async getTrades(
+    @Param("portfolioId") portfolioId: string,
+    @Query() query: TradesQueryDto
+  ): Promise<TradesPage> {
+    return this.tradesService.getTrades(portfolioId, query);
+  }
+
+  /**
+   * Positions, average cost and realized P&L rebuilt from the trades
+   * GET /api/portfolios/:portfolioId/trades/ledger
+   *
+   * @param portfolioId - Portfolio ID
+   * @returns Ledger positions compared with the stored positions
+   */
+  @Get("ledger")
+  async getLedger(
+    @Param("portfolioId") portfolioId: string
+  ): Promise<LedgerReport> {
+    return this.tradesService.getLedger(portfolioId);
+  }
+
+  /**
+   * Enter a correction trade
+   * POST /api/portfolios/:portfolioId/trades
+   *
+   * @param portfolioId - Portfolio ID
+   * @param dto - Symbol, side, quantity, price, fee and execution time
+   * @returns The recorded trade
+   */
+  @Post()
+  async addTrade(
+    @Param("portfolioId") portfolioId: string,
+    @Body() dto: RecordTradeDto
+  ): Promise<TradeView> {
+    return this.tradesService.addTrade(portfolioId, dto);
+  }
+
+  /**
+   * Rewrite the stored positions from the ledger
+   * POST /api/portfolios/:portfolioId/trades/rebuild
+   *
+   * @param portfolioId - Portfolio ID
+   * @returns The ledger after the rebuild
+   */
+  @Post("rebuild")
+  async rebuild(
+    @Param("portfolioId") portfolioId: string
+  ): Promise<LedgerReport> {
+    return this.tradesService.rebuild(portfolioId);
+  }
+
+  /**
+   * Undo a trade with a reversal entry
+   * POST /api/portfolios/:portfolioId/trades/:tradeId/reverse
+   *
+   * @param portfolioId - Portfolio ID
+   * @param tradeId - Trade to reverse
+   * @param dto - Optional reason
+   * @returns The reversal entry
+   */
+  @Post(":tradeId/reverse")
+  async reverseTrade(
+    @Param("portfolioId") portfolioId: string,
+    @Param("tradeId") tradeId: string,
+    @Body() dto: ReverseTradeDto
+  ): Promise<TradeView> {
+    return this.tradesService.reverseTrade(portfolioId, tradeId, dto);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from "@nestjs/common";
+
+import { AuthModule } from "../auth/auth.module";
+import { FxModule } from "../fx/fx.module";
+import { PositionHistoryModule } from "../position-history/position-history.module";
+import { TaxLotsModule } from "../tax-lots/tax-lots.module";
+
+import { TradesController } from "./trades.controller";
+import { TradesService } from "./trades.service";
+
+/**
+ * Module for the trade ledger that positions are derived from
+ */
+@Module({
+  imports: [AuthModule, FxModule, TaxLotsModule, PositionHistoryModule],
+  controllers: [TradesController],
+  providers: [TradesService],
+  exports: [TradesService],
+})
+export class TradesModule {}
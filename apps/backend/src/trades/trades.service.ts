@@ -0,0 +1,738 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { PortfolioPosition, Trade } from "@prisma/client";
+
+import { FxService } from "../fx/fx.service";
+import { PositionSnapshotSource } from "../position-history/holdings";
+import { PositionHistoryService } from "../position-history/position-history.service";
+import { PrismaService } from "../prisma/prisma.service";
+import { TaxLotsService } from "../tax-lots/tax-lots.service";
+
+import { RecordTradeDto, ReverseTradeDto } from "./dto/record-trade.dto";
+import { TradesQueryDto } from "./dto/trades-query.dto";
+import {
+  LedgerEntrySide,
+  LedgerPosition,
+  TradeSide,
+  TradeSource,
+  findOversoldTrade,
+  getEffectiveTrades,
+  getTradesToTarget,
+  replayTrades,
+} from "./ledger";
+
+/**
+ * Quantities below this are treated as zero
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Context of the trades that move a position
+ */
+export interface TradeChange {
+  source: TradeSource;
+  sourceId?: string | null; // RebalancePosition ID for rebalance trades
+  executedAt?: Date;
+  note?: string | null;
+}
+
+/**
+ * How derived positions are written back to PortfolioPosition
+ */
+export interface SyncOptions {
+  markPrices?: Map<string, number>; // Quote-currency price for exposure (default latest close, then avgPrice)
+  removeClosed?: boolean; // Delete rows left at quantity 0 (default keep)
+  snapshot?: { source: PositionSnapshotSource; sourceId?: string | null };
+}
+
+export interface TradeView {
+  id: string;
+  assetId: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  value: number; // quantity × price
+  executedAt: string;
+  source: string;
+  sourceId: string | null;
+  reversesTradeId: string | null;
+  reversedBy: string | null; // ID of the reversal entry
+  note: string | null;
+  createdAt: string;
+}
+
+export interface TradesPage {
+  portfolioId: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  trades: TradeView[];
+}
+
+export interface LedgerPositionView extends LedgerPosition {
+  symbol: string;
+  positionQuantity: number | null; // Stored PortfolioPosition quantity
+  positionAvgPrice: number | null;
+  inSync: boolean;
+}
+
+export interface LedgerReport {
+  portfolioId: string;
+  positions: LedgerPositionView[];
+  totals: {
+    costBasis: number;
+    realizedPnl: number;
+    fees: number;
+  };
+  inSync: boolean;
+}
+
+/**
+ * Service for the trade ledger, the source of truth of PortfolioPosition
+ * Writers append trades and then call syncPositions to rebuild the rows
+ */
+@Injectable()
+export class TradesService {
+  constructor(
+    private prisma: PrismaService,
+    private taxLotsService: TaxLotsService,
+    private positionHistoryService: PositionHistoryService,
+    private fxService: FxService
+  ) {}
+
+  /**
+   * Open the ledger of a position held without trades (rows written before
+   * the ledger, e.g. by seed scripts) with an 'opening' buy
+   */
+  async ensureOpeningTrade(
+    portfolioId: string,
+    assetId: string
+  ): Promise<void> {
+    const trade = await this.prisma.trade.findFirst({
+      where: { portfolioId, assetId },
+      select: { id: true },
+    });
+    if (trade) return;
+
+    const position = await this.prisma.portfolioPosition.findUnique({
+      where: { portfolioId_assetId: { portfolioId, assetId } },
+    });
+    if (!position || position.quantity <= QUANTITY_EPSILON) return;
+
+    await this.prisma.trade.create({
+      data: {
+        portfolioId,
+        assetId,
+        side: "buy",
+        quantity: position.quantity,
+        price: position.avgPrice,
+        executedAt: position.updatedAt,
+        source: "opening",
+      },
+    });
+  }
+
+  /**
+   * Position of one asset rebuilt from its trades
+   */
+  async getLedgerPosition(
+    portfolioId: string,
+    assetId: string
+  ): Promise<LedgerPosition> {
+    const trades = await this.prisma.trade.findMany({
+      where: { portfolioId, assetId },
+    });
+    return (
+      replayTrades(trades)[0] ?? {
+        assetId,
+        quantity: 0,
+        avgPrice: 0,
+        costBasis: 0,
+        realizedPnl: 0,
+        fees: 0,
+        tradeCount: 0,
+      }
+    );
+  }
+
+  /**
+   * Append the trades that take a position to a target quantity (and
+   * avgPrice, when it is set by hand). See getTradesToTarget.
+   * @param price - Market price of the trade
+   * @returns The entries appended (at most one buy or sell)
+   */
+  async tradeToTarget(
+    portfolioId: string,
+    assetId: string,
+    target: { quantity: number; avgPrice?: number },
+    price: number,
+    change: TradeChange
+  ): Promise<Trade[]> {
+    await this.ensureOpeningTrade(portfolioId, assetId);
+    const current = await this.getLedgerPosition(portfolioId, assetId);
+    const executedAt = change.executedAt ?? new Date();
+
+    const trades: Trade[] = [];
+    for (const trade of getTradesToTarget(current, target, price)) {
+      trades.push(
+        await this.createTrade(portfolioId, assetId, trade.side, {
+          ...change,
+          quantity: trade.quantity,
+          price: trade.price,
+          executedAt,
+        })
+      );
+    }
+    return trades;
+  }
+
+  /**
+   * Append one trade
+   */
+  async recordTrade(
+    portfolioId: string,
+    assetId: string,
+    side: TradeSide,
+    quantity: number,
+    price: number,
+    fee: number,
+    change: TradeChange
+  ) {
+    await this.ensureOpeningTrade(portfolioId, assetId);
+    return this.createTrade(portfolioId, assetId, side, {
+      ...change,
+      quantity,
+      price,
+      fee,
+    });
+  }
+
+  /**
+   * Append reversal entries for the trades of a source that are still live
+   * Used when fills replace the proposal and when a rebalance is reverted
+   * @param sourceIds - RebalancePosition IDs
+   */
+  async reverseSource(portfolioId: string, sourceIds: string[]): Promise<void> {
+    if (sourceIds.length === 0) return;
+
+    const trades = await this.prisma.trade.findMany({
+      where: {
+        portfolioId,
+        sourceId: { in: sourceIds },
+        reversesTradeId: null,
+      },
+    });
+    const reversed = await this.prisma.trade.findMany({
+      where: { reversesTradeId: { in: trades.map((t) => t.id) } },
+      select: { reversesTradeId: true },
+    });
+    const done = new Set(reversed.map((t) => t.reversesTradeId));
+
+    for (const trade of trades.filter((t) => !done.has(t.id))) {
+      await this.createReversal(trade, null);
+    }
+  }
+
+  /**
+   * Rebuild PortfolioPosition rows of some assets from the ledger
+   * Exposure is the mark price converted into the portfolio's base currency
+   * @param portfolioId - Portfolio ID
+   * @param assetIds - Assets to rebuild
+   * @param options - Mark prices, closed rows and position snapshot
+   * @returns The rows written (closed rows removed are left out)
+   */
+  async syncPositions(
+    portfolioId: string,
+    assetIds: string[],
+    options: SyncOptions = {}
+  ): Promise<PortfolioPosition[]> {
+    const trades = await this.prisma.trade.findMany({
+      where: { portfolioId, assetId: { in: assetIds } },
+    });
+    const ledger = new Map(replayTrades(trades).map((p) => [p.assetId, p]));
+    const portfolio = await this.prisma.portfolio.findUniqueOrThrow({
+      where: { id: portfolioId },
+      select: { baseCurrency: true },
+    });
+    const valuation = await this.fxService.getValuation(
+      assetIds,
+      portfolio.baseCurrency
+    );
+
+    const positions: PortfolioPosition[] = [];
+    for (const assetId of assetIds) {
+      const quantity = ledger.get(assetId)?.quantity ?? 0;
+      const avgPrice = ledger.get(assetId)?.avgPrice ?? 0;
+
+      if (quantity <= QUANTITY_EPSILON && options.removeClosed) {
+        await this.prisma.portfolioPosition.deleteMany({
+          where: { portfolioId, assetId },
+        });
+        continue;
+      }
+
+      const markPrice =
+        options.markPrices?.get(assetId) ??
+        valuation.prices[assetId] ??
+        avgPrice;
+      const exposure = quantity * markPrice * (valuation.fxRates[assetId] ?? 1);
+      positions.push(
+        await this.prisma.portfolioPosition.upsert({
+          where: { portfolioId_assetId: { portfolioId, assetId } },
+          create: { portfolioId, assetId, quantity, avgPrice, exposure },
+          update: { quantity, avgPrice, exposure },
+        })
+      );
+    }
+
+    if (options.snapshot) {
+      await this.positionHistoryService.recordSnapshots(
+        portfolioId,
+        assetIds.map((assetId) => ({
+          assetId,
+          quantity: ledger.get(assetId)?.quantity ?? 0,
+          avgPrice: ledger.get(assetId)?.avgPrice ?? 0,
+        })),
+        options.snapshot.source,
+        options.snapshot.sourceId ?? null
+      );
+    }
+
+    return positions;
+  }
+
+  /**
+   * Get a page of trades (newest first), reversals included
+   * @param portfolioId - Portfolio ID
+   * @param query - Optional symbol, page (1-based) and pageSize
+   */
+  async getTrades(
+    portfolioId: string,
+    query: TradesQueryDto
+  ): Promise<TradesPage> {
+    await this.assertPortfolio(portfolioId);
+
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    const where = {
+      portfolioId,
+      ...(query.symbol ? { asset: { symbol: query.symbol } } : {}),
+    };
+
+    const [total, trades] = await Promise.all([
+      this.prisma.trade.count({ where }),
+      this.prisma.trade.findMany({
+        where,
+        orderBy: [{ executedAt: "desc" }, { createdAt: "desc" }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { asset: true },
+      }),
+    ]);
+    const reversals = await this.prisma.trade.findMany({
+      where: { reversesTradeId: { in: trades.map((t) => t.id) } },
+      select: { id: true, reversesTradeId: true },
+    });
+    const reversedBy = new Map(
+      reversals.map((r) => [r.reversesTradeId as string, r.id])
+    );
+
+    return {
+      portfolioId,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+      trades: trades.map((trade) =>
+        this.toTradeView(trade, reversedBy.get(trade.id) ?? null)
+      ),
+    };
+  }
+
+  /**
+   * Positions, average cost and realized P&L rebuilt from the ledger,
+   * compared with the stored positions
+   * @param portfolioId - Portfolio ID
+   */
+  async getLedger(portfolioId: string): Promise<LedgerReport> {
+    await this.assertPortfolio(portfolioId);
+
+    const [trades, stored] = await Promise.all([
+      this.prisma.trade.findMany({ where: { portfolioId } }),
+      this.prisma.portfolioPosition.findMany({ where: { portfolioId } }),
+    ]);
+    const ledger = replayTrades(trades);
+    const storedByAsset = new Map(stored.map((p) => [p.assetId, p]));
+    const assetIds = Array.from(
+      new Set([...ledger.map((p) => p.assetId), ...storedByAsset.keys()])
+    );
+    const assets = await this.prisma.asset.findMany({
+      where: { id: { in: assetIds } },
+      select: { id: true, symbol: true },
+    });
+    const symbols = new Map(assets.map((a) => [a.id, a.symbol]));
+
+    const positions = assetIds.map((assetId) => {
+      const position = ledger.find((p) => p.assetId === assetId) ?? {
+        assetId,
+        quantity: 0,
+        avgPrice: 0,
+        costBasis: 0,
+        realizedPnl: 0,
+        fees: 0,
+        tradeCount: 0,
+      };
+      const row = storedByAsset.get(assetId);
+      const storedQuantity = row?.quantity ?? 0;
+      return {
+        ...position,
+        symbol: symbols.get(assetId) ?? assetId,
+        positionQuantity: row ? row.quantity : null,
+        positionAvgPrice: row ? row.avgPrice : null,
+        inSync:
+          Math.abs(storedQuantity - position.quantity) <= QUANTITY_EPSILON &&
+          (position.quantity <= QUANTITY_EPSILON ||
+            Math.abs((row?.avgPrice ?? 0) - position.avgPrice) <= 1e-6),
+      };
+    });
+
+    return {
+      portfolioId,
+      positions: positions.sort((a, b) => a.symbol.localeCompare(b.symbol)),
+      totals: {
+        costBasis: positions.reduce((sum, p) => sum + p.costBasis, 0),
+        realizedPnl: positions.reduce((sum, p) => sum + p.realizedPnl, 0),
+        fees: positions.reduce((sum, p) => sum + p.fees, 0),
+      },
+      inSync: positions.every((p) => p.inSync),
+    };
+  }
+
+  /**
+   * Enter a correction trade by hand and rebuild the position
+   * The trade opens (buy) or relieves (sell) tax lots of its own
+   * @param portfolioId - Portfolio ID
+   * @param dto - Trade
+   */
+  async addTrade(portfolioId: string, dto: RecordTradeDto): Promise<TradeView> {
+    await this.assertPortfolio(portfolioId);
+
+    const asset = await this.prisma.asset.findUnique({
+      where: { symbol: dto.symbol },
+    });
+    if (!asset) {
+      throw new NotFoundException(`Asset ${dto.symbol} not found`);
+    }
+
+    // Trade, lots and position in one transaction, so a failure part-way
+    // cannot leave the ledger and the lots out of step
+    const trade = await this.prisma.runInTransaction(async () => {
+      await this.ensureOpeningTrade(portfolioId, asset.id);
+      const current = await this.getLedgerPosition(portfolioId, asset.id);
+
+      const fee = dto.fee ?? 0;
+      const executedAt = dto.executedAt ? new Date(dto.executedAt) : new Date();
+
+      // Replay with the trade in place: a sell (possibly backdated) beyond the
+      // units held at its date would be capped, silently rewriting realized
+      // P&L and the average cost
+      const trades = await this.prisma.trade.findMany({
+        where: { portfolioId, assetId: asset.id },
+      });
+      const candidate = {
+        id: "",
+        assetId: asset.id,
+        side: dto.side,
+        quantity: dto.quantity,
+        price: dto.price,
+        fee,
+        executedAt,
+        createdAt: new Date(),
+        reversesTradeId: null,
+      };
+      const oversold = findOversoldTrade([...trades, candidate]);
+      if (oversold === candidate) {
+        throw new BadRequestException(
+          `Cannot sell ${dto.quantity} ${dto.symbol} on ${executedAt.toISOString().slice(0, 10)}: the ledger does not hold that many units then`
+        );
+      }
+      if (oversold && !findOversoldTrade(trades)) {
+        throw new BadRequestException(
+          `This sell would leave the sell of ${oversold.quantity} on ${oversold.executedAt.toISOString().slice(0, 10)} without the units it sold`
+        );
+      }
+
+      const trade = await this.createTrade(portfolioId, asset.id, dto.side, {
+        source: "correction",
+        quantity: dto.quantity,
+        price: dto.price,
+        fee,
+        executedAt,
+        note: dto.note ?? null,
+      });
+
+      // Units held before lots were tracked get an opening lot first
+      const stored = await this.prisma.portfolioPosition.findUnique({
+        where: { portfolioId_assetId: { portfolioId, assetId: asset.id } },
+      });
+      await this.taxLotsService.ensureOpeningLot(
+        portfolioId,
+        asset.id,
+        current.quantity,
+        current.avgPrice,
+        stored?.updatedAt ?? executedAt
+      );
+      const change = {
+        source: "manual" as const,
+        sourceId: trade.id,
+        date: executedAt,
+      };
+      if (dto.side === "buy") {
+        await this.taxLotsService.openLot(
+          portfolioId,
+          asset.id,
+          dto.quantity,
+          (dto.quantity * dto.price + fee) / dto.quantity,
+          change
+        );
+      } else {
+        await this.taxLotsService.relieveLots(
+          portfolioId,
+          asset.id,
+          dto.quantity,
+          (dto.quantity * dto.price - fee) / dto.quantity,
+          change
+        );
+      }
+
+      await this.syncPositions(portfolioId, [asset.id], {
+        snapshot: { source: "manual" },
+      });
+
+      return trade;
+    });
+
+    return this.findTradeView(trade.id);
+  }
+
+  /**
+   * Undo a trade with a reversal entry and rebuild the position
+   * The lots the trade opened or relieved (tagged with its sourceId, or its
+   * own ID when it has none) are undone with it; trades whose lots cannot
+   * be told apart are refused
+   * @param portfolioId - Portfolio ID
+   * @param tradeId - Trade to reverse
+   * @param dto - Optional reason
+   */
+  async reverseTrade(
+    portfolioId: string,
+    tradeId: string,
+    dto: ReverseTradeDto
+  ): Promise<TradeView> {
+    // Reversal, lots and position in one transaction, so a failure part-way
+    // cannot leave the ledger and the lots out of step
+    const reversal = await this.prisma.runInTransaction(async () => {
+      const trade = await this.prisma.trade.findFirst({
+        where: { id: tradeId, portfolioId },
+      });
+      if (!trade) {
+        throw new NotFoundException("Trade not found");
+      }
+      if (trade.reversesTradeId) {
+        throw new BadRequestException("A reversal cannot be reversed");
+      }
+      const existing = await this.prisma.trade.findFirst({
+        where: { reversesTradeId: trade.id },
+      });
+      if (existing) {
+        throw new BadRequestException("Trade was already reversed");
+      }
+
+      // Replay without the trade: a later sell it covered would be capped,
+      // silently rewriting that sell and its realized P&L
+      const trades = await this.prisma.trade.findMany({
+        where: { portfolioId, assetId: trade.assetId },
+      });
+      const oversold = findOversoldTrade(
+        trades.filter((t) => t.id !== trade.id)
+      );
+      if (oversold) {
+        throw new BadRequestException(
+          `Reversing this trade would leave the sell of ${oversold.quantity} on ${oversold.executedAt.toISOString().slice(0, 10)} without the units it sold; reverse that sell first`
+        );
+      }
+
+      // Adjustments move no units, so they own no lots
+      const lotSourceId = trade.sourceId ?? trade.id;
+      if (trade.side !== "adjustment") {
+        const sharesLots = getEffectiveTrades(trades).some(
+          (t) => t.id !== trade.id && t.sourceId === lotSourceId
+        );
+        if (sharesLots) {
+          throw new BadRequestException(
+            "The tax lots of this trade are shared with other trades of the same rebalance; revert the rebalance or re-record its fills instead"
+          );
+        }
+        if (!(await this.taxLotsService.hasSource(lotSourceId))) {
+          throw new BadRequestException(
+            "This trade has no tax lots linked to it; update the position instead"
+          );
+        }
+        if (await this.taxLotsService.isRelievedByOthers(lotSourceId)) {
+          throw new BadRequestException(
+            "The tax lots this trade opened were sold from since; reverse those sells first"
+          );
+        }
+      }
+
+      const reversal = await this.createReversal(trade, dto.note ?? null);
+      if (trade.side !== "adjustment") {
+        await this.taxLotsService.reverseSource([lotSourceId]);
+      }
+
+      await this.syncPositions(portfolioId, [trade.assetId], {
+        snapshot: { source: "manual" },
+      });
+
+      return reversal;
+    });
+
+    return this.findTradeView(reversal.id);
+  }
+
+  /**
+   * Rewrite all positions of a portfolio from the ledger
+   * Positions held without trades get an opening trade first
+   * @param portfolioId - Portfolio ID
+   */
+  async rebuild(portfolioId: string): Promise<LedgerReport> {
+    await this.assertPortfolio(portfolioId);
+
+    const stored = await this.prisma.portfolioPosition.findMany({
+      where: { portfolioId },
+      select: { assetId: true },
+    });
+    for (const position of stored) {
+      await this.ensureOpeningTrade(portfolioId, position.assetId);
+    }
+
+    const traded = await this.prisma.trade.findMany({
+      where: { portfolioId },
+      distinct: ["assetId"],
+      select: { assetId: true },
+    });
+    const assetIds = Array.from(
+      new Set([...stored, ...traded].map((p) => p.assetId))
+    );
+    await this.syncPositions(portfolioId, assetIds, {
+      snapshot: { source: "manual" },
+    });
+
+    console.log(
+      `[TradesService] Rebuilt ${assetIds.length} position(s) of ${portfolioId} from the ledger`
+    );
+
+    return this.getLedger(portfolioId);
+  }
+
+  private async createTrade(
+    portfolioId: string,
+    assetId: string,
+    side: LedgerEntrySide,
+    trade: TradeChange & { quantity: number; price: number; fee?: number }
+  ) {
+    return this.prisma.trade.create({
+      data: {
+        portfolioId,
+        assetId,
+        side,
+        quantity: trade.quantity,
+        price: trade.price,
+        fee: trade.fee ?? 0,
+        executedAt: trade.executedAt ?? new Date(),
+        source: trade.source,
+        sourceId: trade.sourceId ?? null,
+        note: trade.note ?? null,
+      },
+    });
+  }
+
+  /**
+   * Opposite entry of a trade (same side for an adjustment); replay drops both
+   */
+  private async createReversal(trade: Trade, note: string | null) {
+    return this.prisma.trade.create({
+      data: {
+        portfolioId: trade.portfolioId,
+        assetId: trade.assetId,
+        side:
+          trade.side === "adjustment"
+            ? "adjustment"
+            : trade.side === "buy"
+              ? "sell"
+              : "buy",
+        quantity: trade.quantity,
+        price: trade.price,
+        fee: trade.fee,
+        executedAt: new Date(),
+        source: trade.source,
+        sourceId: trade.sourceId,
+        reversesTradeId: trade.id,
+        note,
+      },
+    });
+  }
+
+  private async findTradeView(tradeId: string): Promise<TradeView> {
+    const trade = await this.prisma.trade.findUniqueOrThrow({
+      where: { id: tradeId },
+      include: { asset: true },
+    });
+    const reversal = await this.prisma.trade.findFirst({
+      where: { reversesTradeId: trade.id },
+      select: { id: true },
+    });
+    return this.toTradeView(trade, reversal?.id ?? null);
+  }
+
+  private toTradeView(
+    trade: Trade & { asset: { symbol: string } },
+    reversedBy: string | null
+  ): TradeView {
+    return {
+      id: trade.id,
+      assetId: trade.assetId,
+      symbol: trade.asset.symbol,
+      side: trade.side,
+      quantity: trade.quantity,
+      price: trade.price,
+      fee: trade.fee,
+      value: trade.quantity * trade.price,
+      executedAt: trade.executedAt.toISOString(),
+      source: trade.source,
+      sourceId: trade.sourceId,
+      reversesTradeId: trade.reversesTradeId,
+      reversedBy,
+      note: trade.note,
+      createdAt: trade.createdAt.toISOString(),
+    };
+  }
+
+  private async assertPortfolio(portfolioId: string): Promise<void> {
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { id: true },
+    });
+    if (!portfolio) {
+      throw new NotFoundException("Portfolio not found");
+    }
+  }
+}
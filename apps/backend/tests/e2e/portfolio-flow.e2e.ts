@@ -397,13 +397,14 @@ describe("E2E: Portfolio Flow", () => {
         `/portfolios/${testPortfolioId}/rebalance/proposal`
       );
       expect(proposal.positions).toBeDefined();
+      expect(proposal.proposalId).toBeDefined();
 
       const summaryBefore = await getPortfolioSummary();
 
       // Accept proposal
       await apiRequest(`/portfolios/${testPortfolioId}/rebalance/accept`, {
         method: "POST",
-        body: proposal,
+        body: { proposalId: proposal.proposalId },
       });
 
       // Run metrics-refresh
@@ -0,0 +1,161 @@
+/**
+ * Unit Test: Broker Parsers
+ *
+ * Validates that broker CSV exports are read into holdings and cash
+ * movements, and the diff against current positions used by the import
+ * preview.
+ */
+
+import {
+  applySymbolAliases,
+  diffPositions,
+  genericCsvParser,
+  getCashMovementNote,
+  interactiveBrokersParser,
+  parseAmount,
+  parseCsv,
+} from "../../src/broker-import/broker-parsers";
+
+const MAPPING = {
+  symbol: "Ticker",
+  quantity: "Units",
+  avgPrice: "Avg Cost",
+  date: "Date",
+  amount: "Cash",
+  description: "Memo",
+};
+
+const IBKR_STATEMENT = [
+  "Statement,Header,Field Name,Field Value",
+  'Statement,Data,Period,"September 1, 2026 - September 30, 2026"',
+  "Open Positions,Header,DataDiscriminator,Asset Category,Currency,Symbol,Quantity,Mult,Cost Price,Cost Basis,Close Price,Value,Unrealized P/L,Code",
+  "Open Positions,Data,Summary,Stocks,USD,SPY,12,1,480.5,5766,560,6720,954,",
+  "Open Positions,Data,Lot,Stocks,USD,SPY,12,1,480.5,5766,560,6720,954,",
+  'Open Positions,Data,Summary,Stocks,USD,GLD,"1,250",1,180,225000,190,237500,12500,',
+  "Open Positions,Total,,Stocks,USD,,,,,230766,,244220,13454,",
+  "Deposits & Withdrawals,Header,Currency,Settle Date,Description,Amount",
+  "Deposits & Withdrawals,Data,USD,2026-09-02,Electronic Fund Transfer,1500",
+  "Deposits & Withdrawals,Data,USD,2026-09-20,Disbursement Initiated by John Doe,-400",
+  "Deposits & Withdrawals,Data,Total,,,1100",
+].join("\n");
+
+describe("Broker parsers", () => {
+  it("splits quoted CSV fields", () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n\r\n1,2,3')).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["1", "2", "3"],
+    ]);
+    expect(parseAmount("(1,234.50)")).toBe(-1234.5);
+    expect(parseAmount("1.234,5", ",")).toBe(1234.5);
+    expect(parseAmount("n/a")).toBeNull();
+  });
+
+  it("reads holdings and cash rows from a mapped CSV", () => {
+    const statement = genericCsvParser.parse(
+      [
+        "Ticker,Units,Avg Cost,Date,Cash,Memo",
+        "spy,10,400,,,",
+        "SPY,10,500,,,",
+        "GLD,5,,,,",
+        ",,,15/09/2026,2000,Transfer in",
+      ].join("\n"),
+      MAPPING
+    );
+
+    expect(statement.errors).toEqual([]);
+    expect(statement.holdings).toEqual([
+      { symbol: "SPY", quantity: 20, avgPrice: 450 },
+      { symbol: "GLD", quantity: 5, avgPrice: null },
+    ]);
+    expect(statement.cashMovements).toEqual([
+      { date: "2026-09-15", amount: 2000, description: "Transfer in" },
+    ]);
+  });
+
+  it("reports unknown columns and unreadable quantities", () => {
+    expect(
+      genericCsvParser.parse("Symbol,Units\nSPY,1", MAPPING).errors
+    ).toEqual([
+      'Column "Ticker" (symbol) not found in the header',
+      'Column "Avg Cost" (avgPrice) not found in the header',
+      'Column "Date" (date) not found in the header',
+      'Column "Cash" (amount) not found in the header',
+      'Column "Memo" (description) not found in the header',
+    ]);
+    expect(
+      genericCsvParser.parse("Ticker,Units\nSPY,ten", {
+        symbol: "Ticker",
+        quantity: "Units",
+      }).errors
+    ).toEqual(['Row 2: quantity "ten" is not a valid number']);
+  });
+
+  it("reads an Interactive Brokers activity statement", () => {
+    const statement = interactiveBrokersParser.parse(IBKR_STATEMENT);
+
+    expect(statement.errors).toEqual([]);
+    expect(statement.holdings).toEqual([
+      { symbol: "SPY", quantity: 12, avgPrice: 480.5 },
+      { symbol: "GLD", quantity: 1250, avgPrice: 180 },
+    ]);
+    expect(statement.cashMovements).toEqual([
+      {
+        date: "2026-09-02",
+        amount: 1500,
+        description: "Electronic Fund Transfer",
+      },
+      {
+        date: "2026-09-20",
+        amount: -400,
+        description: "Disbursement Initiated by John Doe",
+      },
+    ]);
+    expect(
+      getCashMovementNote(interactiveBrokersParser, statement.cashMovements[0])
+    ).toBe(
+      "Importado de Interactive Brokers · 2026-09-02 · Electronic Fund Transfer"
+    );
+  });
+
+  it("diffs holdings against current positions", () => {
+    const statement = applySymbolAliases(
+      {
+        holdings: [
+          { symbol: "SPY", quantity: 12, avgPrice: 480 },
+          { symbol: "GLD", quantity: 5, avgPrice: 180 },
+          { symbol: "BTC", quantity: 0.1, avgPrice: null },
+        ],
+        cashMovements: [],
+        errors: [],
+      },
+      { btc: "btc-usd" }
+    );
+    const current = [
+      { symbol: "SPY", quantity: 10, avgPrice: 450 },
+      { symbol: "GLD", quantity: 5, avgPrice: 170 },
+      { symbol: "TLT", quantity: 3, avgPrice: 90 },
+    ];
+
+    expect(
+      diffPositions(current, statement.holdings, false).map((c) => [
+        c.symbol,
+        c.action,
+        c.importedQuantity,
+      ])
+    ).toEqual([
+      ["SPY", "update", 12],
+      ["GLD", "unchanged", 5],
+      ["TLT", "keep", 3],
+      ["BTC-USD", "add", 0.1],
+    ]);
+    expect(diffPositions(current, statement.holdings, true)[2]).toEqual({
+      symbol: "TLT",
+      action: "close",
+      currentQuantity: 3,
+      importedQuantity: 0,
+      quantityChange: -3,
+      currentAvgPrice: 90,
+      importedAvgPrice: null,
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit Test: Deploy Rules
+ *
+ * Validates the JSON rule tree accepted by the configuration endpoint and
+ * how conditions evaluate against strategy engine metrics.
+ */
+
+import {
+  buildDefaultDeployRules,
+  DeployRuleMetrics,
+  evaluateDeployRules,
+  getDeployRuleErrors,
+  parseDeployRules,
+} from "../../src/strategy/deploy-rules";
+
+const METRICS: DeployRuleMetrics = {
+  drawdown: -0.18,
+  weightDeviation: 0.02,
+  volatility: null,
+  trend: -0.05,
+  leverage: 2.4,
+  marginRatio: 0.42,
+  equity: 10000,
+  exposure: 24000,
+  pendingContributions: 0,
+  monthNumber: 4,
+};
+
+describe("Deploy rules", () => {
+  describe("getDeployRuleErrors", () => {
+    it("accepts a nested rule tree", () => {
+      expect(
+        getDeployRuleErrors([
+          {
+            name: "Dip with falling trend",
+            when: {
+              all: [
+                { metric: "drawdown", op: "<=", value: -0.15 },
+                {
+                  any: [
+                    { metric: "trend", op: "<", value: 0 },
+                    { not: { metric: "leverage", op: ">=", value: 3 } },
+                  ],
+                },
+              ],
+            },
+            deployFraction: 1,
+          },
+        ])
+      ).toEqual([]);
+    });
+
+    it("reports every problem with its path", () => {
+      expect(
+        getDeployRuleErrors([
+          {
+            name: "",
+            when: { all: [{ metric: "price", op: "=>", value: "1" }] },
+            deployFraction: 2,
+          },
+        ])
+      ).toEqual([
+        "deployRules[0].name must be a non-empty string",
+        "deployRules[0].deployFraction must be a number between 0 and 1",
+        expect.stringContaining("deployRules[0].when.all[0].metric"),
+        expect.stringContaining("deployRules[0].when.all[0].op"),
+        "deployRules[0].when.all[0].value must be a finite number",
+      ]);
+    });
+
+    it("rejects empty groups, mixed keys and deep nesting", () => {
+      const leaf = { metric: "drawdown", op: "<", value: 0 };
+      let deep: any = leaf;
+      for (let i = 0; i < 5; i++) deep = { not: deep };
+
+      expect(
+        getDeployRuleErrors([
+          { name: "a", when: { any: [] }, deployFraction: 1 },
+          { name: "b", when: { all: [leaf], not: leaf }, deployFraction: 1 },
+          { name: "c", when: deep, deployFraction: 1 },
+        ])
+      ).toEqual([
+        "deployRules[0].when.any must be a non-empty array",
+        'deployRules[1].when must only contain "all"',
+        "deployRules[2].when.not.not.not.not.not is nested more than 5 levels",
+      ]);
+    });
+
+    it("rejects anything but an array", () => {
+      expect(getDeployRuleErrors({})).toEqual(["deployRules must be an array"]);
+    });
+  });
+
+  describe("parseDeployRules", () => {
+    it("returns null for unset, empty, broken or invalid JSON", () => {
+      expect(parseDeployRules(null)).toBeNull();
+      expect(parseDeployRules("[]")).toBeNull();
+      expect(parseDeployRules("{not json")).toBeNull();
+      expect(parseDeployRules('[{"name":"x"}]')).toBeNull();
+    });
+
+    it("returns valid stored rules", () => {
+      const rules = [
+        {
+          name: "x",
+          when: { metric: "drawdown", op: "<", value: -0.1 },
+          deployFraction: 0.5,
+        },
+      ];
+
+      expect(parseDeployRules(JSON.stringify(rules))).toEqual(rules);
+    });
+  });
+
+  describe("evaluateDeployRules", () => {
+    it("treats comparisons on missing metrics as false", () => {
+      expect(
+        evaluateDeployRules(
+          [
+            {
+              name: "calm",
+              when: { metric: "volatility", op: "<", value: 1 },
+              deployFraction: 1,
+            },
+            {
+              name: "not calm",
+              when: { not: { metric: "volatility", op: "<", value: 1 } },
+              deployFraction: 0.5,
+            },
+          ],
+          METRICS,
+          "custom"
+        )
+      ).toEqual({
+        index: 1,
+        name: "not calm",
+        source: "custom",
+        deployFraction: 0.5,
+      });
+    });
+
+    it("mirrors the three threshold signals by default", () => {
+      const rules = buildDefaultDeployRules({
+        drawdownRedeployThreshold: 0.12,
+        weightDeviationThreshold: 0.05,
+        volatilityRedeployThreshold: 0.18,
+        gradualDeployFactor: 0.5,
+      });
+
+      expect(rules.map((r) => r.name)).toEqual([
+        "drawdown",
+        "weight_deviation",
+        "volatility",
+      ]);
+      expect(evaluateDeployRules(rules, METRICS, "default")?.name).toBe(
+        "drawdown"
+      );
+      expect(
+        evaluateDeployRules(rules, { ...METRICS, drawdown: 0 }, "default")
+      ).toBeNull();
+    });
+  });
+});
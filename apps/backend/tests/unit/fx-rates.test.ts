@@ -0,0 +1,97 @@
+/**
+ * Unit Test: FX Rates
+ *
+ * Validates rate lookup as of a day, crossing through USD, the fallback
+ * for missing rates, the currencies that must be loaded to value assets in
+ * a base currency and minor-unit quote currencies.
+ */
+
+import {
+  buildFxRateTable,
+  getConversionRates,
+  getCurrenciesToLoad,
+  getFxRate,
+  getFxSymbol,
+  getUsdRate,
+  normalizeCurrency,
+  parseQuoteCurrency,
+} from "../../src/fx/fx-rates";
+
+const table = buildFxRateTable([
+  { currency: "EUR", date: new Date("2026-03-03"), usdRate: 1.1 },
+  { currency: "EUR", date: new Date("2026-03-01"), usdRate: 1.08 },
+  { currency: "GBP", date: new Date("2026-03-01"), usdRate: 1.25 },
+  { currency: "CHF", date: new Date("2026-03-01"), usdRate: 0 },
+]);
+
+describe("FX rates", () => {
+  it("uses the last rate up to the day", () => {
+    expect(getUsdRate(table, "EUR", new Date("2026-03-02"))).toBe(1.08);
+    expect(getUsdRate(table, "EUR", new Date("2026-03-03"))).toBe(1.1);
+    expect(getUsdRate(table, "EUR")).toBe(1.1);
+
+    // Before the series starts, its first rate
+    expect(getUsdRate(table, "EUR", new Date("2026-01-01"))).toBe(1.08);
+
+    // Invalid rates are dropped, USD needs none
+    expect(getUsdRate(table, "CHF")).toBeNull();
+    expect(getUsdRate(table, "USD")).toBe(1);
+  });
+
+  it("crosses currencies through USD", () => {
+    expect(getFxRate(table, "EUR", "USD")).toBe(1.1);
+    expect(getFxRate(table, "USD", "EUR")).toBeCloseTo(1 / 1.1, 12);
+    expect(getFxRate(table, "GBP", "EUR", new Date("2026-03-01"))).toBeCloseTo(
+      1.25 / 1.08,
+      12
+    );
+    expect(getFxRate(table, "JPY", "JPY")).toBe(1);
+    expect(getFxRate(table, "JPY", "USD")).toBeNull();
+  });
+
+  it("values currencies without rates 1:1", () => {
+    expect(
+      getConversionRates(table, ["EUR", "USD", "JPY", "EUR"], "USD")
+    ).toEqual({ rates: { EUR: 1.1, USD: 1, JPY: 1 }, missing: ["JPY"] });
+  });
+
+  it("lists the currencies to load for a base currency", () => {
+    expect(getCurrenciesToLoad(["USD", "USD"], "USD")).toEqual([]);
+    expect(getCurrenciesToLoad(["USD", "EUR"], "USD")).toEqual(["EUR"]);
+    expect(getCurrenciesToLoad(["USD", "GBP", "EUR"], "EUR")).toEqual([
+      "EUR",
+      "GBP",
+    ]);
+  });
+
+  it("normalizes currency codes", () => {
+    expect(normalizeCurrency(" eur ")).toBe("EUR");
+    expect(normalizeCurrency("EURO")).toBeNull();
+    expect(normalizeCurrency(undefined)).toBeNull();
+    expect(getFxSymbol("EUR")).toBe("EURUSD=X");
+  });
+
+  it("scales minor-unit quotes to the major currency", () => {
+    expect(parseQuoteCurrency("USD")).toEqual({
+      currency: "USD",
+      priceScale: 1,
+    });
+    expect(parseQuoteCurrency("GBp")).toEqual({
+      currency: "GBP",
+      priceScale: 0.01,
+    });
+    expect(parseQuoteCurrency("ZAc")).toEqual({
+      currency: "ZAR",
+      priceScale: 0.01,
+    });
+    expect(parseQuoteCurrency("toString")).toBeNull();
+    expect(normalizeCurrency("GBp")).toBeNull();
+
+    // 10 shares of an LSE asset quoted at 7,450 GBp, with GBP at 1.25 USD
+    const quote = parseQuoteCurrency("GBp");
+    const close = 7450 * (quote?.priceScale ?? 1);
+    const fxRate = getFxRate(table, quote?.currency ?? "GBp", "USD") ?? 1;
+    expect(close).toBeCloseTo(74.5, 12);
+    expect(10 * close * fxRate).toBeCloseTo(931.25, 12);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Test: Holdings
+ *
+ * Validates that holdings are rebuilt from position snapshots at a date,
+ * that unchanged positions are not snapshotted again, and the price/trade
+ * split of the holdings diff.
+ */
+
+import {
+  PositionSnapshotRow,
+  diffHoldings,
+  getChangedPositions,
+  getHoldingsAt,
+} from "../../src/position-history/holdings";
+
+const SNAPSHOTS: PositionSnapshotRow[] = [
+  {
+    assetId: "spy",
+    quantity: 10,
+    avgPrice: 400,
+    source: "opening",
+    recordedAt: new Date("2026-01-05T10:00:00Z"),
+  },
+  {
+    assetId: "gld",
+    quantity: 5,
+    avgPrice: 180,
+    source: "opening",
+    recordedAt: new Date("2026-01-05T10:00:00Z"),
+  },
+  {
+    assetId: "spy",
+    quantity: 12,
+    avgPrice: 410,
+    source: "rebalance",
+    recordedAt: new Date("2026-03-02T09:00:00Z"),
+  },
+  {
+    assetId: "gld",
+    quantity: 0,
+    avgPrice: 180,
+    source: "manual",
+    recordedAt: new Date("2026-04-10T12:00:00Z"),
+  },
+];
+
+describe("Holdings", () => {
+  it("uses the last snapshot of each asset up to the date", () => {
+    expect(getHoldingsAt(SNAPSHOTS, new Date("2026-01-01"))).toEqual([]);
+
+    expect(
+      getHoldingsAt(SNAPSHOTS, new Date("2026-02-01")).map((h) => [
+        h.assetId,
+        h.quantity,
+      ])
+    ).toEqual([
+      ["spy", 10],
+      ["gld", 5],
+    ]);
+
+    // Closed positions are dropped
+    expect(getHoldingsAt(SNAPSHOTS, new Date("2026-06-30"))).toEqual([
+      {
+        assetId: "spy",
+        quantity: 12,
+        avgPrice: 410,
+        source: "rebalance",
+        since: new Date("2026-03-02T09:00:00Z"),
+      },
+    ]);
+  });
+
+  it("skips positions equal to their last snapshot", () => {
+    const latest = new Map([
+      ["spy", { quantity: 12, avgPrice: 410 }],
+      ["gld", { quantity: 5, avgPrice: 180 }],
+    ]);
+
+    expect(
+      getChangedPositions(latest, [
+        { assetId: "spy", quantity: 12, avgPrice: 410 },
+        { assetId: "gld", quantity: 0, avgPrice: 180 },
+        { assetId: "btc", quantity: 0, avgPrice: 0 },
+        { assetId: "tlt", quantity: 3, avgPrice: 90 },
+      ]).map((c) => c.assetId)
+    ).toEqual(["gld", "tlt"]);
+  });
+
+  it("splits the value change into price and trade effects", () => {
+    const from = getHoldingsAt(SNAPSHOTS, new Date("2026-02-01"));
+    const to = getHoldingsAt(SNAPSHOTS, new Date("2026-06-30"));
+    const changes = diffHoldings(
+      from,
+      to,
+      new Map([
+        ["spy", 400],
+        ["gld", 180],
+      ]),
+      new Map([
+        ["spy", 450],
+        ["gld", 200],
+      ])
+    );
+
+    expect(changes).toEqual([
+      {
+        assetId: "spy",
+        fromQuantity: 10,
+        toQuantity: 12,
+        quantityChange: 2,
+        fromPrice: 400,
+        toPrice: 450,
+        fromValue: 4000,
+        toValue: 5400,
+        valueChange: 1400,
+        priceEffect: 500,
+        tradeEffect: 900,
+      },
+      {
+        assetId: "gld",
+        fromQuantity: 5,
+        toQuantity: 0,
+        quantityChange: -5,
+        fromPrice: 180,
+        toPrice: 200,
+        fromValue: 900,
+        toValue: 0,
+        valueChange: -900,
+        priceEffect: 100,
+        tradeEffect: -1000,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Test: Trade Ledger
+ *
+ * Validates that positions, average cost and realized P&L are rebuilt from
+ * trades, that reversal entries cancel the trade they reverse, that
+ * adjustments set the average cost, and the entries booked to move a
+ * position to a target.
+ */
+
+import {
+  LedgerEntrySide,
+  LedgerTrade,
+  findOversoldTrade,
+  getEffectiveTrades,
+  getTradesToTarget,
+  replayTrades,
+} from "../../src/trades/ledger";
+
+let nextId = 0;
+
+function trade(
+  side: LedgerEntrySide,
+  quantity: number,
+  price: number,
+  executedAt: string,
+  extra: Partial<LedgerTrade> = {}
+): LedgerTrade {
+  nextId += 1;
+  return {
+    id: `t${nextId}`,
+    assetId: "spy",
+    side,
+    quantity,
+    price,
+    fee: 0,
+    executedAt: new Date(executedAt),
+    createdAt: new Date("2026-10-01"),
+    reversesTradeId: null,
+    ...extra,
+  };
+}
+
+describe("Trade ledger", () => {
+  it("replays trades at average cost in execution order", () => {
+    // Entered out of order: the sell is replayed last
+    const [position] = replayTrades([
+      trade("sell", 15, 130, "2026-03-01", { fee: 5 }),
+      trade("buy", 10, 100, "2026-01-01", { fee: 10 }),
+      trade("buy", 10, 120, "2026-02-01"),
+    ]);
+
+    expect(position.quantity).toBe(5);
+    expect(position.avgPrice).toBeCloseTo(110.5, 10);
+    expect(position.costBasis).toBeCloseTo(552.5, 10);
+    expect(position.realizedPnl).toBeCloseTo(15 * (130 - 110.5) - 5, 10);
+    expect(position.fees).toBe(15);
+    expect(position.tradeCount).toBe(3);
+  });
+
+  it("drops reversed trades and their reversals", () => {
+    const wrong = trade("buy", 100, 50, "2026-01-02");
+    const reversal = trade("sell", 100, 50, "2026-01-05", {
+      reversesTradeId: wrong.id,
+    });
+    const trades = [
+      trade("buy", 10, 100, "2026-01-01"),
+      wrong,
+      reversal,
+      trade("sell", 4, 110, "2026-01-03"),
+    ];
+
+    expect(getEffectiveTrades(trades).map((t) => t.id)).not.toContain(wrong.id);
+    const [position] = replayTrades(trades);
+    expect(position.quantity).toBe(6);
+    expect(position.avgPrice).toBe(100);
+    expect(position.realizedPnl).toBe(40);
+  });
+
+  it("finds sells left without the units they sold", () => {
+    const oldBuy = trade("buy", 10, 100, "2026-01-01");
+    const sell = trade("sell", 8, 120, "2026-02-01");
+    const trades = [oldBuy, sell, trade("buy", 5, 110, "2026-03-01")];
+
+    expect(findOversoldTrade(trades)).toBeNull();
+
+    // Without the old buy, the sell would be capped at 0
+    expect(findOversoldTrade(trades.filter((t) => t !== oldBuy))).toBe(sell);
+
+    // A sell backdated before the units it needs were bought
+    const backdated = trade("sell", 4, 90, "2025-12-15");
+    expect(findOversoldTrade([...trades, backdated])).toBe(backdated);
+
+    // One that fits, but takes units a later sell needed
+    const squeezing = trade("sell", 4, 105, "2026-01-15");
+    expect(findOversoldTrade([...trades, squeezing])).toBe(sell);
+  });
+
+  it("sets the average cost with adjustments", () => {
+    const adjustment = trade("adjustment", 10, 90, "2026-01-02");
+    const trades = [
+      trade("buy", 10, 100, "2026-01-01"),
+      adjustment,
+      trade("sell", 4, 110, "2026-01-03"),
+    ];
+
+    const [position] = replayTrades(trades);
+    expect(position.quantity).toBe(6);
+    expect(position.avgPrice).toBe(90);
+    expect(position.realizedPnl).toBe(80);
+    expect(position.tradeCount).toBe(2);
+
+    // Reversing it brings back the traded cost
+    const [reverted] = replayTrades([
+      ...trades,
+      trade("adjustment", 10, 90, "2026-01-04", {
+        reversesTradeId: adjustment.id,
+      }),
+    ]);
+    expect(reverted.avgPrice).toBe(100);
+    expect(reverted.realizedPnl).toBe(40);
+  });
+
+  it("books the trades that reach a target position", () => {
+    // Added units cost what the new avgPrice implies
+    expect(
+      getTradesToTarget(
+        { quantity: 10, avgPrice: 100 },
+        { quantity: 15, avgPrice: 110 },
+        120
+      )
+    ).toEqual([{ side: "buy", quantity: 5, price: 130 }]);
+
+    // Without a target avgPrice, units are traded at the market price
+    expect(
+      getTradesToTarget({ quantity: 10, avgPrice: 100 }, { quantity: 4 }, 120)
+    ).toEqual([{ side: "sell", quantity: 6, price: 120 }]);
+
+    // A new avgPrice on the same quantity is an adjustment, not a trade
+    expect(
+      getTradesToTarget(
+        { quantity: 10, avgPrice: 100 },
+        { quantity: 10, avgPrice: 90 },
+        120
+      )
+    ).toEqual([{ side: "adjustment", quantity: 10, price: 90 }]);
+
+    expect(
+      getTradesToTarget(
+        { quantity: 10, avgPrice: 100 },
+        { quantity: 10, avgPrice: 100 },
+        120
+      )
+    ).toEqual([]);
+  });
+});
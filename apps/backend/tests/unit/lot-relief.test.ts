@@ -0,0 +1,112 @@
+/**
+ * Unit Test: Tax Lot Relief
+ *
+ * Validates the order in which FIFO, LIFO and specific lot relief take open
+ * lots, and how a sell is split across them: partial reliefs, realized
+ * gains per lot and units the lots do not cover.
+ */
+
+import {
+  allocateRelief,
+  orderLotsForRelief,
+} from "../../src/tax-lots/lot-relief";
+
+// Open lots, oldest first
+const LOTS = [
+  { id: "jan", remainingQuantity: 10, costPerUnit: 100 },
+  { id: "feb", remainingQuantity: 5, costPerUnit: 120 },
+  { id: "mar", remainingQuantity: 8, costPerUnit: 90 },
+];
+
+function relieve(lots: typeof LOTS, quantity: number, price: number) {
+  const { reliefs, realizedGain, uncovered } = allocateRelief(
+    lots,
+    quantity,
+    price
+  );
+  return {
+    reliefs: reliefs.map((relief) => ({
+      id: relief.lot.id,
+      quantity: relief.quantity,
+      remainingQuantity: relief.remainingQuantity,
+      realizedGain: relief.realizedGain,
+    })),
+    realizedGain,
+    uncovered,
+  };
+}
+
+describe("Tax lot relief", () => {
+  it("relieves the oldest lots first with FIFO", () => {
+    const lots = orderLotsForRelief(LOTS, "fifo");
+    expect(lots.map((lot) => lot.id)).toEqual(["jan", "feb", "mar"]);
+
+    // 12 units: all of January, 2 of February's 5
+    expect(relieve(lots, 12, 130)).toEqual({
+      reliefs: [
+        { id: "jan", quantity: 10, remainingQuantity: 0, realizedGain: 300 },
+        { id: "feb", quantity: 2, remainingQuantity: 3, realizedGain: 20 },
+      ],
+      realizedGain: 320,
+      uncovered: 0,
+    });
+  });
+
+  it("relieves the newest lots first with LIFO", () => {
+    const lots = orderLotsForRelief(LOTS, "lifo");
+    expect(lots.map((lot) => lot.id)).toEqual(["mar", "feb", "jan"]);
+    expect(LOTS[0].id).toBe("jan"); // Open lots are left as they were
+
+    expect(relieve(lots, 12, 130)).toEqual({
+      reliefs: [
+        { id: "mar", quantity: 8, remainingQuantity: 0, realizedGain: 320 },
+        { id: "feb", quantity: 4, remainingQuantity: 1, realizedGain: 40 },
+      ],
+      realizedGain: 360,
+      uncovered: 0,
+    });
+  });
+
+  it("relieves the chosen lots first, then the rest FIFO", () => {
+    const lots = orderLotsForRelief(LOTS, "specific", ["feb", "mar"]);
+    expect(lots.map((lot) => lot.id)).toEqual(["feb", "mar", "jan"]);
+
+    // 16 units: both chosen lots, then 3 of January's 10
+    expect(relieve(lots, 16, 130)).toEqual({
+      reliefs: [
+        { id: "feb", quantity: 5, remainingQuantity: 0, realizedGain: 50 },
+        { id: "mar", quantity: 8, remainingQuantity: 0, realizedGain: 320 },
+        { id: "jan", quantity: 3, remainingQuantity: 7, realizedGain: 90 },
+      ],
+      realizedGain: 460,
+      uncovered: 0,
+    });
+
+    // Without a selection 'specific' is FIFO; the other methods ignore one
+    expect(orderLotsForRelief(LOTS, "specific").map((lot) => lot.id)).toEqual([
+      "jan",
+      "feb",
+      "mar",
+    ]);
+    expect(
+      orderLotsForRelief(LOTS, "lifo", ["jan"]).map((lot) => lot.id)
+    ).toEqual(["mar", "feb", "jan"]);
+  });
+
+  it("leaves part of a lot open and reports uncovered units", () => {
+    expect(relieve(LOTS, 4, 95)).toEqual({
+      reliefs: [
+        { id: "jan", quantity: 4, remainingQuantity: 6, realizedGain: -20 },
+      ],
+      realizedGain: -20,
+      uncovered: 0,
+    });
+
+    const oversold = relieve(LOTS, 25, 100);
+    expect(oversold.reliefs.map((relief) => relief.remainingQuantity)).toEqual([
+      0, 0, 0,
+    ]);
+    expect(oversold.uncovered).toBe(2);
+    expect(oversold.realizedGain).toBe(-100 + 80);
+  });
+});
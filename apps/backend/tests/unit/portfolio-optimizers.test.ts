@@ -0,0 +1,238 @@
+/**
+ * Unit Test: Portfolio Optimizers
+ *
+ * Validates that the Sharpe, minimum variance, risk parity and maximum
+ * diversification optimizers converge to the known solutions where there
+ * is one, that their weights sum to 1 within the asset and asset type
+ * bounds, and that binding bounds are reported.
+ */
+
+import {
+  calculateDiversificationRatio,
+  calculateLeveragedSharpe,
+  calculateRiskContributions,
+  findBindingBounds,
+  minimizeOnBoundedSimplex,
+  optimizeMaxDiversification,
+  optimizeMinVariance,
+  optimizeRiskParity,
+  optimizeSharpe,
+  portfolioVariance,
+  traceEfficientFrontier,
+} from "../../src/strategy/portfolio-optimizers";
+import {
+  projectOntoWeightBounds,
+  resolveWeightBounds,
+} from "../../src/strategy/weight-constraints";
+
+const SYMBOLS = ["BTC-USD", "ETH-USD", "SPY", "GLD"];
+const ASSET_TYPES: Record<string, string> = {
+  "BTC-USD": "crypto",
+  "ETH-USD": "crypto",
+  SPY: "index",
+  GLD: "commodity",
+};
+const MEANS = [0.003, 0.003, 0.0005, 0.0002];
+const SHARPE_SETTINGS = { leverage: 2.5, riskFreeRate: 0.02 };
+
+// Daily covariance from volatilities and correlations
+const VOLS = [0.04, 0.05, 0.01, 0.009];
+const CORRELATIONS = [
+  [1, 0.8, 0.3, 0.1],
+  [0.8, 1, 0.3, 0.1],
+  [0.3, 0.3, 1, 0.1],
+  [0.1, 0.1, 0.1, 1],
+];
+const COV = CORRELATIONS.map((row, i) =>
+  row.map((rho, j) => rho * VOLS[i] * VOLS[j])
+);
+
+function total(weights: number[]): number {
+  return weights.reduce((sum, w) => sum + w, 0);
+}
+
+function unbounded(n: number) {
+  return resolveWeightBounds(
+    SYMBOLS.slice(0, n),
+    ASSET_TYPES,
+    { minWeight: 0, maxWeight: 1 },
+    {},
+    {}
+  );
+}
+
+const BOUNDS = resolveWeightBounds(
+  SYMBOLS,
+  ASSET_TYPES,
+  { minWeight: 0.05, maxWeight: 0.6 },
+  {},
+  { crypto: { max: 0.2 } }
+);
+
+function expectWithinBounds(weights: number[]) {
+  expect(total(weights)).toBeCloseTo(1, 10);
+  weights.forEach((w, i) => {
+    expect(w).toBeGreaterThanOrEqual(BOUNDS.lower[i] - 1e-9);
+    expect(w).toBeLessThanOrEqual(BOUNDS.upper[i] + 1e-9);
+  });
+  expect(weights[0] + weights[1]).toBeLessThanOrEqual(0.2 + 1e-9);
+}
+
+describe("Portfolio optimizers", () => {
+  it("converges to the minimum of a function on the simplex", () => {
+    // Closest point to a target inside the bounds is the target itself
+    const target = [0.5, 0.3, 0.2];
+    const result = minimizeOnBoundedSimplex(
+      (w) => w.reduce((sum, x, i) => sum + (x - target[i]) ** 2, 0),
+      (w) => w.map((x, i) => 2 * (x - target[i])),
+      3,
+      unbounded(3)
+    );
+
+    expect(result.converged).toBe(true);
+    expect(result.iterations).toBeLessThan(1000);
+    result.weights.forEach((w, i) => expect(w).toBeCloseTo(target[i], 8));
+
+    // A target outside the simplex ends on its projection
+    const outside = [0.9, 0.9, -0.5];
+    const projected = minimizeOnBoundedSimplex(
+      (w) => w.reduce((sum, x, i) => sum + (x - outside[i]) ** 2, 0),
+      (w) => w.map((x, i) => 2 * (x - outside[i])),
+      3,
+      unbounded(3)
+    );
+    expect(projected.converged).toBe(true);
+    projected.weights.forEach((w, i) =>
+      expect(w).toBeCloseTo([0.5, 0.5, 0][i], 8)
+    );
+  });
+
+  it("finds the tangency and minimum variance portfolios", () => {
+    // Uncorrelated assets: tangency ∝ μᵢ/σᵢ², minimum variance ∝ 1/σᵢ²
+    const cov = [
+      [0.0004, 0],
+      [0, 0.0001],
+    ];
+    const sharpe = optimizeSharpe([0.001, 0.001], cov, unbounded(2), {
+      leverage: 2,
+      riskFreeRate: 0,
+    });
+    expect(sharpe.converged).toBe(true);
+    expect(sharpe.weights[0]).toBeCloseTo(0.2, 6);
+    expect(sharpe.weights[1]).toBeCloseTo(0.8, 6);
+
+    const minVariance = optimizeMinVariance(cov, unbounded(2));
+    expect(minVariance.converged).toBe(true);
+    expect(minVariance.weights[0]).toBeCloseTo(0.2, 8);
+    expect(minVariance.weights[1]).toBeCloseTo(0.8, 8);
+  });
+
+  it("equalizes risk contributions and diversification", () => {
+    // Uncorrelated assets: both targets are ∝ 1/σᵢ
+    const cov = [
+      [0.0004, 0],
+      [0, 0.0001],
+    ];
+    const riskParity = optimizeRiskParity(cov, unbounded(2));
+    expect(riskParity.converged).toBe(true);
+    expect(riskParity.weights[0]).toBeCloseTo(1 / 3, 8);
+    expect(riskParity.weights[1]).toBeCloseTo(2 / 3, 8);
+
+    const maxDiversification = optimizeMaxDiversification(cov, unbounded(2));
+    expect(maxDiversification.converged).toBe(true);
+    expect(maxDiversification.weights[0]).toBeCloseTo(1 / 3, 6);
+    expect(maxDiversification.weights[1]).toBeCloseTo(2 / 3, 6);
+
+    // Correlated assets: contributions still equal without binding bounds
+    const contributions = calculateRiskContributions(
+      optimizeRiskParity(COV, unbounded(4)).weights,
+      COV
+    );
+    contributions.forEach((share) => expect(share).toBeCloseTo(0.25, 8));
+  });
+
+  it("keeps every optimizer within the asset and asset type bounds", () => {
+    const results = [
+      optimizeSharpe(MEANS, COV, BOUNDS, SHARPE_SETTINGS),
+      optimizeMinVariance(COV, BOUNDS),
+      optimizeRiskParity(COV, BOUNDS),
+      optimizeMaxDiversification(COV, BOUNDS),
+    ];
+
+    for (const result of results) {
+      expect(result.converged).toBe(true);
+      expectWithinBounds(result.weights);
+    }
+
+    // No feasible nudge beats the optimum it converged to
+    const [sharpe, minVariance, , maxDiversification] = results.map(
+      (result) => result.weights
+    );
+    for (let i = 0; i < SYMBOLS.length; i++) {
+      const nudged = (weights: number[]) =>
+        projectOntoWeightBounds(
+          weights.map((w, j) => (j === i ? w + 0.02 : w)),
+          BOUNDS
+        );
+      expect(
+        calculateLeveragedSharpe(sharpe, MEANS, COV, SHARPE_SETTINGS)
+      ).toBeGreaterThanOrEqual(
+        calculateLeveragedSharpe(nudged(sharpe), MEANS, COV, SHARPE_SETTINGS) -
+          1e-12
+      );
+      expect(portfolioVariance(minVariance, COV)).toBeLessThanOrEqual(
+        portfolioVariance(nudged(minVariance), COV) + 1e-15
+      );
+      expect(
+        calculateDiversificationRatio(maxDiversification, COV)
+      ).toBeGreaterThanOrEqual(
+        calculateDiversificationRatio(nudged(maxDiversification), COV) - 1e-12
+      );
+    }
+  });
+
+  it("reports the asset and asset type bounds that bind", () => {
+    // Crypto is wanted for its Sharpe ratio, but capped at 20% as a group
+    const { weights } = optimizeSharpe(MEANS, COV, BOUNDS, SHARPE_SETTINGS);
+    const binding = findBindingBounds(SYMBOLS, weights, BOUNDS);
+
+    expect(binding.bindingGroups).toEqual([
+      { assetType: "crypto", bound: "max", weight: expect.any(Number) },
+    ]);
+    expect(binding.bindingGroups[0].weight).toBeCloseTo(0.2, 8);
+
+    expect(findBindingBounds(SYMBOLS, [0.05, 0.15, 0.6, 0.2], BOUNDS)).toEqual({
+      bindingBounds: [
+        { symbol: "BTC-USD", bound: "min", weight: 0.05 },
+        { symbol: "SPY", bound: "max", weight: 0.6 },
+      ],
+      bindingGroups: [{ assetType: "crypto", bound: "max", weight: 0.2 }],
+    });
+
+    // A group cap looser than its assets' own caps never binds
+    const loose = resolveWeightBounds(
+      SYMBOLS,
+      ASSET_TYPES,
+      { minWeight: 0, maxWeight: 0.5 },
+      { "BTC-USD": { max: 0.1 }, "ETH-USD": { max: 0.1 } },
+      { crypto: { max: 0.3 } }
+    );
+    expect(
+      findBindingBounds(SYMBOLS, [0.1, 0.1, 0.4, 0.4], loose).bindingGroups
+    ).toEqual([]);
+  });
+
+  it("traces the frontier from minimum variance to maximum return", () => {
+    const frontier = traceEfficientFrontier(MEANS, COV, BOUNDS, 5);
+    const returns = frontier.map((w) =>
+      w.reduce((sum, x, i) => sum + x * MEANS[i], 0)
+    );
+
+    expect(frontier).toHaveLength(5);
+    frontier.forEach(expectWithinBounds);
+    expect(frontier[0]).toEqual(optimizeMinVariance(COV, BOUNDS).weights);
+    for (let k = 1; k < returns.length; k++) {
+      expect(returns[k]).toBeGreaterThan(returns[k - 1]);
+    }
+  });
+});
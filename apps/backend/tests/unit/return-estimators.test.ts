@@ -0,0 +1,92 @@
+/**
+ * Unit Test: Return Estimators
+ *
+ * Validates the Ledoit–Wolf covariance and James–Stein mean shrinkage
+ * intensities on inputs small enough to work out by hand.
+ */
+
+import {
+  shrinkCovarianceLedoitWolf,
+  shrinkMeansJamesStein,
+} from "../../src/strategy/return-estimators";
+
+describe("Return estimators", () => {
+  it("shrinks the covariance towards a scaled identity", () => {
+    // Two perfectly correlated observations: S = [[2, 2], [2, 2]]
+    // (Σ wₜxₜxₜ' / (1 − Σ wₜ²)), μ = 2, d² = 8 / 2 = 4,
+    // b̄² = 2 · 0.25 · (4 / 2) = 1, so δ = 1 / 4
+    const { covMatrix, intensity } = shrinkCovarianceLedoitWolf(
+      [
+        [2, 2],
+        [2, 2],
+      ],
+      [
+        [1, -1],
+        [1, -1],
+      ],
+      [0.5, 0.5]
+    );
+
+    expect(intensity).toBeCloseTo(0.25, 12);
+    expect(covMatrix[0][0]).toBeCloseTo(2, 12);
+    expect(covMatrix[1][1]).toBeCloseTo(2, 12);
+    expect(covMatrix[0][1]).toBeCloseTo(1.5, 12);
+    expect(covMatrix[1][0]).toBeCloseTo(1.5, 12);
+  });
+
+  it("leaves a covariance that already is the target alone", () => {
+    // Uncorrelated with equal variances: S = (4/3)·I, d² = 0
+    const sample = [
+      [4 / 3, 0],
+      [0, 4 / 3],
+    ];
+    const { covMatrix, intensity } = shrinkCovarianceLedoitWolf(
+      sample,
+      [
+        [1, -1, 1, -1],
+        [1, 1, -1, -1],
+      ],
+      [0.25, 0.25, 0.25, 0.25]
+    );
+
+    expect(intensity).toBe(1);
+    expect(covMatrix).toEqual(sample);
+  });
+
+  it("shrinks means towards the grand mean", () => {
+    // Dispersion 0.0005, mean variance 0.01 / 100, (n − 3) = 1: c = 0.2
+    const cov = [0, 1, 2, 3].map((i) =>
+      [0, 1, 2, 3].map((j) => (i === j ? 0.01 : 0))
+    );
+    const { means, intensity } = shrinkMeansJamesStein(
+      [0.01, 0.02, 0.03, 0.04],
+      cov,
+      100
+    );
+
+    expect(intensity).toBeCloseTo(0.2, 12);
+    [0.013, 0.021, 0.029, 0.037].forEach((expected, i) =>
+      expect(means[i]).toBeCloseTo(expected, 12)
+    );
+
+    // Noisy estimates collapse onto the grand mean (positive part)
+    const noisy = shrinkMeansJamesStein([0.01, 0.02, 0.03, 0.04], cov, 1);
+    expect(noisy.intensity).toBe(1);
+    noisy.means.forEach((m) => expect(m).toBeCloseTo(0.025, 12));
+  });
+
+  it("keeps the sample means with fewer than four assets", () => {
+    const { means, intensity } = shrinkMeansJamesStein(
+      [0.01, 0.02, 0.03],
+      [
+        [0.01, 0, 0],
+        [0, 0.01, 0],
+        [0, 0, 0.01],
+      ],
+      1
+    );
+
+    expect(intensity).toBe(0);
+    expect(means).toEqual([0.01, 0.02, 0.03]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit Test: Return Views
+ *
+ * Validates view parsing and expiry, and that the Black–Litterman blend
+ * moves each mean by the view's confidence and spills over to correlated
+ * assets.
+ */
+
+import {
+  annualizeDailyLogReturn,
+  blendReturnViews,
+  getActiveReturnViews,
+  getReturnViewErrors,
+  parseReturnViews,
+  ReturnView,
+} from "../../src/strategy/return-views";
+
+const SYMBOLS = ["BTC-USD", "SPY", "GLD"];
+const PRIOR_MEANS = [0.0008, 0.0003, 0.0001];
+const COV_MATRIX = [
+  [0.0016, 0.0002, 0],
+  [0.0002, 0.0001, 0],
+  [0, 0, 0.00008],
+];
+
+function buildView(overrides: Partial<ReturnView> = {}): ReturnView {
+  return {
+    symbol: "BTC-USD",
+    expectedReturn: 0.1,
+    confidence: "low",
+    expiresAt: "2026-12-31",
+    ...overrides,
+  };
+}
+
+describe("Return views", () => {
+  it("reports invalid views with their path", () => {
+    expect(
+      getReturnViewErrors([
+        buildView(),
+        buildView({ expectedReturn: -1 }),
+        buildView({ symbol: "SPY", confidence: "certain" as any }),
+        buildView({ symbol: "GLD", expiresAt: "soon" }),
+      ])
+    ).toEqual([
+      "returnViews[1].symbol BTC-USD already has a view",
+      "returnViews[1].expectedReturn must be an annual return above -1 and at most 10",
+      "returnViews[2].confidence must be one of: low, medium, high",
+      "returnViews[3].expiresAt must be a date",
+    ]);
+    expect(parseReturnViews(JSON.stringify([buildView()]))).toHaveLength(1);
+    expect(parseReturnViews("not json")).toBeNull();
+  });
+
+  it("drops expired views", () => {
+    const views = [
+      buildView(),
+      buildView({ symbol: "SPY", expiresAt: "2026-01-31" }),
+    ];
+
+    expect(
+      getActiveReturnViews(views, new Date("2026-06-01")).map((v) => v.symbol)
+    ).toEqual(["BTC-USD"]);
+  });
+
+  it("moves a single view's mean by its confidence", () => {
+    const viewMean = Math.log(1.1) / 252;
+
+    for (const [confidence, level] of [
+      ["low", 0.25],
+      ["medium", 0.5],
+      ["high", 0.75],
+    ] as const) {
+      const { means } = blendReturnViews(SYMBOLS, PRIOR_MEANS, COV_MATRIX, [
+        buildView({ confidence }),
+      ]);
+      expect(means[0]).toBeCloseTo(
+        PRIOR_MEANS[0] + level * (viewMean - PRIOR_MEANS[0]),
+        12
+      );
+    }
+  });
+
+  it("moves correlated assets and leaves uncorrelated ones alone", () => {
+    const { means, applied } = blendReturnViews(
+      SYMBOLS,
+      PRIOR_MEANS,
+      COV_MATRIX,
+      [buildView(), buildView({ symbol: "ETH-USD" })]
+    );
+
+    expect(applied.map((v) => v.symbol)).toEqual(["BTC-USD"]);
+    expect(means[1]).toBeLessThan(PRIOR_MEANS[1]); // BTC view is bearish
+    expect(means[2]).toBe(PRIOR_MEANS[2]);
+  });
+
+  it("annualizes daily log returns", () => {
+    expect(annualizeDailyLogReturn(Math.log(1.1) / 252)).toBeCloseTo(0.1, 12);
+  });
+});
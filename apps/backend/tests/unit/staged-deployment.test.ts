@@ -0,0 +1,129 @@
+/**
+ * Unit Test: Staged Deployment
+ *
+ * Validates which tranches of a staged contribution are due, how much cash
+ * is held back and how the rounding remainder is assigned.
+ */
+
+import {
+  getStagedDeploymentStatus,
+  StagedContributionInput,
+} from "../../src/strategy/staged-deployment";
+
+const CONTRIBUTED_AT = new Date("2026-03-02T10:00:00.000Z");
+
+function daysAfter(days: number): Date {
+  return new Date(CONTRIBUTED_AT.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function buildContribution(
+  overrides: Partial<StagedContributionInput> = {}
+): StagedContributionInput {
+  return {
+    id: "c1",
+    amount: 1000,
+    contributedAt: CONTRIBUTED_AT,
+    deployedAmount: 0,
+    trancheCount: 4,
+    trancheSchedule: "weekly",
+    tranchesDeployed: 0,
+    lastDeployedAt: null,
+    ...overrides,
+  };
+}
+
+describe("Staged deployment", () => {
+  it("ignores contributions without a schedule", () => {
+    expect(
+      getStagedDeploymentStatus(
+        [buildContribution({ trancheSchedule: null })],
+        daysAfter(30),
+        null
+      )
+    ).toBeNull();
+  });
+
+  it("makes weekly tranches due one week apart", () => {
+    const status = getStagedDeploymentStatus(
+      [buildContribution()],
+      daysAfter(8),
+      null
+    )!;
+
+    expect(status.dueTranches.map((t) => t.trancheNumber)).toEqual([1, 2]);
+    expect(status.dueTranches.every((t) => t.reason === "scheduled")).toBe(
+      true
+    );
+    expect(status.dueAmount).toBe(500);
+    expect(status.heldBackAmount).toBe(500);
+    expect(status.remainingTranches[0].dueAt).toBe(daysAfter(14).toISOString());
+  });
+
+  it("gives the rounding remainder to the last tranche", () => {
+    const status = getStagedDeploymentStatus(
+      [
+        buildContribution({
+          amount: 100,
+          trancheCount: 3,
+          tranchesDeployed: 2,
+          deployedAmount: 66.66,
+        }),
+      ],
+      daysAfter(20),
+      null
+    )!;
+
+    expect(status.dueTranches).toHaveLength(1);
+    expect(status.dueAmount).toBeCloseTo(33.34, 10);
+    expect(status.heldBackAmount).toBe(0);
+  });
+
+  it("deploys signal tranches one at a time when a rule matches", () => {
+    const contribution = buildContribution({
+      trancheSchedule: "signal",
+      tranchesDeployed: 1,
+      deployedAmount: 250,
+      lastDeployedAt: CONTRIBUTED_AT,
+    });
+
+    const waiting = getStagedDeploymentStatus(
+      [contribution],
+      daysAfter(5),
+      null
+    )!;
+    expect(waiting.dueTranches).toEqual([]);
+    expect(waiting.heldBackAmount).toBe(750);
+    expect(waiting.remainingTranches[0].dueAt).toBeNull();
+
+    const signal = getStagedDeploymentStatus(
+      [contribution],
+      daysAfter(5),
+      "drawdown"
+    )!;
+    expect(signal.dueTranches).toHaveLength(1);
+    expect(signal.dueTranches[0]).toMatchObject({
+      trancheNumber: 2,
+      amount: 250,
+      reason: "drawdown",
+    });
+
+    // Same day as the last tranche: wait for the next signal event
+    const sameDay = getStagedDeploymentStatus(
+      [contribution],
+      new Date(CONTRIBUTED_AT.getTime() + 60 * 60 * 1000),
+      "drawdown"
+    )!;
+    expect(sameDay.dueTranches).toEqual([]);
+  });
+
+  it("deploys the first signal tranche right away", () => {
+    const status = getStagedDeploymentStatus(
+      [buildContribution({ trancheSchedule: "signal" })],
+      CONTRIBUTED_AT,
+      "volatility"
+    )!;
+
+    expect(status.dueTranches.map((t) => t.trancheNumber)).toEqual([1]);
+    expect(status.dueTranches[0].reason).toBe("scheduled");
+  });
+});
@@ -0,0 +1,609 @@
+/**
+ * Regression Test: Strategy Engine
+ *
+ * Pins the outputs of the shared strategy engine used by the dashboard
+ * recommendations, the rebalance proposal, the backtest and daily-check:
+ * 1. Current state (exposure, equity source, peak equity, leverage, margin)
+ * 2. Deploy signals (drawdown, weight deviation, volatility, deploy fraction)
+ * 3. Leverage status (tolerance around the configured range)
+ *
+ * If a change here is intentional, update the pinned values in the same PR.
+ */
+
+import {
+  calculateCurrentState,
+  calculateDeleveragingPlan,
+  calculateDeploySignals,
+  calculateDrawdown,
+  calculateLeverage,
+  calculatePositionExposure,
+  calculateRealizedVolatility,
+  calculateWeightDeviation,
+  DeploySignalConfig,
+  getLeverageStatus,
+  getMetricsHistoryWindow,
+  markEquityToMarket,
+  StrategyPortfolioInput,
+} from "../../src/strategy/strategy-engine";
+
+// Portfolio defaults from prisma/schema.prisma
+const DEFAULT_CONFIG: DeploySignalConfig = {
+  drawdownRedeployThreshold: 0.12,
+  weightDeviationThreshold: 0.05,
+  volatilityLookbackDays: 63,
+  volatilityRedeployThreshold: 0.18,
+  gradualDeployFactor: 0.5,
+};
+
+const TARGET_WEIGHTS = { SPY: 0.6, GLD: 0.25, "BTC-USD": 0.15 };
+
+// Positions worth 30,000 at latest prices: SPY 18,000 / GLD 7,500 / BTC 4,500
+const POSITIONS: StrategyPortfolioInput["positions"] = [
+  { assetId: "spy", quantity: 36, avgPrice: 450, asset: { symbol: "SPY" } },
+  { assetId: "gld", quantity: 40, avgPrice: 180, asset: { symbol: "GLD" } },
+  {
+    assetId: "btc",
+    quantity: 0.1,
+    avgPrice: 40000,
+    asset: { symbol: "BTC-USD" },
+  },
+];
+
+const LATEST_PRICES = { spy: 500, gld: 187.5, btc: 45000 };
+
+/**
+ * Equity series (newest first) with a fixed daily pattern
+ */
+function buildHistory(
+  days: number,
+  start: number,
+  dailyReturns: number[]
+): { equity: number }[] {
+  const series: { equity: number }[] = [];
+  let equity = start;
+  for (let i = 0; i < days; i++) {
+    series.push({ equity });
+    equity *= 1 + dailyReturns[i % dailyReturns.length];
+  }
+  return series.reverse();
+}
+
+describe("Strategy engine", () => {
+  describe("calculatePositionExposure", () => {
+    it("values positions at latest prices", () => {
+      const result = calculatePositionExposure(POSITIONS, LATEST_PRICES);
+
+      expect(result.exposure).toBeCloseTo(30000, 6);
+      expect(result.positionValues).toEqual({
+        SPY: 18000,
+        GLD: 7500,
+        "BTC-USD": 4500,
+      });
+      expect(result.positionQuantities).toEqual({
+        SPY: 36,
+        GLD: 40,
+        "BTC-USD": 0.1,
+      });
+    });
+
+    it("falls back to avgPrice when an asset has no price", () => {
+      const result = calculatePositionExposure(POSITIONS, { spy: 500 });
+
+      expect(result.exposure).toBeCloseTo(18000 + 7200 + 4000, 6);
+    });
+  });
+
+  describe("calculateCurrentState", () => {
+    it("uses initial capital when there are no metrics", () => {
+      const state = calculateCurrentState(
+        { initialCapital: 10000, positions: POSITIONS },
+        LATEST_PRICES
+      );
+
+      expect(state.equity).toBe(10000);
+      expect(state.peakEquity).toBe(10000);
+      expect(state.leverage).toBeCloseTo(3, 10);
+      expect(state.marginRatio).toBeCloseTo(1 / 3, 10);
+      expect(state.pendingContributions).toBe(0);
+    });
+
+    it("prefers the daily metric over the timeseries for equity", () => {
+      const state = calculateCurrentState(
+        {
+          initialCapital: 10000,
+          positions: POSITIONS,
+          dailyMetrics: [{ equity: 12000, peakEquity: 12500 }],
+          metricsTimeseries: [{ equity: 11000 }, { equity: 13000 }],
+        },
+        LATEST_PRICES
+      );
+
+      expect(state.equity).toBe(12000);
+      // Highest of stored peak, history and today
+      expect(state.peakEquity).toBe(13000);
+      expect(state.leverage).toBeCloseTo(2.5, 10);
+    });
+
+    it("uses the stored peak when the history window is lower", () => {
+      const state = calculateCurrentState(
+        {
+          initialCapital: 10000,
+          positions: POSITIONS,
+          dailyMetrics: [{ equity: 12000, peakEquity: 15000 }],
+          metricsTimeseries: [{ equity: 12000 }, { equity: 11500 }],
+        },
+        LATEST_PRICES
+      );
+
+      expect(state.peakEquity).toBe(15000);
+    });
+
+    it("falls back to the latest timeseries metric", () => {
+      const state = calculateCurrentState(
+        {
+          initialCapital: 10000,
+          positions: POSITIONS,
+          metricsTimeseries: [{ equity: 11000 }, { equity: 10500 }],
+        },
+        LATEST_PRICES
+      );
+
+      expect(state.equity).toBe(11000);
+      expect(state.peakEquity).toBe(11000);
+    });
+
+    it("reports pending contributions without adding them to equity", () => {
+      const state = calculateCurrentState(
+        {
+          initialCapital: 10000,
+          positions: POSITIONS,
+          contributions: [
+            { amount: 500, deployed: false },
+            { amount: 300, deployed: true },
+          ],
+        },
+        LATEST_PRICES
+      );
+
+      expect(state.pendingContributions).toBe(500);
+      expect(state.equity).toBe(10000);
+    });
+
+    it("uses marked-to-market equity when given", () => {
+      const state = calculateCurrentState(
+        {
+          initialCapital: 10000,
+          positions: POSITIONS,
+          dailyMetrics: [{ equity: 12000, peakEquity: 12000 }],
+        },
+        LATEST_PRICES,
+        12600
+      );
+
+      expect(state.equity).toBe(12600);
+      expect(state.peakEquity).toBe(12600);
+    });
+
+    it("handles an empty portfolio", () => {
+      const state = calculateCurrentState(
+        { initialCapital: 0, positions: [] },
+        {}
+      );
+
+      expect(state.exposure).toBe(0);
+      expect(state.leverage).toBe(0);
+      expect(state.marginRatio).toBe(1);
+    });
+  });
+
+  describe("markEquityToMarket", () => {
+    it("moves equity with exposure and adds new contributions", () => {
+      expect(
+        markEquityToMarket({ equity: 10000, exposure: 29000 }, 30000, 250)
+      ).toBe(11250);
+    });
+  });
+
+  describe("basic measures", () => {
+    it("calculates leverage", () => {
+      expect(calculateLeverage(30000, 10000)).toBe(3);
+      expect(calculateLeverage(30000, 0)).toBe(0);
+      expect(calculateLeverage(30000, -100)).toBe(0);
+    });
+
+    it("calculates drawdown from peak", () => {
+      expect(calculateDrawdown(8800, 10000)).toBeCloseTo(-0.12, 10);
+      expect(calculateDrawdown(10000, 10000)).toBe(0);
+      expect(calculateDrawdown(10000, 0)).toBe(0);
+    });
+
+    it("calculates the largest weight deviation", () => {
+      const { positionValues, exposure } = calculatePositionExposure(
+        POSITIONS,
+        { spy: 600, gld: 187.5, btc: 45000 }
+      );
+
+      // SPY 21,600 / 33,600 = 0.642857 vs 0.6 target
+      expect(
+        calculateWeightDeviation(positionValues, exposure, TARGET_WEIGHTS)
+      ).toBeCloseTo(0.0428571, 6);
+    });
+
+    it("counts missing target assets as zero weight", () => {
+      expect(
+        calculateWeightDeviation({ SPY: 1000 }, 1000, {
+          SPY: 0.7,
+          GLD: 0.3,
+        })
+      ).toBeCloseTo(0.3, 10);
+    });
+
+    it("returns zero weight deviation without exposure", () => {
+      expect(calculateWeightDeviation({}, 0, TARGET_WEIGHTS)).toBe(0);
+    });
+
+    it("annualizes volatility over the lookback window", () => {
+      const history = buildHistory(80, 10000, [0.01, -0.01]);
+
+      expect(calculateRealizedVolatility(history, 63)).toBeCloseTo(0.16001, 4);
+      expect(calculateRealizedVolatility(history, 1)).toBeCloseTo(0, 10);
+    });
+
+    it("returns null volatility without enough history", () => {
+      expect(calculateRealizedVolatility([], 63)).toBeNull();
+      expect(calculateRealizedVolatility([{ equity: 10000 }], 63)).toBeNull();
+      expect(
+        calculateRealizedVolatility([{ equity: 10000 }, { equity: 0 }], 63)
+      ).toBeNull();
+    });
+
+    it("loads the same metrics window everywhere", () => {
+      expect(getMetricsHistoryWindow(63)).toBe(73);
+    });
+  });
+
+  describe("calculateDeploySignals", () => {
+    const calmHistory = buildHistory(73, 10000, [0.002, -0.002]);
+    const volatileHistory = buildHistory(73, 10000, [0.03, -0.03]);
+
+    it("does not deploy when no signal triggers", () => {
+      const signals = calculateDeploySignals(
+        {
+          equity: 10000,
+          peakEquity: 10500,
+          exposure: 30000,
+          positionValues: { SPY: 18000, GLD: 7500, "BTC-USD": 4500 },
+        },
+        volatileHistory,
+        TARGET_WEIGHTS,
+        DEFAULT_CONFIG
+      );
+
+      expect(signals).toMatchObject({
+        deployFraction: 0,
+        drawdownTriggered: false,
+        weightDeviationTriggered: false,
+        volatilityTriggered: false,
+        anySignalTriggered: false,
+        matchedRule: null,
+        monthNumber: 4,
+      });
+      expect(signals.drawdown).toBeCloseTo(-0.047619, 6);
+      expect(signals.weightDeviation).toBeCloseTo(0, 10);
+      expect(signals.realizedVolatility).toBeCloseTo(0.48014, 4);
+    });
+
+    it("deploys the gradual factor on drawdown and skips other signals", () => {
+      const signals = calculateDeploySignals(
+        {
+          equity: 8000,
+          peakEquity: 10000,
+          exposure: 30000,
+          positionValues: { SPY: 24000, GLD: 3000, "BTC-USD": 3000 },
+        },
+        calmHistory,
+        TARGET_WEIGHTS,
+        DEFAULT_CONFIG
+      );
+
+      expect(signals).toMatchObject({
+        deployFraction: 0.5,
+        drawdownTriggered: true,
+        weightDeviationTriggered: false,
+        volatilityTriggered: false,
+        anySignalTriggered: true,
+        matchedRule: {
+          index: 0,
+          name: "drawdown",
+          source: "default",
+          deployFraction: 0.5,
+        },
+      });
+      expect(signals.drawdown).toBeCloseTo(-0.2, 10);
+    });
+
+    it("triggers at exactly the drawdown threshold", () => {
+      const signals = calculateDeploySignals(
+        {
+          equity: 88,
+          peakEquity: 100,
+          exposure: 0,
+          positionValues: {},
+        },
+        [],
+        {},
+        DEFAULT_CONFIG
+      );
+
+      expect(signals.drawdownTriggered).toBe(true);
+    });
+
+    it("deploys on weight deviation", () => {
+      const signals = calculateDeploySignals(
+        {
+          equity: 10000,
+          peakEquity: 10000,
+          exposure: 30000,
+          positionValues: { SPY: 21000, GLD: 6000, "BTC-USD": 3000 },
+        },
+        volatileHistory,
+        TARGET_WEIGHTS,
+        DEFAULT_CONFIG
+      );
+
+      expect(signals).toMatchObject({
+        deployFraction: 0.5,
+        drawdownTriggered: false,
+        weightDeviationTriggered: true,
+        volatilityTriggered: false,
+      });
+      expect(signals.weightDeviation).toBeCloseTo(0.1, 10);
+    });
+
+    it("deploys on low volatility", () => {
+      const signals = calculateDeploySignals(
+        {
+          equity: 10000,
+          peakEquity: 10000,
+          exposure: 30000,
+          positionValues: { SPY: 18000, GLD: 7500, "BTC-USD": 4500 },
+        },
+        calmHistory,
+        TARGET_WEIGHTS,
+        DEFAULT_CONFIG
+      );
+
+      expect(signals).toMatchObject({
+        deployFraction: 0.5,
+        volatilityTriggered: true,
+        weightDeviationTriggered: false,
+      });
+      expect(signals.realizedVolatility).toBeCloseTo(0.032, 4);
+    });
+
+    it("caps the deploy fraction at 1", () => {
+      const signals = calculateDeploySignals(
+        {
+          equity: 10000,
+          peakEquity: 10000,
+          exposure: 30000,
+          positionValues: { SPY: 30000 },
+        },
+        [],
+        TARGET_WEIGHTS,
+        { ...DEFAULT_CONFIG, gradualDeployFactor: 1.5 }
+      );
+
+      expect(signals.deployFraction).toBe(1);
+    });
+
+    it("estimates month number from history length", () => {
+      const state = {
+        equity: 10000,
+        peakEquity: 10000,
+        exposure: 0,
+        positionValues: {},
+      };
+
+      expect(
+        calculateDeploySignals(state, [], {}, DEFAULT_CONFIG).monthNumber
+      ).toBe(1);
+      expect(
+        calculateDeploySignals(
+          state,
+          buildHistory(43, 10000, [0]),
+          {},
+          DEFAULT_CONFIG
+        ).monthNumber
+      ).toBe(3);
+    });
+  });
+
+  describe("calculateDeploySignals with custom rules", () => {
+    const state = {
+      equity: 8500,
+      peakEquity: 10000,
+      exposure: 30000,
+      positionValues: { SPY: 18000, GLD: 7500, "BTC-USD": 4500 },
+      pendingContributions: 0,
+    };
+    const calmHistory = buildHistory(73, 10000, [0.002, -0.002]);
+    const rules = [
+      {
+        name: "Deep dip, calm market",
+        when: {
+          all: [
+            { metric: "drawdown" as const, op: "<=" as const, value: -0.15 },
+            { metric: "volatility" as const, op: "<" as const, value: 0.25 },
+          ],
+        },
+        deployFraction: 1,
+      },
+      {
+        name: "Under-levered",
+        when: { metric: "leverage" as const, op: "<" as const, value: 3 },
+        deployFraction: 0.25,
+      },
+    ];
+
+    it("uses the first matching rule", () => {
+      const signals = calculateDeploySignals(
+        state,
+        calmHistory,
+        TARGET_WEIGHTS,
+        { ...DEFAULT_CONFIG, deployRules: rules }
+      );
+
+      expect(signals.deployFraction).toBe(1);
+      expect(signals.matchedRule).toEqual({
+        index: 0,
+        name: "Deep dip, calm market",
+        source: "custom",
+        deployFraction: 1,
+      });
+      // Built-in flags are still reported for reference
+      expect(signals.drawdownTriggered).toBe(true);
+    });
+
+    it("falls through to later rules", () => {
+      const signals = calculateDeploySignals(
+        { ...state, equity: 10000, exposure: 25000 },
+        calmHistory,
+        TARGET_WEIGHTS,
+        { ...DEFAULT_CONFIG, deployRules: rules }
+      );
+
+      expect(signals.deployFraction).toBe(0.25);
+      expect(signals.matchedRule?.name).toBe("Under-levered");
+    });
+
+    it("does not deploy when no custom rule matches", () => {
+      const signals = calculateDeploySignals(
+        { ...state, equity: 10000 },
+        calmHistory,
+        TARGET_WEIGHTS,
+        { ...DEFAULT_CONFIG, deployRules: rules }
+      );
+
+      // The built-in volatility signal would have deployed 50%
+      expect(signals.volatilityTriggered).toBe(true);
+      expect(signals.deployFraction).toBe(0);
+      expect(signals.anySignalTriggered).toBe(false);
+      expect(signals.matchedRule).toBeNull();
+    });
+
+    it("falls back to the built-in rules when the list is empty", () => {
+      const signals = calculateDeploySignals(
+        { ...state, equity: 10000 },
+        calmHistory,
+        TARGET_WEIGHTS,
+        { ...DEFAULT_CONFIG, deployRules: [] }
+      );
+
+      expect(signals.deployFraction).toBe(0.5);
+      expect(signals.matchedRule?.source).toBe("default");
+      expect(signals.matchedRule?.name).toBe("volatility");
+    });
+
+    it("reports trend over the lookback window", () => {
+      const rising = buildHistory(73, 10000, [0.001]);
+      const signals = calculateDeploySignals(
+        state,
+        rising,
+        TARGET_WEIGHTS,
+        DEFAULT_CONFIG
+      );
+
+      expect(signals.trend).toBeCloseTo(Math.pow(1.001, 63) - 1, 10);
+    });
+  });
+
+  describe("calculateDeleveragingPlan", () => {
+    // Leverage 5x: 50,000 exposure on 10,000 equity, 60/40 split
+    const overLeveraged = {
+      equity: 10000,
+      exposure: 50000,
+      positionValues: { SPY: 30000, GLD: 20000 },
+      positionQuantities: { SPY: 60, GLD: 100 },
+    };
+
+    it("sells pro rata to reach the target leverage", () => {
+      const plan = calculateDeleveragingPlan(overLeveraged, 3);
+      const sell = plan!.options.find((o) => o.type === "sell")!;
+
+      expect(plan!.currentLeverage).toBe(5);
+      expect(plan!.currentMarginRatio).toBeCloseTo(0.2, 10);
+      expect(sell.contribution).toBe(0);
+      expect(sell.totalSells).toBeCloseTo(20000, 6);
+      expect(sell.sells).toEqual([
+        {
+          symbol: "SPY",
+          quantity: expect.closeTo(24, 6),
+          value: expect.closeTo(12000, 6),
+          weight: 0.6,
+        },
+        {
+          symbol: "GLD",
+          quantity: expect.closeTo(40, 6),
+          value: expect.closeTo(8000, 6),
+          weight: 0.4,
+        },
+      ]);
+      expect(sell.leverageAfter).toBeCloseTo(3, 10);
+      expect(sell.marginRatioAfter).toBeCloseTo(1 / 3, 10);
+    });
+
+    it("sizes the cash-only and mixed options", () => {
+      const plan = calculateDeleveragingPlan(overLeveraged, 3);
+      const [, contribution, mixed] = plan!.options;
+
+      // 50,000 / 3 - 10,000
+      expect(contribution.type).toBe("contribution");
+      expect(contribution.contribution).toBeCloseTo(6666.67, 2);
+      expect(contribution.totalSells).toBeCloseTo(0, 6);
+      expect(contribution.leverageAfter).toBeCloseTo(3, 10);
+
+      // Half the cash, sells cover the rest
+      expect(mixed.type).toBe("mixed");
+      expect(mixed.contribution).toBeCloseTo(3333.33, 2);
+      expect(mixed.totalSells).toBeCloseTo(10000, 6);
+      expect(mixed.leverageAfter).toBeCloseTo(3, 10);
+    });
+
+    it("uses the available cash for the mixed option", () => {
+      const plan = calculateDeleveragingPlan(overLeveraged, 3, 1000);
+      const mixed = plan!.options.find((o) => o.type === "mixed")!;
+
+      expect(mixed.contribution).toBe(1000);
+      expect(mixed.totalSells).toBeCloseTo(17000, 6);
+      expect(mixed.equityAfter).toBe(11000);
+
+      // No cash at all: only sell and cash-only options
+      expect(
+        calculateDeleveragingPlan(overLeveraged, 3, 0)!.options.map(
+          (o) => o.type
+        )
+      ).toEqual(["sell", "contribution"]);
+    });
+
+    it("returns null at or below the target leverage", () => {
+      expect(calculateDeleveragingPlan(overLeveraged, 5)).toBeNull();
+      expect(calculateDeleveragingPlan(overLeveraged, 6)).toBeNull();
+    });
+  });
+
+  describe("getLeverageStatus", () => {
+    it("classifies leverage against the configured range", () => {
+      expect(getLeverageStatus(2, 2.5, 4)).toBe("low");
+      expect(getLeverageStatus(3, 2.5, 4)).toBe("in_range");
+      expect(getLeverageStatus(4.5, 2.5, 4)).toBe("high");
+    });
+
+    it("applies the tolerance at both bounds", () => {
+      expect(getLeverageStatus(2.495, 2.5, 4)).toBe("in_range");
+      expect(getLeverageStatus(2.485, 2.5, 4)).toBe("low");
+      expect(getLeverageStatus(4.005, 2.5, 4)).toBe("in_range");
+      expect(getLeverageStatus(4.015, 2.5, 4)).toBe("high");
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Test: Transaction Costs
+ *
+ * Validates the expected cost of a trade and the cost/benefit check that
+ * flags or suppresses rebalancing trades costing more than the tracking
+ * error they remove.
+ */
+
+import {
+  CostBenefitPosition,
+  estimateTradeCost,
+  evaluateCostBenefit,
+  TransactionCostSettings,
+} from "../../src/strategy/transaction-costs";
+
+const NO_COSTS: TransactionCostSettings = {
+  commissionRate: 0,
+  commissionFixed: 0,
+  spreadBps: 0,
+  slippageBps: 0,
+};
+const COSTS: TransactionCostSettings = {
+  ...NO_COSTS,
+  commissionRate: 0.001,
+  commissionFixed: 5,
+};
+
+// Uncorrelated assets, 1% daily volatility each
+const COV = [
+  [0.0001, 0],
+  [0, 0.0001],
+];
+
+function position(
+  currentValue: number,
+  targetValue: number,
+  targetWeight: number
+): CostBenefitPosition {
+  return {
+    currentValue,
+    targetValue,
+    targetWeight,
+    estimatedCost: estimateTradeCost(
+      Math.abs(targetValue - currentValue),
+      COSTS
+    ),
+    costs: COSTS,
+  };
+}
+
+// 80/20 drifted back to 50/50 at the same exposure: two 3,000 trades
+const DRIFTED = [position(8000, 5000, 0.5), position(2000, 5000, 0.5)];
+
+describe("Transaction costs", () => {
+  it("adds commission, half the spread, slippage and the fixed fee", () => {
+    expect(
+      estimateTradeCost(10000, { ...NO_COSTS, commissionRate: 0.001 })
+    ).toBeCloseTo(10, 10);
+    expect(
+      estimateTradeCost(10000, { ...NO_COSTS, spreadBps: 10 })
+    ).toBeCloseTo(5, 10);
+    expect(
+      estimateTradeCost(10000, { ...NO_COSTS, slippageBps: 5 })
+    ).toBeCloseTo(5, 10);
+    expect(estimateTradeCost(10000, { ...NO_COSTS, commissionFixed: 1 })).toBe(
+      1
+    );
+    expect(
+      estimateTradeCost(10000, {
+        commissionRate: 0.001,
+        commissionFixed: 1,
+        spreadBps: 10,
+        slippageBps: 5,
+      })
+    ).toBeCloseTo(21, 10);
+
+    // No trade, no fixed fee
+    expect(estimateTradeCost(0, COSTS)).toBe(0);
+  });
+
+  it("weighs the rebalancing cost against the tracking error removed", () => {
+    // TE² = (0.3² + 0.3²)·0.0001·252 = 0.004536, benefit = ½·1·TE²·10,000
+    const analysis = evaluateCostBenefit(DRIFTED, 10000, COV, 1, "flag");
+
+    expect(analysis).not.toBeNull();
+    expect(analysis!.trackingErrorBefore).toBeCloseTo(Math.sqrt(0.004536), 10);
+    expect(analysis!.trackingErrorAfter).toBeCloseTo(0, 10);
+    expect(analysis!.expectedBenefit).toBeCloseTo(22.68, 8);
+    expect(analysis!.rebalancingCost).toBeCloseTo(16, 10);
+    expect(analysis!.worthIt).toBe(true);
+    expect(analysis!.suppressed).toBe(false);
+  });
+
+  it("flags or suppresses trades that cost more than they gain", () => {
+    // Half the risk aversion halves the benefit to 11.34 < 16
+    const flagged = evaluateCostBenefit(DRIFTED, 10000, COV, 0.5, "flag");
+    expect(flagged!.worthIt).toBe(false);
+    expect(flagged!.suppressed).toBe(false);
+
+    const suppressed = evaluateCostBenefit(
+      DRIFTED,
+      10000,
+      COV,
+      0.5,
+      "suppress"
+    );
+    expect(suppressed!.worthIt).toBe(false);
+    expect(suppressed!.suppressed).toBe(true);
+
+    // Worth it is never suppressed
+    expect(
+      evaluateCostBenefit(DRIFTED, 10000, COV, 1, "suppress")!.suppressed
+    ).toBe(false);
+
+    expect(evaluateCostBenefit(DRIFTED, 10000, COV, 0.5, "off")).toBeNull();
+    expect(evaluateCostBenefit(DRIFTED, 0, COV, 0.5, "flag")).toBeNull();
+  });
+
+  it("does not count the cost of scaling current holdings", () => {
+    // Already at 50/50, exposure grows by half: both trades are scaling
+    const analysis = evaluateCostBenefit(
+      [position(5000, 7500, 0.5), position(5000, 7500, 0.5)],
+      10000,
+      COV,
+      0.5,
+      "suppress"
+    );
+
+    expect(analysis!.expectedBenefit).toBeCloseTo(0, 10);
+    expect(analysis!.rebalancingCost).toBeCloseTo(0, 10);
+    expect(analysis!.worthIt).toBe(true);
+    expect(analysis!.suppressed).toBe(false);
+  });
+});
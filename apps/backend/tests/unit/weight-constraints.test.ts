@@ -0,0 +1,150 @@
+/**
+ * Unit Test: Weight Constraints
+ *
+ * Validates asset and asset-type bounds, how they resolve against the
+ * uniform minWeight/maxWeight, and that the projection and max-return
+ * weights used by the optimizers respect them.
+ */
+
+import {
+  getMaxReturnWeights,
+  getWeightBoundErrors,
+  getWeightBoundViolations,
+  parseWeightBounds,
+  projectOntoWeightBounds,
+  resolveWeightBounds,
+} from "../../src/strategy/weight-constraints";
+
+const SYMBOLS = ["BTC-USD", "ETH-USD", "SPY", "GLD"];
+const ASSET_TYPES: Record<string, string> = {
+  "BTC-USD": "crypto",
+  "ETH-USD": "crypto",
+  SPY: "index",
+  GLD: "commodity",
+};
+const DEFAULTS = { minWeight: 0.05, maxWeight: 0.6 };
+
+function total(weights: number[]): number {
+  return weights.reduce((sum, w) => sum + w, 0);
+}
+
+describe("Weight constraints", () => {
+  it("reports invalid bounds with their path", () => {
+    expect(
+      getWeightBoundErrors(
+        {
+          "BTC-USD": { max: 0.15 },
+          SPY: { min: 0.5, max: 0.3 },
+          GLD: { min: 2, floor: 0.1 },
+        },
+        "assetWeightBounds"
+      )
+    ).toEqual([
+      "assetWeightBounds.SPY.min cannot be greater than max",
+      "assetWeightBounds.GLD has unknown setting floor",
+      "assetWeightBounds.GLD.min must be between 0 and 1",
+      "assetWeightBounds minimums add up to 250.0%, more than 100%",
+    ]);
+    expect(getWeightBoundErrors([], "groupWeightBounds")).toEqual([
+      "groupWeightBounds must be an object",
+    ]);
+    expect(parseWeightBounds('{"crypto":{"max":0.2}}')).toEqual({
+      crypto: { max: 0.2 },
+    });
+    expect(parseWeightBounds("not json")).toEqual({});
+  });
+
+  it("checks manual weights against asset and group bounds only", () => {
+    expect(
+      getWeightBoundViolations(
+        { "BTC-USD": 0.2, "ETH-USD": 0.1, SPY: 0.7, GLD: 0 },
+        ASSET_TYPES,
+        { "BTC-USD": { max: 0.15 }, SPY: { min: 0.3 } },
+        { crypto: { max: 0.2 } }
+      )
+    ).toEqual([
+      "Weight for BTC-USD (20.0%) is above its maximum of 15.0%",
+      "Total weight of crypto assets (30.0%) is above its maximum of 20.0%",
+    ]);
+  });
+
+  it("lets asset bounds replace the uniform ones", () => {
+    const bounds = resolveWeightBounds(
+      SYMBOLS,
+      ASSET_TYPES,
+      DEFAULTS,
+      { "BTC-USD": { max: 0.15 }, SPY: { min: 0.7 } },
+      {}
+    );
+
+    expect(bounds.lower).toEqual([0.05, 0.05, 0.7, 0.05]);
+    expect(bounds.upper).toEqual([0.15, 0.6, 0.7, 0.6]);
+    expect(bounds.relaxed).toEqual([]);
+  });
+
+  it("scales asset minimums down to fit a group cap", () => {
+    const bounds = resolveWeightBounds(
+      SYMBOLS,
+      ASSET_TYPES,
+      { minWeight: 0.15, maxWeight: 0.6 },
+      {},
+      { crypto: { max: 0.2 } }
+    );
+
+    expect(bounds.lower[0] + bounds.lower[1]).toBeCloseTo(0.2, 12);
+    expect(bounds.groups).toEqual([
+      { assetType: "crypto", members: [0, 1], min: 0.2, max: 0.2 },
+    ]);
+    expect(bounds.relaxed).toHaveLength(1);
+  });
+
+  it("projects onto the asset and group bounds", () => {
+    const bounds = resolveWeightBounds(
+      SYMBOLS,
+      ASSET_TYPES,
+      DEFAULTS,
+      { "BTC-USD": { max: 0.15 }, SPY: { min: 0.3 } },
+      { crypto: { max: 0.2 } }
+    );
+    const weights = projectOntoWeightBounds([0.5, 0.4, 0.05, 0.05], bounds);
+
+    expect(total(weights)).toBeCloseTo(1, 9);
+    expect(weights[0]).toBeLessThanOrEqual(0.15 + 1e-9);
+    expect(weights[0] + weights[1]).toBeCloseTo(0.2, 9);
+    expect(weights[2]).toBeGreaterThanOrEqual(0.3 - 1e-9);
+    // Inside the bounds the projection is the identity
+    expect(
+      projectOntoWeightBounds([0.1, 0.1, 0.4, 0.4], bounds).map((w) =>
+        Number(w.toFixed(9))
+      )
+    ).toEqual([0.1, 0.1, 0.4, 0.4]);
+  });
+
+  it("fills the best assets first for the maximum return", () => {
+    const bounds = resolveWeightBounds(
+      SYMBOLS,
+      ASSET_TYPES,
+      DEFAULTS,
+      {},
+      { crypto: { max: 0.2 }, commodity: { min: 0.25 } }
+    );
+    const weights = getMaxReturnWeights([0.003, 0.002, 0.001, 0.0005], bounds);
+
+    expect(weights.map((w) => Number(w.toFixed(9)))).toEqual([
+      0.15, 0.05, 0.55, 0.25,
+    ]);
+  });
+
+  it("drops group bounds that cannot hold", () => {
+    const bounds = resolveWeightBounds(
+      ["BTC-USD", "ETH-USD"],
+      ASSET_TYPES,
+      DEFAULTS,
+      {},
+      { crypto: { max: 0.2 } }
+    );
+
+    expect(bounds.groups).toEqual([]);
+    expect(bounds.relaxed[bounds.relaxed.length - 1]).toMatch(/ignored/);
+  });
+});
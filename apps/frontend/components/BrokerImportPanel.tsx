@@ -0,0 +1,522 @@
+import React, { useState } from "react";
+import { Upload } from "lucide-react";
+import {
+  applyBrokerImport,
+  previewBrokerImport,
+  BrokerFormat,
+  BrokerImportPreview,
+  BrokerImportRequest,
+  CsvColumnMapping,
+  ImportPositionChange,
+} from "../lib/api";
+import { formatCurrencyES, formatNumberES } from "../lib/number-format";
+
+const FORMATS: Array<{ value: BrokerFormat; label: string; help: string }> = [
+  {
+    value: "interactive_brokers",
+    label: "Interactive Brokers",
+    help: "Extracto de actividad en CSV (Informes → Extractos → Actividad). Se leen las posiciones abiertas y los depósitos y retiradas.",
+  },
+  {
+    value: "generic",
+    label: "CSV genérico",
+    help: "Cualquier CSV con cabecera. Indica qué columna contiene cada dato; las filas sin símbolo pero con importe se toman como depósitos (positivo) o retiradas (negativo).",
+  },
+];
+
+const ACTION_LABELS: Record<
+  ImportPositionChange["action"],
+  { label: string; color: string }
+> = {
+  add: { label: "Nueva", color: "#4ade80" },
+  update: { label: "Cambia", color: "#60a5fa" },
+  unchanged: { label: "Sin cambios", color: "#94a3b8" },
+  close: { label: "Se cierra", color: "#f87171" },
+  keep: { label: "No aparece (se mantiene)", color: "#fbbf24" },
+};
+
+const MAPPING_FIELDS: Array<{ key: keyof CsvColumnMapping; label: string }> = [
+  { key: "symbol", label: "Símbolo" },
+  { key: "quantity", label: "Cantidad" },
+  { key: "avgPrice", label: "Precio medio" },
+  { key: "date", label: "Fecha" },
+  { key: "amount", label: "Importe" },
+  { key: "description", label: "Descripción" },
+];
+
+/**
+ * Parse "BTC=BTC-USD, ETH=ETH-USD" into a symbol alias map
+ */
+function parseAliases(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text
+      .split(/[,\n]/)
+      .map((pair) => pair.split("=").map((part) => part.trim()))
+      .filter((pair) => pair.length === 2 && pair[0] && pair[1])
+  );
+}
+
+/**
+ * Broker Import Panel
+ * Uploads a broker CSV statement, previews the position and cash changes
+ * and applies them once confirmed
+ */
+export default function BrokerImportPanel({
+  portfolioId,
+  onApplied,
+}: {
+  portfolioId: string;
+  onApplied: (message: string) => void;
+}) {
+  const [format, setFormat] = useState<BrokerFormat>("interactive_brokers");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<CsvColumnMapping>({
+    symbol: "Symbol",
+    quantity: "Quantity",
+    avgPrice: "",
+    date: "",
+    amount: "",
+    description: "",
+  });
+  const [aliasesText, setAliasesText] = useState("");
+  const [closeMissing, setCloseMissing] = useState(false);
+  const [preview, setPreview] = useState<BrokerImportPreview | null>(null);
+  const [applyPositions, setApplyPositions] = useState(true);
+  const [selectedMovements, setSelectedMovements] = useState<Set<number>>(
+    new Set()
+  );
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  const buildRequest = (): BrokerImportRequest => ({
+    format,
+    csv,
+    mapping: format === "generic" ? mapping : undefined,
+    symbolAliases: parseAliases(aliasesText),
+    closeMissing,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setError("");
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError("");
+    try {
+      const result = await previewBrokerImport(portfolioId, buildRequest());
+      setPreview(result);
+      setSelectedMovements(
+        new Set(
+          result.cashMovements
+            .filter((m) => !m.alreadyRecorded)
+            .map((m) => m.index)
+        )
+      );
+    } catch (err) {
+      setPreview(null);
+      setError(
+        err instanceof Error ? err.message : "Error al leer el extracto"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setIsWorking(true);
+    setError("");
+    try {
+      const result = await applyBrokerImport(portfolioId, {
+        ...buildRequest(),
+        applyPositions,
+        cashMovements: Array.from(selectedMovements),
+      });
+      setPreview(null);
+      onApplied(
+        `✅ Extracto importado: ${
+          result.positionsUpdated
+            ? "posiciones actualizadas"
+            : "posiciones sin cambios"
+        }, ${result.contributionIds.length} aportación(es) registrada(s)`
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Error al aplicar el extracto"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleMovement = (index: number) => {
+    setSelectedMovements((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "0.5rem 0.75rem",
+    background: "rgba(255, 255, 255, 0.1)",
+    color: "white",
+    border: "1px solid rgba(255, 255, 255, 0.2)",
+    borderRadius: "6px",
+    fontSize: "0.875rem",
+    boxSizing: "border-box",
+  };
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    color: "rgba(255, 255, 255, 0.7)",
+    fontSize: "0.8rem",
+    marginBottom: "0.25rem",
+  };
+  const cellStyle: React.CSSProperties = { padding: "0.4rem 0.5rem" };
+  const quantity = (value: number) =>
+    formatNumberES(value, { maximumFractionDigits: 8 });
+
+  return (
+    <div
+      style={{
+        background: "rgba(255, 255, 255, 0.1)",
+        borderRadius: "16px",
+        padding: "2rem",
+        backdropFilter: "blur(10px)",
+        marginBottom: "1.5rem",
+      }}
+    >
+      <h2
+        style={{
+          fontSize: "1.25rem",
+          fontWeight: "bold",
+          color: "white",
+          marginBottom: "0.5rem",
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+        }}
+      >
+        <Upload size={20} />
+        Importar Extracto del Broker
+      </h2>
+      <p
+        style={{
+          color: "rgba(255, 255, 255, 0.5)",
+          fontSize: "0.875rem",
+          marginBottom: "1rem",
+        }}
+      >
+        {FORMATS.find((f) => f.value === format)?.help} Verás los cambios antes
+        de aplicarlos.
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))",
+          gap: "1rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <div>
+          <label style={labelStyle}>Formato</label>
+          <select
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as BrokerFormat);
+              setPreview(null);
+            }}
+            style={inputStyle}
+          >
+            {FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>Archivo CSV</label>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            style={{ ...inputStyle, padding: "0.35rem" }}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>
+            Equivalencias de símbolos (ej: BTC=BTC-USD)
+          </label>
+          <input
+            type="text"
+            value={aliasesText}
+            onChange={(e) => setAliasesText(e.target.value)}
+            placeholder="BTC=BTC-USD, ETH=ETH-USD"
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      {format === "generic" && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fit, minmax(140px, 1fr))",
+            gap: "0.75rem",
+            marginBottom: "1rem",
+          }}
+        >
+          {MAPPING_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label style={labelStyle}>Columna {field.label}</label>
+              <input
+                type="text"
+                value={mapping[field.key] || ""}
+                onChange={(e) =>
+                  setMapping((prev) => ({
+                    ...prev,
+                    [field.key]: e.target.value,
+                  }))
+                }
+                style={inputStyle}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          color: "rgba(255, 255, 255, 0.8)",
+          fontSize: "0.875rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={closeMissing}
+          onChange={(e) => setCloseMissing(e.target.checked)}
+        />
+        Cerrar las posiciones que no aparecen en el extracto
+      </label>
+
+      <button
+        type="button"
+        onClick={handlePreview}
+        disabled={!csv || isWorking}
+        style={{
+          padding: "0.5rem 1rem",
+          background: "rgba(59, 130, 246, 0.2)",
+          color: "#3b82f6",
+          border: "1px solid rgba(59, 130, 246, 0.4)",
+          borderRadius: "6px",
+          fontSize: "0.875rem",
+          cursor: !csv || isWorking ? "not-allowed" : "pointer",
+          opacity: !csv || isWorking ? 0.5 : 1,
+        }}
+      >
+        {isWorking && !preview
+          ? "Leyendo..."
+          : `Previsualizar${fileName ? ` ${fileName}` : ""}`}
+      </button>
+
+      {error && (
+        <p
+          style={{ color: "#f87171", fontSize: "0.875rem", marginTop: "1rem" }}
+        >
+          {error}
+        </p>
+      )}
+
+      {preview && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <p style={{ color: "#cbd5e1", fontSize: "0.875rem" }}>
+            {preview.broker}: {preview.summary.added} nuevas,{" "}
+            {preview.summary.updated} con cambios, {preview.summary.closed}{" "}
+            cerradas, {preview.summary.unchanged} sin cambios
+            {preview.summary.kept > 0 &&
+              `, ${preview.summary.kept} no aparecen en el extracto`}
+            .
+          </p>
+
+          {preview.positions.length > 0 && (
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontSize: "0.85rem",
+                color: "rgba(255, 255, 255, 0.85)",
+                marginBottom: "1rem",
+              }}
+            >
+              <thead>
+                <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Activo</th>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Cambio</th>
+                  <th style={cellStyle}>Actual</th>
+                  <th style={cellStyle}>Extracto</th>
+                  <th style={cellStyle}>Diferencia</th>
+                  <th style={cellStyle}>Precio medio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.positions.map((change) => (
+                  <tr
+                    key={change.symbol}
+                    style={{
+                      borderTop: "1px solid rgba(255, 255, 255, 0.1)",
+                      textAlign: "right",
+                    }}
+                  >
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      {change.symbol}
+                    </td>
+                    <td
+                      style={{
+                        ...cellStyle,
+                        textAlign: "left",
+                        color: ACTION_LABELS[change.action].color,
+                      }}
+                    >
+                      {ACTION_LABELS[change.action].label}
+                    </td>
+                    <td style={cellStyle}>
+                      {quantity(change.currentQuantity)}
+                    </td>
+                    <td style={cellStyle}>
+                      {quantity(change.importedQuantity)}
+                    </td>
+                    <td style={cellStyle}>
+                      {change.quantityChange > 0 ? "+" : ""}
+                      {quantity(change.quantityChange)}
+                    </td>
+                    <td style={cellStyle}>
+                      {change.importedAvgPrice !== null
+                        ? formatCurrencyES(change.importedAvgPrice, {
+                            minimumFractionDigits: 2,
+                            maximumFractionDigits: 2,
+                          })
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {preview.cashMovements.length > 0 && (
+            <>
+              <h3
+                style={{
+                  fontSize: "1rem",
+                  fontWeight: "600",
+                  color: "white",
+                  margin: "1rem 0 0.5rem",
+                }}
+              >
+                Depósitos y retiradas
+              </h3>
+              {preview.cashMovements.map((movement) => (
+                <label
+                  key={movement.index}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.5rem",
+                    fontSize: "0.85rem",
+                    padding: "0.25rem 0",
+                    color: movement.alreadyRecorded
+                      ? "rgba(255, 255, 255, 0.4)"
+                      : "rgba(255, 255, 255, 0.85)",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedMovements.has(movement.index)}
+                    disabled={movement.alreadyRecorded}
+                    onChange={() => toggleMovement(movement.index)}
+                  />
+                  <span
+                    style={{
+                      color: movement.amount > 0 ? "#4ade80" : "#f87171",
+                      minWidth: "110px",
+                    }}
+                  >
+                    {formatCurrencyES(movement.amount, {
+                      minimumFractionDigits: 2,
+                      maximumFractionDigits: 2,
+                    })}
+                  </span>
+                  {movement.date || "sin fecha"} · {movement.description}
+                  {movement.alreadyRecorded && " (ya registrado)"}
+                </label>
+              ))}
+            </>
+          )}
+
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              flexWrap: "wrap",
+              gap: "1rem",
+              marginTop: "1rem",
+            }}
+          >
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.5rem",
+                color: "rgba(255, 255, 255, 0.8)",
+                fontSize: "0.875rem",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={applyPositions}
+                onChange={(e) => setApplyPositions(e.target.checked)}
+              />
+              Actualizar posiciones
+            </label>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={isWorking}
+              style={{
+                padding: "0.625rem 1.5rem",
+                background: "linear-gradient(135deg, #10b981 0%, #059669 100%)",
+                color: "white",
+                border: "none",
+                borderRadius: "6px",
+                fontSize: "0.9rem",
+                fontWeight: "600",
+                cursor: isWorking ? "not-allowed" : "pointer",
+                opacity: isWorking ? 0.7 : 1,
+              }}
+            >
+              {isWorking ? "Aplicando..." : "Aplicar importación"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import {
   LayoutDashboard,
   DollarSign,
   Scale,
+  History,
   Edit,
   Settings,
   User,
@@ -13,6 +14,7 @@ import {
   ChevronLeft,
   ChevronRight,
   BookOpen,
+  Receipt,
   Menu,
   X,
 } from "lucide-react";
@@ -85,12 +87,24 @@ export default function DashboardSidebar({
       path: "/dashboard/rebalance",
       color: "#a5b4fc",
     },
+    {
+      label: "Historial",
+      icon: History,
+      path: "/dashboard/rebalance-history",
+      color: "#818cf8",
+    },
     {
       label: "Actualización Manual",
       icon: Edit,
       path: "/dashboard/manual-update",
       color: "#fbbf24",
     },
+    {
+      label: "Lotes Fiscales",
+      icon: Receipt,
+      path: "/dashboard/tax-lots",
+      color: "#f472b6",
+    },
     {
       label: "Configuración",
       icon: Settings,
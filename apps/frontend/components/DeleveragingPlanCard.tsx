@@ -0,0 +1,141 @@
+import React from "react";
+import { ShieldAlert } from "lucide-react";
+import { DeleveragingOption, DeleveragingPlan } from "../lib/api";
+import {
+  formatCurrencyES,
+  formatNumberES,
+  formatPercentES,
+} from "../lib/number-format";
+
+const OPTION_LABELS: Record<DeleveragingOption["type"], string> = {
+  sell: "Solo ventas",
+  contribution: "Solo aporte",
+  mixed: "Aporte parcial + ventas",
+};
+
+/**
+ * Deleveraging Plan Card
+ * Shows the sell / contribution / mixed options to bring leverage back to
+ * the target, with the sells per asset and the margin ratio after each one
+ */
+export default function DeleveragingPlanCard({
+  plan,
+}: {
+  plan: DeleveragingPlan;
+}) {
+  const formatLeverage = (value: number) =>
+    `${formatNumberES(value, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}x`;
+
+  return (
+    <div
+      style={{
+        background: "rgba(239, 68, 68, 0.1)",
+        border: "1px solid rgba(239, 68, 68, 0.3)",
+        borderRadius: "8px",
+        padding: "0.75rem",
+        marginBottom: "0.5rem",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          color: "#f87171",
+          fontWeight: "600",
+          marginBottom: "0.25rem",
+        }}
+      >
+        <ShieldAlert size={16} />
+        Plan de Desapalancamiento
+      </div>
+      <p
+        style={{
+          color: "#94a3b8",
+          fontSize: "0.8rem",
+          marginBottom: "0.75rem",
+        }}
+      >
+        De {formatLeverage(plan.currentLeverage)} a{" "}
+        {formatLeverage(plan.targetLeverage)} · margen actual{" "}
+        {formatPercentES(plan.currentMarginRatio, { showSign: false })}. Las
+        ventas mantienen los pesos actuales (sin costes de trading).
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))",
+          gap: "0.75rem",
+        }}
+      >
+        {plan.options.map((option) => (
+          <div
+            key={option.type}
+            style={{
+              background: "rgba(0,0,0,0.2)",
+              borderRadius: "8px",
+              padding: "0.75rem",
+            }}
+          >
+            <p
+              style={{
+                color: "#f1f5f9",
+                fontWeight: "600",
+                fontSize: "0.9rem",
+                marginBottom: "0.5rem",
+              }}
+            >
+              {OPTION_LABELS[option.type]}
+            </p>
+            {option.contribution > 0 && (
+              <p style={{ color: "#cbd5e1", fontSize: "0.85rem" }}>
+                Aporte: {formatCurrencyES(Math.ceil(option.contribution))}
+              </p>
+            )}
+            {option.totalSells > 0 && (
+              <>
+                <p style={{ color: "#cbd5e1", fontSize: "0.85rem" }}>
+                  Ventas: {formatCurrencyES(option.totalSells)}
+                </p>
+                <ul
+                  style={{
+                    color: "#94a3b8",
+                    fontSize: "0.8rem",
+                    margin: "0.25rem 0 0 1rem",
+                    padding: 0,
+                  }}
+                >
+                  {option.sells.map((sell) => (
+                    <li key={sell.symbol}>
+                      {sell.symbol}:{" "}
+                      {formatNumberES(sell.quantity, {
+                        maximumFractionDigits: 4,
+                      })}{" "}
+                      ({formatCurrencyES(sell.value)})
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            <p
+              style={{
+                color: "#4ade80",
+                fontSize: "0.85rem",
+                marginTop: "0.5rem",
+              }}
+            >
+              Margen después:{" "}
+              {formatPercentES(option.marginRatioAfter, { showSign: false })}
+              {" · "}
+              {formatLeverage(option.leverageAfter)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React from "react";
+import { PieChart } from "lucide-react";
+import { EfficientFrontier, FrontierPoint } from "../lib/api";
+import { formatNumberES, formatPercentES } from "../lib/number-format";
+
+const CHART_WIDTH = 420;
+const CHART_HEIGHT = 220;
+const PADDING = 36;
+
+const POINT_STYLES: Array<{
+  key: "current" | "target" | "sharpeOptimal";
+  label: string;
+  color: string;
+}> = [
+  { key: "current", label: "Actual", color: "#f87171" },
+  { key: "target", label: "Objetivo", color: "#60a5fa" },
+  { key: "sharpeOptimal", label: "Sharpe óptimo", color: "#4ade80" },
+];
+
+/**
+ * Efficient Frontier Card
+ * Risk/return chart of the constrained efficient frontier with the current,
+ * target and Sharpe-optimal portfolios, plus each asset's share of the risk
+ * at current weights
+ */
+export default function EfficientFrontierCard({
+  frontier,
+}: {
+  frontier: EfficientFrontier;
+}) {
+  const percent = (value: number) =>
+    formatPercentES(value, { maximumFractionDigits: 1, showSign: false });
+
+  const { constraints } = frontier;
+  const hasAssetBounds = Object.values(constraints.assetBounds || {}).some(
+    (bound) =>
+      bound.min !== constraints.minWeight || bound.max !== constraints.maxWeight
+  );
+
+  const plotted = [
+    ...frontier.frontier,
+    ...POINT_STYLES.map(({ key }) => frontier[key]).filter(
+      (point): point is FrontierPoint => point !== null
+    ),
+  ];
+  const minVol = Math.min(...plotted.map((p) => p.volatility));
+  const maxVol = Math.max(...plotted.map((p) => p.volatility));
+  const minRet = Math.min(...plotted.map((p) => p.expectedReturn));
+  const maxRet = Math.max(...plotted.map((p) => p.expectedReturn));
+  const x = (vol: number) =>
+    PADDING +
+    ((vol - minVol) / (maxVol - minVol || 1)) * (CHART_WIDTH - 2 * PADDING);
+  const y = (ret: number) =>
+    CHART_HEIGHT -
+    PADDING -
+    ((ret - minRet) / (maxRet - minRet || 1)) * (CHART_HEIGHT - 2 * PADDING);
+
+  return (
+    <div
+      style={{
+        background: "#131b2e",
+        border: "1px solid #1e293b",
+        borderRadius: "8px",
+        padding: "1.5rem",
+        marginBottom: "2rem",
+      }}
+    >
+      <h2
+        style={{
+          fontSize: "1.125rem",
+          fontWeight: "600",
+          color: "#f1f5f9",
+          marginBottom: "1rem",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          <PieChart size={20} />
+          Frontera Eficiente y Contribución al Riesgo
+        </div>
+      </h2>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+          gap: "1.5rem",
+        }}
+      >
+        <div>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            style={{ width: "100%", height: "auto" }}
+          >
+            <line
+              x1={PADDING}
+              y1={CHART_HEIGHT - PADDING}
+              x2={CHART_WIDTH - PADDING}
+              y2={CHART_HEIGHT - PADDING}
+              stroke="#334155"
+            />
+            <line
+              x1={PADDING}
+              y1={PADDING}
+              x2={PADDING}
+              y2={CHART_HEIGHT - PADDING}
+              stroke="#334155"
+            />
+            <text
+              x={CHART_WIDTH / 2}
+              y={CHART_HEIGHT - 8}
+              fill="#64748b"
+              fontSize="11"
+              textAnchor="middle"
+            >
+              Volatilidad anual ({percent(minVol)} – {percent(maxVol)})
+            </text>
+            <text
+              x={12}
+              y={CHART_HEIGHT / 2}
+              fill="#64748b"
+              fontSize="11"
+              textAnchor="middle"
+              transform={`rotate(-90 12 ${CHART_HEIGHT / 2})`}
+            >
+              Retorno esperado
+            </text>
+            <polyline
+              points={frontier.frontier
+                .map((p) => `${x(p.volatility)},${y(p.expectedReturn)}`)
+                .join(" ")}
+              fill="none"
+              stroke="#a78bfa"
+              strokeWidth="2"
+            />
+            {POINT_STYLES.map(({ key, color }) => {
+              const point = frontier[key];
+              return (
+                point && (
+                  <circle
+                    key={key}
+                    cx={x(point.volatility)}
+                    cy={y(point.expectedReturn)}
+                    r="5"
+                    fill={color}
+                  />
+                )
+              );
+            })}
+          </svg>
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "1rem",
+              fontSize: "0.8rem",
+              color: "#cbd5e1",
+            }}
+          >
+            {POINT_STYLES.map(({ key, label, color }) => {
+              const point = frontier[key];
+              return (
+                point && (
+                  <span key={key}>
+                    <span style={{ color }}>●</span> {label}:{" "}
+                    {percent(point.expectedReturn)} /{" "}
+                    {percent(point.volatility)} · Sharpe{" "}
+                    {formatNumberES(point.sharpe, {
+                      maximumFractionDigits: 2,
+                    })}
+                  </span>
+                )
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          {frontier.riskContributions.length > 0 ? (
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontSize: "0.85rem",
+              }}
+            >
+              <thead>
+                <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+                  <th style={{ textAlign: "left", padding: "0.4rem 0" }}>
+                    Activo
+                  </th>
+                  <th style={{ padding: "0.4rem 0" }}>Peso</th>
+                  <th style={{ padding: "0.4rem 0" }}>% del riesgo</th>
+                  <th style={{ padding: "0.4rem 0" }}>Marginal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {frontier.riskContributions.map((rc) => (
+                  <tr
+                    key={rc.symbol}
+                    style={{
+                      color: "rgba(255, 255, 255, 0.85)",
+                      textAlign: "right",
+                      borderTop: "1px solid #1e293b",
+                    }}
+                  >
+                    <td style={{ textAlign: "left", padding: "0.4rem 0" }}>
+                      {rc.symbol}
+                    </td>
+                    <td>{percent(rc.weight)}</td>
+                    <td
+                      style={{
+                        color:
+                          rc.percentOfRisk > 2 * rc.weight
+                            ? "#f87171"
+                            : "inherit",
+                      }}
+                    >
+                      {percent(rc.percentOfRisk)}
+                    </td>
+                    <td>{percent(rc.marginalContribution)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p style={{ color: "#94a3b8", fontSize: "0.85rem" }}>
+              Sin posiciones: no hay riesgo que descomponer.
+            </p>
+          )}
+          <p
+            style={{
+              color: "#64748b",
+              fontSize: "0.75rem",
+              marginTop: "0.75rem",
+            }}
+          >
+            % del riesgo: parte de la varianza de la cartera que aporta cada
+            activo. Marginal: volatilidad añadida por cada punto de peso.
+            Retorno y volatilidad sin apalancamiento; Sharpe con leverage{" "}
+            {formatNumberES(frontier.constraints.leverage, {
+              maximumFractionDigits: 2,
+            })}
+            x. Pesos entre {percent(frontier.constraints.minWeight)} y{" "}
+            {percent(frontier.constraints.maxWeight)}
+            {hasAssetBounds && " salvo límites por activo"}
+            {frontier.constraints.groupBounds?.map(
+              (group) =>
+                `; ${group.assetType} ${percent(group.min)} – ${percent(
+                  group.max
+                )}`
+            )}
+            .
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React from "react";
+import { WeightBound } from "../lib/api";
+import { NumberInput } from "./NumberInput";
+
+/**
+ * Sets or clears one side of a weight bound, dropping entries left empty
+ */
+export function updateWeightBound(
+  bounds: Record<string, WeightBound>,
+  key: string,
+  field: keyof WeightBound,
+  value: number
+): Record<string, WeightBound> {
+  const bound: WeightBound = { ...bounds[key] };
+  if (isNaN(value)) {
+    delete bound[field];
+  } else {
+    bound[field] = value;
+  }
+  const next = { ...bounds };
+  if (bound.min === undefined && bound.max === undefined) {
+    delete next[key];
+  } else {
+    next[key] = bound;
+  }
+  return next;
+}
+
+/**
+ * Editable min/max weight table (percent inputs, empty = no limit)
+ */
+export default function WeightBoundsTable({
+  label,
+  rows,
+  bounds,
+  onChange,
+}: {
+  label: string;
+  rows: Array<{ key: string; label: string }>;
+  bounds: Record<string, WeightBound>;
+  onChange: (key: string, field: keyof WeightBound, value: number) => void;
+}) {
+  const inputStyle: React.CSSProperties = {
+    width: "70px",
+    padding: "0.4rem",
+    background: "rgba(255,255,255,0.1)",
+    color: "white",
+    border: "1px solid #334155",
+    borderRadius: "4px",
+    fontSize: "0.875rem",
+    textAlign: "right",
+  };
+
+  return (
+    <table
+      style={{
+        width: "100%",
+        borderCollapse: "collapse",
+        fontSize: "0.875rem",
+      }}
+    >
+      <thead>
+        <tr style={{ color: "#94a3b8", textAlign: "left" }}>
+          <th style={{ padding: "0.5rem 0" }}>{label}</th>
+          <th style={{ padding: "0.5rem" }}>Mín. (%)</th>
+          <th style={{ padding: "0.5rem" }}>Máx. (%)</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} style={{ borderTop: "1px solid #1e293b" }}>
+            <td style={{ padding: "0.4rem 0", color: "#cbd5e1" }}>
+              {row.label}
+            </td>
+            {(["min", "max"] as const).map((field) => (
+              <td key={field} style={{ padding: "0.4rem 0.5rem" }}>
+                <NumberInput
+                  value={
+                    bounds[row.key]?.[field] !== undefined
+                      ? (bounds[row.key][field] as number) * 100
+                      : NaN
+                  }
+                  onChange={(val) =>
+                    onChange(row.key, field, isNaN(val) ? NaN : val / 100)
+                  }
+                  min={0}
+                  max={100}
+                  decimals={1}
+                  placeholder="—"
+                  style={inputStyle}
+                />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
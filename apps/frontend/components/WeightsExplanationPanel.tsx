@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import { HelpCircle } from "lucide-react";
+import { getProposalExplanation, OptimizerInputs } from "../lib/api";
+import { formatNumberES, formatPercentES } from "../lib/number-format";
+
+/**
+ * Weights Explanation Panel
+ * "Explain these weights" toggle showing what the optimizer saw: sample
+ * window, mean returns before/after shrinkage, volatilities, correlations,
+ * constraints and the resulting Sharpe. Uses the given inputs or loads the
+ * ones stored with the proposal.
+ */
+export default function WeightsExplanationPanel({
+  portfolioId,
+  proposalId,
+  inputs: initialInputs,
+}: {
+  portfolioId: string;
+  proposalId?: string | null;
+  inputs?: OptimizerInputs | null;
+}) {
+  const [open, setOpen] = useState(false);
+  const [inputs, setInputs] = useState<OptimizerInputs | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const shown = initialInputs ?? inputs;
+
+  const handleToggle = async () => {
+    const next = !open;
+    setOpen(next);
+    if (!next || shown || !proposalId) return;
+
+    setIsLoading(true);
+    setError("");
+    try {
+      const explanation = await getProposalExplanation(portfolioId, proposalId);
+      setInputs(explanation.inputs);
+      if (!explanation.inputs) {
+        setError("Esta propuesta no guardó los datos del optimizador");
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Error al cargar la explicación"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const percent = (value: number) =>
+    formatPercentES(value, { maximumFractionDigits: 1, showSign: false });
+  const hasViews = shown?.meanReturns.some(
+    (mean) => Math.abs(mean.used - mean.shrunk) > 1e-9
+  );
+
+  return (
+    <div style={{ marginTop: "0.75rem" }}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.4rem",
+          background: "none",
+          border: "none",
+          padding: 0,
+          color: "#a5b4fc",
+          fontSize: "0.85rem",
+          cursor: "pointer",
+        }}
+      >
+        <HelpCircle size={14} />
+        {open ? "Ocultar explicación" : "Explicar estos pesos"}
+      </button>
+
+      {open && (
+        <div
+          style={{
+            marginTop: "0.75rem",
+            background: "rgba(0,0,0,0.2)",
+            borderRadius: "8px",
+            padding: "0.75rem",
+            fontSize: "0.8rem",
+            color: "rgba(255, 255, 255, 0.7)",
+          }}
+        >
+          {isLoading && <p>Cargando...</p>}
+          {error && <p style={{ color: "#f87171" }}>{error}</p>}
+          {shown && (
+            <>
+              <p style={{ marginBottom: "0.5rem" }}>
+                Ventana:{" "}
+                {new Date(shown.window.from).toLocaleDateString("es-ES")} –{" "}
+                {new Date(shown.window.to).toLocaleDateString("es-ES")} (
+                {shown.window.observations} retornos diarios
+                {shown.window.lookbackDays > 0
+                  ? `, máximo ${shown.window.lookbackDays}`
+                  : ", todo el histórico"}
+                {shown.window.ewmaHalfLifeDays > 0 &&
+                  `, EWMA ${shown.window.ewmaHalfLifeDays} días`}
+                )
+              </p>
+              <p style={{ marginBottom: "0.75rem" }}>
+                Restricciones: peso {percent(shown.constraints.minWeight)} –{" "}
+                {percent(shown.constraints.maxWeight)} · leverage{" "}
+                {formatNumberES(shown.constraints.leverage, {
+                  maximumFractionDigits: 2,
+                })}
+                x · tasa libre de riesgo{" "}
+                {percent(shown.constraints.riskFreeRate)} · shrinkage{" "}
+                {formatNumberES(shown.meanReturnShrinkage, {
+                  maximumFractionDigits: 2,
+                })}{" "}
+                · Sharpe{" "}
+                {formatNumberES(shown.sharpe, { maximumFractionDigits: 2 })}
+              </p>
+              {shown.constraints.groupBounds &&
+                shown.constraints.groupBounds.length > 0 && (
+                  <p style={{ marginBottom: "0.75rem" }}>
+                    Por tipo de activo:{" "}
+                    {shown.constraints.groupBounds
+                      .map(
+                        (group) =>
+                          `${group.assetType} ${percent(group.min)} – ${percent(
+                            group.max
+                          )}`
+                      )
+                      .join(" · ")}
+                  </p>
+                )}
+              {shown.constraints.relaxed?.map((message) => (
+                <p
+                  key={message}
+                  style={{ color: "#fbbf24", marginBottom: "0.5rem" }}
+                >
+                  {message}
+                </p>
+              ))}
+
+              <table style={tableStyle}>
+                <thead>
+                  <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+                    <th style={{ ...cellStyle, textAlign: "left" }}>Activo</th>
+                    <th style={cellStyle}>Peso</th>
+                    {shown.constraints.assetBounds && (
+                      <th style={cellStyle}>Límites</th>
+                    )}
+                    <th style={cellStyle}>Retorno histórico</th>
+                    <th style={cellStyle}>Tras shrinkage</th>
+                    {hasViews && <th style={cellStyle}>Con visiones</th>}
+                    <th style={cellStyle}>Volatilidad</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.meanReturns.map((mean, i) => (
+                    <tr
+                      key={mean.symbol}
+                      style={{
+                        textAlign: "right",
+                        borderTop: "1px solid #1e293b",
+                      }}
+                    >
+                      <td style={{ ...cellStyle, textAlign: "left" }}>
+                        {mean.symbol}
+                      </td>
+                      <td style={cellStyle}>
+                        {percent(shown.weights[mean.symbol] ?? 0)}
+                      </td>
+                      {shown.constraints.assetBounds && (
+                        <td style={cellStyle}>
+                          {percent(
+                            shown.constraints.assetBounds[mean.symbol]?.min ?? 0
+                          )}{" "}
+                          –{" "}
+                          {percent(
+                            shown.constraints.assetBounds[mean.symbol]?.max ?? 1
+                          )}
+                        </td>
+                      )}
+                      <td style={cellStyle}>{percent(mean.sample)}</td>
+                      <td style={cellStyle}>{percent(mean.shrunk)}</td>
+                      {hasViews && (
+                        <td style={cellStyle}>{percent(mean.used)}</td>
+                      )}
+                      <td style={cellStyle}>
+                        {percent(shown.volatilities[i])}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <p style={{ margin: "0.75rem 0 0.25rem", color: "#94a3b8" }}>
+                Correlaciones
+              </p>
+              <table style={tableStyle}>
+                <thead>
+                  <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+                    <th style={cellStyle} />
+                    {shown.symbols.map((symbol) => (
+                      <th key={symbol} style={cellStyle}>
+                        {symbol}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.correlation.map((row, i) => (
+                    <tr key={shown.symbols[i]} style={{ textAlign: "right" }}>
+                      <td style={{ ...cellStyle, textAlign: "left" }}>
+                        {shown.symbols[i]}
+                      </td>
+                      {row.map((value, j) => (
+                        <td
+                          key={shown.symbols[j]}
+                          style={{
+                            ...cellStyle,
+                            background:
+                              value >= 0
+                                ? `rgba(248, 113, 113, ${value * 0.4})`
+                                : `rgba(96, 165, 250, ${-value * 0.4})`,
+                          }}
+                        >
+                          {formatNumberES(value, {
+                            minimumFractionDigits: 2,
+                            maximumFractionDigits: 2,
+                          })}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const tableStyle: React.CSSProperties = {
+  width: "100%",
+  borderCollapse: "collapse",
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "0.3rem 0.4rem",
+};
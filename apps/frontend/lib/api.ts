@@ -12,8 +12,10 @@ export interface Position {
   id: string;
   quantity: number;
   avgPrice: number;
-  currentPrice: number;
-  exposureUsd: number;
+  currentPrice: number; // Quote currency
+  quoteCurrency?: string;
+  fxRate?: number; // Base currency per unit of quoteCurrency
+  exposure: number; // Base currency
   pnl: number;
   pnlPercent: number;
   weight: number;
@@ -168,6 +170,8 @@ export async function createContribution(data: {
   portfolioId: string;
   amount: number;
   note?: string;
+  tranches?: number; // Staged deployment (1 = deploy at once)
+  trancheSchedule?: TrancheSchedule;
 }) {
   return fetchAPI("/contributions", {
     method: "POST",
@@ -185,6 +189,7 @@ export async function updatePositions(data: {
     quantity: number;
     avgPrice: number;
     source: string;
+    lotIds?: string[];
   }>;
   equity?: number;
 }) {
@@ -209,8 +214,138 @@ export interface ProposalPosition {
   deltaValue: number;
   targetWeight: number;
   currentWeight: number;
-  currentPrice: number;
+  currentPrice: number; // Base currency
+  quoteCurrency: string;
+  fxRate: number; // Base currency per unit of quoteCurrency
   action: "BUY" | "SELL" | "HOLD";
+  skipReason:
+    | "drift_band"
+    | "min_notional"
+    | "lot_size"
+    | "cost_benefit"
+    | null;
+  estimatedCost: number;
+}
+
+/**
+ * Trading costs vs expected benefit of returning to the target weights
+ */
+export interface CostBenefitAnalysis {
+  trackingErrorBefore: number;
+  trackingErrorAfter: number;
+  expectedBenefit: number; // USD per year
+  rebalancingCost: number;
+  worthIt: boolean;
+  suppressed: boolean;
+}
+
+/**
+ * How the optimizer reached the proposed weights
+ */
+export interface OptimizerDiagnostics {
+  method: OptimizationMethod;
+  solver: "projected_gradient" | "coordinate_descent";
+  converged: boolean;
+  iterations: number;
+  sharpe: number;
+  bindingBounds: Array<{
+    symbol: string;
+    bound: "min" | "max";
+    weight: number;
+  }>;
+  bindingGroups?: Array<{
+    assetType: string;
+    bound: "min" | "max";
+    weight: number; // Total weight of the asset type
+  }>; // Missing on proposals stored before group bounds existed
+  estimation: {
+    observations: number;
+    effectiveObservations: number;
+    covarianceEstimator: CovarianceEstimator;
+    covarianceShrinkage: number;
+    meanEstimator: MeanEstimator;
+    meanShrinkage: number;
+  };
+  returnViews: {
+    weightsWithoutViews: Record<string, number>;
+    views: ReturnViewImpact[];
+  } | null;
+  inputs?: OptimizerInputs; // Missing on proposals stored before inputs were kept
+}
+
+/**
+ * What the optimizer saw (returns and covariance annualized)
+ */
+export interface OptimizerInputs {
+  symbols: string[];
+  window: {
+    from: string;
+    to: string;
+    observations: number;
+    lookbackDays: number;
+    ewmaHalfLifeDays: number;
+  };
+  meanReturns: Array<{
+    symbol: string;
+    sample: number;
+    shrunk: number;
+    used: number;
+  }>;
+  meanReturnShrinkage: number;
+  volatilities: number[];
+  covariance: number[][];
+  correlation: number[][];
+  constraints: WeightConstraints & {
+    leverage: number;
+    riskFreeRate: number;
+  };
+  weights: Record<string, number>;
+  sharpe: number;
+}
+
+/**
+ * Weight bounds the optimizer ran with, after relaxation
+ * Asset and group bounds are missing on proposals stored before they existed
+ */
+export interface WeightConstraints {
+  minWeight: number;
+  maxWeight: number;
+  assetBounds?: Record<string, { min: number; max: number }>;
+  groupBounds?: Array<{
+    assetType: string;
+    symbols: string[];
+    min: number;
+    max: number;
+  }>;
+  relaxed?: string[];
+}
+
+/**
+ * Optimizer inputs and outputs stored with a proposal
+ */
+export interface ProposalExplanation {
+  proposalId: string;
+  createdAt: string;
+  status: string;
+  rebalanceEventId: string | null;
+  optimizationMethod: OptimizationMethod | "static";
+  dynamicWeightsComputed: boolean;
+  weightsUsed: Record<string, number>;
+  diagnostics: OptimizerDiagnostics | null;
+  inputs: OptimizerInputs | null;
+}
+
+/**
+ * How one return view moved its asset's mean and the Sharpe weights
+ */
+export interface ReturnViewImpact {
+  symbol: string;
+  expectedReturn: number;
+  confidence: ViewConfidence;
+  expiresAt: string;
+  priorReturn: number;
+  posteriorReturn: number;
+  weightChanges: Record<string, number>; // This view alone vs no views
 }
 
 /**
@@ -218,10 +353,14 @@ export interface ProposalPosition {
  * Full interface matching backend RebalanceProposal
  */
 export interface RebalanceProposal {
+  baseCurrency: string; // Currency of all prices and values
+  fxMissingCurrencies: string[]; // Valued 1:1 for lack of a rate (cannot be accepted)
+
   // Current state
   currentEquity: number;
   currentExposure: number;
   currentLeverage: number;
+  leverageStatus: "low" | "in_range" | "high";
 
   // Target state
   targetLeverage: number;
@@ -234,6 +373,10 @@ export interface RebalanceProposal {
     weightDeviationTriggered: boolean;
     volatilityTriggered: boolean;
   };
+  matchedDeployRule: MatchedDeployRule | null;
+
+  // Sell / contribution / mixed options (leverage high only)
+  deleveragingPlan: DeleveragingPlan | null;
 
   // Metrics used for decision
   drawdown: number;
@@ -243,6 +386,7 @@ export interface RebalanceProposal {
 
   // Pending contribution
   pendingContribution: number;
+  stagedDeployment: StagedDeploymentStatus | null;
 
   // Positions
   positions: ProposalPosition[];
@@ -254,11 +398,22 @@ export interface RebalanceProposal {
     newLeverage: number;
     equityUsedFromContribution: number;
     borrowIncrease: number;
+    residualCash: number;
+    estimatedCosts: number;
   };
 
+  // null when disabled or not enough price history
+  costBenefit: CostBenefitAnalysis | null;
+
   // Weights used
   weightsUsed: Record<string, number>;
   dynamicWeightsComputed: boolean;
+  optimizationMethod: OptimizationMethod | "static";
+  optimizerDiagnostics: OptimizerDiagnostics | null;
+
+  // Stored proposal
+  proposalId?: string;
+  expiresAt?: string;
 }
 
 /**
@@ -271,18 +426,203 @@ export async function getRebalanceProposal(
 }
 
 /**
- * Accept a rebalance proposal
+ * Configuration overrides for a what-if rebalance
+ */
+export interface SimulateRebalanceDto
+  extends Omit<UpdatePortfolioConfigurationDto, "targetWeights"> {
+  targetWeights?: Record<string, number>;
+  contributionAmount?: number;
+}
+
+/**
+ * Calculate the proposal a configuration change would produce
+ * Nothing is saved; the result cannot be accepted
+ */
+export async function simulateRebalanceProposal(
+  portfolioId: string,
+  overrides: SimulateRebalanceDto
+): Promise<RebalanceProposal> {
+  return fetchAPI(`/portfolios/${portfolioId}/rebalance/simulate`, {
+    method: "POST",
+    body: JSON.stringify(overrides),
+  });
+}
+
+/**
+ * Accept a stored rebalance proposal by ID
  */
 export async function acceptRebalanceProposal(
   portfolioId: string,
-  proposal: RebalanceProposal
-): Promise<{ success: boolean; message: string }> {
+  proposalId: string
+): Promise<{ success: boolean; message: string; rebalanceEventId: string }> {
   return fetchAPI(`/portfolios/${portfolioId}/rebalance/accept`, {
     method: "POST",
-    body: JSON.stringify(proposal),
+    body: JSON.stringify({ proposalId }),
   });
 }
 
+/**
+ * Actual broker fill for one rebalance position
+ * executedQuantity is absolute; the side comes from the proposal
+ */
+export interface ExecutionItem {
+  assetId: string;
+  executedQuantity: number;
+  fillPrice: number;
+  fee?: number;
+  lotIds?: string[]; // Lots to relieve first on a sell ('specific' method)
+}
+
+/**
+ * Execution vs proposal for one position
+ */
+export interface ExecutionReportPosition {
+  rebalancePositionId: string;
+  assetId: string;
+  assetSymbol: string;
+  action: "BUY" | "SELL" | "HOLD";
+  proposedQuantity: number;
+  executedQuantity: number | null;
+  quantityShortfall: number | null;
+  quoteCurrency: string;
+  fxRate: number; // Base currency per unit of quoteCurrency, at accept time
+  proposedPrice: number | null; // Quote currency
+  fillPrice: number | null; // Quote currency
+  priceSlippage: number | null;
+  slippageCost: number | null; // Base currency
+  fee: number | null;
+  executedAt: string | null;
+}
+
+/**
+ * Slippage report for a rebalance event
+ */
+export interface ExecutionReport {
+  rebalanceEventId: string;
+  portfolioId: string;
+  baseCurrency: string; // Currency of slippageCost and totals
+  createdAt: string;
+  executedAt: string | null;
+  fullyRecorded: boolean;
+  positions: ExecutionReportPosition[];
+  totals: {
+    proposedNotional: number;
+    executedNotional: number;
+    fees: number;
+    slippageCost: number;
+    totalCost: number;
+  };
+}
+
+/**
+ * Record actual fills for an accepted rebalance
+ */
+export async function recordRebalanceExecutions(
+  portfolioId: string,
+  rebalanceEventId: string,
+  executions: ExecutionItem[]
+): Promise<ExecutionReport> {
+  return fetchAPI(
+    `/portfolios/${portfolioId}/rebalance/events/${rebalanceEventId}/executions`,
+    {
+      method: "POST",
+      body: JSON.stringify({ executions }),
+    }
+  );
+}
+
+/**
+ * Get slippage report for a rebalance event
+ */
+export async function getRebalanceExecutionReport(
+  portfolioId: string,
+  rebalanceEventId: string
+): Promise<ExecutionReport> {
+  return fetchAPI(
+    `/portfolios/${portfolioId}/rebalance/events/${rebalanceEventId}/executions`
+  );
+}
+
+/**
+ * One asset of a past rebalance
+ */
+export interface RebalanceHistoryPosition {
+  assetId: string;
+  assetSymbol: string;
+  assetName: string;
+  targetWeight: number;
+  targetUsd: number;
+  deltaQuantity: number;
+  deltaUsd: number | null;
+  proposedPrice: number | null;
+  executedQuantity: number | null;
+  fillPrice: number | null;
+}
+
+/**
+ * Past rebalance event (weight fields are null for legacy events)
+ */
+export interface RebalanceHistoryEvent {
+  id: string;
+  createdAt: string;
+  executedAt: string | null;
+  revertedAt: string | null;
+  triggeredBy: string;
+  targetLeverage: number;
+  proposalId: string | null;
+  weightsUsed: Record<string, number> | null;
+  dynamicWeightsComputed: boolean | null;
+  optimizationMethod: OptimizationMethod | "static" | null;
+  positions: RebalanceHistoryPosition[];
+}
+
+export interface RebalanceHistoryPage {
+  portfolioId: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  events: RebalanceHistoryEvent[];
+}
+
+/**
+ * Get past rebalance events, newest first
+ */
+export async function getRebalanceHistory(
+  portfolioId: string,
+  page = 1,
+  pageSize = 20
+): Promise<RebalanceHistoryPage> {
+  return fetchAPI(
+    `/portfolios/${portfolioId}/rebalance/history?page=${page}&pageSize=${pageSize}`
+  );
+}
+
+/**
+ * Get what the optimizer saw for a stored proposal ("explain these weights")
+ */
+export async function getProposalExplanation(
+  portfolioId: string,
+  proposalId: string
+): Promise<ProposalExplanation> {
+  return fetchAPI(
+    `/portfolios/${portfolioId}/rebalance/proposals/${proposalId}/explanation`
+  );
+}
+
+/**
+ * Revert the last accepted rebalance (restores positions and metrics)
+ */
+export async function revertRebalance(
+  portfolioId: string,
+  rebalanceEventId: string
+): Promise<{ success: boolean; message: string; rebalanceEventId: string }> {
+  return fetchAPI(
+    `/portfolios/${portfolioId}/rebalance/events/${rebalanceEventId}/revert`,
+    { method: "POST" }
+  );
+}
+
 /**
  * Get daily metrics for a portfolio (equity/exposure per day).
  */
@@ -302,6 +642,181 @@ export interface TargetWeight {
   weight: number;
 }
 
+/**
+ * Optimizer used when dynamic weights are enabled
+ */
+export type OptimizationMethod =
+  | "sharpe"
+  | "risk_parity"
+  | "min_variance"
+  | "max_diversification";
+
+/**
+ * Covariance estimator for the optimizers
+ */
+export type CovarianceEstimator = "sample" | "ledoit_wolf";
+
+/**
+ * Mean return estimator for the Sharpe optimizer
+ */
+export type MeanEstimator = "sample" | "james_stein";
+
+/**
+ * What to do when a rebalance costs more than it is expected to gain
+ */
+export type CostBenefitMode = "off" | "flag" | "suppress";
+
+/**
+ * Which tax lots a sell relieves first
+ */
+export type LotReliefMethod = "fifo" | "lifo" | "specific";
+
+/**
+ * Metric a deploy rule can compare against
+ */
+export type DeployRuleMetric =
+  | "drawdown"
+  | "weightDeviation"
+  | "volatility"
+  | "trend"
+  | "leverage"
+  | "marginRatio"
+  | "equity"
+  | "exposure"
+  | "pendingContributions"
+  | "monthNumber";
+
+/**
+ * Deploy rule condition: comparison, or all/any/not of other conditions
+ */
+export type DeployRuleCondition =
+  | {
+      metric: DeployRuleMetric;
+      op: "<" | "<=" | ">" | ">=" | "==" | "!=";
+      value: number;
+    }
+  | { all: DeployRuleCondition[] }
+  | { any: DeployRuleCondition[] }
+  | { not: DeployRuleCondition };
+
+/**
+ * Custom deploy rule (checked in order, first match wins)
+ */
+export interface DeployRule {
+  name: string;
+  when: DeployRuleCondition;
+  deployFraction: number;
+}
+
+/**
+ * Rule that set the deploy fraction
+ */
+export interface MatchedDeployRule {
+  index: number;
+  name: string;
+  source: "default" | "custom";
+  deployFraction: number;
+}
+
+export type ViewConfidence = "low" | "medium" | "high";
+
+/**
+ * Annual return view blended into the Sharpe optimizer (Black–Litterman)
+ */
+export interface ReturnView {
+  symbol: string;
+  expectedReturn: number;
+  confidence: ViewConfidence;
+  expiresAt: string;
+}
+
+export type TrancheSchedule = "weekly" | "signal";
+
+/**
+ * Tranche of a staged contribution not yet deployed
+ */
+export interface PendingTranche {
+  contributionId: string;
+  trancheNumber: number;
+  trancheCount: number;
+  amount: number;
+  schedule: TrancheSchedule;
+  dueAt: string | null; // null = waiting for a deploy signal
+  due: boolean;
+  reason: string | null;
+}
+
+/**
+ * Staged deployment status of a portfolio
+ */
+export interface StagedDeploymentStatus {
+  dueAmount: number;
+  heldBackAmount: number;
+  dueTranches: PendingTranche[];
+  remainingTranches: PendingTranche[];
+}
+
+/**
+ * Sell of one position in a deleveraging option
+ */
+export interface DeleveragingSell {
+  symbol: string;
+  quantity: number;
+  value: number;
+  weight: number;
+}
+
+/**
+ * One way of bringing leverage back to the target
+ */
+export interface DeleveragingOption {
+  type: "sell" | "contribution" | "mixed";
+  contribution: number;
+  sells: DeleveragingSell[];
+  totalSells: number;
+  equityAfter: number;
+  exposureAfter: number;
+  leverageAfter: number;
+  marginRatioAfter: number;
+}
+
+/**
+ * Options to return an over-leveraged portfolio to the target leverage
+ */
+export interface DeleveragingPlan {
+  currentLeverage: number;
+  currentMarginRatio: number;
+  targetLeverage: number;
+  options: DeleveragingOption[];
+}
+
+/**
+ * Weight bounds for an asset (keyed by symbol) or asset type
+ */
+export interface WeightBound {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Trading costs for an asset type
+ */
+export interface TransactionCostSettings {
+  commissionRate: number; // Fraction of notional
+  commissionFixed: number; // USD per trade
+  spreadBps: number;
+  slippageBps: number;
+}
+
+/**
+ * Per-asset overrides of the trade filters and costs (missing = portfolio value)
+ */
+export interface AssetTradingSettings extends Partial<TransactionCostSettings> {
+  lotSize?: number; // Quantity step, 0 = fractional
+  minTradeNotional?: number;
+  driftTolerance?: number; // Fraction
+}
+
 /**
  * Portfolio configuration interface
  */
@@ -324,11 +839,27 @@ export interface PortfolioConfiguration {
   volatilityLookbackDays: number;
   volatilityRedeployThreshold: number;
   gradualDeployFactor: number;
+  deployRules: DeployRule[] | null;
   useDynamicSharpeRebalance: boolean;
+  optimizationMethod: OptimizationMethod;
   meanReturnShrinkage: number;
   riskFreeRate: number;
+  returnViews: ReturnView[] | null;
+  estimationLookbackDays: number;
+  ewmaHalfLifeDays: number;
+  covarianceEstimator: CovarianceEstimator;
+  meanEstimator: MeanEstimator;
+  minTradeNotional: number;
+  driftToleranceBand: number;
+  assetTradingSettings: Record<string, AssetTradingSettings>; // Keyed by symbol
+  transactionCosts: Record<string, TransactionCostSettings>;
+  costBenefitMode: CostBenefitMode;
+  riskAversion: number;
+  lotReliefMethod: LotReliefMethod;
   maxWeight: number;
   minWeight: number;
+  assetWeightBounds: Record<string, WeightBound>;
+  groupWeightBounds: Record<string, WeightBound>;
   targetWeights: TargetWeight[];
 }
 
@@ -351,11 +882,27 @@ export interface UpdatePortfolioConfigurationDto {
   volatilityLookbackDays?: number;
   volatilityRedeployThreshold?: number;
   gradualDeployFactor?: number;
+  deployRules?: DeployRule[] | null;
   useDynamicSharpeRebalance?: boolean;
+  optimizationMethod?: OptimizationMethod;
   meanReturnShrinkage?: number;
   riskFreeRate?: number;
+  returnViews?: ReturnView[] | null;
+  estimationLookbackDays?: number;
+  ewmaHalfLifeDays?: number;
+  covarianceEstimator?: CovarianceEstimator;
+  meanEstimator?: MeanEstimator;
+  minTradeNotional?: number;
+  driftToleranceBand?: number;
+  assetTradingSettings?: Record<string, AssetTradingSettings>;
+  transactionCosts?: Record<string, TransactionCostSettings>;
+  costBenefitMode?: CostBenefitMode;
+  riskAversion?: number;
+  lotReliefMethod?: LotReliefMethod;
   maxWeight?: number;
   minWeight?: number;
+  assetWeightBounds?: Record<string, WeightBound>;
+  groupWeightBounds?: Record<string, WeightBound>;
   targetWeights?: TargetWeight[];
 }
 
@@ -447,8 +994,10 @@ export interface DeploySignals {
   weightDeviationTriggered: boolean;
   volatility: number | null;
   volatilityTriggered: boolean;
+  trend: number | null;
   anySignalTriggered: boolean;
   deployFraction: number;
+  matchedRule: MatchedDeployRule | null;
 }
 
 /**
@@ -491,7 +1040,9 @@ export interface RecommendationActions {
   purchases?: PurchaseRecommendation[];
   totalPurchaseValue?: number;
   extraContribution?: ExtraContributionRecommendation;
+  deleveragingPlan?: DeleveragingPlan;
   contributionReminder?: ContributionReminder;
+  tranches?: PendingTranche[];
 }
 
 export type RecommendationPriority = "low" | "medium" | "high" | "urgent";
@@ -501,6 +1052,7 @@ export type RecommendationType =
   | "leverage_high"
   | "deploy_signal"
   | "rebalance_needed"
+  | "tranche_due"
   | "in_range";
 
 /**
@@ -532,6 +1084,7 @@ export interface PortfolioRecommendationsResponse {
     targetWeights: Record<string, number>;
   };
   signals: DeploySignals;
+  stagedDeployment: StagedDeploymentStatus | null;
   recommendations: Recommendation[];
   isContributionDay: boolean;
   nextContributionDate: string | null;
@@ -551,6 +1104,371 @@ export async function getPortfolioRecommendations(
   return fetchAPI(`/portfolios/${portfolioId}/recommendations`);
 }
 
+// ============================================
+// LIQUIDATION RISK
+// ============================================
+
+/**
+ * Margin call probability for a horizon
+ */
+export interface LiquidationRiskHorizon {
+  months: number;
+  tradingDays: number;
+  marginCallProbability: number;
+}
+
+/**
+ * Monte Carlo liquidation risk response from API
+ */
+export interface PortfolioLiquidationRisk {
+  portfolioId: string;
+  timestamp: string;
+  currentState: {
+    equity: number;
+    exposure: number;
+    leverage: number;
+    marginRatio: number;
+  };
+  configuration: {
+    leverageMin: number;
+    leverageMax: number;
+    leverageTarget: number;
+    maintenanceMarginRatio: number;
+    monthlyContribution: number;
+    contributionEnabled: boolean;
+  };
+  simulation: {
+    paths: number;
+    historyDays: number;
+    historyStart: string | null;
+    historyEnd: string | null;
+    assets: string[];
+  };
+  distanceToMarginCall: number;
+  horizons: LiquidationRiskHorizon[];
+  equityPercentiles: { p5: number; p50: number; p95: number } | null;
+  insufficientData: boolean;
+}
+
+/**
+ * Get Monte Carlo liquidation risk for a portfolio
+ */
+export async function getPortfolioLiquidationRisk(
+  portfolioId: string
+): Promise<PortfolioLiquidationRisk> {
+  return fetchAPI(`/portfolios/${portfolioId}/risk/liquidation`);
+}
+
+// ============================================
+// EFFICIENT FRONTIER
+// ============================================
+
+/**
+ * A portfolio on the risk/return plane (annual, unleveraged)
+ */
+export interface FrontierPoint {
+  expectedReturn: number;
+  volatility: number;
+  sharpe: number;
+  weights: Record<string, number>;
+}
+
+/**
+ * Risk contribution of one asset at current weights
+ */
+export interface AssetRiskContribution {
+  symbol: string;
+  weight: number;
+  marginalContribution: number;
+  riskContribution: number;
+  percentOfRisk: number;
+}
+
+/**
+ * Efficient frontier and risk decomposition response from API
+ */
+export interface EfficientFrontier {
+  portfolioId: string;
+  timestamp: string;
+  symbols: string[];
+  constraints: WeightConstraints & {
+    leverage: number;
+    riskFreeRate: number;
+  };
+  frontier: FrontierPoint[];
+  current: FrontierPoint | null;
+  target: FrontierPoint | null;
+  sharpeOptimal: FrontierPoint;
+  riskContributions: AssetRiskContribution[];
+}
+
+/**
+ * Get the constrained efficient frontier and risk contributions
+ */
+export async function getPortfolioFrontier(
+  portfolioId: string
+): Promise<EfficientFrontier> {
+  return fetchAPI(`/portfolios/${portfolioId}/analytics/frontier`);
+}
+
+// ============================================
+// TAX LOTS
+// ============================================
+
+/**
+ * One relieved part of a tax lot
+ */
+export interface TaxLotDisposal {
+  id: string;
+  source: string;
+  sourceId: string | null;
+  disposedAt: string;
+  quantity: number;
+  costPerUnit: number;
+  proceedsPerUnit: number;
+  costBasis: number;
+  proceeds: number;
+  realizedGain: number;
+  holdingDays: number;
+  term: "short" | "long";
+}
+
+/**
+ * A tax lot with its realized and unrealized gains
+ */
+export interface TaxLot {
+  id: string;
+  assetId: string;
+  assetSymbol: string;
+  assetName: string;
+  source: string;
+  sourceId: string | null;
+  acquiredAt: string;
+  closedAt: string | null;
+  quantity: number;
+  remainingQuantity: number;
+  costPerUnit: number;
+  costBasis: number;
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  realizedGain: number;
+  disposals: TaxLotDisposal[];
+}
+
+/**
+ * Lot totals for one asset
+ */
+export interface TaxLotAssetSummary {
+  assetId: string;
+  assetSymbol: string;
+  openLots: number;
+  openQuantity: number;
+  costBasis: number;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  realizedGain: number;
+}
+
+/**
+ * Tax lot report from API
+ */
+export interface TaxLotReport {
+  portfolioId: string;
+  lotReliefMethod: LotReliefMethod;
+  year: number | null;
+  lots: TaxLot[];
+  assets: TaxLotAssetSummary[];
+  totals: {
+    costBasis: number;
+    marketValue: number;
+    unrealizedGain: number;
+    realizedGain: number;
+    realizedShortTerm: number;
+    realizedLongTerm: number;
+  };
+}
+
+/**
+ * Get tax lots with realized/unrealized gains
+ * With a year, only disposals of that year count as realized
+ */
+export async function getTaxLots(
+  portfolioId: string,
+  year?: number
+): Promise<TaxLotReport> {
+  const query = year ? `?year=${year}` : "";
+  return fetchAPI(`/portfolios/${portfolioId}/tax-lots${query}`);
+}
+
+// ============================================
+// BROKER IMPORT
+// ============================================
+
+export type BrokerFormat = "generic" | "interactive_brokers";
+
+/**
+ * Header names of the generic CSV columns
+ * Rows with a symbol are holdings; rows without one but with an amount are
+ * deposits (positive) or withdrawals (negative)
+ */
+export interface CsvColumnMapping {
+  symbol: string;
+  quantity: string;
+  avgPrice?: string;
+  date?: string;
+  amount?: string;
+  description?: string;
+  delimiter?: string;
+  decimalSeparator?: "." | ",";
+}
+
+/**
+ * Broker statement sent for preview
+ */
+export interface BrokerImportRequest {
+  format: BrokerFormat;
+  csv: string;
+  mapping?: CsvColumnMapping;
+  symbolAliases?: Record<string, string>; // e.g. { "BTC": "BTC-USD" }
+  closeMissing?: boolean; // Close held positions the statement does not list
+}
+
+/**
+ * Change of one position after the import
+ */
+export interface ImportPositionChange {
+  symbol: string;
+  action: "add" | "update" | "unchanged" | "close" | "keep";
+  currentQuantity: number;
+  importedQuantity: number;
+  quantityChange: number;
+  currentAvgPrice: number | null;
+  importedAvgPrice: number | null;
+}
+
+/**
+ * Deposit or withdrawal found in the statement
+ */
+export interface ImportedCashMovement {
+  index: number;
+  date: string | null;
+  amount: number;
+  description: string;
+  type: "deposit" | "withdrawal";
+  note: string;
+  alreadyRecorded: boolean;
+}
+
+/**
+ * Import preview from API (nothing stored yet)
+ */
+export interface BrokerImportPreview {
+  portfolioId: string;
+  format: BrokerFormat;
+  broker: string;
+  positions: ImportPositionChange[];
+  cashMovements: ImportedCashMovement[];
+  summary: {
+    added: number;
+    updated: number;
+    closed: number;
+    unchanged: number;
+    kept: number;
+    newDeposits: number;
+    newWithdrawals: number;
+  };
+}
+
+/**
+ * Preview a broker statement against the current positions
+ */
+export async function previewBrokerImport(
+  portfolioId: string,
+  data: BrokerImportRequest
+): Promise<BrokerImportPreview> {
+  return fetchAPI(`/portfolios/${portfolioId}/import/preview`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Apply a previewed statement
+ * Positions are updated like the manual update and each selected cash
+ * movement is recorded as a contribution (negative for withdrawals)
+ */
+export async function applyBrokerImport(
+  portfolioId: string,
+  data: BrokerImportRequest & {
+    applyPositions?: boolean;
+    cashMovements?: number[]; // Indexes; default all not already recorded
+  }
+): Promise<{
+  preview: BrokerImportPreview;
+  positionsUpdated: boolean;
+  contributionIds: string[];
+}> {
+  return fetchAPI(`/portfolios/${portfolioId}/import/apply`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+// ============================================
+// BACKTEST
+// ============================================
+
+/**
+ * Single simulated day of a backtest
+ */
+export interface BacktestPoint {
+  date: string;
+  equity: number;
+  exposure: number;
+  leverage: number;
+  drawdown: number;
+  marginRatio: number;
+  contribution: number;
+  rebalanced: boolean;
+  deployFraction: number | null;
+  weightsUsed: Record<string, number> | null;
+}
+
+/**
+ * Backtest result from API
+ */
+export interface BacktestResult {
+  portfolioId: string;
+  baseCurrency: string; // Currency of equity, exposure and contributions
+  from: string;
+  to: string;
+  initialCapital: number;
+  totalContributions: number;
+  rebalanceCount: number;
+  marginCallDates: string[];
+  liquidatedAt: string | null;
+  series: BacktestPoint[];
+  analytics: AnalyticsStats;
+}
+
+/**
+ * Replay the rebalance strategy over stored price history
+ */
+export async function getPortfolioBacktest(
+  portfolioId: string,
+  from?: string,
+  to?: string
+): Promise<BacktestResult> {
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString();
+  return fetchAPI(
+    `/portfolios/${portfolioId}/backtest${query ? `?${query}` : ""}`
+  );
+}
+
 // ============================================
 // USER PROFILE
 // ============================================
@@ -643,6 +1561,8 @@ export interface CreatePortfolioRequest {
   assets: OnboardingAsset[];
   weightAllocationMethod: "sharpe" | "manual" | "equal";
   targetWeights?: Record<string, number>;
+  assetWeightBounds?: Record<string, WeightBound>;
+  groupWeightBounds?: Record<string, WeightBound>;
   leverageMin?: number;
   leverageMax?: number;
   leverageTarget?: number;
@@ -5,8 +5,12 @@ import {
   getPortfolioSummary,
   getPortfolioMetrics,
   getPortfolioRecommendations,
+  getPortfolioLiquidationRisk,
+  getPortfolioFrontier,
   PortfolioSummary,
   PortfolioRecommendationsResponse,
+  PortfolioLiquidationRisk,
+  EfficientFrontier,
 } from "../api";
 import { swrConfig } from "../swr-config";
 
@@ -121,6 +125,54 @@ export function usePortfolioRecommendations(portfolioId: string | null) {
   };
 }
 
+/**
+ * Hook to get Monte Carlo liquidation risk (cached)
+ * Simulation is heavier than other endpoints, so don't revalidate stale data
+ */
+export function usePortfolioLiquidationRisk(portfolioId: string | null) {
+  const { data, error, isLoading, mutate } = useSWR<PortfolioLiquidationRisk>(
+    portfolioId ? `portfolio-risk-${portfolioId}` : null,
+    () => getPortfolioLiquidationRisk(portfolioId!),
+    {
+      ...swrConfig,
+      revalidateIfStale: false,
+      // Don't fail the dashboard if the simulation fails
+      shouldRetryOnError: false,
+    }
+  );
+
+  return {
+    liquidationRisk: data || null,
+    isLoading,
+    error,
+    mutate, // Allow manual refresh
+  };
+}
+
+/**
+ * Hook to get the efficient frontier and risk contributions (cached)
+ * Tracing the frontier runs the optimizer many times, so don't revalidate stale data
+ */
+export function usePortfolioFrontier(portfolioId: string | null) {
+  const { data, error, isLoading, mutate } = useSWR<EfficientFrontier>(
+    portfolioId ? `portfolio-frontier-${portfolioId}` : null,
+    () => getPortfolioFrontier(portfolioId!),
+    {
+      ...swrConfig,
+      revalidateIfStale: false,
+      // Don't fail the dashboard without enough price history
+      shouldRetryOnError: false,
+    }
+  );
+
+  return {
+    frontier: data || null,
+    isLoading,
+    error,
+    mutate, // Allow manual refresh
+  };
+}
+
 /**
  * Invalidate all portfolio-related cache for a specific portfolio
  * Use this after operations that modify portfolio data (rebalance, position updates, etc.)
@@ -134,6 +186,8 @@ export function invalidatePortfolioCache(portfolioId: string | null, userEmail?:
     mutate(`portfolio-summary-${portfolioId}`, undefined, { revalidate: true });
     mutate(`portfolio-metrics-${portfolioId}`, undefined, { revalidate: true });
     mutate(`portfolio-recommendations-${portfolioId}`, undefined, { revalidate: true });
+    mutate(`portfolio-risk-${portfolioId}`, undefined, { revalidate: true });
+    mutate(`portfolio-frontier-${portfolioId}`, undefined, { revalidate: true });
   }
   
   if (userEmail) {
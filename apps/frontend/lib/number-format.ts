@@ -17,6 +17,7 @@ export function formatCurrencyES(
     minimumFractionDigits?: number;
     maximumFractionDigits?: number;
     showSymbol?: boolean;
+    currency?: string; // ISO code, shown instead of "$" unless USD
   }
 ): string {
   if (!Number.isFinite(value)) return "-";
@@ -25,6 +26,7 @@ export function formatCurrencyES(
     minimumFractionDigits = 0,
     maximumFractionDigits = 0,
     showSymbol = true,
+    currency = "USD",
   } = options || {};
 
   // Format with Spanish locale
@@ -33,7 +35,8 @@ export function formatCurrencyES(
     maximumFractionDigits,
   });
 
-  return showSymbol ? `${formatted} $` : formatted;
+  if (!showSymbol) return formatted;
+  return currency === "USD" ? `${formatted} $` : `${formatted} ${currency}`;
 }
 
 /**
@@ -8,6 +8,17 @@ import {
   updatePortfolioConfiguration,
   PortfolioConfiguration,
   TargetWeight,
+  OptimizationMethod,
+  CovarianceEstimator,
+  MeanEstimator,
+  CostBenefitMode,
+  TransactionCostSettings,
+  AssetTradingSettings,
+  LotReliefMethod,
+  DeployRule,
+  ReturnView,
+  ViewConfidence,
+  WeightBound,
 } from "../../lib/api";
 import DashboardSidebar from "../../components/DashboardSidebar";
 import { invalidatePortfolioCache } from "../../lib/hooks/use-portfolio-data";
@@ -20,10 +31,95 @@ import {
   Edit,
   Shield,
   Bell,
+  Filter,
+  Sigma,
+  Receipt,
+  Layers,
+  Zap,
+  Plus,
+  Trash2,
 } from "lucide-react";
 import { NumberInput } from "../../components/NumberInput";
+import WeightBoundsTable, {
+  updateWeightBound,
+} from "../../components/WeightBoundsTable";
 import { formatNumberES, formatPercentES } from "../../lib/number-format";
 
+const VIEW_CONFIDENCES: Array<{ value: ViewConfidence; label: string }> = [
+  { value: "low", label: "Baja (25%)" },
+  { value: "medium", label: "Media (50%)" },
+  { value: "high", label: "Alta (75%)" },
+];
+
+/**
+ * Placeholder for the deploy rules editor
+ */
+const DEPLOY_RULES_EXAMPLE = `[
+  {
+    "name": "Caída fuerte con calma",
+    "when": {
+      "all": [
+        { "metric": "drawdown", "op": "<=", "value": -0.15 },
+        { "metric": "volatility", "op": "<", "value": 0.25 }
+      ]
+    },
+    "deployFraction": 1
+  }
+]`;
+
+/**
+ * Optimizers available for dynamic weights
+ */
+const OPTIMIZATION_METHODS: Array<{
+  value: OptimizationMethod;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "sharpe",
+    label: "Máximo Sharpe",
+    description:
+      "Maximiza el ratio Sharpe apalancado. Depende de la estimación de retornos medios.",
+  },
+  {
+    value: "risk_parity",
+    label: "Paridad de Riesgo",
+    description:
+      "Cada activo aporta el mismo riesgo a la cartera. No usa retornos esperados.",
+  },
+  {
+    value: "min_variance",
+    label: "Mínima Varianza",
+    description:
+      "Minimiza la volatilidad total de la cartera. No usa retornos esperados.",
+  },
+  {
+    value: "max_diversification",
+    label: "Máxima Diversificación",
+    description:
+      "Maximiza el ratio entre la volatilidad media ponderada y la volatilidad de la cartera.",
+  },
+];
+
+/**
+ * Asset types with editable trading costs ("default" covers the rest)
+ */
+const COST_ASSET_TYPES: Array<{ value: string; label: string }> = [
+  { value: "default", label: "Por defecto" },
+  { value: "crypto", label: "Cripto" },
+  { value: "index", label: "Índices / ETF" },
+  { value: "stock", label: "Acciones" },
+  { value: "commodity", label: "Materias primas" },
+  { value: "bond", label: "Bonos" },
+];
+
+const EMPTY_COSTS: TransactionCostSettings = {
+  commissionRate: 0,
+  commissionFixed: 0,
+  spreadBps: 0,
+  slippageBps: 0,
+};
+
 /**
  * Portfolio Configuration Page
  * Allows users to customize strategy parameters, leverage range, and target weights
@@ -53,16 +149,44 @@ export default function Configuration() {
     leverageMax: 4.0,
     leverageTarget: 3.0,
     useDynamicSharpeRebalance: true,
+    optimizationMethod: "sharpe" as OptimizationMethod,
     meanReturnShrinkage: 0.6,
     riskFreeRate: 0.02,
+    estimationLookbackDays: 0,
+    ewmaHalfLifeDays: 0,
+    covarianceEstimator: "sample" as CovarianceEstimator,
+    meanEstimator: "sample" as MeanEstimator,
     maintenanceMarginRatio: 0.05,
     safeMarginRatio: 0.15,
     criticalMarginRatio: 0.1,
     maxWeight: 0.4,
     minWeight: 0.05,
+    minTradeNotional: 0,
+    driftToleranceBand: 0,
+    costBenefitMode: "flag" as CostBenefitMode,
+    riskAversion: 2,
+    lotReliefMethod: "fifo" as LotReliefMethod,
   });
 
   const [targetWeights, setTargetWeights] = useState<TargetWeight[]>([]);
+  const [transactionCosts, setTransactionCosts] = useState<
+    Record<string, TransactionCostSettings>
+  >({});
+  // Per-asset trade filters by symbol (missing = portfolio value)
+  const [assetTradingSettings, setAssetTradingSettings] = useState<
+    Record<string, AssetTradingSettings>
+  >({});
+  // Custom deploy rules edited as JSON ("" = built-in signals)
+  const [deployRulesText, setDeployRulesText] = useState("");
+  // Black–Litterman views for the Sharpe optimizer (expiresAt as YYYY-MM-DD)
+  const [returnViews, setReturnViews] = useState<ReturnView[]>([]);
+  // Optional weight limits by symbol and by asset type (fractions)
+  const [assetWeightBounds, setAssetWeightBounds] = useState<
+    Record<string, WeightBound>
+  >({});
+  const [groupWeightBounds, setGroupWeightBounds] = useState<
+    Record<string, WeightBound>
+  >({});
 
   // Load portfolio and configuration
   useEffect(() => {
@@ -99,15 +223,40 @@ export default function Configuration() {
             leverageTarget: configData.leverageTarget || 3.0,
             useDynamicSharpeRebalance:
               configData.useDynamicSharpeRebalance ?? true,
+            optimizationMethod: configData.optimizationMethod || "sharpe",
             meanReturnShrinkage: configData.meanReturnShrinkage || 0.6,
             riskFreeRate: configData.riskFreeRate || 0.02,
+            estimationLookbackDays: configData.estimationLookbackDays || 0,
+            ewmaHalfLifeDays: configData.ewmaHalfLifeDays || 0,
+            covarianceEstimator: configData.covarianceEstimator || "sample",
+            meanEstimator: configData.meanEstimator || "sample",
             maintenanceMarginRatio: configData.maintenanceMarginRatio || 0.05,
             safeMarginRatio: configData.safeMarginRatio || 0.15,
             criticalMarginRatio: configData.criticalMarginRatio || 0.1,
             maxWeight: configData.maxWeight || 0.4,
             minWeight: configData.minWeight || 0.05,
+            minTradeNotional: configData.minTradeNotional || 0,
+            driftToleranceBand: configData.driftToleranceBand || 0,
+            costBenefitMode: configData.costBenefitMode || "flag",
+            riskAversion: configData.riskAversion ?? 2,
+            lotReliefMethod: configData.lotReliefMethod || "fifo",
           });
           setTargetWeights(configData.targetWeights || []);
+          setTransactionCosts(configData.transactionCosts || {});
+          setAssetTradingSettings(configData.assetTradingSettings || {});
+          setDeployRulesText(
+            configData.deployRules
+              ? JSON.stringify(configData.deployRules, null, 2)
+              : ""
+          );
+          setReturnViews(
+            (configData.returnViews || []).map((view) => ({
+              ...view,
+              expiresAt: view.expiresAt.slice(0, 10),
+            }))
+          );
+          setAssetWeightBounds(configData.assetWeightBounds || {});
+          setGroupWeightBounds(configData.groupWeightBounds || {});
         } catch {
           setError("Failed to load configuration");
         }
@@ -129,12 +278,72 @@ export default function Configuration() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleCostChange = (
+    assetType: string,
+    field: keyof TransactionCostSettings,
+    value: number
+  ) => {
+    setTransactionCosts((prev) => ({
+      ...prev,
+      [assetType]: {
+        ...(prev[assetType] || EMPTY_COSTS),
+        [field]: isNaN(value) ? 0 : value,
+      },
+    }));
+  };
+
+  const handleAssetTradingChange = (
+    symbol: string,
+    field: keyof AssetTradingSettings,
+    value: number
+  ) => {
+    setAssetTradingSettings((prev) => {
+      const settings: AssetTradingSettings = { ...prev[symbol] };
+      if (isNaN(value)) {
+        delete settings[field];
+      } else {
+        settings[field] = value;
+      }
+      const next = { ...prev };
+      if (Object.keys(settings).length === 0) {
+        delete next[symbol];
+      } else {
+        next[symbol] = settings;
+      }
+      return next;
+    });
+  };
+
   const handleWeightChange = (index: number, weight: number) => {
     setTargetWeights((prev) =>
       prev.map((tw, i) => (i === index ? { ...tw, weight } : tw))
     );
   };
 
+  const handleViewChange = (index: number, changes: Partial<ReturnView>) => {
+    setReturnViews((prev) =>
+      prev.map((view, i) => (i === index ? { ...view, ...changes } : view))
+    );
+  };
+
+  const handleAddView = () => {
+    const used = new Set(returnViews.map((view) => view.symbol));
+    const symbol =
+      targetWeights.find((tw) => !used.has(tw.symbol))?.symbol ||
+      targetWeights[0]?.symbol ||
+      "";
+    const expiresAt = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000);
+    setReturnViews((prev) => [
+      ...prev,
+      {
+        symbol,
+        expectedReturn: 0.1,
+        confidence: "low",
+        expiresAt: expiresAt.toISOString().slice(0, 10),
+      },
+    ]);
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!portfolioId) return;
@@ -160,9 +369,27 @@ export default function Configuration() {
         return;
       }
 
+      // Rules are validated by the backend; only the JSON syntax is checked here
+      let deployRules: DeployRule[] | null = null;
+      if (deployRulesText.trim()) {
+        try {
+          deployRules = JSON.parse(deployRulesText);
+        } catch {
+          setError("Las reglas de despliegue no son un JSON válido");
+          setIsSaving(false);
+          return;
+        }
+      }
+
       await updatePortfolioConfiguration(portfolioId, {
         ...formData,
         targetWeights,
+        transactionCosts,
+        assetTradingSettings,
+        deployRules,
+        returnViews,
+        assetWeightBounds,
+        groupWeightBounds,
       });
 
       // Invalidate cache, especially recommendations which depend on configuration
@@ -537,7 +764,7 @@ export default function Configuration() {
                           }}
                         >
                           <TrendingUp size={16} />
-                          Optimización Sharpe
+                          Optimización Dinámica
                         </div>
                         <div
                           style={{
@@ -546,8 +773,8 @@ export default function Configuration() {
                             marginTop: "0.25rem",
                           }}
                         >
-                          Los pesos se calculan automáticamente para maximizar
-                          el ratio Sharpe
+                          Los pesos se calculan automáticamente con el
+                          optimizador seleccionado
                         </div>
                       </div>
                     </label>
@@ -726,9 +953,51 @@ export default function Configuration() {
                       color: "#cbd5e1",
                     }}
                   >
+                    <label
+                      style={{
+                        display: "block",
+                        fontWeight: "500",
+                        marginBottom: "0.5rem",
+                        color: "#cbd5e1",
+                        fontSize: "0.875rem",
+                      }}
+                    >
+                      Optimizador
+                    </label>
+                    <select
+                      value={formData.optimizationMethod}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "optimizationMethod",
+                          e.target.value as OptimizationMethod
+                        )
+                      }
+                      style={{
+                        width: "100%",
+                        padding: "0.625rem 0.875rem",
+                        background: "rgba(255,255,255,0.05)",
+                        color: "white",
+                        border: "1px solid #334155",
+                        borderRadius: "6px",
+                        fontSize: "0.95rem",
+                        marginBottom: "0.75rem",
+                      }}
+                    >
+                      {OPTIMIZATION_METHODS.map((method) => (
+                        <option key={method.value} value={method.value}>
+                          {method.label}
+                        </option>
+                      ))}
+                    </select>
                     <p style={{ margin: 0 }}>
-                      Los pesos se calcularán automáticamente mediante
-                      optimización Sharpe cuando realices un rebalance.
+                      {
+                        OPTIMIZATION_METHODS.find(
+                          (method) =>
+                            method.value === formData.optimizationMethod
+                        )?.description
+                      }{" "}
+                      Los pesos se calcularán automáticamente cuando realices
+                      un rebalance.
                     </p>
                   </div>
                 ) : (
@@ -738,7 +1007,7 @@ export default function Configuration() {
                   </p>
                 )}
 
-                {/* Weight Limits - Only visible when Sharpe optimization is selected */}
+                {/* Weight Limits - Only visible when dynamic optimization is selected */}
                 {formData.useDynamicSharpeRebalance && (
                   <div style={{ marginTop: "1.5rem" }}>
                     <div
@@ -792,8 +1061,62 @@ export default function Configuration() {
                 )}
               </ConfigSection>
 
+              {/* Weight Bounds - per symbol and per asset type */}
+              {targetWeights.length > 0 && (
+                <ConfigSection
+                  title={
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                      }}
+                    >
+                      <Scale size={18} />
+                      Límites por Activo y Tipo
+                    </div>
+                  }
+                >
+                  <p style={helpTextStyle}>
+                    Límites opcionales que el optimizador y los pesos manuales
+                    deben respetar (ej: BTC-USD máximo 15%, SPY mínimo 30%,
+                    cripto en total máximo 20%). Un límite por activo sustituye
+                    al peso mínimo/máximo general. Deja el campo vacío para no
+                    limitar.
+                  </p>
+                  <div style={gridStyle}>
+                    <WeightBoundsTable
+                      label="Activo"
+                      rows={targetWeights.map((tw) => ({
+                        key: tw.symbol,
+                        label: tw.symbol,
+                      }))}
+                      bounds={assetWeightBounds}
+                      onChange={(key, field, value) =>
+                        setAssetWeightBounds((prev) =>
+                          updateWeightBound(prev, key, field, value)
+                        )
+                      }
+                    />
+                    <WeightBoundsTable
+                      label="Tipo de activo"
+                      rows={COST_ASSET_TYPES.filter(
+                        (type) => type.value !== "default"
+                      ).map((type) => ({ key: type.value, label: type.label }))}
+                      bounds={groupWeightBounds}
+                      onChange={(key, field, value) =>
+                        setGroupWeightBounds((prev) =>
+                          updateWeightBound(prev, key, field, value)
+                        )
+                      }
+                    />
+                  </div>
+                </ConfigSection>
+              )}
+
               {/* Sharpe Optimization - Only visible when Sharpe optimization is selected */}
-              {formData.useDynamicSharpeRebalance && (
+              {formData.useDynamicSharpeRebalance &&
+                formData.optimizationMethod === "sharpe" && (
                 <ConfigSection
                   title={
                     <div
@@ -835,6 +1158,309 @@ export default function Configuration() {
                       help="Tasa de interés libre de riesgo anual (ej: bonos del tesoro). Se usa para calcular el Sharpe Ratio: (Retorno - Tasa Libre de Riesgo) / Volatilidad. Valores típicos: 2-3%."
                     />
                   </div>
+
+                  <h3
+                    style={{
+                      fontSize: "0.95rem",
+                      fontWeight: "600",
+                      color: "#f1f5f9",
+                      marginTop: "1.5rem",
+                    }}
+                  >
+                    Visiones de Retorno
+                  </h3>
+                  <p style={helpTextStyle}>
+                    Tu opinión sobre el retorno anual de un activo (ej: BTC 10%
+                    anual con confianza baja). Se mezcla con los retornos
+                    históricos (Black–Litterman): con confianza baja el retorno
+                    esperado se mueve un 25% del camino hacia tu visión, con
+                    media un 50% y con alta un 75%. Las visiones caducadas se
+                    ignoran.
+                  </p>
+                  {returnViews.length > 0 && (
+                    <table
+                      style={{
+                        width: "100%",
+                        marginTop: "0.75rem",
+                        borderCollapse: "collapse",
+                        fontSize: "0.875rem",
+                      }}
+                    >
+                      <thead>
+                        <tr style={{ color: "#94a3b8", textAlign: "left" }}>
+                          <th style={{ padding: "0.5rem 0" }}>Activo</th>
+                          <th style={{ padding: "0.5rem" }}>
+                            Retorno anual (%)
+                          </th>
+                          <th style={{ padding: "0.5rem" }}>Confianza</th>
+                          <th style={{ padding: "0.5rem" }}>Caduca</th>
+                          <th />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {returnViews.map((view, index) => (
+                          <tr
+                            key={index}
+                            style={{ borderTop: "1px solid #1e293b" }}
+                          >
+                            <td style={{ padding: "0.5rem 0" }}>
+                              <select
+                                value={view.symbol}
+                                onChange={(e) =>
+                                  handleViewChange(index, {
+                                    symbol: e.target.value,
+                                  })
+                                }
+                                style={{
+                                  padding: "0.5rem",
+                                  background: "rgba(255,255,255,0.1)",
+                                  color: "white",
+                                  border: "1px solid #334155",
+                                  borderRadius: "4px",
+                                  fontSize: "0.9rem",
+                                }}
+                              >
+                                {targetWeights.map((tw) => (
+                                  <option key={tw.symbol} value={tw.symbol}>
+                                    {tw.symbol}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                            <td style={{ padding: "0.5rem" }}>
+                              <NumberInput
+                                value={view.expectedReturn * 100}
+                                onChange={(val) =>
+                                  handleViewChange(index, {
+                                    expectedReturn: val / 100,
+                                  })
+                                }
+                                min={-99}
+                                max={1000}
+                                decimals={1}
+                                style={{
+                                  width: "90px",
+                                  padding: "0.5rem",
+                                  background: "rgba(255,255,255,0.1)",
+                                  color: "white",
+                                  border: "1px solid #334155",
+                                  borderRadius: "4px",
+                                  fontSize: "0.9rem",
+                                  textAlign: "right",
+                                }}
+                              />
+                            </td>
+                            <td style={{ padding: "0.5rem" }}>
+                              <select
+                                value={view.confidence}
+                                onChange={(e) =>
+                                  handleViewChange(index, {
+                                    confidence: e.target
+                                      .value as ViewConfidence,
+                                  })
+                                }
+                                style={{
+                                  padding: "0.5rem",
+                                  background: "rgba(255,255,255,0.1)",
+                                  color: "white",
+                                  border: "1px solid #334155",
+                                  borderRadius: "4px",
+                                  fontSize: "0.9rem",
+                                }}
+                              >
+                                {VIEW_CONFIDENCES.map((confidence) => (
+                                  <option
+                                    key={confidence.value}
+                                    value={confidence.value}
+                                  >
+                                    {confidence.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                            <td style={{ padding: "0.5rem" }}>
+                              <input
+                                type="date"
+                                value={view.expiresAt}
+                                onChange={(e) =>
+                                  handleViewChange(index, {
+                                    expiresAt: e.target.value,
+                                  })
+                                }
+                                style={{
+                                  padding: "0.5rem",
+                                  background: "rgba(255,255,255,0.1)",
+                                  color: "white",
+                                  border: "1px solid #334155",
+                                  borderRadius: "4px",
+                                  fontSize: "0.9rem",
+                                }}
+                              />
+                            </td>
+                            <td style={{ padding: "0.5rem 0" }}>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setReturnViews((prev) =>
+                                    prev.filter((_, i) => i !== index)
+                                  )
+                                }
+                                title="Eliminar visión"
+                                style={{
+                                  background: "none",
+                                  border: "none",
+                                  color: "#f87171",
+                                  cursor: "pointer",
+                                }}
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleAddView}
+                    disabled={targetWeights.length === 0}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                      marginTop: "0.75rem",
+                      padding: "0.5rem 1rem",
+                      background: "rgba(59, 130, 246, 0.1)",
+                      color: "#60a5fa",
+                      border: "1px solid rgba(59, 130, 246, 0.3)",
+                      borderRadius: "6px",
+                      fontSize: "0.875rem",
+                      cursor: "pointer",
+                    }}
+                  >
+                    <Plus size={16} />
+                    Añadir visión
+                  </button>
+                </ConfigSection>
+              )}
+
+              {/* Estimators - Only visible when dynamic optimization is selected */}
+              {formData.useDynamicSharpeRebalance && (
+                <ConfigSection
+                  title={
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                      }}
+                    >
+                      <Sigma size={18} />
+                      Estimación de Retornos y Covarianzas
+                    </div>
+                  }
+                >
+                  <div style={gridStyle}>
+                    <InputField
+                      label="Ventana Histórica"
+                      value={formData.estimationLookbackDays}
+                      onChange={(v) =>
+                        handleInputChange("estimationLookbackDays", v)
+                      }
+                      type="number"
+                      min={0}
+                      max={3650}
+                      step={1}
+                      suffix="días"
+                      help="Número de retornos diarios usados para estimar (0 = todo el histórico, mínimo 20)."
+                    />
+                    <InputField
+                      label="Vida Media EWMA"
+                      value={formData.ewmaHalfLifeDays}
+                      onChange={(v) => handleInputChange("ewmaHalfLifeDays", v)}
+                      type="number"
+                      min={0}
+                      max={1000}
+                      step={1}
+                      suffix="días"
+                      help="Da más peso a los datos recientes: un retorno de hace N días pesa la mitad (0 = todos los días pesan igual)."
+                    />
+                    <div>
+                      <label
+                        style={{
+                          display: "block",
+                          fontWeight: "500",
+                          marginBottom: "0.5rem",
+                          color: "#cbd5e1",
+                          fontSize: "0.875rem",
+                        }}
+                      >
+                        Covarianza
+                      </label>
+                      <select
+                        value={formData.covarianceEstimator}
+                        onChange={(e) =>
+                          handleInputChange(
+                            "covarianceEstimator",
+                            e.target.value as CovarianceEstimator
+                          )
+                        }
+                        style={{
+                          width: "100%",
+                          padding: "0.625rem 0.875rem",
+                          background: "rgba(255,255,255,0.05)",
+                          color: "white",
+                          border: "1px solid #334155",
+                          borderRadius: "6px",
+                          fontSize: "0.95rem",
+                        }}
+                      >
+                        <option value="sample">Muestral</option>
+                        <option value="ledoit_wolf">
+                          Ledoit–Wolf (contraída)
+                        </option>
+                      </select>
+                    </div>
+                    {formData.optimizationMethod === "sharpe" && (
+                      <div>
+                        <label
+                          style={{
+                            display: "block",
+                            fontWeight: "500",
+                            marginBottom: "0.5rem",
+                            color: "#cbd5e1",
+                            fontSize: "0.875rem",
+                          }}
+                        >
+                          Retornos Medios
+                        </label>
+                        <select
+                          value={formData.meanEstimator}
+                          onChange={(e) =>
+                            handleInputChange(
+                              "meanEstimator",
+                              e.target.value as MeanEstimator
+                            )
+                          }
+                          style={{
+                            width: "100%",
+                            padding: "0.625rem 0.875rem",
+                            background: "rgba(255,255,255,0.05)",
+                            color: "white",
+                            border: "1px solid #334155",
+                            borderRadius: "6px",
+                            fontSize: "0.95rem",
+                          }}
+                        >
+                          <option value="sample">Muestrales</option>
+                          <option value="james_stein">
+                            James–Stein (hacia la media global)
+                          </option>
+                        </select>
+                      </div>
+                    )}
+                  </div>
                 </ConfigSection>
               )}
 
@@ -896,6 +1522,423 @@ export default function Configuration() {
                 </div>
               </ConfigSection>
 
+              {/* Trade Filters */}
+              <ConfigSection
+                title={
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                    }}
+                  >
+                    <Filter size={18} />
+                    Filtros de Operación
+                  </div>
+                }
+              >
+                <div style={gridStyle}>
+                  <InputField
+                    label="Operación Mínima"
+                    value={formData.minTradeNotional}
+                    onChange={(v) => handleInputChange("minTradeNotional", v)}
+                    type="number"
+                    min={0}
+                    step={10}
+                    suffix="$"
+                    help="Las propuestas omiten compras o ventas por debajo de este importe."
+                  />
+                  <InputField
+                    label="Banda de Tolerancia"
+                    value={formData.driftToleranceBand * 100}
+                    onChange={(v) =>
+                      handleInputChange("driftToleranceBand", v / 100)
+                    }
+                    type="number"
+                    min={0}
+                    max={20}
+                    step={0.5}
+                    suffix="%"
+                    help="No se opera un activo mientras su peso se desvíe del objetivo menos que esta banda."
+                  />
+                </div>
+                <table
+                  style={{
+                    width: "100%",
+                    marginTop: "1.5rem",
+                    borderCollapse: "collapse",
+                    fontSize: "0.875rem",
+                  }}
+                >
+                  <thead>
+                    <tr style={{ color: "#94a3b8", textAlign: "left" }}>
+                      <th style={{ padding: "0.5rem 0" }}>Activo</th>
+                      <th style={{ padding: "0.5rem" }}>Lote</th>
+                      <th style={{ padding: "0.5rem" }}>Operación mín. ($)</th>
+                      <th style={{ padding: "0.5rem" }}>Banda (%)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {targetWeights.map((tw) => {
+                      const settings = assetTradingSettings[tw.symbol] || {};
+                      const fields: Array<{
+                        field: keyof AssetTradingSettings;
+                        scale: number;
+                        decimals: number;
+                      }> = [
+                        { field: "lotSize", scale: 1, decimals: 6 },
+                        { field: "minTradeNotional", scale: 1, decimals: 2 },
+                        { field: "driftTolerance", scale: 100, decimals: 1 },
+                      ];
+                      return (
+                        <tr
+                          key={tw.symbol}
+                          style={{ borderTop: "1px solid #1e293b" }}
+                        >
+                          <td style={{ padding: "0.5rem 0", color: "#cbd5e1" }}>
+                            {tw.symbol}
+                          </td>
+                          {fields.map(({ field, scale, decimals }) => (
+                            <td key={field} style={{ padding: "0.5rem" }}>
+                              <NumberInput
+                                value={
+                                  settings[field] !== undefined
+                                    ? (settings[field] as number) * scale
+                                    : NaN
+                                }
+                                onChange={(val) =>
+                                  handleAssetTradingChange(
+                                    tw.symbol,
+                                    field,
+                                    isNaN(val) ? NaN : val / scale
+                                  )
+                                }
+                                min={0}
+                                max={
+                                  field === "driftTolerance" ? 100 : undefined
+                                }
+                                decimals={decimals}
+                                placeholder="—"
+                                style={{
+                                  width: "90px",
+                                  padding: "0.5rem",
+                                  background: "rgba(255,255,255,0.1)",
+                                  color: "white",
+                                  border: "1px solid #334155",
+                                  borderRadius: "4px",
+                                  fontSize: "0.9rem",
+                                  textAlign: "right",
+                                }}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p
+                  style={{
+                    marginTop: "1rem",
+                    color: "#94a3b8",
+                    fontSize: "0.8rem",
+                  }}
+                >
+                  Ajustes por activo: el lote redondea las cantidades hacia
+                  abajo (vacío = fraccionable) y los demás campos sustituyen a
+                  los valores generales. Deja el campo vacío para usar el valor
+                  general.
+                </p>
+              </ConfigSection>
+
+              {/* Transaction Costs */}
+              <ConfigSection
+                title={
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                    }}
+                  >
+                    <Receipt size={18} />
+                    Costes de Transacción
+                  </div>
+                }
+              >
+                <div style={gridStyle}>
+                  <div>
+                    <label
+                      style={{
+                        display: "block",
+                        fontWeight: "500",
+                        marginBottom: "0.5rem",
+                        color: "#cbd5e1",
+                        fontSize: "0.875rem",
+                      }}
+                    >
+                      Si el coste supera el beneficio
+                    </label>
+                    <select
+                      value={formData.costBenefitMode}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "costBenefitMode",
+                          e.target.value as CostBenefitMode
+                        )
+                      }
+                      style={{
+                        width: "100%",
+                        padding: "0.625rem 0.875rem",
+                        background: "rgba(255,255,255,0.05)",
+                        color: "white",
+                        border: "1px solid #334155",
+                        borderRadius: "6px",
+                        fontSize: "0.95rem",
+                      }}
+                    >
+                      <option value="off">No comprobar</option>
+                      <option value="flag">Avisar</option>
+                      <option value="suppress">No rebalancear</option>
+                    </select>
+                  </div>
+                  <InputField
+                    label="Aversión al Riesgo"
+                    value={formData.riskAversion}
+                    onChange={(v) => handleInputChange("riskAversion", v)}
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    help="Valora la desviación de los pesos objetivo (tracking error) frente al coste de corregirla. Más alto = rebalancea con desviaciones menores."
+                  />
+                </div>
+                <table
+                  style={{
+                    width: "100%",
+                    marginTop: "1.5rem",
+                    borderCollapse: "collapse",
+                    fontSize: "0.875rem",
+                  }}
+                >
+                  <thead>
+                    <tr style={{ color: "#94a3b8", textAlign: "left" }}>
+                      <th style={{ padding: "0.5rem 0" }}>Tipo de activo</th>
+                      <th style={{ padding: "0.5rem" }}>Comisión (%)</th>
+                      <th style={{ padding: "0.5rem" }}>Comisión fija ($)</th>
+                      <th style={{ padding: "0.5rem" }}>Spread (pb)</th>
+                      <th style={{ padding: "0.5rem" }}>Slippage (pb)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COST_ASSET_TYPES.map((assetType) => {
+                      const costs =
+                        transactionCosts[assetType.value] || EMPTY_COSTS;
+                      const fields: Array<{
+                        field: keyof TransactionCostSettings;
+                        value: number;
+                        scale: number;
+                      }> = [
+                        {
+                          field: "commissionRate",
+                          value: costs.commissionRate * 100,
+                          scale: 100,
+                        },
+                        {
+                          field: "commissionFixed",
+                          value: costs.commissionFixed,
+                          scale: 1,
+                        },
+                        {
+                          field: "spreadBps",
+                          value: costs.spreadBps,
+                          scale: 1,
+                        },
+                        {
+                          field: "slippageBps",
+                          value: costs.slippageBps,
+                          scale: 1,
+                        },
+                      ];
+                      return (
+                        <tr
+                          key={assetType.value}
+                          style={{ borderTop: "1px solid #1e293b" }}
+                        >
+                          <td style={{ padding: "0.5rem 0", color: "#cbd5e1" }}>
+                            {assetType.label}
+                          </td>
+                          {fields.map(({ field, value, scale }) => (
+                            <td key={field} style={{ padding: "0.5rem" }}>
+                              <NumberInput
+                                value={value}
+                                onChange={(val) =>
+                                  handleCostChange(
+                                    assetType.value,
+                                    field,
+                                    val / scale
+                                  )
+                                }
+                                min={0}
+                                decimals={field === "commissionRate" ? 3 : 2}
+                                style={{
+                                  width: "90px",
+                                  padding: "0.5rem",
+                                  background: "rgba(255,255,255,0.1)",
+                                  color: "white",
+                                  border: "1px solid #334155",
+                                  borderRadius: "4px",
+                                  fontSize: "0.9rem",
+                                  textAlign: "right",
+                                }}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p
+                  style={{
+                    marginTop: "1rem",
+                    color: "#94a3b8",
+                    fontSize: "0.8rem",
+                  }}
+                >
+                  Cada operación paga la comisión, la mitad del spread y el
+                  slippage. Se pueden ajustar por activo con commissionRate,
+                  commissionFixed, spreadBps y slippageBps en
+                  assetTradingSettings (API de configuración).
+                </p>
+              </ConfigSection>
+
+              {/* Tax Lots */}
+              <ConfigSection
+                title={
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                    }}
+                  >
+                    <Layers size={18} />
+                    Lotes Fiscales
+                  </div>
+                }
+              >
+                <div style={gridStyle}>
+                  <div>
+                    <label
+                      style={{
+                        display: "block",
+                        fontWeight: "500",
+                        marginBottom: "0.5rem",
+                        color: "#cbd5e1",
+                        fontSize: "0.875rem",
+                      }}
+                    >
+                      Método de asignación de lotes en ventas
+                    </label>
+                    <select
+                      value={formData.lotReliefMethod}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "lotReliefMethod",
+                          e.target.value as LotReliefMethod
+                        )
+                      }
+                      style={{
+                        width: "100%",
+                        padding: "0.625rem 0.875rem",
+                        background: "rgba(255,255,255,0.05)",
+                        color: "white",
+                        border: "1px solid #334155",
+                        borderRadius: "6px",
+                        fontSize: "0.95rem",
+                      }}
+                    >
+                      <option value="fifo">FIFO (primero en entrar)</option>
+                      <option value="lifo">LIFO (último en entrar)</option>
+                      <option value="specific">Lotes específicos</option>
+                    </select>
+                  </div>
+                </div>
+                <p
+                  style={{
+                    marginTop: "1rem",
+                    color: "#94a3b8",
+                    fontSize: "0.8rem",
+                  }}
+                >
+                  Con lotes específicos se eligen los lotes al registrar una
+                  venta; si no se elige ninguno se usa FIFO. Cambiar el método
+                  no modifica las ventas ya registradas.
+                </p>
+              </ConfigSection>
+
+              {/* Deploy Rules */}
+              <ConfigSection
+                title={
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.5rem",
+                    }}
+                  >
+                    <Zap size={18} />
+                    Reglas de Despliegue
+                  </div>
+                }
+              >
+                <label
+                  style={{
+                    display: "block",
+                    fontWeight: "500",
+                    marginBottom: "0.5rem",
+                    color: "#cbd5e1",
+                    fontSize: "0.875rem",
+                  }}
+                >
+                  Reglas personalizadas (JSON)
+                </label>
+                <textarea
+                  value={deployRulesText}
+                  onChange={(e) => setDeployRulesText(e.target.value)}
+                  placeholder={DEPLOY_RULES_EXAMPLE}
+                  rows={10}
+                  spellCheck={false}
+                  style={{
+                    width: "100%",
+                    padding: "0.625rem 0.875rem",
+                    background: "rgba(255,255,255,0.05)",
+                    color: "white",
+                    border: "1px solid #334155",
+                    borderRadius: "6px",
+                    fontSize: "0.85rem",
+                    fontFamily: "monospace",
+                    resize: "vertical",
+                  }}
+                />
+                <p
+                  style={{
+                    marginTop: "1rem",
+                    color: "#94a3b8",
+                    fontSize: "0.8rem",
+                  }}
+                >
+                  Las reglas se evalúan en orden y se aplica la primera que se
+                  cumple; si ninguna se cumple no se despliega. Vacío usa las
+                  tres señales por defecto (drawdown, desviación de pesos y
+                  volatilidad). Métricas: drawdown, weightDeviation,
+                  volatility, trend, leverage, marginRatio, equity, exposure,
+                  pendingContributions, monthNumber. Operadores: &lt; &lt;=
+                  &gt; &gt;= == !=, combinables con all, any y not.
+                </p>
+              </ConfigSection>
+
               {/* Submit button */}
               <div
                 style={{
@@ -2,7 +2,11 @@ import React, { useState, useEffect, FormEvent } from "react";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import { useAuth } from "../../contexts/AuthContext";
-import { createContribution, getPortfoliosByEmail } from "../../lib/api";
+import {
+  createContribution,
+  getPortfoliosByEmail,
+  TrancheSchedule,
+} from "../../lib/api";
 import DashboardSidebar from "../../components/DashboardSidebar";
 import { invalidatePortfolioCache } from "../../lib/hooks/use-portfolio-data";
 import { NumberInput } from "../../components/NumberInput";
@@ -18,6 +22,9 @@ export default function Contribution() {
   const [portfolioId, setPortfolioId] = useState<string | null>(null);
   const [amount, setAmount] = useState<number>(1000);
   const [note, setNote] = useState("");
+  const [tranches, setTranches] = useState<number>(1);
+  const [trancheSchedule, setTrancheSchedule] =
+    useState<TrancheSchedule>("weekly");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [message, setMessage] = useState("");
@@ -104,6 +111,7 @@ export default function Contribution() {
         note:
           note ||
           `Monthly contribution - ${new Date().toLocaleDateString("es-ES")}`,
+        ...(tranches > 1 ? { tranches, trancheSchedule } : {}),
       });
 
       // Invalidate cache so dashboard shows updated data
@@ -286,6 +294,80 @@ export default function Contribution() {
                   />
                 </div>
 
+                <div style={{ marginBottom: "1.5rem" }}>
+                  <label
+                    style={{
+                      display: "block",
+                      fontWeight: "500",
+                      marginBottom: "0.5rem",
+                      color: "rgba(255, 255, 255, 0.9)",
+                    }}
+                  >
+                    Despliegue por tramos
+                  </label>
+                  <div
+                    style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}
+                  >
+                    <select
+                      value={tranches}
+                      onChange={(e) => setTranches(Number(e.target.value))}
+                      disabled={isSubmitting || isExtraContribution}
+                      style={{
+                        flex: "1 1 160px",
+                        padding: "0.75rem 1rem",
+                        background: "rgba(255, 255, 255, 0.1)",
+                        color: "white",
+                        border: "2px solid rgba(255, 255, 255, 0.2)",
+                        borderRadius: "8px",
+                        fontSize: "1rem",
+                      }}
+                    >
+                      <option value={1}>Todo de una vez</option>
+                      {[2, 3, 4, 6, 8, 12].map((n) => (
+                        <option key={n} value={n}>
+                          {n} tramos
+                        </option>
+                      ))}
+                    </select>
+                    {tranches > 1 && (
+                      <select
+                        value={trancheSchedule}
+                        onChange={(e) =>
+                          setTrancheSchedule(e.target.value as TrancheSchedule)
+                        }
+                        disabled={isSubmitting}
+                        style={{
+                          flex: "1 1 160px",
+                          padding: "0.75rem 1rem",
+                          background: "rgba(255, 255, 255, 0.1)",
+                          color: "white",
+                          border: "2px solid rgba(255, 255, 255, 0.2)",
+                          borderRadius: "8px",
+                          fontSize: "1rem",
+                        }}
+                      >
+                        <option value="weekly">Uno por semana</option>
+                        <option value="signal">
+                          Uno por señal de despliegue
+                        </option>
+                      </select>
+                    )}
+                  </div>
+                  {tranches > 1 && (
+                    <p
+                      style={{
+                        color: "#94a3b8",
+                        fontSize: "0.8rem",
+                        marginTop: "0.5rem",
+                      }}
+                    >
+                      El primer tramo se despliega en el próximo rebalance; el
+                      resto queda como efectivo sin apalancar hasta su
+                      vencimiento.
+                    </p>
+                  )}
+                </div>
+
                 <div
                   style={{
                     display: "flex",
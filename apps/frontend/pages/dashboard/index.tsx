@@ -3,12 +3,16 @@ import { useRouter } from "next/router";
 import Head from "next/head";
 import { useAuth } from "../../contexts/AuthContext";
 import DashboardSidebar from "../../components/DashboardSidebar";
+import DeleveragingPlanCard from "../../components/DeleveragingPlanCard";
+import EfficientFrontierCard from "../../components/EfficientFrontierCard";
 import { Recommendation, RecommendationPriority } from "../../lib/api";
 import {
   usePortfolios,
   usePortfolioSummary,
   usePortfolioMetrics,
   usePortfolioRecommendations,
+  usePortfolioLiquidationRisk,
+  usePortfolioFrontier,
 } from "../../lib/hooks/use-portfolio-data";
 import { getProfile, UserProfile } from "../../lib/api";
 import {
@@ -22,6 +26,8 @@ import {
   Edit,
   Calendar,
   BarChart,
+  ShieldAlert,
+  Layers,
 } from "lucide-react";
 import {
   formatCurrencyES,
@@ -107,8 +113,9 @@ interface Position {
   id: string;
   quantity: number;
   avgPrice: number;
-  currentPrice: number;
-  exposureUsd: number;
+  currentPrice: number; // Quote currency
+  quoteCurrency?: string;
+  exposure: number; // Base currency
   pnl: number;
   pnlPercent: number;
   weight: number;
@@ -205,6 +212,8 @@ function Dashboard() {
     isLoading: recommendationsLoading,
     mutate: refreshRecommendations,
   } = usePortfolioRecommendations(portfolioId);
+  const { liquidationRisk } = usePortfolioLiquidationRisk(portfolioId);
+  const { frontier } = usePortfolioFrontier(portfolioId);
 
   const [historyPage, setHistoryPage] = useState(1);
   const itemsPerPage = 24;
@@ -909,6 +918,99 @@ function Dashboard() {
                     </div>
                   )}
 
+                {/* Liquidation Risk */}
+                {liquidationRisk && !liquidationRisk.insufficientData && (
+                  <div
+                    style={{
+                      background: "#131b2e",
+                      border: "1px solid #1e293b",
+                      borderRadius: "8px",
+                      padding: "1.5rem",
+                      marginBottom: "2rem",
+                    }}
+                  >
+                    <h2
+                      style={{
+                        fontSize: "1.125rem",
+                        fontWeight: "600",
+                        color: "#f1f5f9",
+                        marginBottom: "1rem",
+                      }}
+                    >
+                      <div
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "0.5rem",
+                        }}
+                      >
+                        <ShieldAlert size={20} />
+                        Riesgo de Liquidación
+                      </div>
+                    </h2>
+                    <div
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns:
+                          "repeat(auto-fit, minmax(200px, 1fr))",
+                        gap: "1rem",
+                      }}
+                      className="analytics-grid"
+                    >
+                      {liquidationRisk.horizons.map((horizon) => (
+                        <AnalyticsCard
+                          key={horizon.months}
+                          label={`Margin call ${horizon.months} ${
+                            horizon.months === 1 ? "mes" : "meses"
+                          }`}
+                          value={formatPercentES(
+                            horizon.marginCallProbability
+                          )}
+                          description={`Probabilidad estimada de que el margen caiga por debajo del mantenimiento (${formatPercentES(
+                            liquidationRisk.configuration.maintenanceMarginRatio
+                          )}) en los próximos ${
+                            horizon.tradingDays
+                          } días de mercado.`}
+                        />
+                      ))}
+                      <AnalyticsCard
+                        label="Caída hasta margin call"
+                        value={formatPercentES(
+                          liquidationRisk.distanceToMarginCall
+                        )}
+                        description="Caída de la exposición que hoy provocaría un margin call, con la deuda actual."
+                      />
+                      {liquidationRisk.equityPercentiles && (
+                        <AnalyticsCard
+                          label="Equity a 12 meses (P5 / P50)"
+                          value={`${formatCurrencyES(
+                            liquidationRisk.equityPercentiles.p5
+                          )} / ${formatCurrencyES(
+                            liquidationRisk.equityPercentiles.p50
+                          )}`}
+                          description="Percentiles 5 y 50 del equity simulado tras 12 meses, aplicando las bandas de leverage y las aportaciones configuradas."
+                        />
+                      )}
+                    </div>
+                    <p
+                      style={{
+                        color: "#64748b",
+                        fontSize: "0.75rem",
+                        marginTop: "0.75rem",
+                        marginBottom: 0,
+                      }}
+                    >
+                      Monte Carlo con {liquidationRisk.simulation.paths}{" "}
+                      trayectorias remuestreando{" "}
+                      {liquidationRisk.simulation.historyDays} días históricos
+                      de {liquidationRisk.simulation.assets.join(", ")}.
+                    </p>
+                  </div>
+                )}
+
+                {/* Efficient Frontier and Risk Contributions */}
+                {frontier && <EfficientFrontierCard frontier={frontier} />}
+
                 {/* Analytics Grid */}
                 {analyticsStats && (
                   <div
@@ -1649,16 +1751,18 @@ function Dashboard() {
                               {formatCurrencyES(pos.avgPrice, {
                                 minimumFractionDigits: 2,
                                 maximumFractionDigits: 2,
+                                currency: pos.quoteCurrency,
                               })}
                             </td>
                             <td style={tableCellStyle}>
                               {formatCurrencyES(pos.currentPrice, {
                                 minimumFractionDigits: 2,
                                 maximumFractionDigits: 2,
+                                currency: pos.quoteCurrency,
                               })}
                             </td>
                             <td style={tableCellStyle}>
-                              {formatCurrencyES(pos.exposureUsd)}
+                              {formatCurrencyES(pos.exposure)}
                             </td>
                             <td
                               style={{
@@ -1765,6 +1869,7 @@ function Dashboard() {
                             {formatCurrencyES(pos.avgPrice, {
                               minimumFractionDigits: 2,
                               maximumFractionDigits: 2,
+                              currency: pos.quoteCurrency,
                             })}
                           </span>
                         </div>
@@ -1776,6 +1881,7 @@ function Dashboard() {
                             {formatCurrencyES(pos.currentPrice, {
                               minimumFractionDigits: 2,
                               maximumFractionDigits: 2,
+                              currency: pos.quoteCurrency,
                             })}
                           </span>
                         </div>
@@ -1788,7 +1894,7 @@ function Dashboard() {
                             className="position-card-value"
                             style={{ fontSize: "1rem", fontWeight: "700" }}
                           >
-                            {formatCurrencyES(pos.exposureUsd)}
+                            {formatCurrencyES(pos.exposure)}
                           </span>
                         </div>
                       </div>
@@ -2269,6 +2375,7 @@ const TYPE_ICONS: Record<
   leverage_high: TrendingUp,
   deploy_signal: Rocket,
   rebalance_needed: Scale,
+  tranche_due: Layers,
   in_range: Check,
 };
 
@@ -2415,6 +2522,13 @@ function DashboardRecommendationCard({
         </div>
       )}
 
+      {/* Actions - Deleveraging Plan */}
+      {recommendation.actions?.deleveragingPlan && (
+        <DeleveragingPlanCard
+          plan={recommendation.actions.deleveragingPlan}
+        />
+      )}
+
       {/* Actions - Contribution Reminder */}
       {recommendation.actions?.contributionReminder && (
         <div
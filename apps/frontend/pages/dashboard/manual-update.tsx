@@ -18,6 +18,7 @@ import {
 import DashboardSidebar from "../../components/DashboardSidebar";
 import { invalidatePortfolioCache } from "../../lib/hooks/use-portfolio-data";
 import { NumberInput } from "../../components/NumberInput";
+import BrokerImportPanel from "../../components/BrokerImportPanel";
 import {
   formatCurrencyES,
   formatForInput,
@@ -433,6 +434,21 @@ export default function ManualUpdate() {
               </p>
             </div>
 
+            {portfolioId && (
+              <BrokerImportPanel
+                portfolioId={portfolioId}
+                onApplied={(importMessage) => {
+                  invalidatePortfolioCache(portfolioId, user?.email);
+                  setError("");
+                  setMessage(importMessage);
+                  setTimeout(() => {
+                    setMessage("");
+                    router.push(`/dashboard?portfolioId=${portfolioId}`);
+                  }, 3000);
+                }}
+              />
+            )}
+
             <form onSubmit={handleSubmit}>
               {/* Equity */}
               <div
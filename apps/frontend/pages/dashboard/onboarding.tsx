@@ -8,6 +8,7 @@ import {
   OnboardingAsset,
   CreatePortfolioRequest,
   SymbolSearchResult,
+  WeightBound,
 } from "../../lib/api";
 import {
   usePortfolios,
@@ -22,12 +23,27 @@ import {
   Edit,
 } from "lucide-react";
 import { NumberInput } from "../../components/NumberInput";
+import WeightBoundsTable, {
+  updateWeightBound,
+} from "../../components/WeightBoundsTable";
 import {
   formatCurrencyES,
   formatPercentES,
   formatNumberES,
 } from "../../lib/number-format";
 
+/**
+ * Asset types selectable per asset (used by the asset-type weight limits)
+ */
+const ASSET_TYPES: Array<{ value: string; label: string }> = [
+  { value: "unknown", label: "Sin clasificar" },
+  { value: "crypto", label: "Cripto" },
+  { value: "index", label: "Índices / ETF" },
+  { value: "stock", label: "Acciones" },
+  { value: "commodity", label: "Materias primas" },
+  { value: "bond", label: "Bonos" },
+];
+
 /**
  * Onboarding page - wizard for creating first portfolio
  */
@@ -59,6 +75,13 @@ export default function Onboarding() {
   const [manualWeights, setManualWeights] = useState<Record<string, number>>(
     {}
   );
+  // Optional weight limits by symbol and by asset type (fractions)
+  const [assetWeightBounds, setAssetWeightBounds] = useState<
+    Record<string, WeightBound>
+  >({});
+  const [groupWeightBounds, setGroupWeightBounds] = useState<
+    Record<string, WeightBound>
+  >({});
 
   // Step 4: Config (optional)
   const [leverageMin, setLeverageMin] = useState(2.5);
@@ -201,8 +224,23 @@ export default function Onboarding() {
       delete newWeights[symbol];
       return newWeights;
     });
+    setAssetWeightBounds((prev) => {
+      const newBounds = { ...prev };
+      delete newBounds[symbol];
+      return newBounds;
+    });
   }, []);
 
+  // Update asset type
+  const handleAssetTypeChange = useCallback(
+    (symbol: string, assetType: string) => {
+      setAssets((prev) =>
+        prev.map((a) => (a.symbol === symbol ? { ...a, assetType } : a))
+      );
+    },
+    []
+  );
+
   // Update manual weight
   const handleWeightChange = useCallback((symbol: string, weight: number) => {
     setManualWeights((prev) => ({
@@ -227,6 +265,12 @@ export default function Onboarding() {
   const totalWeight = Object.values(manualWeights).reduce((a, b) => a + b, 0);
   const weightsValid = Math.abs(totalWeight - 1) <= 0.01;
 
+  // Asset types in use, the only ones that can carry a group limit
+  const usedAssetTypes = ASSET_TYPES.filter(
+    (type) =>
+      type.value !== "unknown" && assets.some((a) => a.assetType === type.value)
+  );
+
   // Submit portfolio with SSE progress
   const handleSubmit = async () => {
     setIsSubmitting(true);
@@ -245,6 +289,12 @@ export default function Onboarding() {
         })),
         weightAllocationMethod: weightMethod,
         targetWeights: weightMethod === "manual" ? manualWeights : undefined,
+        assetWeightBounds,
+        groupWeightBounds: Object.fromEntries(
+          usedAssetTypes
+            .filter((type) => groupWeightBounds[type.value])
+            .map((type) => [type.value, groupWeightBounds[type.value]])
+        ),
         leverageMin,
         leverageMax,
         leverageTarget,
@@ -697,6 +747,27 @@ export default function Onboarding() {
                               gap: "0.75rem",
                             }}
                           >
+                            <select
+                              value={asset.assetType || "unknown"}
+                              onChange={(e) =>
+                                handleAssetTypeChange(
+                                  asset.symbol,
+                                  e.target.value
+                                )
+                              }
+                              style={{
+                                ...inputStyle,
+                                width: "auto",
+                                padding: "0.25rem 0.5rem",
+                                fontSize: "0.85rem",
+                              }}
+                            >
+                              {ASSET_TYPES.map((type) => (
+                                <option key={type.value} value={type.value}>
+                                  {type.label}
+                                </option>
+                              ))}
+                            </select>
                             {asset.price && (
                               <span
                                 style={{ color: "#22c55e", fontSize: "0.9rem" }}
@@ -1008,6 +1079,46 @@ export default function Onboarding() {
                     </p>
                   </div>
                 )}
+
+                {/* Optional weight limits */}
+                <div style={{ marginTop: "1.5rem" }}>
+                  <label style={labelStyle}>Límites de peso (opcional)</label>
+                  <p style={helpStyle}>
+                    Ej: BTC-USD máximo 15% o cripto en total máximo 20%. Se
+                    respetan en los pesos manuales y en la optimización. Deja el
+                    campo vacío para no limitar.
+                  </p>
+                  <WeightBoundsTable
+                    label="Activo"
+                    rows={assets.map((a) => ({
+                      key: a.symbol,
+                      label: a.symbol,
+                    }))}
+                    bounds={assetWeightBounds}
+                    onChange={(key, field, value) =>
+                      setAssetWeightBounds((prev) =>
+                        updateWeightBound(prev, key, field, value)
+                      )
+                    }
+                  />
+                  {usedAssetTypes.length > 0 && (
+                    <div style={{ marginTop: "1rem" }}>
+                      <WeightBoundsTable
+                        label="Tipo de activo"
+                        rows={usedAssetTypes.map((type) => ({
+                          key: type.value,
+                          label: type.label,
+                        }))}
+                        bounds={groupWeightBounds}
+                        onChange={(key, field, value) =>
+                          setGroupWeightBounds((prev) =>
+                            updateWeightBound(prev, key, field, value)
+                          )
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             )}
 
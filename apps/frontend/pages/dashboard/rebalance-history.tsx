@@ -0,0 +1,557 @@
+import React, { useState, useEffect } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  getPortfoliosByEmail,
+  getRebalanceHistory,
+  revertRebalance,
+  RebalanceHistoryPage,
+  RebalanceHistoryEvent,
+} from "../../lib/api";
+import DashboardSidebar from "../../components/DashboardSidebar";
+import WeightsExplanationPanel from "../../components/WeightsExplanationPanel";
+import { invalidatePortfolioCache } from "../../lib/hooks/use-portfolio-data";
+import { Brain, ChevronLeft, ChevronRight, Undo2 } from "lucide-react";
+import { formatCurrencyES, formatNumberES } from "../../lib/number-format";
+
+const PAGE_SIZE = 10;
+
+const OPTIMIZATION_METHOD_LABELS: Record<string, string> = {
+  sharpe: "Optimizados Sharpe",
+  risk_parity: "Paridad de Riesgo",
+  min_variance: "Mínima Varianza",
+  max_diversification: "Máxima Diversificación",
+};
+
+/**
+ * Rebalance history page - Timeline of accepted rebalances
+ */
+export default function RebalanceHistory() {
+  const router = useRouter();
+  const { user, loading } = useAuth();
+
+  const [portfolioId, setPortfolioId] = useState<string | null>(null);
+  const [history, setHistory] = useState<RebalanceHistoryPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Resolve portfolioId from URL or fetch
+  useEffect(() => {
+    async function loadPortfolio() {
+      if (!user?.email) return;
+
+      const urlPortfolioId = router.query.portfolioId as string;
+      if (urlPortfolioId) {
+        setPortfolioId(urlPortfolioId);
+        return;
+      }
+
+      try {
+        const portfolios = await getPortfoliosByEmail(user.email);
+        if (portfolios && portfolios.length > 0) {
+          setPortfolioId(portfolios[0].id);
+        } else {
+          setError("No se encontró portfolio");
+          setIsLoading(false);
+        }
+      } catch {
+        setError("Error al cargar el portfolio");
+        setIsLoading(false);
+      }
+    }
+
+    if (!loading && !user) {
+      router.push("/");
+    } else if (user) {
+      loadPortfolio();
+    }
+  }, [user, loading, router, router.query.portfolioId]);
+
+  // Load one page of history
+  useEffect(() => {
+    async function loadHistory() {
+      if (!portfolioId) return;
+
+      setIsLoading(true);
+      setError("");
+
+      try {
+        setHistory(await getRebalanceHistory(portfolioId, page, PAGE_SIZE));
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Error al cargar el historial"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadHistory();
+  }, [portfolioId, page, reloadKey]);
+
+  const handleRevert = async (eventId: string) => {
+    if (!portfolioId) return;
+
+    setRevertingId(eventId);
+    setError("");
+    setMessage("");
+
+    try {
+      await revertRebalance(portfolioId, eventId);
+
+      // Positions and metrics changed
+      invalidatePortfolioCache(portfolioId, user?.email);
+
+      setMessage("✅ Rebalanceo revertido. Posiciones restauradas.");
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Error al revertir el rebalanceo"
+      );
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  // Only the latest non-reverted rebalance can be undone
+  const revertableId =
+    page === 1
+      ? history?.events.find((event) => !event.revertedAt)?.id ?? null
+      : null;
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Cargando...</title>
+        </Head>
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            minHeight: "100vh",
+          }}
+        >
+          <p style={{ color: "white", fontSize: "1.2rem" }}>Cargando...</p>
+        </div>
+      </>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Historial de Rebalanceos - Leveraged DCA App</title>
+      </Head>
+      <DashboardSidebar portfolioId={portfolioId}>
+        <div style={{ padding: "2rem" }}>
+          <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+            {/* Header */}
+            <div
+              style={{
+                marginBottom: "2rem",
+                paddingBottom: "1.5rem",
+                borderBottom: "1px solid #1e293b",
+              }}
+            >
+              <h1
+                style={{
+                  fontSize: "1.875rem",
+                  fontWeight: "700",
+                  color: "#f1f5f9",
+                  marginBottom: "0.25rem",
+                  letterSpacing: "-0.025em",
+                }}
+              >
+                Historial de Rebalanceos
+              </h1>
+              <p style={{ color: "#94a3b8", fontSize: "0.875rem" }}>
+                Rebalanceos aceptados con el leverage objetivo y los pesos
+                utilizados
+              </p>
+            </div>
+
+            {error && (
+              <div
+                style={{
+                  background: "rgba(239, 68, 68, 0.1)",
+                  border: "1px solid rgba(239, 68, 68, 0.3)",
+                  borderRadius: "12px",
+                  padding: "1rem",
+                  marginBottom: "1.5rem",
+                  color: "#fca5a5",
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            {message && (
+              <div
+                style={{
+                  background: "rgba(52, 211, 153, 0.1)",
+                  border: "1px solid rgba(52, 211, 153, 0.3)",
+                  borderRadius: "12px",
+                  padding: "1rem",
+                  marginBottom: "1.5rem",
+                  color: "#6ee7b7",
+                }}
+              >
+                {message}
+              </div>
+            )}
+
+            {isLoading ? (
+              <p style={{ color: "rgba(255, 255, 255, 0.6)" }}>
+                Cargando historial...
+              </p>
+            ) : history && history.events.length === 0 ? (
+              <div
+                style={{
+                  background: "rgba(255, 255, 255, 0.05)",
+                  borderRadius: "16px",
+                  padding: "3rem 2rem",
+                  textAlign: "center",
+                  color: "rgba(255, 255, 255, 0.6)",
+                }}
+              >
+                Todavía no se ha aceptado ningún rebalanceo
+              </div>
+            ) : history ? (
+              <>
+                <div
+                  style={{
+                    borderLeft: "2px solid #1e293b",
+                    paddingLeft: "1.5rem",
+                    display: "flex",
+                    flexDirection: "column",
+                    gap: "1.25rem",
+                  }}
+                >
+                  {history.events.map((event) => (
+                    <HistoryEventCard
+                      key={event.id}
+                      portfolioId={history.portfolioId}
+                      event={event}
+                      canRevert={event.id === revertableId}
+                      isReverting={revertingId === event.id}
+                      onRevert={() => handleRevert(event.id)}
+                    />
+                  ))}
+                </div>
+
+                {history.totalPages > 1 && (
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "center",
+                      alignItems: "center",
+                      gap: "1rem",
+                      marginTop: "2rem",
+                      color: "rgba(255, 255, 255, 0.7)",
+                      fontSize: "0.875rem",
+                    }}
+                  >
+                    <button
+                      onClick={() => setPage((p) => p - 1)}
+                      disabled={page <= 1}
+                      style={pageButtonStyle(page <= 1)}
+                    >
+                      <ChevronLeft size={16} />
+                    </button>
+                    <span>
+                      Página {history.page} de {history.totalPages}
+                    </span>
+                    <button
+                      onClick={() => setPage((p) => p + 1)}
+                      disabled={page >= history.totalPages}
+                      style={pageButtonStyle(page >= history.totalPages)}
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : null}
+          </div>
+        </div>
+      </DashboardSidebar>
+    </>
+  );
+}
+
+function pageButtonStyle(disabled: boolean): React.CSSProperties {
+  return {
+    display: "flex",
+    alignItems: "center",
+    padding: "0.5rem",
+    background: "rgba(255, 255, 255, 0.05)",
+    border: "1px solid #1e293b",
+    borderRadius: "8px",
+    color: "white",
+    cursor: disabled ? "not-allowed" : "pointer",
+    opacity: disabled ? 0.4 : 1,
+  };
+}
+
+function revertButtonStyle(danger: boolean): React.CSSProperties {
+  return {
+    display: "flex",
+    alignItems: "center",
+    gap: "0.35rem",
+    padding: "0.35rem 0.75rem",
+    background: danger ? "rgba(239, 68, 68, 0.2)" : "rgba(255, 255, 255, 0.05)",
+    border: danger ? "1px solid rgba(239, 68, 68, 0.4)" : "1px solid #1e293b",
+    borderRadius: "8px",
+    color: danger ? "#fca5a5" : "#cbd5e1",
+    fontSize: "0.8rem",
+    cursor: "pointer",
+  };
+}
+
+/**
+ * One rebalance in the timeline: weights used and per-asset targets
+ */
+function HistoryEventCard({
+  portfolioId,
+  event,
+  canRevert,
+  isReverting,
+  onRevert,
+}: {
+  portfolioId: string;
+  event: RebalanceHistoryEvent;
+  canRevert: boolean;
+  isReverting: boolean;
+  onRevert: () => void;
+}) {
+  const [confirming, setConfirming] = useState(false);
+  const isDynamic = event.dynamicWeightsComputed === true;
+
+  return (
+    <div
+      style={{
+        position: "relative",
+        background: "rgba(255, 255, 255, 0.05)",
+        border: "1px solid #1e293b",
+        borderRadius: "12px",
+        padding: "1.25rem",
+        opacity: event.revertedAt ? 0.5 : 1,
+      }}
+    >
+      {/* Timeline dot */}
+      <div
+        style={{
+          position: "absolute",
+          left: "calc(-1.5rem - 7px)",
+          top: "1.5rem",
+          width: "12px",
+          height: "12px",
+          borderRadius: "50%",
+          background: event.revertedAt
+            ? "#f87171"
+            : event.executedAt
+            ? "#34d399"
+            : "#a5b4fc",
+        }}
+      />
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          flexWrap: "wrap",
+          gap: "0.75rem",
+          marginBottom: "0.75rem",
+        }}
+      >
+        <div>
+          <div style={{ color: "#f1f5f9", fontWeight: "600" }}>
+            {new Date(event.createdAt).toLocaleString("es-ES")}
+          </div>
+          <div style={{ color: "#94a3b8", fontSize: "0.8rem" }}>
+            {event.revertedAt
+              ? `Revertido el ${new Date(event.revertedAt).toLocaleString(
+                  "es-ES"
+                )}`
+              : event.executedAt
+              ? "Ejecutado"
+              : "Sin ejecuciones registradas"}
+          </div>
+          {canRevert && (
+            <div
+              style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}
+            >
+              {confirming ? (
+                <>
+                  <button
+                    onClick={() => {
+                      setConfirming(false);
+                      onRevert();
+                    }}
+                    disabled={isReverting}
+                    style={revertButtonStyle(true)}
+                  >
+                    Confirmar reversión
+                  </button>
+                  <button
+                    onClick={() => setConfirming(false)}
+                    style={revertButtonStyle(false)}
+                  >
+                    Cancelar
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setConfirming(true)}
+                  disabled={isReverting}
+                  style={revertButtonStyle(false)}
+                >
+                  <Undo2 size={14} />
+                  {isReverting ? "Revirtiendo..." : "Revertir"}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <div style={{ textAlign: "right" }}>
+          <div style={{ color: "#94a3b8", fontSize: "0.8rem" }}>
+            Leverage objetivo
+          </div>
+          <div style={{ color: "#a5b4fc", fontWeight: "600" }}>
+            {formatNumberES(event.targetLeverage, {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}
+            x
+          </div>
+        </div>
+      </div>
+
+      {/* Weights used */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: "1rem",
+          marginBottom: "1rem",
+          fontSize: "0.85rem",
+        }}
+      >
+        <span
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.5rem",
+            color: isDynamic ? "#a78bfa" : "#94a3b8",
+          }}
+        >
+          {isDynamic ? (
+            <>
+              <Brain size={16} />
+              Dinámicos (
+              {(event.optimizationMethod &&
+                OPTIMIZATION_METHOD_LABELS[event.optimizationMethod]) ||
+                "Optimizados Sharpe"}
+              )
+            </>
+          ) : event.dynamicWeightsComputed === false ? (
+            "Estáticos (PORTFOLIO_INITIAL)"
+          ) : (
+            "Pesos no registrados"
+          )}
+        </span>
+        {event.weightsUsed &&
+          Object.entries(event.weightsUsed).map(([symbol, weight]) => (
+            <span key={symbol} style={{ color: "rgba(255, 255, 255, 0.7)" }}>
+              {symbol}:{" "}
+              {formatNumberES(weight * 100, { maximumFractionDigits: 0 })}%
+            </span>
+          ))}
+      </div>
+      {isDynamic && event.proposalId && (
+        <div style={{ marginTop: "-0.5rem", marginBottom: "1rem" }}>
+          <WeightsExplanationPanel
+            portfolioId={portfolioId}
+            proposalId={event.proposalId}
+          />
+        </div>
+      )}
+
+      {/* Per-asset targets */}
+      <table
+        style={{
+          width: "100%",
+          borderCollapse: "collapse",
+          fontSize: "0.85rem",
+        }}
+      >
+        <thead>
+          <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+            <th style={{ textAlign: "left", padding: "0.4rem 0" }}>Activo</th>
+            <th style={{ padding: "0.4rem 0" }}>Peso objetivo</th>
+            <th style={{ padding: "0.4rem 0" }}>Objetivo USD</th>
+            <th style={{ padding: "0.4rem 0" }}>Δ Cantidad</th>
+            <th style={{ padding: "0.4rem 0" }}>Δ USD</th>
+          </tr>
+        </thead>
+        <tbody>
+          {event.positions.map((pos) => (
+            <tr
+              key={pos.assetId}
+              style={{
+                color: "rgba(255, 255, 255, 0.85)",
+                textAlign: "right",
+                borderTop: "1px solid #1e293b",
+              }}
+            >
+              <td style={{ textAlign: "left", padding: "0.4rem 0" }}>
+                {pos.assetSymbol}
+              </td>
+              <td>
+                {formatNumberES(pos.targetWeight * 100, {
+                  maximumFractionDigits: 1,
+                })}
+                %
+              </td>
+              <td>{formatCurrencyES(pos.targetUsd)}</td>
+              <td
+                style={{
+                  color:
+                    pos.deltaQuantity > 0
+                      ? "#34d399"
+                      : pos.deltaQuantity < 0
+                      ? "#f87171"
+                      : undefined,
+                }}
+              >
+                {pos.deltaQuantity > 0 ? "+" : ""}
+                {formatNumberES(pos.deltaQuantity, {
+                  maximumFractionDigits: 4,
+                })}
+              </td>
+              <td>
+                {pos.deltaUsd !== null
+                  ? `${pos.deltaUsd > 0 ? "+" : ""}${formatCurrencyES(
+                      pos.deltaUsd
+                    )}`
+                  : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
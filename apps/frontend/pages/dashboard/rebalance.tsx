@@ -6,17 +6,67 @@ import {
   getPortfoliosByEmail,
   getRebalanceProposal,
   acceptRebalanceProposal,
+  recordRebalanceExecutions,
+  getRebalanceExecutionReport,
+  getTaxLots,
+  simulateRebalanceProposal,
   RebalanceProposal,
+  ProposalPosition,
+  ExecutionItem,
+  ExecutionReport,
+  OptimizationMethod,
+  TaxLot,
+  ViewConfidence,
 } from "../../lib/api";
 import DashboardSidebar from "../../components/DashboardSidebar";
+import DeleveragingPlanCard from "../../components/DeleveragingPlanCard";
+import WeightsExplanationPanel from "../../components/WeightsExplanationPanel";
+import { NumberInput } from "../../components/NumberInput";
 import { invalidatePortfolioCache } from "../../lib/hooks/use-portfolio-data";
-import { DollarSign, Lightbulb, Brain, ClipboardList } from "lucide-react";
+import {
+  DollarSign,
+  Lightbulb,
+  Brain,
+  ClipboardList,
+  Receipt,
+  FlaskConical,
+  Layers,
+} from "lucide-react";
 import {
   formatCurrencyES,
   formatPercentES,
   formatNumberES,
 } from "../../lib/number-format";
 
+const VIEW_CONFIDENCE_LABELS: Record<ViewConfidence, string> = {
+  low: "baja",
+  medium: "media",
+  high: "alta",
+};
+
+/**
+ * Why a trade was dropped from the proposal
+ */
+const SKIP_REASON_LABELS: Record<
+  NonNullable<ProposalPosition["skipReason"]>,
+  string
+> = {
+  drift_band: "Dentro de la banda de tolerancia",
+  min_notional: "Por debajo de la operación mínima",
+  lot_size: "Menor que un lote",
+  cost_benefit: "El coste supera el beneficio",
+};
+
+/**
+ * Short labels for the optimizer that produced the weights
+ */
+const OPTIMIZATION_METHOD_LABELS: Record<string, string> = {
+  sharpe: "Optimizados Sharpe",
+  risk_parity: "Paridad de Riesgo",
+  min_variance: "Mínima Varianza",
+  max_diversification: "Máxima Diversificación",
+};
+
 /**
  * Rebalance page - Shows algorithm-calculated optimal allocation
  * Implements the full rebalancing logic from BacktestHistorical.ipynb
@@ -31,6 +81,15 @@ export default function Rebalance() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState("");
   const [error, setError] = useState("");
+  const [rebalanceEventId, setRebalanceEventId] = useState<string | null>(
+    null
+  );
+  const [executions, setExecutions] = useState<Record<string, ExecutionItem>>(
+    {}
+  );
+  const [executionReport, setExecutionReport] =
+    useState<ExecutionReport | null>(null);
+  const [lotChoices, setLotChoices] = useState<Record<string, TaxLot[]>>({});
 
   // Load portfolio and calculate proposal
   useEffect(() => {
@@ -78,22 +137,38 @@ export default function Rebalance() {
   }, [user, loading, router, router.query.portfolioId]);
 
   const handleAccept = async () => {
-    if (!portfolioId || !proposal) return;
+    if (!portfolioId || !proposal?.proposalId) return;
 
     setIsSubmitting(true);
     setError("");
 
     try {
-      await acceptRebalanceProposal(portfolioId, proposal);
+      const result = await acceptRebalanceProposal(
+        portfolioId,
+        proposal.proposalId
+      );
 
       // Invalidate cache so dashboard shows updated data
       invalidatePortfolioCache(portfolioId, user?.email);
 
-      setMessage("✅ ¡Rebalance aceptado! Nueva composición guardada.");
+      // Prefill fills with the proposal so the user only edits differences
+      const initialExecutions: Record<string, ExecutionItem> = {};
+      for (const pos of proposal.positions) {
+        if (pos.action === "HOLD") continue;
+        initialExecutions[pos.assetId] = {
+          assetId: pos.assetId,
+          executedQuantity: Math.abs(pos.deltaQuantity),
+          fillPrice: pos.currentPrice,
+          fee: 0,
+        };
+      }
+      setExecutions(initialExecutions);
+      setRebalanceEventId(result.rebalanceEventId);
+      loadLotChoices(portfolioId, result.rebalanceEventId);
 
-      setTimeout(() => {
-        router.push("/dashboard");
-      }, 2000);
+      setMessage(
+        "✅ ¡Rebalance aceptado! Registra las ejecuciones reales del broker para ajustar posiciones y precio medio."
+      );
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Error al guardar el rebalance"
@@ -103,6 +178,81 @@ export default function Rebalance() {
     }
   };
 
+  // With specific lot relief, offer the lots each sell can relieve
+  const loadLotChoices = async (pId: string, eventId: string) => {
+    try {
+      const [lotReport, eventReport] = await Promise.all([
+        getTaxLots(pId),
+        getRebalanceExecutionReport(pId, eventId),
+      ]);
+      if (lotReport.lotReliefMethod !== "specific") return;
+
+      const choices: Record<string, TaxLot[]> = {};
+      for (const row of eventReport.positions) {
+        if (row.action !== "SELL") continue;
+        // Lots sold by the accepted proposal are given back before the fill
+        choices[row.assetId] = lotReport.lots.filter(
+          (lot) =>
+            lot.assetId === row.assetId &&
+            (lot.remainingQuantity > 0 ||
+              lot.disposals.some(
+                (disposal) => disposal.sourceId === row.rebalancePositionId
+              ))
+        );
+      }
+      setLotChoices(choices);
+    } catch {
+      // Lot selection is optional, sells fall back to FIFO
+    }
+  };
+
+  const handleRecordExecutions = async () => {
+    if (!portfolioId || !rebalanceEventId) return;
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const report = await recordRebalanceExecutions(
+        portfolioId,
+        rebalanceEventId,
+        Object.values(executions)
+      );
+      setExecutionReport(report);
+      invalidatePortfolioCache(portfolioId, user?.email);
+      setMessage("✅ Ejecuciones registradas. Posiciones actualizadas.");
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Error al registrar las ejecuciones"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateExecution = (
+    assetId: string,
+    field: "executedQuantity" | "fillPrice" | "fee",
+    value: number
+  ) => {
+    setExecutions((prev) => ({
+      ...prev,
+      [assetId]: { ...prev[assetId], [field]: value },
+    }));
+  };
+
+  const toggleExecutionLot = (assetId: string, lotId: string) => {
+    setExecutions((prev) => {
+      const selected = prev[assetId].lotIds || [];
+      const lotIds = selected.includes(lotId)
+        ? selected.filter((id) => id !== lotId)
+        : [...selected, lotId];
+      return { ...prev, [assetId]: { ...prev[assetId], lotIds } };
+    });
+  };
+
   if (loading) {
     return (
       <>
@@ -127,6 +277,22 @@ export default function Rebalance() {
     return null;
   }
 
+  // Assets and asset types sitting on a weight bound
+  const bindingLimits = proposal?.optimizerDiagnostics
+    ? [
+        ...proposal.optimizerDiagnostics.bindingBounds.map(
+          (b) => `${b.symbol} (${b.bound === "max" ? "máx" : "mín"})`
+        ),
+        ...(proposal.optimizerDiagnostics.bindingGroups || []).map(
+          (g) =>
+            `${g.assetType} ${formatPercentES(g.weight, {
+              maximumFractionDigits: 1,
+              showSign: false,
+            })} (${g.bound === "max" ? "máx" : "mín"})`
+        ),
+      ]
+    : [];
+
   return (
     <>
       <Head>
@@ -272,7 +438,7 @@ export default function Rebalance() {
                         {formatCurrencyES(proposal.currentExposure)}
                       </span>
                     </div>
-                    <div>
+                    <div style={{ marginBottom: "0.5rem" }}>
                       <span style={{ color: "rgba(255, 255, 255, 0.6)" }}>
                         Leverage:{" "}
                       </span>
@@ -284,6 +450,31 @@ export default function Rebalance() {
                         x
                       </span>
                     </div>
+                    <div>
+                      <span style={{ color: "rgba(255, 255, 255, 0.6)" }}>
+                        Despliegue:{" "}
+                      </span>
+                      <span style={{ color: "white", fontWeight: "600" }}>
+                        {formatNumberES(proposal.deployFraction * 100, {
+                          maximumFractionDigits: 0,
+                        })}
+                        %
+                      </span>
+                      <span
+                        style={{
+                          color: "rgba(255, 255, 255, 0.5)",
+                          fontSize: "0.8rem",
+                        }}
+                      >
+                        {proposal.matchedDeployRule
+                          ? ` · regla ${
+                              proposal.matchedDeployRule.source === "custom"
+                                ? `"${proposal.matchedDeployRule.name}"`
+                                : `por defecto (${proposal.matchedDeployRule.name})`
+                            }`
+                          : " · ninguna regla activa"}
+                      </span>
+                    </div>
                   </div>
 
                   <div
@@ -334,6 +525,85 @@ export default function Rebalance() {
                   </div>
                 </div>
 
+                {/* Deleveraging options when leverage is above the maximum */}
+                {proposal.deleveragingPlan && (
+                  <div style={{ marginBottom: "1.5rem" }}>
+                    <DeleveragingPlanCard plan={proposal.deleveragingPlan} />
+                  </div>
+                )}
+
+                {/* Staged contribution tranches */}
+                {proposal.stagedDeployment && (
+                  <div
+                    style={{
+                      background: "rgba(255, 255, 255, 0.05)",
+                      borderRadius: "12px",
+                      padding: "1rem 1.5rem",
+                      marginBottom: "1.5rem",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                        color: "rgba(255, 255, 255, 0.7)",
+                        fontSize: "0.9rem",
+                        marginBottom: "0.5rem",
+                      }}
+                    >
+                      <Layers size={16} />
+                      TRAMOS DE APORTACIÓN
+                    </div>
+                    <p
+                      style={{
+                        color: "white",
+                        fontSize: "0.9rem",
+                        marginBottom: "0.5rem",
+                      }}
+                    >
+                      Se despliegan al aceptar:{" "}
+                      <strong style={{ color: "#4ade80" }}>
+                        {formatCurrencyES(proposal.stagedDeployment.dueAmount)}
+                      </strong>{" "}
+                      ({proposal.stagedDeployment.dueTranches.length} tramos) ·
+                      Sin apalancar hasta su vencimiento:{" "}
+                      <strong>
+                        {formatCurrencyES(
+                          proposal.stagedDeployment.heldBackAmount
+                        )}
+                      </strong>
+                    </p>
+                    <ul
+                      style={{
+                        color: "rgba(255, 255, 255, 0.6)",
+                        fontSize: "0.8rem",
+                        margin: "0 0 0 1rem",
+                        padding: 0,
+                      }}
+                    >
+                      {[
+                        ...proposal.stagedDeployment.dueTranches,
+                        ...proposal.stagedDeployment.remainingTranches,
+                      ].map((tranche) => (
+                        <li
+                          key={`${tranche.contributionId}-${tranche.trancheNumber}`}
+                        >
+                          Tramo {tranche.trancheNumber}/{tranche.trancheCount}:{" "}
+                          {formatCurrencyES(tranche.amount)} ·{" "}
+                          {tranche.due
+                            ? "listo"
+                            : tranche.dueAt
+                            ? `vence el ${new Date(
+                                tranche.dueAt
+                              ).toLocaleDateString("es-ES")}`
+                            : "espera una señal de despliegue"}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Weights Used */}
                 <div
                   style={{
@@ -375,7 +645,13 @@ export default function Rebalance() {
                         {proposal.dynamicWeightsComputed ? (
                           <>
                             <Brain size={16} />
-                            <span>Dinámicos (Optimizados Sharpe)</span>
+                            <span>
+                              Dinámicos (
+                              {OPTIMIZATION_METHOD_LABELS[
+                                proposal.optimizationMethod
+                              ] || "Optimizados Sharpe"}
+                              )
+                            </span>
                           </>
                         ) : (
                           <>
@@ -406,6 +682,103 @@ export default function Rebalance() {
                       )
                     )}
                   </div>
+                  {proposal.optimizerDiagnostics && (
+                    <div
+                      style={{
+                        marginTop: "0.75rem",
+                        color: proposal.optimizerDiagnostics.converged
+                          ? "rgba(255, 255, 255, 0.5)"
+                          : "#fbbf24",
+                        fontSize: "0.8rem",
+                      }}
+                    >
+                      {proposal.optimizerDiagnostics.converged
+                        ? "Convergió"
+                        : "No convergió"}{" "}
+                      en {proposal.optimizerDiagnostics.iterations} iteraciones
+                      · Sharpe{" "}
+                      {formatNumberES(proposal.optimizerDiagnostics.sharpe, {
+                        maximumFractionDigits: 2,
+                      })}{" "}
+                      · {proposal.optimizerDiagnostics.estimation.observations}{" "}
+                      días de histórico
+                      {proposal.optimizerDiagnostics.estimation
+                        .covarianceEstimator === "ledoit_wolf" &&
+                        ` · Ledoit–Wolf δ ${formatNumberES(
+                          proposal.optimizerDiagnostics.estimation
+                            .covarianceShrinkage,
+                          { maximumFractionDigits: 2 }
+                        )}`}
+                      {proposal.optimizerDiagnostics.estimation
+                        .meanEstimator === "james_stein" &&
+                        ` · James–Stein ${formatNumberES(
+                          proposal.optimizerDiagnostics.estimation
+                            .meanShrinkage,
+                          { maximumFractionDigits: 2 }
+                        )}`}
+                      {bindingLimits.length > 0 && (
+                        <> · Límites activos: {bindingLimits.join(", ")}</>
+                      )}
+                    </div>
+                  )}
+                  {proposal.optimizerDiagnostics?.returnViews && (
+                    <div style={{ marginTop: "0.75rem" }}>
+                      <p
+                        style={{
+                          color: "rgba(255, 255, 255, 0.6)",
+                          fontSize: "0.85rem",
+                          marginBottom: "0.25rem",
+                        }}
+                      >
+                        Visiones de retorno (cambio de peso de cada visión por
+                        separado):
+                      </p>
+                      {proposal.optimizerDiagnostics.returnViews.views.map(
+                        (view) => (
+                          <div
+                            key={view.symbol}
+                            style={{
+                              color: "rgba(255, 255, 255, 0.7)",
+                              fontSize: "0.8rem",
+                            }}
+                          >
+                            {view.symbol}{" "}
+                            {formatPercentES(view.expectedReturn, {
+                              maximumFractionDigits: 1,
+                            })}{" "}
+                            anual (confianza{" "}
+                            {VIEW_CONFIDENCE_LABELS[view.confidence]}): retorno
+                            esperado{" "}
+                            {formatPercentES(view.priorReturn, {
+                              maximumFractionDigits: 1,
+                            })}{" "}
+                            →{" "}
+                            {formatPercentES(view.posteriorReturn, {
+                              maximumFractionDigits: 1,
+                            })}
+                            {" · "}
+                            {Object.entries(view.weightChanges)
+                              .filter(([, change]) => Math.abs(change) >= 0.001)
+                              .map(
+                                ([symbol, change]) =>
+                                  `${symbol} ${formatPercentES(change, {
+                                    maximumFractionDigits: 1,
+                                  })}`
+                              )
+                              .join(", ") || "sin cambios en los pesos"}
+                          </div>
+                        )
+                      )}
+                    </div>
+                  )}
+                  {proposal.optimizerDiagnostics && portfolioId && (
+                    <WeightsExplanationPanel
+                      key={proposal.proposalId ?? "simulation"}
+                      portfolioId={portfolioId}
+                      proposalId={proposal.proposalId}
+                      inputs={proposal.optimizerDiagnostics.inputs}
+                    />
+                  )}
                 </div>
 
                 {/* Instructions Table */}
@@ -525,6 +898,16 @@ export default function Rebalance() {
                             >
                               {pos.action}
                             </div>
+                            {pos.skipReason && (
+                              <div
+                                style={{
+                                  color: "rgba(255, 255, 255, 0.5)",
+                                  fontSize: "0.8rem",
+                                }}
+                              >
+                                {SKIP_REASON_LABELS[pos.skipReason]}
+                              </div>
+                            )}
                             {pos.action !== "HOLD" && (
                               <>
                                 <div
@@ -558,6 +941,19 @@ export default function Rebalance() {
                                   })}{" "}
                                   ≈ {formatCurrencyES(Math.abs(pos.deltaValue))}
                                 </div>
+                                {pos.estimatedCost > 0 && (
+                                  <div
+                                    style={{
+                                      color: "rgba(255, 255, 255, 0.5)",
+                                      fontSize: "0.8rem",
+                                    }}
+                                  >
+                                    Coste estimado:{" "}
+                                    {formatCurrencyES(pos.estimatedCost, {
+                                      maximumFractionDigits: 2,
+                                    })}
+                                  </div>
+                                )}
                               </>
                             )}
                           </div>
@@ -652,6 +1048,113 @@ export default function Rebalance() {
                   </div>
                 )}
 
+                {/* Positions valued without an exchange rate */}
+                {proposal.fxMissingCurrencies?.length > 0 && (
+                  <div
+                    style={{
+                      background: "rgba(239, 68, 68, 0.1)",
+                      border: "1px solid rgba(239, 68, 68, 0.3)",
+                      borderRadius: "12px",
+                      padding: "1rem",
+                      marginBottom: "1.5rem",
+                      color: "rgba(255, 255, 255, 0.8)",
+                      fontSize: "0.9rem",
+                    }}
+                  >
+                    <strong>Sin tipo de cambio:</strong>{" "}
+                    {proposal.fxMissingCurrencies.join(", ")} →{" "}
+                    {proposal.baseCurrency}. Las posiciones en estas divisas se
+                    valoran 1:1 y la propuesta no se puede aceptar hasta
+                    cargar los tipos de cambio.
+                  </div>
+                )}
+
+                {/* Residual cash left by trade filters */}
+                {Math.abs(proposal.summary.residualCash) >= 0.01 && (
+                  <div
+                    style={{
+                      background: "rgba(255, 255, 255, 0.05)",
+                      border: "1px solid rgba(255, 255, 255, 0.15)",
+                      borderRadius: "12px",
+                      padding: "1rem",
+                      marginBottom: "1.5rem",
+                      color: "rgba(255, 255, 255, 0.8)",
+                      fontSize: "0.9rem",
+                    }}
+                  >
+                    <strong>Residuo en efectivo:</strong>{" "}
+                    {formatCurrencyES(proposal.summary.residualCash)} no se
+                    invierte por operación mínima, banda de tolerancia o
+                    redondeo a lotes.
+                  </div>
+                )}
+
+                {/* Transaction costs vs expected benefit */}
+                {(proposal.summary.estimatedCosts > 0 ||
+                  proposal.costBenefit?.suppressed) && (
+                  <div
+                    style={{
+                      background:
+                        proposal.costBenefit && !proposal.costBenefit.worthIt
+                          ? "rgba(251, 191, 36, 0.1)"
+                          : "rgba(255, 255, 255, 0.05)",
+                      border:
+                        proposal.costBenefit && !proposal.costBenefit.worthIt
+                          ? "1px solid rgba(251, 191, 36, 0.3)"
+                          : "1px solid rgba(255, 255, 255, 0.15)",
+                      borderRadius: "12px",
+                      padding: "1rem",
+                      marginBottom: "1.5rem",
+                      color: "rgba(255, 255, 255, 0.8)",
+                      fontSize: "0.9rem",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                      }}
+                    >
+                      <Receipt size={16} />
+                      <strong>Costes estimados:</strong>{" "}
+                      {formatCurrencyES(proposal.summary.estimatedCosts, {
+                        maximumFractionDigits: 2,
+                      })}
+                    </div>
+                    {proposal.costBenefit && (
+                      <div style={{ marginTop: "0.5rem" }}>
+                        Corregir la desviación (tracking error{" "}
+                        {formatPercentES(
+                          proposal.costBenefit.trackingErrorBefore,
+                          { showSign: false }
+                        )}{" "}
+                        →{" "}
+                        {formatPercentES(
+                          proposal.costBenefit.trackingErrorAfter,
+                          { showSign: false }
+                        )}
+                        ) aporta ≈{" "}
+                        {formatCurrencyES(
+                          proposal.costBenefit.expectedBenefit,
+                          { maximumFractionDigits: 2 }
+                        )}
+                        /año frente a{" "}
+                        {formatCurrencyES(
+                          proposal.costBenefit.rebalancingCost,
+                          { maximumFractionDigits: 2 }
+                        )}{" "}
+                        de coste.{" "}
+                        {proposal.costBenefit.suppressed
+                          ? "Las operaciones de rebalanceo se han omitido; solo se ajusta la exposición."
+                          : !proposal.costBenefit.worthIt
+                          ? "El coste supera el beneficio esperado."
+                          : ""}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Info box */}
                 <div
                   style={{
@@ -677,19 +1180,48 @@ export default function Rebalance() {
                     <span>
                       Ejecuta estas operaciones en tu broker, luego haz clic en
                       &quot;Aceptar&quot; para guardar la nueva composición.
+                      {proposal.expiresAt && (
+                        <>
+                          {" "}
+                          La propuesta es válida hasta las{" "}
+                          {new Date(proposal.expiresAt).toLocaleTimeString(
+                            "es-ES",
+                            { hour: "2-digit", minute: "2-digit" }
+                          )}
+                          ; si caduca o los precios cambian, recarga la página
+                          para recalcularla.
+                        </>
+                      )}
                     </span>
                   </p>
                 </div>
 
+                {/* Execution Entry (after accepting) */}
+                {rebalanceEventId && (
+                  <ExecutionEntrySection
+                    proposal={proposal}
+                    executions={executions}
+                    report={executionReport}
+                    lotChoices={lotChoices}
+                    isSubmitting={isSubmitting}
+                    onChange={updateExecution}
+                    onToggleLot={toggleExecutionLot}
+                    onSubmit={handleRecordExecutions}
+                    onFinish={() => router.push("/dashboard")}
+                  />
+                )}
+
                 {/* Action Buttons */}
-                {(() => {
+                {!rebalanceEventId && (() => {
                   const allHold = proposal.positions.every(
                     (pos) => pos.action === "HOLD"
                   );
                   const noBorrowIncrease =
                     Math.abs(proposal.summary.borrowIncrease) < 0.01;
                   const needsRebalance = !(allHold && noBorrowIncrease);
-                  const isDisabled = isSubmitting || !needsRebalance;
+                  const fxMissing = proposal.fxMissingCurrencies?.length > 0;
+                  const isDisabled =
+                    isSubmitting || !needsRebalance || fxMissing;
 
                   return (
                     <div
@@ -726,6 +1258,14 @@ export default function Rebalance() {
                     </div>
                   );
                 })()}
+
+                {/* What-if simulation (nothing is saved) */}
+                {!rebalanceEventId && portfolioId && (
+                  <SimulationSection
+                    portfolioId={portfolioId}
+                    proposal={proposal}
+                  />
+                )}
               </>
             ) : null}
 
@@ -764,3 +1304,566 @@ export default function Rebalance() {
     </>
   );
 }
+
+const executionInputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "0.5rem 0.75rem",
+  background: "rgba(255,255,255,0.05)",
+  color: "white",
+  border: "1px solid #334155",
+  borderRadius: "6px",
+  fontSize: "0.9rem",
+};
+
+const executionLabelStyle: React.CSSProperties = {
+  display: "block",
+  color: "rgba(255, 255, 255, 0.6)",
+  fontSize: "0.8rem",
+  marginBottom: "0.25rem",
+};
+
+/**
+ * Execution entry - records real fills against the accepted rebalance
+ * and shows the slippage report once saved
+ */
+function ExecutionEntrySection({
+  proposal,
+  executions,
+  report,
+  lotChoices,
+  isSubmitting,
+  onChange,
+  onToggleLot,
+  onSubmit,
+  onFinish,
+}: {
+  proposal: RebalanceProposal;
+  executions: Record<string, ExecutionItem>;
+  report: ExecutionReport | null;
+  lotChoices: Record<string, TaxLot[]>;
+  isSubmitting: boolean;
+  onChange: (
+    assetId: string,
+    field: "executedQuantity" | "fillPrice" | "fee",
+    value: number
+  ) => void;
+  onToggleLot: (assetId: string, lotId: string) => void;
+  onSubmit: () => void;
+  onFinish: () => void;
+}) {
+  const tradedPositions = proposal.positions.filter(
+    (pos) => pos.action !== "HOLD"
+  );
+
+  return (
+    <div
+      style={{
+        background: "rgba(255, 255, 255, 0.1)",
+        borderRadius: "16px",
+        padding: "2rem",
+        backdropFilter: "blur(10px)",
+        marginBottom: "1.5rem",
+      }}
+    >
+      <h2
+        style={{
+          fontSize: "1.25rem",
+          fontWeight: "bold",
+          color: "white",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          <Receipt size={20} />
+          Registrar Ejecución
+        </div>
+      </h2>
+      <p
+        style={{
+          color: "rgba(255, 255, 255, 0.6)",
+          fontSize: "0.9rem",
+          marginBottom: "1.5rem",
+        }}
+      >
+        Introduce las cantidades, precios y comisiones reales del broker. Las
+        posiciones y el precio medio se recalculan con estos datos.
+      </p>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        {tradedPositions.map((pos) => {
+          const execution = executions[pos.assetId];
+          const reportRow = report?.positions.find(
+            (row) => row.assetId === pos.assetId
+          );
+          if (!execution) return null;
+
+          return (
+            <div
+              key={pos.assetId}
+              style={{
+                background: "rgba(255, 255, 255, 0.05)",
+                border: "1px solid rgba(255, 255, 255, 0.1)",
+                borderRadius: "12px",
+                padding: "1rem",
+              }}
+            >
+              <div
+                style={{
+                  color: "white",
+                  fontWeight: "600",
+                  marginBottom: "0.75rem",
+                }}
+              >
+                {pos.action} {pos.assetSymbol}{" "}
+                <span
+                  style={{ color: "rgba(255, 255, 255, 0.5)", fontWeight: 400 }}
+                >
+                  (propuesto{" "}
+                  {formatNumberES(Math.abs(pos.deltaQuantity), {
+                    maximumFractionDigits: 6,
+                  })}{" "}
+                  @ {formatCurrencyES(pos.currentPrice)})
+                </span>
+              </div>
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+                  gap: "0.75rem",
+                }}
+              >
+                <div>
+                  <label style={executionLabelStyle}>Cantidad ejecutada</label>
+                  <NumberInput
+                    value={execution.executedQuantity}
+                    onChange={(v) =>
+                      onChange(pos.assetId, "executedQuantity", v)
+                    }
+                    min={0}
+                    decimals={6}
+                    style={executionInputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={executionLabelStyle}>Precio de ejecución</label>
+                  <NumberInput
+                    value={execution.fillPrice}
+                    onChange={(v) => onChange(pos.assetId, "fillPrice", v)}
+                    min={0}
+                    decimals={2}
+                    style={executionInputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={executionLabelStyle}>Comisión</label>
+                  <NumberInput
+                    value={execution.fee ?? 0}
+                    onChange={(v) => onChange(pos.assetId, "fee", v)}
+                    min={0}
+                    decimals={2}
+                    style={executionInputStyle}
+                  />
+                </div>
+              </div>
+              {pos.action === "SELL" &&
+                (lotChoices[pos.assetId] || []).length > 0 && (
+                  <div style={{ marginTop: "0.75rem" }}>
+                    <label style={executionLabelStyle}>
+                      Lotes a vender (en orden; el resto por FIFO)
+                    </label>
+                    <div
+                      style={{
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: "0.25rem",
+                      }}
+                    >
+                      {lotChoices[pos.assetId].map((lot) => {
+                        const order = (execution.lotIds || []).indexOf(lot.id);
+                        return (
+                          <label
+                            key={lot.id}
+                            style={{
+                              display: "flex",
+                              alignItems: "center",
+                              gap: "0.5rem",
+                              color: "rgba(255, 255, 255, 0.8)",
+                              fontSize: "0.85rem",
+                              cursor: "pointer",
+                            }}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={order >= 0}
+                              onChange={() => onToggleLot(pos.assetId, lot.id)}
+                            />
+                            {order >= 0 && <strong>{order + 1}.</strong>}
+                            {new Date(lot.acquiredAt).toLocaleDateString(
+                              "es-ES"
+                            )}{" "}
+                            ·{" "}
+                            {formatNumberES(lot.quantity, {
+                              maximumFractionDigits: 6,
+                            })}{" "}
+                            @ {formatCurrencyES(lot.costPerUnit)}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              {reportRow && reportRow.priceSlippage !== null && (
+                <div
+                  style={{
+                    marginTop: "0.75rem",
+                    fontSize: "0.85rem",
+                    color:
+                      (reportRow.slippageCost || 0) > 0 ? "#f87171" : "#4ade80",
+                  }}
+                >
+                  Slippage: {formatPercentES(reportRow.priceSlippage)} (
+                  {formatCurrencyES(reportRow.slippageCost || 0, {
+                    currency: report?.baseCurrency,
+                  })}
+                  )
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {report && (
+        <div
+          style={{
+            marginTop: "1.5rem",
+            paddingTop: "1rem",
+            borderTop: "1px solid rgba(255, 255, 255, 0.1)",
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))",
+            gap: "0.75rem",
+            color: "rgba(255, 255, 255, 0.8)",
+            fontSize: "0.9rem",
+          }}
+        >
+          <span>
+            Nocional propuesto:{" "}
+            {formatCurrencyES(report.totals.proposedNotional, {
+              currency: report.baseCurrency,
+            })}
+          </span>
+          <span>
+            Nocional ejecutado:{" "}
+            {formatCurrencyES(report.totals.executedNotional, {
+              currency: report.baseCurrency,
+            })}
+          </span>
+          <span>
+            Comisiones:{" "}
+            {formatCurrencyES(report.totals.fees, {
+              currency: report.baseCurrency,
+            })}
+          </span>
+          <span>
+            Coste slippage:{" "}
+            {formatCurrencyES(report.totals.slippageCost, {
+              currency: report.baseCurrency,
+            })}
+          </span>
+          <span style={{ fontWeight: 600 }}>
+            Coste total:{" "}
+            {formatCurrencyES(report.totals.totalCost, {
+              currency: report.baseCurrency,
+            })}
+          </span>
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          gap: "1rem",
+          justifyContent: "flex-end",
+          flexWrap: "wrap",
+          marginTop: "1.5rem",
+        }}
+      >
+        <button
+          onClick={onFinish}
+          style={{
+            padding: "0.875rem 2rem",
+            background: "transparent",
+            color: "rgba(255, 255, 255, 0.8)",
+            border: "1px solid rgba(255, 255, 255, 0.2)",
+            borderRadius: "6px",
+            fontSize: "0.95rem",
+            fontWeight: "600",
+            cursor: "pointer",
+          }}
+        >
+          {report ? "Volver al Dashboard" : "Omitir"}
+        </button>
+        <button
+          onClick={onSubmit}
+          disabled={isSubmitting}
+          style={{
+            padding: "0.875rem 2rem",
+            background: isSubmitting
+              ? "rgba(255, 255, 255, 0.1)"
+              : "linear-gradient(135deg, #10b981 0%, #059669 100%)",
+            color: isSubmitting ? "rgba(255, 255, 255, 0.5)" : "white",
+            border: "none",
+            borderRadius: "6px",
+            fontSize: "0.95rem",
+            fontWeight: "600",
+            cursor: isSubmitting ? "not-allowed" : "pointer",
+          }}
+        >
+          {isSubmitting
+            ? "Guardando..."
+            : report
+            ? "Actualizar Ejecución"
+            : "Guardar Ejecución"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * What-if simulation - recalculates the proposal with configuration
+ * overrides and a hypothetical contribution without saving anything
+ */
+function SimulationSection({
+  portfolioId,
+  proposal,
+}: {
+  portfolioId: string;
+  proposal: RebalanceProposal;
+}) {
+  const [leverageTarget, setLeverageTarget] = useState(
+    proposal.targetLeverage
+  );
+  const [contributionAmount, setContributionAmount] = useState(0);
+  const [optimizationMethod, setOptimizationMethod] = useState<
+    OptimizationMethod | ""
+  >("");
+  const [result, setResult] = useState<RebalanceProposal | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSimulate = async () => {
+    setIsSimulating(true);
+    setError("");
+
+    try {
+      const simulated = await simulateRebalanceProposal(portfolioId, {
+        leverageTarget: isNaN(leverageTarget) ? undefined : leverageTarget,
+        contributionAmount: isNaN(contributionAmount)
+          ? undefined
+          : contributionAmount,
+        ...(optimizationMethod
+          ? { useDynamicSharpeRebalance: true, optimizationMethod }
+          : {}),
+      });
+      setResult(simulated);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Error al simular el rebalance"
+      );
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        background: "rgba(255, 255, 255, 0.1)",
+        borderRadius: "16px",
+        padding: "2rem",
+        backdropFilter: "blur(10px)",
+        marginTop: "1.5rem",
+      }}
+    >
+      <h2
+        style={{
+          fontSize: "1.25rem",
+          fontWeight: "bold",
+          color: "white",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          <FlaskConical size={20} />
+          Simular Cambios
+        </div>
+      </h2>
+      <p
+        style={{
+          color: "rgba(255, 255, 255, 0.6)",
+          fontSize: "0.9rem",
+          marginBottom: "1.5rem",
+        }}
+      >
+        Prueba otra configuración sin guardarla. La configuración del
+        portfolio no cambia.
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+          gap: "0.75rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <div>
+          <label style={executionLabelStyle}>Apalancamiento objetivo</label>
+          <NumberInput
+            value={leverageTarget}
+            onChange={setLeverageTarget}
+            min={1}
+            max={10}
+            decimals={2}
+            style={executionInputStyle}
+          />
+        </div>
+        <div>
+          <label style={executionLabelStyle}>Aportación hipotética</label>
+          <NumberInput
+            value={contributionAmount}
+            onChange={setContributionAmount}
+            min={0}
+            decimals={2}
+            style={executionInputStyle}
+          />
+        </div>
+        <div>
+          <label style={executionLabelStyle}>Optimizador</label>
+          <select
+            value={optimizationMethod}
+            onChange={(e) =>
+              setOptimizationMethod(e.target.value as OptimizationMethod | "")
+            }
+            style={executionInputStyle}
+          >
+            <option value="">Actual</option>
+            {Object.entries(OPTIMIZATION_METHOD_LABELS).map(
+              ([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSimulate}
+        disabled={isSimulating}
+        style={{
+          padding: "0.625rem 1.5rem",
+          background: "rgba(102, 126, 234, 0.3)",
+          color: "white",
+          border: "1px solid rgba(102, 126, 234, 0.5)",
+          borderRadius: "6px",
+          fontSize: "0.9rem",
+          fontWeight: "600",
+          cursor: isSimulating ? "not-allowed" : "pointer",
+          opacity: isSimulating ? 0.5 : 1,
+        }}
+      >
+        {isSimulating ? "Simulando..." : "Simular"}
+      </button>
+
+      {error && (
+        <p style={{ color: "#f87171", fontSize: "0.85rem", marginTop: "1rem" }}>
+          {error}
+        </p>
+      )}
+
+      {result && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+              gap: "0.75rem",
+              marginBottom: "1rem",
+              color: "rgba(255, 255, 255, 0.8)",
+              fontSize: "0.9rem",
+            }}
+          >
+            <div>
+              Exposición objetivo:{" "}
+              <strong>{formatCurrencyES(result.summary.newExposure)}</strong>{" "}
+              <span style={{ color: "rgba(255, 255, 255, 0.5)" }}>
+                (actual {formatCurrencyES(proposal.summary.newExposure)})
+              </span>
+            </div>
+            <div>
+              Apalancamiento:{" "}
+              <strong>
+                {formatNumberES(result.summary.newLeverage, {
+                  maximumFractionDigits: 2,
+                })}
+                x
+              </strong>{" "}
+              <span style={{ color: "rgba(255, 255, 255, 0.5)" }}>
+                (actual{" "}
+                {formatNumberES(proposal.summary.newLeverage, {
+                  maximumFractionDigits: 2,
+                })}
+                x)
+              </span>
+            </div>
+            <div>
+              Variación de préstamo:{" "}
+              <strong>{formatCurrencyES(result.summary.borrowIncrease)}</strong>
+            </div>
+          </div>
+
+          <div
+            style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}
+          >
+            {result.positions.map((pos) => (
+              <div
+                key={pos.assetId}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  color: "rgba(255, 255, 255, 0.7)",
+                  fontSize: "0.85rem",
+                }}
+              >
+                <span>
+                  {pos.assetSymbol}{" "}
+                  {formatNumberES(pos.targetWeight * 100, {
+                    maximumFractionDigits: 1,
+                  })}
+                  %
+                </span>
+                <span
+                  style={{
+                    color:
+                      pos.action === "BUY"
+                        ? "#4ade80"
+                        : pos.action === "SELL"
+                        ? "#f87171"
+                        : "rgba(255, 255, 255, 0.7)",
+                  }}
+                >
+                  {pos.action}{" "}
+                  {pos.action !== "HOLD" &&
+                    formatCurrencyES(Math.abs(pos.deltaValue))}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
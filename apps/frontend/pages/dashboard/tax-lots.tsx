@@ -0,0 +1,525 @@
+import React, { useState, useEffect } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  getPortfoliosByEmail,
+  getTaxLots,
+  TaxLotReport,
+  TaxLot,
+} from "../../lib/api";
+import DashboardSidebar from "../../components/DashboardSidebar";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { formatCurrencyES, formatNumberES } from "../../lib/number-format";
+
+const RELIEF_METHOD_LABELS: Record<string, string> = {
+  fifo: "FIFO (primero en entrar)",
+  lifo: "LIFO (último en entrar)",
+  specific: "Lotes específicos",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  opening: "Posición inicial",
+  contribution: "Aportación",
+  rebalance: "Rebalanceo",
+  manual: "Manual",
+};
+
+/**
+ * Tax lots page - Cost basis per lot with realized and unrealized gains
+ */
+export default function TaxLots() {
+  const router = useRouter();
+  const { user, loading } = useAuth();
+
+  const [portfolioId, setPortfolioId] = useState<string | null>(null);
+  const [report, setReport] = useState<TaxLotReport | null>(null);
+  const [year, setYear] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // Resolve portfolioId from URL or fetch
+  useEffect(() => {
+    async function loadPortfolio() {
+      if (!user?.email) return;
+
+      const urlPortfolioId = router.query.portfolioId as string;
+      if (urlPortfolioId) {
+        setPortfolioId(urlPortfolioId);
+        return;
+      }
+
+      try {
+        const portfolios = await getPortfoliosByEmail(user.email);
+        if (portfolios && portfolios.length > 0) {
+          setPortfolioId(portfolios[0].id);
+        } else {
+          setError("No se encontró portfolio");
+          setIsLoading(false);
+        }
+      } catch {
+        setError("Error al cargar el portfolio");
+        setIsLoading(false);
+      }
+    }
+
+    if (!loading && !user) {
+      router.push("/");
+    } else if (user) {
+      loadPortfolio();
+    }
+  }, [user, loading, router, router.query.portfolioId]);
+
+  // Load lots for the selected tax year
+  useEffect(() => {
+    async function loadLots() {
+      if (!portfolioId) return;
+
+      setIsLoading(true);
+      setError("");
+
+      try {
+        setReport(await getTaxLots(portfolioId, year ?? undefined));
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Error al cargar los lotes"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadLots();
+  }, [portfolioId, year]);
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Cargando...</title>
+        </Head>
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            minHeight: "100vh",
+          }}
+        >
+          <p style={{ color: "white", fontSize: "1.2rem" }}>Cargando...</p>
+        </div>
+      </>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Lotes Fiscales - Leveraged DCA App</title>
+      </Head>
+      <DashboardSidebar portfolioId={portfolioId}>
+        <div style={{ padding: "2rem" }}>
+          <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+            {/* Header */}
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "flex-end",
+                flexWrap: "wrap",
+                gap: "1rem",
+                marginBottom: "2rem",
+                paddingBottom: "1.5rem",
+                borderBottom: "1px solid #1e293b",
+              }}
+            >
+              <div>
+                <h1
+                  style={{
+                    fontSize: "1.875rem",
+                    fontWeight: "700",
+                    color: "#f1f5f9",
+                    marginBottom: "0.25rem",
+                    letterSpacing: "-0.025em",
+                  }}
+                >
+                  Lotes Fiscales
+                </h1>
+                <p style={{ color: "#94a3b8", fontSize: "0.875rem" }}>
+                  Coste de cada compra y plusvalías realizadas y latentes
+                  {report &&
+                    ` · Método: ${
+                      RELIEF_METHOD_LABELS[report.lotReliefMethod] ||
+                      report.lotReliefMethod
+                    }`}
+                </p>
+              </div>
+              <select
+                value={year ?? ""}
+                onChange={(e) =>
+                  setYear(e.target.value ? Number(e.target.value) : null)
+                }
+                style={{
+                  padding: "0.5rem 0.75rem",
+                  background: "rgba(255,255,255,0.05)",
+                  color: "white",
+                  border: "1px solid #334155",
+                  borderRadius: "6px",
+                  fontSize: "0.9rem",
+                }}
+              >
+                <option value="">Todos los ejercicios</option>
+                {years.map((y) => (
+                  <option key={y} value={y}>
+                    Ejercicio {y}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {error && (
+              <div
+                style={{
+                  background: "rgba(239, 68, 68, 0.1)",
+                  border: "1px solid rgba(239, 68, 68, 0.3)",
+                  borderRadius: "12px",
+                  padding: "1rem",
+                  marginBottom: "1.5rem",
+                  color: "#fca5a5",
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <p style={{ color: "rgba(255, 255, 255, 0.6)" }}>
+                Cargando lotes...
+              </p>
+            ) : report && report.lots.length === 0 ? (
+              <div
+                style={{
+                  background: "rgba(255, 255, 255, 0.05)",
+                  borderRadius: "16px",
+                  padding: "3rem 2rem",
+                  textAlign: "center",
+                  color: "rgba(255, 255, 255, 0.6)",
+                }}
+              >
+                No hay lotes para este ejercicio
+              </div>
+            ) : report ? (
+              <>
+                {/* Totals */}
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))",
+                    gap: "1rem",
+                    marginBottom: "2rem",
+                  }}
+                >
+                  <SummaryCard
+                    label="Coste base (abierto)"
+                    value={formatCurrencyES(report.totals.costBasis)}
+                  />
+                  <SummaryCard
+                    label="Valor de mercado"
+                    value={formatCurrencyES(report.totals.marketValue)}
+                  />
+                  <SummaryCard
+                    label="Plusvalía latente"
+                    value={formatCurrencyES(report.totals.unrealizedGain)}
+                    color={gainColor(report.totals.unrealizedGain)}
+                  />
+                  <SummaryCard
+                    label={
+                      report.year
+                        ? `Plusvalía realizada ${report.year}`
+                        : "Plusvalía realizada"
+                    }
+                    value={formatCurrencyES(report.totals.realizedGain)}
+                    color={gainColor(report.totals.realizedGain)}
+                    detail={`Corto plazo ${formatCurrencyES(
+                      report.totals.realizedShortTerm
+                    )} · Largo plazo ${formatCurrencyES(
+                      report.totals.realizedLongTerm
+                    )}`}
+                  />
+                </div>
+
+                {/* Per-asset summary */}
+                <div style={panelStyle}>
+                  <h2 style={panelTitleStyle}>Por activo</h2>
+                  <table style={tableStyle}>
+                    <thead>
+                      <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+                        <th style={{ ...cellStyle, textAlign: "left" }}>
+                          Activo
+                        </th>
+                        <th style={cellStyle}>Lotes abiertos</th>
+                        <th style={cellStyle}>Cantidad</th>
+                        <th style={cellStyle}>Coste base</th>
+                        <th style={cellStyle}>Valor</th>
+                        <th style={cellStyle}>Latente</th>
+                        <th style={cellStyle}>Realizada</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.assets.map((asset) => (
+                        <tr key={asset.assetId} style={rowStyle}>
+                          <td style={{ ...cellStyle, textAlign: "left" }}>
+                            {asset.assetSymbol}
+                          </td>
+                          <td style={cellStyle}>{asset.openLots}</td>
+                          <td style={cellStyle}>
+                            {formatNumberES(asset.openQuantity, {
+                              maximumFractionDigits: 6,
+                            })}
+                          </td>
+                          <td style={cellStyle}>
+                            {formatCurrencyES(asset.costBasis)}
+                          </td>
+                          <td style={cellStyle}>
+                            {asset.marketValue !== null
+                              ? formatCurrencyES(asset.marketValue)
+                              : "—"}
+                          </td>
+                          <td
+                            style={{
+                              ...cellStyle,
+                              color: gainColor(asset.unrealizedGain ?? 0),
+                            }}
+                          >
+                            {asset.unrealizedGain !== null
+                              ? formatCurrencyES(asset.unrealizedGain)
+                              : "—"}
+                          </td>
+                          <td
+                            style={{
+                              ...cellStyle,
+                              color: gainColor(asset.realizedGain),
+                            }}
+                          >
+                            {formatCurrencyES(asset.realizedGain)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Lots */}
+                <div style={panelStyle}>
+                  <h2 style={panelTitleStyle}>Lotes</h2>
+                  <table style={tableStyle}>
+                    <thead>
+                      <tr style={{ color: "#94a3b8", textAlign: "right" }}>
+                        <th style={{ ...cellStyle, textAlign: "left" }}>
+                          Activo
+                        </th>
+                        <th style={{ ...cellStyle, textAlign: "left" }}>
+                          Adquirido
+                        </th>
+                        <th style={{ ...cellStyle, textAlign: "left" }}>
+                          Origen
+                        </th>
+                        <th style={cellStyle}>Cantidad</th>
+                        <th style={cellStyle}>Restante</th>
+                        <th style={cellStyle}>Coste/ud.</th>
+                        <th style={cellStyle}>Latente</th>
+                        <th style={cellStyle}>Realizada</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.lots.map((lot) => (
+                        <LotRow key={lot.id} lot={lot} />
+                      ))}
+                    </tbody>
+                  </table>
+                  <p
+                    style={{
+                      marginTop: "1rem",
+                      color: "#94a3b8",
+                      fontSize: "0.8rem",
+                    }}
+                  >
+                    El coste incluye comisiones. Las ventas con más de un año de
+                    tenencia cuentan como largo plazo.
+                  </p>
+                </div>
+              </>
+            ) : null}
+          </div>
+        </div>
+      </DashboardSidebar>
+    </>
+  );
+}
+
+function gainColor(value: number): string {
+  if (value > 0) return "#4ade80";
+  if (value < 0) return "#f87171";
+  return "rgba(255, 255, 255, 0.85)";
+}
+
+const panelStyle: React.CSSProperties = {
+  background: "rgba(255, 255, 255, 0.05)",
+  border: "1px solid #1e293b",
+  borderRadius: "12px",
+  padding: "1.25rem",
+  marginBottom: "1.5rem",
+  overflowX: "auto",
+};
+
+const panelTitleStyle: React.CSSProperties = {
+  color: "#f1f5f9",
+  fontSize: "1.1rem",
+  fontWeight: "600",
+  marginBottom: "0.75rem",
+};
+
+const tableStyle: React.CSSProperties = {
+  width: "100%",
+  borderCollapse: "collapse",
+  fontSize: "0.85rem",
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "0.4rem 0.5rem",
+  textAlign: "right",
+};
+
+const rowStyle: React.CSSProperties = {
+  color: "rgba(255, 255, 255, 0.85)",
+  borderTop: "1px solid #1e293b",
+};
+
+function SummaryCard({
+  label,
+  value,
+  color,
+  detail,
+}: {
+  label: string;
+  value: string;
+  color?: string;
+  detail?: string;
+}) {
+  return (
+    <div
+      style={{
+        background: "rgba(255, 255, 255, 0.05)",
+        border: "1px solid #1e293b",
+        borderRadius: "12px",
+        padding: "1rem 1.25rem",
+      }}
+    >
+      <div style={{ color: "#94a3b8", fontSize: "0.8rem" }}>{label}</div>
+      <div
+        style={{
+          color: color || "#f1f5f9",
+          fontSize: "1.25rem",
+          fontWeight: "600",
+        }}
+      >
+        {value}
+      </div>
+      {detail && (
+        <div style={{ color: "#94a3b8", fontSize: "0.75rem" }}>{detail}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One lot; expands to the sales that relieved it
+ */
+function LotRow({ lot }: { lot: TaxLot }) {
+  const [expanded, setExpanded] = useState(false);
+  const hasDisposals = lot.disposals.length > 0;
+
+  return (
+    <>
+      <tr
+        style={{
+          ...rowStyle,
+          opacity: lot.closedAt ? 0.6 : 1,
+          cursor: hasDisposals ? "pointer" : "default",
+        }}
+        onClick={() => hasDisposals && setExpanded(!expanded)}
+      >
+        <td style={{ ...cellStyle, textAlign: "left" }}>
+          <span
+            style={{ display: "inline-flex", alignItems: "center", gap: "4px" }}
+          >
+            {hasDisposals &&
+              (expanded ? (
+                <ChevronDown size={14} />
+              ) : (
+                <ChevronRight size={14} />
+              ))}
+            {lot.assetSymbol}
+          </span>
+        </td>
+        <td style={{ ...cellStyle, textAlign: "left" }}>
+          {new Date(lot.acquiredAt).toLocaleDateString("es-ES")}
+        </td>
+        <td style={{ ...cellStyle, textAlign: "left" }}>
+          {SOURCE_LABELS[lot.source] || lot.source}
+        </td>
+        <td style={cellStyle}>
+          {formatNumberES(lot.quantity, { maximumFractionDigits: 6 })}
+        </td>
+        <td style={cellStyle}>
+          {formatNumberES(lot.remainingQuantity, { maximumFractionDigits: 6 })}
+        </td>
+        <td style={cellStyle}>{formatCurrencyES(lot.costPerUnit)}</td>
+        <td style={{ ...cellStyle, color: gainColor(lot.unrealizedGain ?? 0) }}>
+          {lot.unrealizedGain !== null && lot.remainingQuantity > 0
+            ? formatCurrencyES(lot.unrealizedGain)
+            : "—"}
+        </td>
+        <td style={{ ...cellStyle, color: gainColor(lot.realizedGain) }}>
+          {hasDisposals ? formatCurrencyES(lot.realizedGain) : "—"}
+        </td>
+      </tr>
+      {expanded &&
+        lot.disposals.map((disposal) => (
+          <tr
+            key={disposal.id}
+            style={{ color: "#94a3b8", fontSize: "0.8rem" }}
+          >
+            <td />
+            <td style={{ ...cellStyle, textAlign: "left" }}>
+              Venta {new Date(disposal.disposedAt).toLocaleDateString("es-ES")}
+            </td>
+            <td style={{ ...cellStyle, textAlign: "left" }}>
+              {disposal.term === "long" ? "Largo plazo" : "Corto plazo"} (
+              {disposal.holdingDays} días)
+            </td>
+            <td style={cellStyle}>
+              {formatNumberES(disposal.quantity, { maximumFractionDigits: 6 })}
+            </td>
+            <td />
+            <td style={cellStyle}>
+              Venta @ {formatCurrencyES(disposal.proceedsPerUnit)}
+            </td>
+            <td />
+            <td
+              style={{ ...cellStyle, color: gainColor(disposal.realizedGain) }}
+            >
+              {formatCurrencyES(disposal.realizedGain)}
+            </td>
+          </tr>
+        ))}
+    </>
+  );
+}
@@ -12,6 +12,25 @@ import { PrismaClient } from "@prisma/client";
 import * as dotenv from "dotenv";
 import * as path from "path";
 
+import {
+  buildFxRateTable,
+  getConversionRates,
+  getCurrenciesToLoad,
+} from "../../apps/backend/src/fx/fx-rates";
+import { parseDeployRules } from "../../apps/backend/src/strategy/deploy-rules";
+import {
+  calculateCurrentState,
+  calculateDeleveragingPlan,
+  calculateDeploySignals,
+  calculatePositionExposure,
+  DeleveragingPlan,
+  getLeverageStatus,
+  getMetricsHistoryWindow,
+  LeverageStatus,
+  markEquityToMarket,
+  StrategyDeploySignals,
+} from "../../apps/backend/src/strategy/strategy-engine";
+
 // Load .env from backend directory
 dotenv.config({ path: path.resolve(__dirname, "../../apps/backend/.env") });
 
@@ -31,7 +50,8 @@ interface PortfolioState {
   marginRatio: number;
   leverageMin: number;
   leverageMax: number;
-  leverageStatus: "low" | "in_range" | "high";
+  leverageStatus: LeverageStatus;
+  deploySignals: StrategyDeploySignals;
   isContributionDay: boolean;
   pendingContributions: number;
   alerts: Alert[];
@@ -61,11 +81,37 @@ interface DailyCheckResult {
 // ============================================
 
 /**
- * Get latest prices for assets
+ * Get latest prices for assets, converted into the base currency
+ * Currencies without a stored rate are valued 1:1
  */
 async function getLatestPrices(
-  assetIds: string[]
+  assetIds: string[],
+  baseCurrency: string
 ): Promise<Record<string, number>> {
+  const assets = await prisma.asset.findMany({
+    where: { id: { in: assetIds } },
+    select: { id: true, quoteCurrency: true },
+  });
+  const quoteCurrencies: Record<string, string> = Object.fromEntries(
+    assets.map((asset) => [asset.id, asset.quoteCurrency])
+  );
+  const fxRows = await prisma.fxRate.findMany({
+    where: {
+      currency: {
+        in: getCurrenciesToLoad(Object.values(quoteCurrencies), baseCurrency),
+      },
+    },
+    select: { currency: true, date: true, usdRate: true },
+  });
+  const { rates, missing } = getConversionRates(
+    buildFxRateTable(fxRows),
+    Object.values(quoteCurrencies),
+    baseCurrency
+  );
+  for (const currency of missing) {
+    console.warn(`⚠️  No ${currency}/${baseCurrency} rate, valued 1:1`);
+  }
+
   const prices: Record<string, number> = {};
 
   for (const assetId of assetIds) {
@@ -75,13 +121,26 @@ async function getLatestPrices(
     });
 
     if (latestPrice) {
-      prices[assetId] = latestPrice.close;
+      prices[assetId] =
+        latestPrice.close * (rates[quoteCurrencies[assetId]] ?? 1);
     }
   }
 
   return prices;
 }
 
+/**
+ * Parse stored target weights (empty when missing or invalid)
+ */
+function parseTargetWeights(json: string | null): Record<string, number> {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Calculate current portfolio state
  */
@@ -98,28 +157,18 @@ async function calculatePortfolioState(
     return null;
   }
 
-  // Get latest prices
-  const latestPrices = await getLatestPrices(positions.map((p) => p.assetId));
-
-  // Calculate exposure
-  let exposure = 0;
-  for (const pos of positions) {
-    const price = latestPrices[pos.assetId] || pos.avgPrice;
-    exposure += pos.quantity * price;
-  }
-
-  // Get equity from latest metrics or calculate estimate
-  // IMPORTANT: The equity in latestMetric already includes contributions up to that point
-  // We need to:
-  // 1. Start from the metric's equity (which includes contributions)
-  // 2. Adjust for price movements: new_equity_from_prices - old_equity_from_prices
-  // 3. Add new contributions made since the metric
-  let equity = portfolio.initialCapital;
-  let borrowedAmount: number | null = null;
+  // Get latest prices (in the base currency)
+  const latestPrices = await getLatestPrices(
+    positions.map((p) => p.assetId),
+    portfolio.baseCurrency
+  );
+  const { exposure } = calculatePositionExposure(positions, latestPrices);
 
-  const latestMetric = await prisma.metricsTimeseries.findFirst({
+  // Recent metrics (newest first), same window as the backend services
+  const metricsTimeseries = await prisma.metricsTimeseries.findMany({
     where: { portfolioId: portfolio.id },
     orderBy: { date: "desc" },
+    take: getMetricsHistoryWindow(portfolio.volatilityLookbackDays),
     select: {
       equity: true,
       exposure: true,
@@ -128,6 +177,13 @@ async function calculatePortfolioState(
     },
   });
 
+  // Get equity from latest metrics or calculate estimate
+  // IMPORTANT: The equity in latestMetric already includes contributions up to that point,
+  // so it is marked to market and only contributions made since are added
+  let equity = portfolio.initialCapital;
+  let borrowedAmount: number | null = null;
+  const latestMetric = metricsTimeseries[0];
+
   if (latestMetric) {
     borrowedAmount = latestMetric.borrowedAmount;
 
@@ -146,20 +202,11 @@ async function calculatePortfolioState(
       0
     );
 
-    // Equity from price movements at the time of the metric
-    const oldEquityFromPrices = latestMetric.exposure - (borrowedAmount || 0);
-
-    // Equity from price movements now
-    const newEquityFromPrices = exposure - (borrowedAmount || 0);
-
-    // Change in equity due to price movements
-    const equityChangeFromPrices = newEquityFromPrices - oldEquityFromPrices;
-
-    // Final equity = metric equity + price changes + new contributions
-    equity =
-      latestMetric.equity +
-      equityChangeFromPrices +
-      contributionsSinceLastMetric;
+    equity = markEquityToMarket(
+      latestMetric,
+      exposure,
+      contributionsSinceLastMetric
+    );
   } else {
     // No previous metrics, estimate using target leverage
     const targetLeverage =
@@ -169,17 +216,36 @@ async function calculatePortfolioState(
     borrowedAmount = exposure - equity;
   }
 
-  // Calculate leverage and margin
-  const leverage = equity > 0 ? exposure / equity : 0;
-  const marginRatio = exposure > 0 ? equity / exposure : 1;
+  // Stored peak from the last daily check
+  const latestDailyMetric = await prisma.dailyMetric.findFirst({
+    where: { portfolioId: portfolio.id },
+    orderBy: { date: "desc" },
+    select: { equity: true, peakEquity: true },
+  });
 
-  // Determine leverage status
-  let leverageStatus: "low" | "in_range" | "high" = "in_range";
-  if (leverage < portfolio.leverageMin) {
-    leverageStatus = "low";
-  } else if (leverage > portfolio.leverageMax) {
-    leverageStatus = "high";
-  }
+  // Leverage, margin and deploy signals from the shared strategy engine
+  const currentState = calculateCurrentState(
+    {
+      initialCapital: portfolio.initialCapital,
+      positions,
+      dailyMetrics: latestDailyMetric ? [latestDailyMetric] : [],
+      metricsTimeseries,
+    },
+    latestPrices,
+    equity
+  );
+  const { leverage, marginRatio } = currentState;
+  const leverageStatus = getLeverageStatus(
+    leverage,
+    portfolio.leverageMin,
+    portfolio.leverageMax
+  );
+  const deploySignals = calculateDeploySignals(
+    currentState,
+    metricsTimeseries,
+    parseTargetWeights(portfolio.targetWeightsJson),
+    { ...portfolio, deployRules: parseDeployRules(portfolio.deployRulesJson) }
+  );
 
   // Check if today is contribution day
   const today = new Date();
@@ -193,14 +259,25 @@ async function calculatePortfolioState(
   const isContributionDay =
     portfolio.contributionEnabled && dayOfMonth === targetDay;
 
-  // Get pending contributions
-  const pendingContributions = await prisma.monthlyContribution.aggregate({
+  // Get pending contributions (staged ones count their undeployed remainder)
+  const pendingSums = await prisma.monthlyContribution.aggregate({
     where: {
       portfolioId: portfolio.id,
       deployed: false,
     },
-    _sum: { amount: true },
+    _sum: { amount: true, deployedAmount: true },
   });
+  const pendingContributions =
+    (pendingSums._sum.amount || 0) - (pendingSums._sum.deployedAmount || 0);
+
+  // Sell / contribution options when leverage is above the maximum
+  const deleveragingPlan =
+    leverageStatus === "high"
+      ? calculateDeleveragingPlan(
+          currentState,
+          Math.min(portfolio.leverageTarget, portfolio.leverageMax)
+        )
+      : null;
 
   // Generate alerts
   const alerts = generateAlerts(
@@ -209,7 +286,8 @@ async function calculatePortfolioState(
     marginRatio,
     leverageStatus,
     isContributionDay,
-    pendingContributions._sum.amount || 0
+    pendingContributions,
+    deleveragingPlan
   );
 
   // Get user email
@@ -229,8 +307,9 @@ async function calculatePortfolioState(
     leverageMin: portfolio.leverageMin,
     leverageMax: portfolio.leverageMax,
     leverageStatus,
+    deploySignals,
     isContributionDay,
-    pendingContributions: pendingContributions._sum.amount || 0,
+    pendingContributions,
     alerts,
     borrowedAmount,
   };
@@ -243,9 +322,10 @@ function generateAlerts(
   portfolio: any,
   leverage: number,
   marginRatio: number,
-  leverageStatus: "low" | "in_range" | "high",
+  leverageStatus: LeverageStatus,
   isContributionDay: boolean,
-  pendingContributions: number
+  pendingContributions: number,
+  deleveragingPlan: DeleveragingPlan | null
 ): Alert[] {
   const alerts: Alert[] = [];
 
@@ -275,10 +355,12 @@ function generateAlerts(
     });
   }
 
-  // Alert: Leverage too high (need extra contribution)
-  if (leverageStatus === "high") {
-    const targetEquity = portfolio.exposure / portfolio.leverageMax;
-    const extraNeeded = targetEquity - portfolio.equity;
+  // Alert: Leverage too high (extra contribution or sells)
+  if (leverageStatus === "high" && deleveragingPlan) {
+    const option = (type: string) =>
+      deleveragingPlan.options.find((o) => o.type === type);
+    const contributionNeeded = option("contribution")?.contribution || 0;
+    const sellsNeeded = option("sell")?.totalSells || 0;
 
     alerts.push({
       type: "leverage_high",
@@ -287,9 +369,11 @@ function generateAlerts(
         2
       )}x) por encima del máximo (${
         portfolio.leverageMax
-      }x). Se requiere aporte extra de ~$${Math.ceil(
-        extraNeeded
-      ).toLocaleString()} para reducir el riesgo.`,
+      }x). Para volver a ${deleveragingPlan.targetLeverage}x: aporte extra de ~$${Math.ceil(
+        contributionNeeded
+      ).toLocaleString()} o ventas de ~$${Math.ceil(
+        sellsNeeded
+      ).toLocaleString()} manteniendo los pesos.`,
       actionRequired: true,
     });
   }
@@ -450,6 +534,15 @@ async function runDailyCheck(): Promise<DailyCheckResult> {
       );
       console.log(`   Status: ${state.leverageStatus.toUpperCase()}`);
       console.log(`   Margin Ratio: ${(state.marginRatio * 100).toFixed(1)}%`);
+      console.log(
+        `   Deploy Fraction: ${(
+          state.deploySignals.deployFraction * 100
+        ).toFixed(0)}%${
+          state.deploySignals.matchedRule
+            ? ` (rule: ${state.deploySignals.matchedRule.name})`
+            : ""
+        }`
+      );
 
       if (state.isContributionDay) {
         console.log(`   📅 TODAY IS CONTRIBUTION DAY!`);
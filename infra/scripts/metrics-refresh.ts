@@ -9,20 +9,95 @@ import { PrismaClient } from "@prisma/client";
 import * as dotenv from "dotenv";
 import * as path from "path";
 
+import {
+  buildFxRateTable,
+  getConversionRates,
+  getCurrenciesToLoad,
+} from "../../apps/backend/src/fx/fx-rates";
+import { getHoldingsAt } from "../../apps/backend/src/position-history/holdings";
+
 // Load .env from backend directory
 dotenv.config({ path: path.resolve(__dirname, "../../apps/backend/.env") });
 
 const prisma = new PrismaClient();
 
 /**
- * Calculate portfolio metrics for a given date
+ * Positions held at the end of a date, rebuilt from the position snapshots
+ * Portfolios without snapshots fall back to their current positions
  */
-async function calculateMetrics(portfolioId: string, date: Date) {
-  // Get portfolio positions
-  const positions = await prisma.portfolioPosition.findMany({
+async function getPositionsAt(portfolioId: string, date: Date) {
+  const dateEnd = new Date(date);
+  dateEnd.setUTCHours(23, 59, 59, 999);
+
+  const hasHistory = await prisma.positionSnapshot.findFirst({
     where: { portfolioId },
-    include: { asset: true },
+    select: { id: true },
+  });
+  if (!hasHistory) {
+    return prisma.portfolioPosition.findMany({
+      where: { portfolioId },
+      include: { asset: true },
+    });
+  }
+
+  const snapshots = await prisma.positionSnapshot.findMany({
+    where: { portfolioId, recordedAt: { lte: dateEnd } },
+  });
+  const holdings = getHoldingsAt(snapshots, dateEnd);
+  const assets = await prisma.asset.findMany({
+    where: { id: { in: holdings.map((h) => h.assetId) } },
   });
+  const assetById = new Map(assets.map((a) => [a.id, a]));
+
+  return holdings.flatMap((h) => {
+    const asset = assetById.get(h.assetId);
+    return asset
+      ? [
+          {
+            assetId: h.assetId,
+            quantity: h.quantity,
+            avgPrice: h.avgPrice,
+            asset,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Base currency per unit of each quote currency at a date
+ * Currencies without a stored rate are valued 1:1
+ */
+async function getFxRatesAt(
+  quoteCurrencies: string[],
+  baseCurrency: string,
+  date: Date
+): Promise<Record<string, number>> {
+  const rows = await prisma.fxRate.findMany({
+    where: {
+      currency: { in: getCurrenciesToLoad(quoteCurrencies, baseCurrency) },
+      date: { lte: date },
+    },
+    select: { currency: true, date: true, usdRate: true },
+  });
+  const { rates, missing } = getConversionRates(
+    buildFxRateTable(rows),
+    quoteCurrencies,
+    baseCurrency,
+    date
+  );
+  for (const currency of missing) {
+    console.warn(`⚠️  No ${currency}/${baseCurrency} rate, valued 1:1`);
+  }
+  return rates;
+}
+
+/**
+ * Calculate portfolio metrics for a given date
+ */
+async function calculateMetrics(portfolioId: string, date: Date) {
+  // Get the positions held on that date
+  const positions = await getPositionsAt(portfolioId, date);
 
   if (positions.length === 0) {
     return null;
@@ -47,11 +122,25 @@ async function calculateMetrics(portfolioId: string, date: Date) {
 
   const priceMap = new Map(assetPrices.map((p) => [p.assetId, p.price]));
 
+  const portfolio = await prisma.portfolio.findUnique({
+    where: { id: portfolioId },
+  });
+
+  if (!portfolio) return null;
+
+  // Prices are in each asset's quote currency, exposure in the base currency
+  const fxRates = await getFxRatesAt(
+    positions.map((pos: typeof positions[0]) => pos.asset.quoteCurrency),
+    portfolio.baseCurrency,
+    date
+  );
+
   // Calculate total exposure
   let totalExposure = 0;
   for (const pos of positions) {
     const currentPrice = priceMap.get(pos.assetId) || pos.avgPrice;
-    totalExposure += pos.quantity * currentPrice;
+    totalExposure +=
+      pos.quantity * currentPrice * (fxRates[pos.asset.quoteCurrency] ?? 1);
   }
 
   // Get latest metrics to calculate base equity and borrowedAmount
@@ -164,12 +253,6 @@ async function calculateMetrics(portfolioId: string, date: Date) {
   let equity: number;
   let borrowedAmount: number | null = null;
 
-  const portfolio = await prisma.portfolio.findUnique({
-    where: { id: portfolioId },
-  });
-
-  if (!portfolio) return null;
-
   if (
     latestMetric &&
     latestMetric.borrowedAmount !== null &&
@@ -264,7 +347,8 @@ async function calculateMetrics(portfolioId: string, date: Date) {
   // Calculate current portfolio composition
   const composition = positions.map((pos: typeof positions[0]) => {
     const currentPrice = priceMap.get(pos.assetId) || pos.avgPrice;
-    const value = pos.quantity * currentPrice;
+    const value =
+      pos.quantity * currentPrice * (fxRates[pos.asset.quoteCurrency] ?? 1);
     const weight = totalExposure > 0 ? value / totalExposure : 0;
 
     return {
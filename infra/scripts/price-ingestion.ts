@@ -2,13 +2,19 @@
 
 /**
  * Daily price ingestion job
- * Fetches latest prices from Yahoo Finance and stores in database
+ * Fetches latest prices and FX rates from Yahoo Finance and stores in database
  */
 
 import { PrismaClient } from "@prisma/client";
 import * as dotenv from "dotenv";
 import * as path from "path";
 
+import {
+  FX_PIVOT_CURRENCY,
+  getFxSymbol,
+  parseQuoteCurrency,
+} from "../../apps/backend/src/fx/fx-rates";
+
 // Load .env from backend directory
 dotenv.config({ path: path.resolve(__dirname, "../../apps/backend/.env") });
 
@@ -22,6 +28,7 @@ interface YahooQuote {
 
 /**
  * Fetch current price from Yahoo Finance
+ * Prices quoted in minor units (e.g. GBp) are returned in the major currency
  * @param symbol - Ticker symbol
  */
 async function fetchPrice(symbol: string): Promise<number | null> {
@@ -30,9 +37,11 @@ async function fetchPrice(symbol: string): Promise<number | null> {
       `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1d&range=1d`
     );
     const data = (await response.json()) as any;
+    const meta = data.chart?.result?.[0]?.meta;
 
-    if (data.chart?.result?.[0]?.meta?.regularMarketPrice) {
-      return data.chart.result[0].meta.regularMarketPrice;
+    if (meta?.regularMarketPrice) {
+      const priceScale = parseQuoteCurrency(meta.currency)?.priceScale ?? 1;
+      return meta.regularMarketPrice * priceScale;
     }
 
     return null;
@@ -42,6 +51,51 @@ async function fetchPrice(symbol: string): Promise<number | null> {
   }
 }
 
+/**
+ * Store today's USD rate of every currency in use: asset quote currencies
+ * and portfolio base currencies
+ * @param today - Date of the rates (midnight UTC)
+ */
+async function ingestFxRates(today: Date) {
+  const [assets, portfolios] = await Promise.all([
+    prisma.asset.findMany({ select: { quoteCurrency: true } }),
+    prisma.portfolio.findMany({ select: { baseCurrency: true } }),
+  ]);
+  const currencies = Array.from(
+    new Set([
+      ...assets.map((a) => a.quoteCurrency),
+      ...portfolios.map((p) => p.baseCurrency),
+    ])
+  )
+    .filter((currency) => currency !== FX_PIVOT_CURRENCY)
+    .sort();
+
+  for (const currency of currencies) {
+    const symbol = getFxSymbol(currency);
+    console.log(`Fetching FX rate ${symbol}...`);
+    const usdRate = await fetchPrice(symbol);
+
+    if (usdRate !== null) {
+      await prisma.fxRate.upsert({
+        where: { currency_date: { currency, date: today } },
+        create: {
+          currency,
+          date: today,
+          usdRate,
+          source: "yahoo_finance",
+        },
+        update: { usdRate },
+      });
+      console.log(`✅ ${currency}: ${usdRate.toFixed(4)} USD`);
+    } else {
+      console.log(`❌ ${currency}: Failed to fetch FX rate`);
+    }
+
+    // Rate limiting
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
 /**
  * Main ingestion function
  */
@@ -88,7 +142,9 @@ async function ingestPrices() {
             adjClose: price,
           },
         });
-        console.log(`✅ ${asset.symbol}: $${price.toFixed(2)}`);
+        console.log(
+          `✅ ${asset.symbol}: ${price.toFixed(2)} ${asset.quoteCurrency}`
+        );
         successCount++;
       } else {
         console.log(`❌ ${asset.symbol}: Failed to fetch price`);
@@ -99,6 +155,9 @@ async function ingestPrices() {
       await new Promise((resolve) => setTimeout(resolve, 500));
     }
 
+    // FX rates of the same day, to value the prices in base currencies
+    await ingestFxRates(today);
+
     console.log("\n📊 Ingestion Summary:");
     console.log(`   Success: ${successCount}`);
     console.log(`   Failed: ${failCount}`);
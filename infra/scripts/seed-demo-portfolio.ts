@@ -370,12 +370,12 @@ async function seedDemoPortfolio() {
             assetId: assetMap[symbol],
             quantity: pos.quantity,
             avgPrice: prices[symbol],
-            exposureUsd: pos.value,
+            exposure: pos.value,
           },
           update: {
             quantity: pos.quantity,
             avgPrice: prices[symbol],
-            exposureUsd: pos.value,
+            exposure: pos.value,
           },
         });
 